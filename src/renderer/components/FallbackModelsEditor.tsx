@@ -0,0 +1,82 @@
+import { ActionIcon, Button, Flex, Stack, Text } from '@mantine/core'
+import { IconArrowUp, IconPlus, IconX } from '@tabler/icons-react'
+import { useTranslation } from 'react-i18next'
+import type { FallbackModel } from 'src/shared/types'
+import { ModelSelector } from './ModelSelector'
+import { ScalableIcon } from './ScalableIcon'
+
+export interface Props {
+  value: FallbackModel[]
+  onChange(value: FallbackModel[]): void
+}
+
+/**
+ * 回退链编辑：生成失败时按顺序尝试的模型
+ */
+export default function FallbackModelsEditor({ value, onChange }: Props) {
+  const { t } = useTranslation()
+
+  const handleAdd = (provider: string, model: string) => {
+    if (!provider || !model || value.some((item) => item.provider === provider && item.model === model)) {
+      return
+    }
+    onChange([...value, { provider, model }])
+  }
+
+  const handleMoveUp = (index: number) => {
+    const next = [...value]
+    ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
+    onChange(next)
+  }
+
+  return (
+    <Stack gap="xxs">
+      {value.length === 0 && (
+        <Text size="xs" c="chatbox-tertiary">
+          {t('No fallback models')}
+        </Text>
+      )}
+      {value.map((item, index) => (
+        <Flex key={`${item.provider}/${item.model}`} align="center" gap="xs">
+          <Text size="sm" c="chatbox-tertiary" w={16}>
+            {index + 1}
+          </Text>
+          <Text size="sm" flex={1} className="line-clamp-1">
+            {item.provider} / {item.model}
+          </Text>
+          <ActionIcon
+            variant="subtle"
+            color="chatbox-gray"
+            size="sm"
+            disabled={index === 0}
+            onClick={() => handleMoveUp(index)}
+            aria-label={t('Move up') || ''}
+          >
+            <ScalableIcon icon={IconArrowUp} size={14} />
+          </ActionIcon>
+          <ActionIcon
+            variant="subtle"
+            color="chatbox-gray"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            aria-label={t('Remove') || ''}
+          >
+            <ScalableIcon icon={IconX} size={14} />
+          </ActionIcon>
+        </Flex>
+      ))}
+      <ModelSelector onSelect={handleAdd} position="bottom-start">
+        <Button
+          variant="subtle"
+          color="chatbox-gray"
+          size="xs"
+          px={3}
+          className="self-start"
+          leftSection={<ScalableIcon icon={IconPlus} size={14} />}
+        >
+          {t('Add fallback model')}
+        </Button>
+      </ModelSelector>
+    </Stack>
+  )
+}
@@ -1,10 +1,15 @@
 import NiceModal from '@ebay/nice-modal-react'
 import { ActionIcon, Flex, Title, Tooltip } from '@mantine/core'
-import { IconLayoutSidebarLeftExpand, IconMenu2, IconPencil } from '@tabler/icons-react'
+import { IconArrowBackUp, IconLayoutSidebarLeftExpand, IconMenu2, IconPencil } from '@tabler/icons-react'
 import clsx from 'clsx'
 import { useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
-import { scheduleGenerateNameAndThreadName, scheduleGenerateThreadName } from '@/stores/sessionActions'
+import { useSessionList } from '@/stores/chatStore'
+import {
+  scheduleGenerateNameAndThreadName,
+  scheduleGenerateThreadName,
+  switchCurrentSession,
+} from '@/stores/sessionActions'
 import { useUIStore } from '@/stores/uiStore'
 import type { Session } from '../../shared/types'
 import useNeedRoomForWinControls from '../hooks/useNeedRoomForWinControls'
@@ -25,6 +30,11 @@ export default function Header(props: { session: Session }) {
 
   const { session: currentSession } = props
 
+  // 从其他会话的分支路径提取而来时，显示返回原会话的链接
+  const { sessionMetaList } = useSessionList()
+  const extractedFrom = currentSession.extractedFrom
+  const sourceSession = extractedFrom && sessionMetaList?.find((s) => s.id === extractedFrom.sessionId)
+
   // 会话名称自动生成
   useEffect(() => {
     const autoGenerateTitle = settingActions.getAutoGenerateTitle()
@@ -95,6 +105,20 @@ export default function Header(props: { session: Session }) {
             <ScalableIcon icon={IconPencil} size={20} />
           </ActionIcon>
         </Tooltip>
+
+        {sourceSession && (
+          <Tooltip label={t('Extracted from {{name}}', { name: sourceSession.name })}>
+            <ActionIcon
+              className="controls"
+              variant="subtle"
+              color="chatbox-tertiary"
+              size={20}
+              onClick={() => switchCurrentSession(sourceSession.id)}
+            >
+              <ScalableIcon icon={IconArrowBackUp} size={20} />
+            </ActionIcon>
+          </Tooltip>
+        )}
       </Flex>
 
       {/* 视图模式切换按钮 */}
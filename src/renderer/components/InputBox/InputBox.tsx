@@ -46,6 +46,7 @@ import { trackEvent } from '@/utils/track'
 import {
   type KnowledgeBase,
   type Message,
+  type MessageReference,
   ModelProviderEnum,
   type SessionType,
   type ShortcutSendValue,
@@ -67,6 +68,7 @@ import { ScalableIcon } from '../ScalableIcon'
 import { Keys } from '../Shortcut'
 import { ImageUploadButton } from './ImageUploadButton'
 import { ImageUploadInput } from './ImageUploadInput'
+import { MessageReferenceChips } from './MessageReferenceChips'
 import {
   cleanupFile,
   cleanupLink,
@@ -81,6 +83,8 @@ import { SessionSettingsButton } from './SessionSettingsButton'
 import TokenCountMenu from './TokenCountMenu'
 import { WebBrowsingButton } from './WebBrowsingButton'
 
+const EMPTY_REFERENCES: MessageReference[] = []
+
 export type InputBoxPayload = {
   constructedMessage: Message
   needGenerating?: boolean
@@ -172,6 +176,12 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
     const [showCompressionModal, setShowCompressionModal] = useState(false)
 
     const [links, setLinks] = useAtom(atoms.inputBoxLinksFamily(currentSessionId || 'new'))
+
+    // 从树形视图添加的节点引用
+    const messageReferences =
+      useUIStore((s) => (currentSessionId ? s.messageReferences[currentSessionId] : undefined)) ?? EMPTY_REFERENCES
+    const removeMessageReference = useUIStore((s) => s.removeMessageReference)
+    const clearMessageReferences = useUIStore((s) => s.clearMessageReferences)
     const [isSubmitting, setIsSubmitting] = useState(false)
 
     useEffect(() => {
@@ -214,10 +224,29 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
     }, [preConstructedMessage.preprocessingStatus])
 
     const disableSubmit = useMemo(
-      () => !(messageInput.trim() || links?.length || attachments?.length || pictureKeys?.length),
-      [messageInput, links, attachments, pictureKeys]
+      () =>
+        !(
+          messageInput.trim() ||
+          links?.length ||
+          attachments?.length ||
+          pictureKeys?.length ||
+          messageReferences.length
+        ),
+      [messageInput, links, attachments, pictureKeys, messageReferences]
     )
 
+    // 预演发送当前草稿时的上下文
+    const onInspectContext = useCallback(() => {
+      if (!currentSessionId) {
+        return
+      }
+      const draft =
+        preConstructedMessage.message && !disableSubmit
+          ? { ...preConstructedMessage.message, references: messageReferences.length ? messageReferences : undefined }
+          : undefined
+      void NiceModal.show('context-inspector', { sessionId: currentSessionId, draft })
+    }, [currentSessionId, preConstructedMessage.message, disableSubmit, messageReferences])
+
     const { providers } = useProviders()
     const modelSelectorDisplayText = useMemo(() => {
       if (!model) {
@@ -327,7 +356,9 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
         }
 
         const params: InputBoxPayload = {
-          constructedMessage: preConstructedMessage.message,
+          constructedMessage: messageReferences.length
+            ? { ...preConstructedMessage.message, references: messageReferences }
+            : preConstructedMessage.message,
           needGenerating,
           // 多模型模式下传递选中的模型列表
           multiModels: multiModelEnabled && selectedModels.length > 0 ? selectedModels : undefined,
@@ -336,6 +367,9 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
         // 重置输入内容
         clearDraft()
         setLinks([])
+        if (currentSessionId && messageReferences.length) {
+          clearMessageReferences(currentSessionId)
+        }
         // 重置预处理数据
         setPreConstructedMessage({
           text: '',
@@ -725,8 +759,15 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
             onPaste={onPaste}
           />
 
-          {(!!pictureKeys.length || !!attachments.length || !!links.length) && (
+          {(!!pictureKeys.length || !!attachments.length || !!links.length || !!messageReferences.length) && (
             <Flex px="sm" pb="xs" align="center" wrap="wrap" onClick={() => dom.focusMessageInput()}>
+              {currentSessionId && messageReferences.length > 0 && (
+                <MessageReferenceChips
+                  sessionId={currentSessionId}
+                  references={messageReferences}
+                  onRemove={(messageId) => removeMessageReference(currentSessionId, messageId)}
+                />
+              )}
               {pictureKeys?.map((picKey) => (
                 <ImageMiniCard key={picKey} storageKey={picKey} onDelete={() => onImageDeleteClick(picKey)} />
               ))}
@@ -961,6 +1002,7 @@ const InputBox = forwardRef<InputBoxRef, InputBoxProps>(
                     currentMessageCount={currentContextMessageIds?.length ?? 0}
                     maxContextMessageCount={currentSessionMergedSettings?.maxContextMessageCount}
                     onCompressClick={sessionId && !isNewSession ? () => setShowCompressionModal(true) : undefined}
+                    onInspectClick={sessionId && !isNewSession ? onInspectContext : undefined}
                   >
                     <Flex
                       align="center"
@@ -0,0 +1,56 @@
+import { Pill, Tooltip } from '@mantine/core'
+import { IconGitBranch, IconRobot, IconUser } from '@tabler/icons-react'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { MessageReference } from '../../../shared/types'
+import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
+import { indexSessionTree } from '@/lib/session-tree'
+import { useSession } from '@/stores/chatStore'
+
+interface MessageReferenceChipsProps {
+  sessionId: string
+  references: MessageReference[]
+  onRemove: (messageId: string) => void
+}
+
+export function MessageReferenceChips({ sessionId, references, onRemove }: MessageReferenceChipsProps) {
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+  const index = useMemo(() => (session ? indexSessionTree(session) : null), [session])
+
+  return (
+    <>
+      {references.map((reference) => {
+        const message = index?.messages.get(reference.messageId)
+        // 引用整个分支时显示分支标题和摘要
+        const branchSummary = reference.branch && message ? session?.branchSummaries?.[message.id] : undefined
+        const Icon = branchSummary ? IconGitBranch : reference.role === 'user' ? IconUser : IconRobot
+        const label = branchSummary
+          ? branchSummary.title
+          : message
+            ? getMessagePreviewText(message, 24) || t('Empty message')
+            : t('Deleted message')
+        const tooltip = branchSummary
+          ? branchSummary.summary || branchSummary.title
+          : message
+            ? getMessagePreviewText(message, 200)
+            : t('The referenced message no longer exists')
+        return (
+          <Tooltip key={reference.messageId} label={tooltip} multiline maw={320} withArrow>
+            <Pill
+              withRemoveButton
+              onRemove={() => onRemove(reference.messageId)}
+              className="m-1 border border-dashed border-chatbox-border-primary"
+              c={message ? undefined : 'dimmed'}
+            >
+              <span className="inline-flex items-center gap-1">
+                <Icon size={12} />
+                <span className={message ? undefined : 'line-through'}>{label}</span>
+              </span>
+            </Pill>
+          </Tooltip>
+        )
+      })}
+    </>
+  )
+}
@@ -1,5 +1,5 @@
 import { Flex, Menu, Text } from '@mantine/core'
-import { IconFileZip } from '@tabler/icons-react'
+import { IconFileZip, IconListSearch } from '@tabler/icons-react'
 import type { FC } from 'react'
 import { useTranslation } from 'react-i18next'
 import { formatNumber } from 'src/shared/utils'
@@ -15,6 +15,7 @@ type Props = {
   maxContextMessageCount?: number
   children?: React.ReactNode
   onCompressClick?: () => void
+  onInspectClick?: () => void
 }
 
 const TokenCountMenu: FC<Props> = ({
@@ -26,6 +27,7 @@ const TokenCountMenu: FC<Props> = ({
   maxContextMessageCount,
   children,
   onCompressClick,
+  onInspectClick,
 }) => {
   const { t } = useTranslation()
   const isSmallScreen = useIsSmallScreen()
@@ -102,6 +104,15 @@ const TokenCountMenu: FC<Props> = ({
           </Menu.Item>
         )}
 
+        {onInspectClick && (
+          <>
+            <Menu.Divider />
+            <Menu.Item leftSection={<ScalableIcon icon={IconListSearch} size={16} />} onClick={onInspectClick}>
+              {t('Inspect context')}
+            </Menu.Item>
+          </>
+        )}
+
         {onCompressClick && contextTokens > 0 && (
           <>
             <Menu.Divider />
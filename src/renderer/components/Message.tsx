@@ -28,6 +28,7 @@ import { useTranslation } from 'react-i18next'
 import { Gallery, Item as GalleryItem } from 'react-photoswipe-gallery'
 import Markdown from '@/components/Markdown'
 import { useIsSmallScreen } from '@/hooks/useScreenChange'
+import { getCacheHitRate } from '@/lib/prompt-cache'
 import { cn } from '@/lib/utils'
 import { navigateToSettings } from '@/modals/Settings'
 import { copyToClipboard } from '@/packages/navigator'
@@ -50,6 +51,7 @@ import { AssistantAvatar, SystemAvatar, UserAvatar } from './Avatar'
 import Loading from './icons/Loading'
 import MessageErrTips from './MessageErrTips'
 import MessageStatuses from './MessageLoading'
+import { StructuredOutputUI } from './message-parts/StructuredOutputUI'
 import { ReasoningContentUI, ToolCallPartUI } from './message-parts/ToolCallPartUI'
 import { ScalableIcon } from './ScalableIcon'
 
@@ -201,7 +203,10 @@ const _Message: FC<Props> = (props) => {
     }
     if (showTokenUsed && msg.role === 'assistant' && !msg.generating) {
       tips.push(`tokens used: ${msg.usage?.totalTokens ? msg.usage.totalTokens : msg.tokensUsed || 'unknown'}`)
-      // `tokens used: ${msg.usage?.totalTokens ? `${msg.usage.totalTokens}${msg.usage.cachedInputTokens ? `(cached: ${msg.usage.cachedInputTokens})` : ''}` : msg.tokensUsed || 'unknown'}`
+      const cacheHitRate = getCacheHitRate(msg.usage)
+      if (cacheHitRate) {
+        tips.push(`cache hit rate: ${Math.round(cacheHitRate * 100)}% (${msg.usage?.cachedInputTokens} cached)`)
+      }
     }
     if (showFirstTokenLatency && msg.role === 'assistant' && !msg.generating) {
       const latency = msg.firstTokenLatency ? `${msg.firstTokenLatency}ms` : 'unknown'
@@ -210,6 +215,10 @@ const _Message: FC<Props> = (props) => {
     if (showModelName && props.msg.role === 'assistant') {
       tips.push(`model: ${props.msg.model || 'unknown'}`)
     }
+    if (msg.contextTrim && !msg.generating) {
+      const trimmedCount = msg.contextTrim.excludedMessageIds.length
+      tips.push(trimmedCount > 0 ? t('{{count}} messages trimmed', { count: trimmedCount }) : t('Context trimmed'))
+    }
   } else if (props.sessionType === 'picture') {
     if (showModelName && props.msg.role === 'assistant') {
       tips.push(`model: ${props.msg.model || 'unknown'}`)
@@ -478,6 +487,9 @@ const _Message: FC<Props> = (props) => {
                   ))}
                 </div>
               )}
+              {msg.structuredOutput && !msg.generating && (
+                <StructuredOutputUI structuredOutput={msg.structuredOutput} />
+              )}
               <MessageErrTips msg={msg} />
               {needCollapse && !isCollapsed && CollapseButton}
 
@@ -78,10 +78,10 @@ const MessageList = forwardRef<MessageListRef, MessageListProps>((props, ref) =>
   const currentMessageList = useMemo(() => getAllMessageList(currentSession), [currentSession])
 
   // 检查是否存在多分支
-  const hasBranches = useMemo(() => {
-    if (!currentSession.messageForksHash) return false
-    return Object.values(currentSession.messageForksHash).some(fork => fork.lists.length > 1)
-  }, [currentSession.messageForksHash])
+  const hasBranches = useMemo(
+    () => Object.values(currentSession.messageGraph?.nodes ?? {}).some((node) => (node.fork?.lists.length ?? 0) > 1),
+    [currentSession.messageGraph]
+  )
 
   const virtuoso = useRef<VirtuosoHandle>(null)
   const messageListRef = useRef<HTMLDivElement>(null)
@@ -408,6 +408,9 @@ function ForkNav(props: { sessionId: string; msgId: string; forks: NonNullable<S
         ]}
       >
         <Text c={flash ? 'chatbox-secondary' : 'chatbox-tertiary'} size="xs" className="cursor-pointer">
+          {forks.lists[forks.position]?.name && (
+            <span className="mr-1 inline-block max-w-32 truncate align-bottom">{forks.lists[forks.position].name}</span>
+          )}
           {forks.position + 1} / {forks.lists.length}
         </Text>
       </ActionMenu>
@@ -7,6 +7,7 @@ import {
   type ShortcutSetting,
   shortcutSendValues,
   shortcutToggleWindowValues,
+  shortcutTreeValues,
 } from '@/../shared/types'
 import { getOS } from '@/packages/navigator'
 import { ScalableIcon } from './ScalableIcon'
@@ -185,6 +186,72 @@ export function ShortcutConfig(props: {
       // name: 'optionSelect',
       keys: shortcuts.optionSelect,
     },
+    {
+      label: t('Select parent node'),
+      name: 'treeNavParent',
+      keys: shortcuts.treeNavParent,
+      options: shortcutTreeValues.treeNavParent,
+    },
+    {
+      label: t('Select child node'),
+      name: 'treeNavChild',
+      keys: shortcuts.treeNavChild,
+      options: shortcutTreeValues.treeNavChild,
+    },
+    {
+      label: t('Select previous sibling'),
+      name: 'treeNavPrevSibling',
+      keys: shortcuts.treeNavPrevSibling,
+      options: shortcutTreeValues.treeNavPrevSibling,
+    },
+    {
+      label: t('Select next sibling'),
+      name: 'treeNavNextSibling',
+      keys: shortcuts.treeNavNextSibling,
+      options: shortcutTreeValues.treeNavNextSibling,
+    },
+    {
+      label: t('Open node details'),
+      name: 'treeOpenDetail',
+      keys: shortcuts.treeOpenDetail,
+      options: shortcutTreeValues.treeOpenDetail,
+    },
+    {
+      label: t('Edit message'),
+      name: 'treeEditMessage',
+      keys: shortcuts.treeEditMessage,
+      options: shortcutTreeValues.treeEditMessage,
+    },
+    {
+      label: t('Regenerate response'),
+      name: 'treeRegenerate',
+      keys: shortcuts.treeRegenerate,
+      options: shortcutTreeValues.treeRegenerate,
+    },
+    {
+      label: t('Create branch from node'),
+      name: 'treeCreateBranch',
+      keys: shortcuts.treeCreateBranch,
+      options: shortcutTreeValues.treeCreateBranch,
+    },
+    {
+      label: t('Delete node'),
+      name: 'treeDeleteNode',
+      keys: shortcuts.treeDeleteNode,
+      options: shortcutTreeValues.treeDeleteNode,
+    },
+    {
+      label: t('Quote node'),
+      name: 'treeQuoteNode',
+      keys: shortcuts.treeQuoteNode,
+      options: shortcutTreeValues.treeQuoteNode,
+    },
+    {
+      label: t('Show tree shortcuts'),
+      name: 'treeShowShortcuts',
+      keys: shortcuts.treeShowShortcuts,
+      options: shortcutTreeValues.treeShowShortcuts,
+    },
   ]
   const isConflict = (name: ShortcutName, shortcut: string) => {
     for (const item of items) {
@@ -0,0 +1,84 @@
+import { Button, FileButton, Flex, Stack, Text, Textarea } from '@mantine/core'
+import { IconFileUpload } from '@tabler/icons-react'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { parseStructuredOutputSchema } from '@/lib/structured-output'
+import { ScalableIcon } from './ScalableIcon'
+
+export interface Props {
+  /** JSON Schema 文本 */
+  value: string
+  onChange(value: string): void
+  size?: 'xs' | 'sm'
+  label?: string
+}
+
+const PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "name": { "type": "string" }
+  },
+  "required": ["name"]
+}`
+
+/**
+ * 获取 JSON Schema 文本的错误，为空或合法时返回 null
+ */
+export function getStructuredOutputSchemaError(value: string): string | null {
+  try {
+    parseStructuredOutputSchema({ schema: value })
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * 结构化输出的 JSON Schema 编辑：粘贴或从文件载入
+ */
+export default function StructuredOutputEditor({ value, onChange, size = 'sm', label }: Props) {
+  const { t } = useTranslation()
+  const error = useMemo(() => getStructuredOutputSchemaError(value), [value])
+
+  const handleFile = async (file: File | null) => {
+    if (file) {
+      onChange(await file.text())
+    }
+  }
+
+  return (
+    <Stack gap="xxs">
+      <Textarea
+        size={size}
+        label={label}
+        placeholder={PLACEHOLDER}
+        minRows={4}
+        maxRows={12}
+        autosize
+        value={value}
+        error={error}
+        onChange={(e) => onChange(e.currentTarget.value)}
+        classNames={{ input: 'font-mono' }}
+      />
+      <Flex align="center" justify="space-between" gap="xs">
+        <Text size="xs" c="chatbox-tertiary">
+          {t('Replies are validated against this JSON Schema')}
+        </Text>
+        <FileButton accept="application/json,.json" onChange={handleFile}>
+          {(props) => (
+            <Button
+              {...props}
+              variant="subtle"
+              color="chatbox-gray"
+              size="xs"
+              px={3}
+              leftSection={<ScalableIcon icon={IconFileUpload} size={14} />}
+            >
+              {t('Load from file')}
+            </Button>
+          )}
+        </FileButton>
+      </Flex>
+    </Stack>
+  )
+}
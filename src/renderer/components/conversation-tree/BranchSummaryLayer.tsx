@@ -0,0 +1,88 @@
+/**
+ * 分支摘要层
+ * 画布缩小到一定程度、节点内容看不清时，在每个分支的第一条节点上方显示分支标题和摘要
+ * 必须在 ReactFlow 内部使用
+ */
+
+import { memo } from 'react'
+import { ActionIcon, Tooltip } from '@mantine/core'
+import { IconQuote } from '@tabler/icons-react'
+import { useViewport, ViewportPortal } from '@xyflow/react'
+import { useTranslation } from 'react-i18next'
+import { BRANCH_SUMMARY_ZOOM_THRESHOLD, type PositionedBranchSummary } from '@/lib/branch-summaries'
+
+// ============ 类型定义 ============
+
+export interface BranchSummaryLayerProps {
+  /** 已计算画布位置的分支摘要 */
+  summaries: PositionedBranchSummary[]
+  /** 标题宽度，与节点宽度一致 */
+  width: number
+  /** 将整个分支作为引用添加到输入框 */
+  onReference: (headId: string) => void
+}
+
+// ============ 常量 ============
+
+/** 文字随缩小而放大，但不超过该倍数，避免遮挡相邻分支 */
+const MAX_TEXT_SCALE = 2.5
+/** 标题与节点之间的间距（画布坐标） */
+const HEADER_GAP = 12
+
+// ============ 组件 ============
+
+function BranchSummaryLayerComponent({ summaries, width, onReference }: BranchSummaryLayerProps) {
+  const { t } = useTranslation()
+  const { zoom } = useViewport()
+
+  if (summaries.length === 0 || zoom >= BRANCH_SUMMARY_ZOOM_THRESHOLD) {
+    return null
+  }
+
+  const scale = Math.min(1 / zoom, MAX_TEXT_SCALE)
+
+  return (
+    <ViewportPortal>
+      {summaries.map((summary) => (
+        <div
+          key={summary.headId}
+          className="group nopan nodrag absolute pointer-events-auto rounded-lg border border-violet-300 bg-violet-50/95 px-3 py-2 shadow-sm dark:border-violet-700 dark:bg-violet-950/90"
+          style={{
+            transform: `translate(${summary.x}px, ${summary.y - HEADER_GAP}px) translateY(-100%)`,
+            width,
+            fontSize: 12 * scale,
+          }}
+        >
+          <div className="flex items-start gap-1">
+            <div className="flex-1 font-semibold leading-tight text-violet-800 dark:text-violet-200 line-clamp-2">
+              {summary.title}
+            </div>
+            <Tooltip label={t('Reference branch summary in next message')} withArrow>
+              <ActionIcon
+                size={16 * scale}
+                variant="subtle"
+                color="violet"
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onReference(summary.headId)
+                }}
+              >
+                <IconQuote size={12 * scale} />
+              </ActionIcon>
+            </Tooltip>
+          </div>
+          {summary.summary && (
+            <div className="mt-1 leading-snug text-gray-600 dark:text-gray-300 line-clamp-3" title={summary.summary}>
+              {summary.summary}
+            </div>
+          )}
+        </div>
+      ))}
+    </ViewportPortal>
+  )
+}
+
+export const BranchSummaryLayer = memo(BranchSummaryLayerComponent)
+
+export default BranchSummaryLayer
@@ -8,6 +8,7 @@ import {
   ReactFlow,
   Controls,
   Background,
+  MiniMap,
   BackgroundVariant,
   useNodesState,
   useEdgesState,
@@ -20,28 +21,73 @@ import {
 } from '@xyflow/react'
 import '@xyflow/react/dist/style.css'
 import { modals } from '@mantine/modals'
+import NiceModal from '@ebay/nice-modal-react'
 import { useTranslation } from 'react-i18next'
 
-import type { Session, Message } from 'src/shared/types'
-import { sessionToConversationTree, debugPrintTree, type TreeNodeData } from '@/lib/conversation-tree-adapter'
-import { applyTreeLayout, forceRelayout } from '@/lib/tree-layout'
+import type { Session, Message, GenerationOverride, TreeAnnotation, TreeAnnotationKind } from 'src/shared/types'
+import { collectSubtreeIds } from '@/lib/session-tree'
+import {
+  collapseConversationTree,
+  debugPrintTree,
+  findNodePath,
+  getInactiveBranchHeadIds,
+  isTreeEdge,
+  type ConversationNode,
+  type ConversationTree,
+  type TreeNodeData,
+} from '@/lib/conversation-tree-adapter'
+import { DEFAULT_TREE_LAYOUT_MODE, forceRelayout } from '@/lib/tree-layout'
+import { createConversationTreeBuilder, createIncrementalTreeLayout } from '@/lib/tree-incremental'
+import { searchConversationTree } from '@/lib/tree-search'
+import { layoutTreeAnnotations } from '@/lib/tree-annotations'
+import { layoutBranchSummaries } from '@/lib/branch-summaries'
+import { findNeighborNodeId, getTreeKeyboardAction, type TreeKeyboardAction } from '@/lib/tree-keyboard'
 import { useViewModeStore } from '@/stores/viewModeStore'
 import { useUIStore } from '@/stores/uiStore'
 import { useMultiModelStore } from '@/stores/multiModelStore'
+import { useSettingsStore } from '@/stores/settingsStore'
 import { useMantineColorScheme } from '@mantine/core'
 import { nodeTypes } from './nodes'
 import { edgeTypes } from './edges'
 import { cn } from '@/lib/utils'
+import BranchSummaryLayer from './BranchSummaryLayer'
 import MessageDetailPanel from './MessageDetailPanel'
 import NodeCreatePopover from './NodeCreatePopover'
 import SelectionBoundingBox from './SelectionBoundingBox'
-import { insertMessageAfter, generateMore, switchFork, createNewFork, regenerateInNewFork, removeMessage } from '@/stores/sessionActions'
-import { restoreSessionMessages } from '@/stores/chatStore'
+import TreeAnnotationLayer from './TreeAnnotationLayer'
+import TreeSearchBar from './TreeSearchBar'
+import TreeShortcutsHelp from './TreeShortcutsHelp'
+import { getBranchColor } from './utils'
+import {
+  insertMessageAfter,
+  generateMore,
+  switchFork,
+  createNewFork,
+  regenerateInNewFork,
+  removeMessages,
+  addMessageReferencesToInput,
+  addBranchReferenceToInput,
+  switchToMessageBranch,
+  reparentMessage,
+  addTreeAnnotation,
+  updateTreeAnnotation,
+  removeTreeAnnotation,
+} from '@/stores/sessionActions'
+import {
+  jumpToTreeHistoryEntry,
+  recordNodePositionsChange,
+  redoTreeChange,
+  undoTreeChange,
+  withTreeHistory,
+} from '@/stores/treeHistoryActions'
+import * as toastActions from '@/stores/toastActions'
+import { BRANCH_COMPARE_MAX, BRANCH_COMPARE_MIN } from '@/modals/BranchCompare'
 import { createMessage } from 'src/shared/types'
 
 // ============ 常量 ============
 
 const EMPTY_POSITIONS: Record<string, { x: number; y: number }> = {}
+const EMPTY_COLLAPSED: string[] = []
 
 /** 节点默认宽度 */
 const NODE_WIDTH = 260
@@ -56,7 +102,7 @@ export interface ConversationTreeViewProps {
   session: Session
   className?: string
   onCreateUserNode?: (content: string, targetMessageId: string) => void
-  onCreateAssistantNode?: (targetMessageId: string) => void
+  onCreateAssistantNode?: (targetMessageId: string, override?: GenerationOverride) => void
   onUseBottomInput?: (targetMessageId: string) => void
 }
 
@@ -70,7 +116,7 @@ function ConversationTreeViewInner({
   onUseBottomInput,
 }: ConversationTreeViewProps) {
   const { t } = useTranslation()
-  const { fitView, getViewport, setViewport, setCenter } = useReactFlow()
+  const { fitView, getViewport, setViewport, setCenter, getNode, getIntersectingNodes } = useReactFlow()
   const { colorScheme } = useMantineColorScheme()
   const realTheme = useUIStore((state) => state.realTheme)
   const isDarkMode = colorScheme === 'dark' || realTheme === 'dark'
@@ -88,10 +134,13 @@ function ConversationTreeViewInner({
   const nodePositionsFromStore = useViewModeStore((s) => s.nodePositions[session.id]) ?? EMPTY_POSITIONS
   const saveSessionViewport = useViewModeStore((s) => s.saveSessionViewport)
   const sessionViewport = useViewModeStore((s) => s.sessionViewports[session.id])
+  const collapsedNodeIds = useViewModeStore((s) => s.collapsedNodes[session.id]) ?? EMPTY_COLLAPSED
+  const layoutMode = useViewModeStore((s) => s.layoutModes[session.id]) ?? DEFAULT_TREE_LAYOUT_MODE
+  const collapseNodes = useViewModeStore((s) => s.collapseNodes)
+  const expandNodes = useViewModeStore((s) => s.expandNodes)
+  const expandAllNodes = useViewModeStore((s) => s.expandAllNodes)
   const setQuote = useUIStore((state) => state.setQuote)
-  const saveTreeUndoState = useViewModeStore((s) => s.saveTreeUndoState)
-  const getTreeUndoState = useViewModeStore((s) => s.getTreeUndoState)
-  const clearTreeUndoState = useViewModeStore((s) => s.clearTreeUndoState)
+  const shortcuts = useSettingsStore((state) => state.shortcuts)
   
   // 多模型配置
   const multiModelEnabled = useMultiModelStore((s) => s.multiModelEnabled)
@@ -99,10 +148,30 @@ function ConversationTreeViewInner({
   
   // Refs
   const prevSessionRef = useRef<string | null>(null)
+  const prevLayoutModeRef = useRef(layoutMode)
   const containerRef = useRef<HTMLDivElement>(null)
   const pendingPositionSaveRef = useRef<Record<string, { x: number; y: number }>>({})
   const isInitialMountRef = useRef<boolean>(true)
   const isNodeClickRef = useRef<boolean>(false) // 标记是否是节点点击触发的选中变化
+  const dragStartPositionsRef = useRef<Record<string, { x: number; y: number }>>({})
+  const dragSubtreeIdsRef = useRef<Set<string>>(new Set()) // 拖拽节点的子树，不能作为新的父节点
+  const pendingCenterNodeIdRef = useRef<string | null>(null) // 等待展开后居中的节点
+  const syncedSourceNodesRef = useRef<Map<string, ConversationNode>>(new Map()) // 上次同步到画布的树节点，用于跳过未变化的节点
+  const prevDebugEdgesRef = useRef<ConversationTree['edges'] | null>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
+  // 搜索状态
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchIndex, setSearchIndex] = useState(-1)
+
+  // 拖拽节点时悬停的目标节点（松开后将子树移动到该节点下）
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  // 快捷键列表
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false)
+
+  // 正在编辑文字的标注（新建后直接进入编辑）
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null)
   
   // 消息详情面板状态
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null)
@@ -115,16 +184,29 @@ function ConversationTreeViewInner({
   const [popoverMessage, setPopoverMessage] = useState<Message | null>(null)
   const [popoverIsLeaf, setPopoverIsLeaf] = useState(true)
 
-  // 将 Session 转换为树结构并应用布局
+  // 带缓存的树构建和布局：流式输出时树结构不变，只更新正在生成的节点，不重新布局
+  const buildTree = useMemo(() => createConversationTreeBuilder(), [])
+  const layoutTree = useMemo(() => createIncrementalTreeLayout(), [])
+
+  // 将 Session 转换为完整的树结构（包含折叠隐藏的节点）
+  const fullTree = useMemo(() => buildTree(session), [buildTree, session])
+
+  // 隐藏折叠节点的子孙节点，只对可见节点应用布局
   const tree = useMemo(() => {
-    const rawTree = sessionToConversationTree(session)
+    const visibleTree = collapseConversationTree(fullTree, collapsedNodeIds)
     // 传递保存的节点位置，让布局算法基于已有位置计算新节点位置
-    const layoutedTree = applyTreeLayout(rawTree, { savedPositions: nodePositionsFromStore })
-    if (process.env.NODE_ENV === 'development') {
+    const layoutedTree = layoutTree(visibleTree, { mode: layoutMode, savedPositions: nodePositionsFromStore })
+    if (process.env.NODE_ENV === 'development' && layoutedTree.edges !== prevDebugEdgesRef.current) {
+      prevDebugEdgesRef.current = layoutedTree.edges
       debugPrintTree(layoutedTree)
     }
     return layoutedTree
-  }, [session, nodePositionsFromStore])
+  }, [fullTree, layoutTree, collapsedNodeIds, layoutMode, nodePositionsFromStore])
+
+  // 搜索匹配的节点（包含折叠隐藏的节点，跳转时自动展开）
+  const searchMatches = useMemo(() => searchConversationTree(fullTree, searchQuery), [fullTree, searchQuery])
+  const searchMatchSet = useMemo(() => new Set(searchMatches), [searchMatches])
+  const currentSearchMatchId = searchMatches[searchIndex] ?? null
 
   // 初始化节点时优先使用保存的位置
   const initialNodes = useMemo(() => {
@@ -135,11 +217,14 @@ function ConversationTreeViewInner({
   }, [tree.nodes, nodePositionsFromStore])
 
   // ReactFlow 状态
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes as any)
+  const [nodes, setNodes, onNodesChange] = useNodesState<ConversationNode>(initialNodes)
   const [edges, setEdges, onEdgesChange] = useEdgesState(tree.edges as any)
 
   // 根据节点 ID 获取消息
   const getMessageById = useCallback((nodeId: string): Message | null => {
+    const graphMsg = session.messageGraph?.nodes[nodeId]?.message
+    if (graphMsg) return graphMsg
+
     const mainMsg = session.messages.find(m => m.id === nodeId)
     if (mainMsg) return mainMsg
     
@@ -152,7 +237,7 @@ function ConversationTreeViewInner({
       }
     }
     return null
-  }, [session.messages, session.messageForksHash])
+  }, [session.messageGraph, session.messages, session.messageForksHash])
 
   // 检查节点是否为叶子节点
   const isLeafNode = useCallback((nodeId: string): boolean => {
@@ -163,19 +248,24 @@ function ConversationTreeViewInner({
 
   // 查找消息的父消息 ID
   const findParentMessageId = useCallback((messageId: string): string | null => {
-    const edge = tree.edges.find(e => e.target === messageId)
+    const edge = tree.edges.find(e => e.target === messageId && isTreeEdge(e))
     return edge?.source || null
   }, [tree.edges])
 
-  // 当树结构变化时更新节点和边（保留已有位置）
+  // 当树结构变化时更新节点和边（保留已有位置，切换布局时使用新布局的位置）
   useEffect(() => {
+    const isLayoutChange = prevLayoutModeRef.current !== layoutMode
+    prevLayoutModeRef.current = layoutMode
+
     const timeoutId = setTimeout(() => {
       setNodes((currentNodes) => {
-        const currentPositionMap = new Map(currentNodes.map(n => [n.id, n.position]))
+        const currentNodeMap = new Map(currentNodes.map(n => [n.id, n]))
+        const syncedSourceNodes = syncedSourceNodesRef.current
         const newPositionsToSave: Record<string, { x: number; y: number }> = {}
         
         const updatedNodes = tree.nodes.map(node => {
-          const currentPosition = currentPositionMap.get(node.id)
+          const currentNode = currentNodeMap.get(node.id)
+          const currentPosition = isLayoutChange ? undefined : currentNode?.position
           const savedPosition = nodePositionsFromStore[node.id]
           const finalPosition = currentPosition || savedPosition || node.position
           
@@ -187,14 +277,34 @@ function ConversationTreeViewInner({
           const isSelected = interactionMode === 'click' 
             ? node.id === selectedNodeId
             : selectedNodeIds.includes(node.id)
+          const isSearchMatch = searchMatchSet.has(node.id)
+          const isCurrentSearchMatch = node.id === currentSearchMatchId
+
+          // 树节点和外部状态都没有变化时沿用原节点对象，节点组件不会重新渲染
+          if (
+            currentNode &&
+            currentPosition &&
+            syncedSourceNodes.get(node.id) === node &&
+            currentNode.selected === isSelected &&
+            (currentNode.data as TreeNodeData).isSearchMatch === isSearchMatch &&
+            (currentNode.data as TreeNodeData).isCurrentSearchMatch === isCurrentSearchMatch
+          ) {
+            return currentNode
+          }
           
           return { 
             ...node, 
             position: finalPosition,
             selected: isSelected, // ReactFlow 的选中状态
-            data: { ...node.data, isSelected } // 自定义的选中状态
+            data: {
+              ...node.data,
+              isSelected, // 自定义的选中状态
+              isSearchMatch,
+              isCurrentSearchMatch,
+            },
           }
         })
+        syncedSourceNodesRef.current = new Map(tree.nodes.map(n => [n.id, n]))
         
         if (Object.keys(newPositionsToSave).length > 0) {
           pendingPositionSaveRef.current = { ...pendingPositionSaveRef.current, ...newPositionsToSave }
@@ -203,6 +313,9 @@ function ConversationTreeViewInner({
         return updatedNodes as any
       })
       setEdges(tree.edges as any)
+      if (isLayoutChange) {
+        setTimeout(() => fitView({ padding: 0.2, duration: 300 }), 50)
+      }
     }, 0)
 
     // 会话切换或组件首次挂载时处理视口
@@ -229,7 +342,7 @@ function ConversationTreeViewInner({
     }
 
     return () => clearTimeout(timeoutId)
-  }, [tree, session.id, setNodes, setEdges, fitView, nodePositionsFromStore, sessionViewport, setViewport, selectedNodeId, selectedNodeIds, interactionMode])
+  }, [tree, session.id, setNodes, setEdges, fitView, nodePositionsFromStore, sessionViewport, setViewport, selectedNodeId, selectedNodeIds, interactionMode, searchMatchSet, currentSearchMatchId, layoutMode])
 
   // 选中状态变化时更新节点的 isSelected 属性
   useEffect(() => {
@@ -253,6 +366,19 @@ function ConversationTreeViewInner({
     )
   }, [selectedNodeId, selectedNodeIds, interactionMode, setNodes])
 
+  // 拖放目标变化时更新节点的 isDropTarget 属性
+  useEffect(() => {
+    setNodes((currentNodes) =>
+      currentNodes.map(node => {
+        const isDropTarget = node.id === dropTargetId
+        if (!!(node.data as TreeNodeData).isDropTarget === isDropTarget) {
+          return node
+        }
+        return { ...node, data: { ...node.data, isDropTarget } }
+      }) as any
+    )
+  }, [dropTargetId, setNodes])
+
   // 延迟保存新节点位置（避免循环更新）
   useEffect(() => {
     const saveTimer = setTimeout(() => {
@@ -356,10 +482,24 @@ function ConversationTreeViewInner({
     }
   }, [session.id])
 
-  // 节点拖拽结束 - 保存位置
-  const handleNodeDragStop = useCallback((_event: React.MouseEvent, node: Node) => {
-    updateNodePosition(session.id, node.id, node.position)
-  }, [session.id, updateNodePosition])
+  // 节点拖拽开始 - 记录拖拽前的位置用于撤销
+  const handleNodeDragStart = useCallback((_event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+    dragStartPositionsRef.current = Object.fromEntries(draggedNodes.map(n => [n.id, n.position]))
+    dragSubtreeIdsRef.current = draggedNodes.length === 1 ? collectSubtreeIds(session, node.id) : new Set()
+  }, [session])
+
+  // 节点拖拽中 - 单个节点拖到其他节点上时，标记可作为新父节点的目标
+  const handleNodeDrag = useCallback((_event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+    const parentId = findParentMessageId(node.id)
+    if (draggedNodes.length !== 1 || !parentId) {
+      setDropTargetId(null)
+      return
+    }
+    const target = getIntersectingNodes(node).find(
+      (n) => n.id !== parentId && !dragSubtreeIdsRef.current.has(n.id)
+    )
+    setDropTargetId(target?.id ?? null)
+  }, [findParentMessageId, getIntersectingNodes])
 
   // 画布点击 - 在单击模式下取消选中
   const handlePaneClick = useCallback(() => {
@@ -425,16 +565,7 @@ function ConversationTreeViewInner({
       children: t('Are you sure you want to delete {{count}} node(s)?', { count: idsToDelete.length }),
       labels: { confirm: t('delete'), cancel: t('cancel') },
       confirmProps: { color: 'red' },
-      onConfirm: () => {
-        // 在删除前保存当前状态用于撤销
-        saveTreeUndoState({
-          sessionId: session.id,
-          messagesSnapshot: JSON.stringify(session.messages),
-          messageForksHashSnapshot: session.messageForksHash ? JSON.stringify(session.messageForksHash) : null,
-          deletedCount: idsToDelete.length,
-          timestamp: Date.now(),
-        })
-        
+      onConfirm: async () => {
         // 按深度倒序删除，先删除子节点
         const sortedIds = [...idsToDelete].sort((a, b) => {
           const nodeA = tree.nodes.find(n => n.id === a)
@@ -442,18 +573,21 @@ function ConversationTreeViewInner({
           return (nodeB?.data.depth || 0) - (nodeA?.data.depth || 0)
         })
         
-        for (const nodeId of sortedIds) {
-          removeMessage(session.id, nodeId)
+        // 作为一次操作删除，撤销时一起恢复
+        try {
+          await removeMessages(session.id, sortedIds)
+        } catch (error) {
+          console.error('Failed to delete nodes:', error)
+          toastActions.add(t('Failed to delete nodes: {{error}}', { error: (error as Error)?.message ?? `${error}` }))
         }
         clearSelection()
       },
     })
-  }, [interactionMode, selectedNodeId, selectedNodeIds, session.id, session.messages, session.messageForksHash, tree.nodes, clearSelection, saveTreeUndoState, t])
+  }, [interactionMode, selectedNodeId, selectedNodeIds, session.id, tree.nodes, clearSelection, t])
 
   // 自动整理布局
   const handleAutoLayout = useCallback(() => {
-    const rawTree = sessionToConversationTree(session)
-    const layoutedTree = forceRelayout(rawTree)
+    const layoutedTree = forceRelayout(collapseConversationTree(fullTree, collapsedNodeIds), { mode: layoutMode })
     
     // 更新所有节点位置
     const newPositions: Record<string, { x: number; y: number }> = {}
@@ -461,7 +595,9 @@ function ConversationTreeViewInner({
       newPositions[node.id] = node.position
     }
     
-    // 清除旧位置并设置新位置
+    // 清除旧位置并设置新位置，折叠的节点展开时也按新布局重新计算
+    recordNodePositionsChange(session.id, 'auto-layout', nodePositionsFromStore, newPositions)
+    layoutTree.reset()
     clearNodePositions(session.id)
     updateNodePositions(session.id, newPositions)
     
@@ -470,25 +606,142 @@ function ConversationTreeViewInner({
     
     // 适配视图
     setTimeout(() => fitView({ padding: 0.2, duration: 300 }), 50)
-  }, [session, clearNodePositions, updateNodePositions, setNodes, fitView])
+  }, [session.id, fullTree, collapsedNodeIds, layoutMode, layoutTree, nodePositionsFromStore, clearNodePositions, updateNodePositions, setNodes, fitView])
 
-  // 撤销删除
-  const handleUndo = useCallback(async () => {
-    const undoState = getTreeUndoState()
-    if (!undoState || undoState.sessionId !== session.id) return
-    
+  // 撤销/重做树形图的修改
+  const runHistoryAction = useCallback(async (action: () => Promise<unknown>) => {
     try {
-      const messages = JSON.parse(undoState.messagesSnapshot)
-      const messageForksHash = undoState.messageForksHashSnapshot 
-        ? JSON.parse(undoState.messageForksHashSnapshot) 
-        : undefined
-      
-      await restoreSessionMessages(session.id, messages, messageForksHash)
-      clearTreeUndoState()
+      await action()
     } catch (error) {
-      console.error('Failed to undo delete:', error)
+      console.error('Failed to apply tree history:', error)
+      toastActions.add(t('The conversation has changed, undo history was cleared'))
     }
-  }, [session.id, getTreeUndoState, clearTreeUndoState])
+  }, [t])
+
+  const handleUndo = useCallback(() => runHistoryAction(() => undoTreeChange(session.id)), [runHistoryAction, session.id])
+  const handleRedo = useCallback(() => runHistoryAction(() => redoTreeChange(session.id)), [runHistoryAction, session.id])
+  const handleHistoryJump = useCallback(
+    (entryId: string) => runHistoryAction(() => jumpToTreeHistoryEntry(session.id, entryId)),
+    [runHistoryAction, session.id]
+  )
+
+  // 合并选中的叶子节点分支
+  const handleMerge = useCallback(async () => {
+    if (interactionMode !== 'select' || selectedNodeIds.length < 2) return
+
+    if (selectedNodeIds.some(id => !isLeafNode(id))) {
+      toastActions.add(t('Only leaf nodes can be merged'))
+      return
+    }
+
+    // 活跃路径上的节点优先作为合并节点的父节点，避免不必要的分支切换
+    const sourceIds = [...selectedNodeIds].sort(
+      (a, b) => Number(tree.activePathIds.has(b)) - Number(tree.activePathIds.has(a))
+    )
+    const strategy = await NiceModal.show('merge-branches', { sessionId: session.id, sourceIds })
+    if (strategy) {
+      setSelectedNodeIds([])
+    }
+  }, [interactionMode, selectedNodeIds, isLeafNode, tree.activePathIds, session.id, setSelectedNodeIds, t])
+
+  // 并排对比选中的节点
+  const handleCompare = useCallback(() => {
+    if (interactionMode !== 'select') return
+    if (selectedNodeIds.length < BRANCH_COMPARE_MIN || selectedNodeIds.length > BRANCH_COMPARE_MAX) return
+    void NiceModal.show('branch-compare', { sessionId: session.id, messageIds: selectedNodeIds })
+  }, [interactionMode, selectedNodeIds, session.id])
+
+  // 将选中的节点作为结构化引用添加到输入框
+  const handleReference = useCallback(async () => {
+    const messageIds = interactionMode === 'click'
+      ? (selectedNodeId ? [selectedNodeId] : [])
+      : selectedNodeIds
+    if (messageIds.length === 0) return
+
+    const count = await addMessageReferencesToInput(session.id, messageIds)
+    if (count > 0) {
+      toastActions.add(t('Added {{count}} references to input', { count }), 2000)
+    }
+  }, [interactionMode, selectedNodeId, selectedNodeIds, session.id, t])
+
+  // 折叠所有非活跃分支 / 展开所有节点
+  const handleCollapseInactive = useCallback(() => {
+    collapseNodes(session.id, getInactiveBranchHeadIds(fullTree))
+  }, [session.id, fullTree, collapseNodes])
+
+  const handleExpandAll = useCallback(() => {
+    expandAllNodes(session.id)
+  }, [session.id, expandAllNodes])
+
+  // 居中显示节点，节点被折叠隐藏时先展开其祖先，待节点出现后再居中
+  const centerOnNode = useCallback((messageId: string) => {
+    const collapsedAncestors = findNodePath(fullTree, messageId)
+      .slice(0, -1)
+      .filter(id => collapsedNodeIds.includes(id))
+    const targetNode = getNode(messageId)
+    if (collapsedAncestors.length === 0 && targetNode) {
+      const { x, y } = targetNode.position
+      setCenter(x + NODE_WIDTH / 2, y + NODE_HEIGHT / 2, { zoom: 1, duration: 300 })
+      return
+    }
+    pendingCenterNodeIdRef.current = messageId
+    if (collapsedAncestors.length > 0) {
+      expandNodes(session.id, collapsedAncestors)
+    }
+  }, [fullTree, collapsedNodeIds, getNode, setCenter, expandNodes, session.id])
+
+  useEffect(() => {
+    const pendingId = pendingCenterNodeIdRef.current
+    const targetNode = pendingId ? nodes.find(n => n.id === pendingId) : undefined
+    if (targetNode) {
+      pendingCenterNodeIdRef.current = null
+      const { x, y } = targetNode.position
+      setCenter(x + NODE_WIDTH / 2, y + NODE_HEIGHT / 2, { zoom: 1, duration: 300 })
+    }
+  }, [nodes, setCenter])
+
+  // 跳转到命名分支、标记或书签所在的节点：切换到该分支并选中、居中节点
+  const handleJumpToLabel = useCallback(async (messageId: string) => {
+    await switchToMessageBranch(session.id, messageId)
+    if (interactionMode === 'click') {
+      setSelectedNodeId(messageId)
+    } else {
+      setSelectedNodeIds([messageId])
+    }
+    centerOnNode(messageId)
+  }, [session.id, interactionMode, setSelectedNodeId, setSelectedNodeIds, centerOnNode])
+
+  // 搜索：关键词变化时重置当前项，上一个/下一个循环跳转并居中
+  const handleSearchQueryChange = useCallback((query: string) => {
+    setSearchQuery(query)
+    setSearchIndex(-1)
+  }, [])
+
+  const handleSearchStep = useCallback((step: 1 | -1) => {
+    if (searchMatches.length === 0) return
+    const nextIndex = searchIndex < 0 && step < 0
+      ? searchMatches.length - 1
+      : (searchIndex + step + searchMatches.length) % searchMatches.length
+    setSearchIndex(nextIndex)
+    centerOnNode(searchMatches[nextIndex])
+  }, [searchMatches, searchIndex, centerOnNode])
+
+  const handleSearchNext = useCallback(() => handleSearchStep(1), [handleSearchStep])
+  const handleSearchPrevious = useCallback(() => handleSearchStep(-1), [handleSearchStep])
+
+  // 小地图节点颜色：按分支着色，活跃路径使用实色并加深描边
+  const getMiniMapNodeColor = useCallback((node: Node) => {
+    const data = node.data as TreeNodeData
+    const color = getBranchColor(data.branchIndex)
+    return data.isActivePath ? color.border : color.bg
+  }, [])
+
+  const getMiniMapNodeStrokeColor = useCallback((node: Node) => {
+    const data = node.data as TreeNodeData
+    if (data.isCurrentSearchMatch) return '#f97316'
+    if (data.isActivePath) return isDarkMode ? '#f9fafb' : '#1f2937'
+    return getBranchColor(data.branchIndex).border
+  }, [isDarkMode])
 
   // 监听工具栏事件
   useEffect(() => {
@@ -496,30 +749,89 @@ function ConversationTreeViewInner({
     const handleToolbarDelete = () => handleDeleteSelected()
     const handleToolbarAutoLayout = () => handleAutoLayout()
     const handleToolbarUndo = () => handleUndo()
+    const handleToolbarRedo = () => handleRedo()
+    const handleToolbarHistoryJump = (e: Event) => handleHistoryJump((e as CustomEvent<{ entryId: string }>).detail.entryId)
+    const handleToolbarMerge = () => handleMerge()
+    const handleToolbarCompare = () => handleCompare()
+    const handleToolbarReference = () => handleReference()
+    const handleToolbarJump = (e: Event) => handleJumpToLabel((e as CustomEvent<{ messageId: string }>).detail.messageId)
+    const handleToolbarCollapseInactive = () => handleCollapseInactive()
+    const handleToolbarExpandAll = () => handleExpandAll()
 
     window.addEventListener('tree-toolbar-focus', handleToolbarFocus)
     window.addEventListener('tree-toolbar-delete', handleToolbarDelete)
     window.addEventListener('tree-toolbar-auto-layout', handleToolbarAutoLayout)
     window.addEventListener('tree-toolbar-undo', handleToolbarUndo)
+    window.addEventListener('tree-toolbar-redo', handleToolbarRedo)
+    window.addEventListener('tree-toolbar-history-jump', handleToolbarHistoryJump)
+    window.addEventListener('tree-toolbar-merge', handleToolbarMerge)
+    window.addEventListener('tree-toolbar-compare', handleToolbarCompare)
+    window.addEventListener('tree-toolbar-reference', handleToolbarReference)
+    window.addEventListener('tree-toolbar-jump', handleToolbarJump)
+    window.addEventListener('tree-toolbar-collapse-inactive', handleToolbarCollapseInactive)
+    window.addEventListener('tree-toolbar-expand-all', handleToolbarExpandAll)
 
     return () => {
       window.removeEventListener('tree-toolbar-focus', handleToolbarFocus)
       window.removeEventListener('tree-toolbar-delete', handleToolbarDelete)
       window.removeEventListener('tree-toolbar-auto-layout', handleToolbarAutoLayout)
       window.removeEventListener('tree-toolbar-undo', handleToolbarUndo)
+      window.removeEventListener('tree-toolbar-redo', handleToolbarRedo)
+      window.removeEventListener('tree-toolbar-history-jump', handleToolbarHistoryJump)
+      window.removeEventListener('tree-toolbar-merge', handleToolbarMerge)
+      window.removeEventListener('tree-toolbar-compare', handleToolbarCompare)
+      window.removeEventListener('tree-toolbar-reference', handleToolbarReference)
+      window.removeEventListener('tree-toolbar-jump', handleToolbarJump)
+      window.removeEventListener('tree-toolbar-collapse-inactive', handleToolbarCollapseInactive)
+      window.removeEventListener('tree-toolbar-expand-all', handleToolbarExpandAll)
+    }
+  }, [handleFocus, handleDeleteSelected, handleAutoLayout, handleUndo, handleRedo, handleHistoryJump, handleMerge, handleCompare, handleReference, handleJumpToLabel, handleCollapseInactive, handleExpandAll])
+
+  // 快捷键：Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 重做（输入框中不拦截）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        handleRedo()
+      } else {
+        handleUndo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  // 快捷键：Ctrl/Cmd+F 聚焦搜索框
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey || e.key.toLowerCase() !== 'f') return
+      e.preventDefault()
+      searchInputRef.current?.focus()
+      searchInputRef.current?.select()
     }
-  }, [handleFocus, handleDeleteSelected, handleAutoLayout, handleUndo])
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
 
   // 边界框节点移动回调
-  const handleBoundingBoxMove = useCallback((nodeIds: string[], _deltaX: number, _deltaY: number) => {
+  const handleBoundingBoxMove = useCallback((nodeIds: string[], deltaX: number, deltaY: number) => {
     // 保存移动后的位置
+    const oldPositions: Record<string, { x: number; y: number }> = {}
     const newPositions: Record<string, { x: number; y: number }> = {}
     for (const nodeId of nodeIds) {
       const node = nodes.find(n => n.id === nodeId)
       if (node) {
+        oldPositions[nodeId] = { x: node.position.x - deltaX, y: node.position.y - deltaY }
         newPositions[nodeId] = node.position
       }
     }
+    recordNodePositionsChange(session.id, 'move-nodes', oldPositions, newPositions)
     updateNodePositions(session.id, newPositions)
   }, [nodes, session.id, updateNodePositions])
 
@@ -529,6 +841,42 @@ function ConversationTreeViewInner({
     return nodes.filter(n => selectedNodeIds.includes(n.id))
   }, [interactionMode, selectedNodeIds, nodes])
 
+  // 标注位置跟随节点位置（包括拖动中和自动布局后）
+  const positionedAnnotations = useMemo(
+    () => layoutTreeAnnotations(session.treeAnnotations, nodes, NODE_WIDTH, NODE_HEIGHT),
+    [session.treeAnnotations, nodes]
+  )
+
+  // 从多选边界框创建便签/分组框
+  const handleCreateAnnotation = useCallback(async (kind: TreeAnnotationKind, nodeIds: string[]) => {
+    const annotation = await addTreeAnnotation(session.id, kind, nodeIds)
+    setEditingAnnotationId(annotation.id)
+  }, [session.id])
+
+  const handleUpdateAnnotation = useCallback(
+    (annotationId: string, patch: Partial<Pick<TreeAnnotation, 'text' | 'color' | 'offset'>>) => {
+      updateTreeAnnotation(session.id, annotationId, patch)
+    },
+    [session.id]
+  )
+
+  const handleRemoveAnnotation = useCallback((annotationId: string) => {
+    removeTreeAnnotation(session.id, annotationId)
+  }, [session.id])
+
+  // 分支标题和摘要显示在分支第一条节点上方，跟随节点位置
+  const positionedBranchSummaries = useMemo(
+    () => layoutBranchSummaries(session.branchSummaries, nodes),
+    [session.branchSummaries, nodes]
+  )
+
+  // 将整个分支（以摘要形式）作为引用添加到输入框
+  const handleReferenceBranch = useCallback(async (headId: string) => {
+    if (await addBranchReferenceToInput(session.id, headId)) {
+      toastActions.add(t('Reference added to input'), 2000)
+    }
+  }, [session.id, t])
+
   // 关闭详情面板
   const handleClosePanel = useCallback(() => {
     setSelectedMessage(null)
@@ -563,18 +911,77 @@ function ConversationTreeViewInner({
     if (!triggerPosition) {
       return { x: 0, y: 0 }
     }
-    // 新节点位于触发节点正下方
+    // 水平布局中新节点位于触发节点右侧，其余布局位于正下方
+    if (layoutMode === 'horizontal') {
+      return {
+        x: triggerPosition.x + NODE_WIDTH + VERTICAL_SPACING,
+        y: triggerPosition.y,
+      }
+    }
     return {
       x: triggerPosition.x,
       y: triggerPosition.y + NODE_HEIGHT + VERTICAL_SPACING,
     }
-  }, [getNodePosition])
+  }, [getNodePosition, layoutMode])
 
   // 预保存新节点位置（在创建消息之前调用）
   const presaveNewNodePosition = useCallback((newNodeId: string, triggerNodeId: string) => {
+    // 径向布局由布局算法按角度放置新节点
+    if (layoutMode === 'radial') return
     const newPosition = calculateNewNodePosition(triggerNodeId)
     updateNodePosition(session.id, newNodeId, newPosition)
-  }, [session.id, calculateNewNodePosition, updateNodePosition])
+  }, [session.id, layoutMode, calculateNewNodePosition, updateNodePosition])
+
+  // 拖放到其他节点上 - 确认后将子树移动到目标节点下
+  const handleReparentDrop = useCallback((nodeId: string, targetId: string) => {
+    const subtreeIds = collectSubtreeIds(session, nodeId)
+    const startPositions = dragStartPositionsRef.current
+    // 先把节点放回拖拽前的位置，确认后再整体移动到目标节点旁
+    setNodes((currentNodes: ConversationNode[]) =>
+      currentNodes.map(n => (startPositions[n.id] ? { ...n, position: startPositions[n.id] } : n))
+    )
+    modals.openConfirmModal({
+      title: t('Move subtree'),
+      children: t(
+        'Move this message and its {{count}} descendant(s) under the target node? Replies in the moved subtree will be marked as generated under a different history.',
+        { count: subtreeIds.size - 1 }
+      ),
+      labels: { confirm: t('Move'), cancel: t('cancel') },
+      onConfirm: async () => {
+        await reparentMessage(session.id, nodeId, targetId)
+        // 径向布局由布局算法按角度放置，其余布局将整个子树平移到目标节点旁
+        const startPosition = startPositions[nodeId]
+        if (layoutMode === 'radial' || !startPosition) return
+        const newPosition = calculateNewNodePosition(targetId)
+        const dx = newPosition.x - startPosition.x
+        const dy = newPosition.y - startPosition.y
+        const movedPositions = Object.fromEntries(
+          [...subtreeIds]
+            .map(id => [id, nodePositionsFromStore[id]] as const)
+            .filter(([, position]) => position)
+            .map(([id, position]) => [id, { x: position.x + dx, y: position.y + dy }])
+        )
+        updateNodePositions(session.id, movedPositions)
+        setNodes((currentNodes: ConversationNode[]) =>
+          currentNodes.map(n => (movedPositions[n.id] ? { ...n, position: movedPositions[n.id] } : n))
+        )
+      },
+    })
+  }, [session, t, setNodes, layoutMode, calculateNewNodePosition, nodePositionsFromStore, updateNodePositions])
+
+  // 节点拖拽结束 - 拖到其他节点上时移动子树，否则保存位置
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+    if (dropTargetId && draggedNodes.length === 1) {
+      setDropTargetId(null)
+      handleReparentDrop(node.id, dropTargetId)
+      dragStartPositionsRef.current = {}
+      return
+    }
+    const newPositions = Object.fromEntries(draggedNodes.map(n => [n.id, n.position]))
+    recordNodePositionsChange(session.id, 'move-nodes', dragStartPositionsRef.current, newPositions)
+    dragStartPositionsRef.current = {}
+    updateNodePositions(session.id, newPositions)
+  }, [session.id, updateNodePositions, dropTargetId, handleReparentDrop])
 
   // 创建 User 节点
   const handleCreateUserNode = useCallback(async (content: string, targetMessageId: string) => {
@@ -596,16 +1003,18 @@ function ConversationTreeViewInner({
     
     // 在目标节点处创建新分支，新消息作为独立分支
     // 无论目标节点是否有子节点，都会创建并列的新分支
-    await createNewFork(session.id, targetMessageId)
-    await insertMessageAfter(session.id, newMsg, targetMessageId)
+    await withTreeHistory(session.id, 'insert', async () => {
+      await createNewFork(session.id, targetMessageId)
+      await insertMessageAfter(session.id, newMsg, targetMessageId)
+    })
     
     generateMore(session.id, newMsg.id, multiModels)
   }, [session.id, onCreateUserNode, getMessageById, presaveNewNodePosition, multiModelEnabled, selectedModels])
 
   // 创建 Assistant 节点
-  const handleCreateAssistantNode = useCallback(async (targetMessageId: string) => {
+  const handleCreateAssistantNode = useCallback(async (targetMessageId: string, override?: GenerationOverride) => {
     if (onCreateAssistantNode) {
-      onCreateAssistantNode(targetMessageId)
+      onCreateAssistantNode(targetMessageId, override)
       return
     }
     
@@ -616,12 +1025,12 @@ function ConversationTreeViewInner({
     const multiModels = multiModelEnabled && selectedModels.length > 0 ? selectedModels : undefined
     
     if (targetMessage.role === 'assistant') {
-      await regenerateInNewFork(session.id, targetMessage, { multiModels })
+      await regenerateInNewFork(session.id, targetMessage, { multiModels, override })
     } else {
       // 在 User 节点下方创建 Assistant，应该始终创建新分支
       // 这样可以避免直接插入到现有对话流中间
       await createNewFork(session.id, targetMessageId)
-      generateMore(session.id, targetMessageId, multiModels)
+      generateMore(session.id, targetMessageId, multiModels, override)
     }
   }, [session.id, onCreateAssistantNode, getMessageById, multiModelEnabled, selectedModels])
 
@@ -630,6 +1039,109 @@ function ConversationTreeViewInner({
     onUseBottomInput?.(targetMessageId)
   }, [onUseBottomInput])
 
+  // 键盘选中节点：保持当前缩放并把节点移到视口中央，详情面板打开时跟随切换
+  const selectNodeByKeyboard = useCallback((nodeId: string) => {
+    if (interactionMode === 'select') {
+      setSelectedNodeIds([nodeId])
+    }
+    setSelectedNodeId(nodeId)
+    const node = getNode(nodeId)
+    if (node) {
+      setCenter(node.position.x + NODE_WIDTH / 2, node.position.y + NODE_HEIGHT / 2, {
+        zoom: getViewport().zoom,
+        duration: 200,
+      })
+    }
+    const message = getMessageById(nodeId)
+    if (message && selectedMessage) {
+      setSelectedMessage(message)
+    }
+  }, [interactionMode, setSelectedNodeIds, setSelectedNodeId, getNode, setCenter, getViewport, getMessageById, selectedMessage])
+
+  // 执行键盘操作，没有选中节点时先选中活跃路径的叶子节点
+  const handleKeyboardAction = useCallback((action: TreeKeyboardAction) => {
+    if (action === 'help') {
+      setShowShortcutsHelp((show) => !show)
+      return
+    }
+    const focusedId = interactionMode === 'select' ? selectedNodeIds.at(-1) : selectedNodeId
+    const currentId = focusedId && tree.nodes.some((n) => n.id === focusedId) ? focusedId : null
+    if (!currentId) {
+      const startId = tree.activeLeafId ?? tree.rootId
+      if (startId) selectNodeByKeyboard(startId)
+      return
+    }
+    const message = getMessageById(currentId)
+    if (!message) return
+
+    switch (action) {
+      case 'parent':
+      case 'child':
+      case 'prevSibling':
+      case 'nextSibling': {
+        const nextId = findNeighborNodeId(tree, currentId, action)
+        if (nextId) selectNodeByKeyboard(nextId)
+        break
+      }
+      case 'openDetail':
+        setSelectedMessage(message)
+        setShowDetailPanel(true)
+        break
+      case 'edit':
+        if (!message.generating) {
+          void NiceModal.show('message-edit', { sessionId: session.id, msg: message })
+        }
+        break
+      case 'regenerate':
+        if (message.role === 'user' || message.role === 'assistant') {
+          void handleCreateAssistantNode(currentId)
+        }
+        break
+      case 'branch': {
+        // 与点击节点底部连接点相同，打开创建节点 Popover
+        const nodeElement = containerRef.current?.querySelector(`.react-flow__node[data-id="${CSS.escape(currentId)}"]`)
+        const handleElement = nodeElement?.querySelector<HTMLElement>('.react-flow__handle.source')
+        if (handleElement) {
+          setPopoverMessage(message)
+          setPopoverTarget(handleElement)
+          setPopoverIsLeaf(isLeafNode(currentId))
+          setPopoverOpened(true)
+        }
+        break
+      }
+      case 'delete':
+        handleDeleteSelected()
+        break
+      case 'quote':
+        addMessageReferencesToInput(session.id, [currentId]).then((count) => {
+          if (count) toastActions.add(t('Reference added to input'), 2000)
+        })
+        break
+    }
+  }, [interactionMode, selectedNodeIds, selectedNodeId, tree, selectNodeByKeyboard, getMessageById, session.id, handleCreateAssistantNode, isLeafNode, handleDeleteSelected, t])
+
+  // 键盘导航和节点操作，按键绑定来自快捷键设置（输入框、弹窗和 Popover 中不拦截）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (popoverOpened || e.defaultPrevented) return
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return
+      // 聚焦在按钮上时 Enter/空格 保留给按钮
+      if ((e.key === 'Enter' || e.key === ' ') && target?.closest('button, a')) return
+      if (e.key === 'Escape' && showShortcutsHelp) {
+        setShowShortcutsHelp(false)
+        return
+      }
+      const action = getTreeKeyboardAction(e, shortcuts)
+      if (!action) return
+      e.preventDefault()
+      handleKeyboardAction(action)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [popoverOpened, showShortcutsHelp, shortcuts, handleKeyboardAction])
+
   return (
     <div ref={containerRef} className={cn('w-full h-full flex', className)}>
       {/* 左侧：ReactFlow 画布 */}
@@ -642,6 +1154,8 @@ function ConversationTreeViewInner({
             onEdgesChange={onEdgesChange}
             onNodeClick={handleNodeClick}
             onNodeDoubleClick={handleNodeDoubleClick}
+            onNodeDragStart={handleNodeDragStart}
+            onNodeDrag={handleNodeDrag}
             onNodeDragStop={handleNodeDragStop}
             onPaneClick={handlePaneClick}
             onSelectionChange={handleSelectionChange}
@@ -660,6 +1174,11 @@ function ConversationTreeViewInner({
             selectionOnDrag={interactionMode === 'select'}
             selectNodesOnDrag={interactionMode === 'select'}
             panOnDrag={interactionMode === 'click' ? [0, 1, 2] : [1, 2]}
+            // 键盘操作由快捷键设置接管，关闭 ReactFlow 自带的方向键移动和删除
+            disableKeyboardA11y
+            deleteKeyCode={null}
+            // 只渲染视口内的节点和边，大型对话树平移时不受节点总数影响
+            onlyRenderVisibleElements
             proOptions={{ hideAttribution: true }}
           >
             <Controls 
@@ -679,6 +1198,17 @@ function ConversationTreeViewInner({
               size={1} 
               color={isDarkMode ? '#4b5563' : '#e5e7eb'} 
             />
+            <MiniMap
+              pannable
+              zoomable
+              position="bottom-left"
+              nodeColor={getMiniMapNodeColor}
+              nodeStrokeColor={getMiniMapNodeStrokeColor}
+              nodeStrokeWidth={4}
+              nodeBorderRadius={8}
+              bgColor={isDarkMode ? '#1f2937' : '#ffffff'}
+              maskColor={isDarkMode ? 'rgba(17, 24, 39, 0.6)' : 'rgba(243, 244, 246, 0.6)'}
+            />
 
             {/* 多选边界框 - 必须在 ReactFlow 内部以使用 useReactFlow hooks */}
             <SelectionBoundingBox
@@ -686,9 +1216,47 @@ function ConversationTreeViewInner({
               nodeWidth={NODE_WIDTH}
               nodeHeight={NODE_HEIGHT}
               onNodesMove={handleBoundingBoxMove}
+              onCreateAnnotation={handleCreateAnnotation}
+            />
+
+            {/* 便签和分组框 */}
+            <TreeAnnotationLayer
+              annotations={positionedAnnotations}
+              editingId={editingAnnotationId}
+              onEditingIdChange={setEditingAnnotationId}
+              onUpdate={handleUpdateAnnotation}
+              onRemove={handleRemoveAnnotation}
+            />
+
+            {/* 缩小时显示的分支标题和摘要 */}
+            <BranchSummaryLayer
+              summaries={positionedBranchSummaries}
+              width={NODE_WIDTH}
+              onReference={handleReferenceBranch}
             />
           </ReactFlow>
 
+          {/* 节点搜索 */}
+          <TreeSearchBar
+            ref={searchInputRef}
+            query={searchQuery}
+            onQueryChange={handleSearchQueryChange}
+            matchCount={searchMatches.length}
+            currentIndex={searchIndex}
+            onPrevious={handleSearchPrevious}
+            onNext={handleSearchNext}
+            className="absolute top-2 right-2 z-10"
+          />
+
+          {/* 快捷键列表 */}
+          {showShortcutsHelp && (
+            <TreeShortcutsHelp
+              shortcuts={shortcuts}
+              onClose={() => setShowShortcutsHelp(false)}
+              className="absolute top-14 right-2 z-10"
+            />
+          )}
+
           {tree.nodes.length === 0 && (
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
               <div className="text-center text-gray-400">
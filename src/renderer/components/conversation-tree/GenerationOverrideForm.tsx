@@ -0,0 +1,188 @@
+/**
+ * 分支级生成设置表单
+ * 在节点创建 Popover 中使用，留空的字段沿用会话设置
+ */
+
+import { memo, useCallback, useState } from 'react'
+import { Button, Flex, NumberInput, Select, Text, Textarea, UnstyledButton } from '@mantine/core'
+import { IconSelector, IconSparkles } from '@tabler/icons-react'
+import { useTranslation } from 'react-i18next'
+
+import type { GenerationOverride } from 'src/shared/types'
+import { ModelSelector } from '@/components/ModelSelector'
+import StructuredOutputEditor, { getStructuredOutputSchemaError } from '@/components/StructuredOutputEditor'
+import {
+  buildReasoningProviderOptions,
+  getReasoningOverrideFields,
+  normalizeGenerationOverride,
+  type ReasoningOverrideFields,
+} from '@/lib/generation-override'
+
+// ============ 类型定义 ============
+
+export interface GenerationOverrideFormProps {
+  /** 表单初始值 */
+  initialValue?: GenerationOverride
+  /** 提交回调，所有字段留空时 override 为 undefined */
+  onSubmit: (override: GenerationOverride | undefined) => void
+  /** 返回上一步 */
+  onBack: () => void
+}
+
+type NumberValue = number | string
+
+const REASONING_EFFORT_OPTIONS = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+]
+
+// ============ 组件 ============
+
+function GenerationOverrideFormComponent({ initialValue, onSubmit, onBack }: GenerationOverrideFormProps) {
+  const { t } = useTranslation()
+  const initialReasoning = getReasoningOverrideFields(initialValue)
+  const [model, setModel] = useState(
+    initialValue?.provider && initialValue.modelId
+      ? { provider: initialValue.provider, modelId: initialValue.modelId }
+      : undefined
+  )
+  const [temperature, setTemperature] = useState<NumberValue>(initialValue?.temperature ?? '')
+  const [maxTokens, setMaxTokens] = useState<NumberValue>(initialValue?.maxTokens ?? '')
+  const [thinkingBudget, setThinkingBudget] = useState<NumberValue>(initialReasoning.thinkingBudget ?? '')
+  const [reasoningEffort, setReasoningEffort] = useState<string | null>(initialReasoning.reasoningEffort ?? null)
+  const [systemPrompt, setSystemPrompt] = useState(initialValue?.systemPrompt ?? '')
+  const [structuredOutputSchema, setStructuredOutputSchema] = useState(initialValue?.structuredOutput?.schema ?? '')
+  const schemaError = getStructuredOutputSchemaError(structuredOutputSchema)
+
+  const handleSelectModel = useCallback((provider: string, modelId: string) => {
+    setModel(provider && modelId ? { provider, modelId } : undefined)
+  }, [])
+
+  const handleSubmit = useCallback(() => {
+    onSubmit(
+      normalizeGenerationOverride({
+        ...model,
+        temperature: typeof temperature === 'number' ? temperature : undefined,
+        maxTokens: typeof maxTokens === 'number' ? maxTokens : undefined,
+        systemPrompt,
+        providerOptions: buildReasoningProviderOptions({
+          thinkingBudget: typeof thinkingBudget === 'number' ? thinkingBudget : undefined,
+          reasoningEffort: (reasoningEffort ?? undefined) as ReasoningOverrideFields['reasoningEffort'],
+        }),
+        structuredOutput: { schema: structuredOutputSchema },
+      })
+    )
+  }, [model, temperature, maxTokens, systemPrompt, thinkingBudget, reasoningEffort, structuredOutputSchema, onSubmit])
+
+  return (
+    <Flex direction="column" gap="xs">
+      <Text size="xs" c="dimmed">
+        {t('Leave a field empty to use the session settings')}
+      </Text>
+
+      {/* 下拉框不使用 Portal，否则点击选项会被 Popover 当作点击外部 */}
+      <ModelSelector
+        showAuto
+        autoText={t('Session default') || ''}
+        onSelect={handleSelectModel}
+        selectedProviderId={model?.provider}
+        selectedModelId={model?.modelId}
+        withinPortal={false}
+        position="bottom-start"
+      >
+        <UnstyledButton className="w-full rounded border border-solid border-gray-300 dark:border-gray-600 px-2 py-1">
+          <Flex align="center" justify="space-between" gap="xs">
+            <Text size="xs" className="line-clamp-1">
+              {model ? `${model.provider} / ${model.modelId}` : t('Session default')}
+            </Text>
+            <IconSelector size={14} className="flex-shrink-0 text-gray-400" />
+          </Flex>
+        </UnstyledButton>
+      </ModelSelector>
+
+      <Flex gap="xs">
+        <NumberInput
+          size="xs"
+          label={t('Temperature')}
+          placeholder={t('Default') || ''}
+          min={0}
+          max={2}
+          step={0.1}
+          decimalScale={2}
+          value={temperature}
+          onChange={setTemperature}
+        />
+        <NumberInput
+          size="xs"
+          label={t('Max Output Tokens')}
+          placeholder={t('Default') || ''}
+          min={1}
+          step={256}
+          allowDecimal={false}
+          value={maxTokens}
+          onChange={setMaxTokens}
+        />
+      </Flex>
+
+      <Flex gap="xs">
+        <NumberInput
+          size="xs"
+          label={t('Thinking Budget')}
+          placeholder={t('Default') || ''}
+          min={0}
+          step={1024}
+          allowDecimal={false}
+          value={thinkingBudget}
+          onChange={setThinkingBudget}
+        />
+        <Select
+          size="xs"
+          label={t('Reasoning Effort')}
+          placeholder={t('Default') || ''}
+          clearable
+          data={REASONING_EFFORT_OPTIONS.map((option) => ({ ...option, label: t(option.label) }))}
+          value={reasoningEffort}
+          onChange={setReasoningEffort}
+          comboboxProps={{ withinPortal: false }}
+        />
+      </Flex>
+
+      <Textarea
+        size="xs"
+        label={t('System Prompt')}
+        placeholder={t('Replaces the system prompt for this branch') || ''}
+        minRows={2}
+        maxRows={5}
+        autosize
+        value={systemPrompt}
+        onChange={(e) => setSystemPrompt(e.currentTarget.value)}
+      />
+
+      <StructuredOutputEditor
+        size="xs"
+        label={t('Structured output') || ''}
+        value={structuredOutputSchema}
+        onChange={setStructuredOutputSchema}
+      />
+
+      <Flex justify="space-between" align="center">
+        <Button variant="subtle" size="xs" color="gray" onClick={onBack}>
+          {t('Back')}
+        </Button>
+        <Button
+          size="xs"
+          color="green"
+          rightSection={<IconSparkles size={14} />}
+          disabled={!!schemaError}
+          onClick={handleSubmit}
+        >
+          {t('Generate')}
+        </Button>
+      </Flex>
+    </Flex>
+  )
+}
+
+export const GenerationOverrideForm = memo(GenerationOverrideFormComponent)
+export default GenerationOverrideForm
@@ -31,7 +31,7 @@ import { useUIStore } from '@/stores/uiStore'
 import { useMultiModelStore } from '@/stores/multiModelStore'
 import { copyToClipboard } from '@/packages/navigator'
 import * as toastActions from '@/stores/toastActions'
-import { regenerateInNewFork, removeMessage } from '@/stores/sessionActions'
+import { addMessageReferencesToInput, regenerateInNewFork, removeMessage } from '@/stores/sessionActions'
 import { cn } from '@/lib/utils'
 
 import TextSelectionQuote from './TextSelectionQuote'
@@ -83,7 +83,11 @@ export function MessageDetailPanel({
   // 从 session 中实时获取消息（支持流式更新）
   const liveMessage = useMemo(() => {
     if (!message || !session) return message
-    
+
+    // 在消息图中查找
+    const graphMsg = session.messageGraph?.nodes[message.id]?.message
+    if (graphMsg) return graphMsg
+
     // 在主消息列表中查找
     const mainMsg = session.messages.find(m => m.id === message.id)
     if (mainMsg) return mainMsg
@@ -160,15 +164,13 @@ export function MessageDetailPanel({
     toastActions.add(t('copied to clipboard'), 2000)
   }, [liveMessage, t])
 
-  // 引用消息
-  const handleQuote = useCallback(() => {
-    if (!liveMessage) return
-    const input = getMessageText(liveMessage)
-      .split('\n')
-      .map((line) => `> ${line}`)
-      .join('\n')
-    setQuote(input + '\n\n-------------------\n\n')
-  }, [liveMessage, setQuote])
+  // 引用消息（作为结构化引用附加到下一条用户消息）
+  const handleQuote = useCallback(async () => {
+    if (!liveMessage || !session) return
+    if (await addMessageReferencesToInput(session.id, [liveMessage.id])) {
+      toastActions.add(t('Reference added to input'), 2000)
+    }
+  }, [liveMessage, session, t])
 
   // 编辑消息
   const handleEdit = useCallback(async () => {
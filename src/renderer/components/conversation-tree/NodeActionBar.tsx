@@ -20,9 +20,8 @@ import type { Message, Session } from 'src/shared/types'
 import { getMessageText } from 'src/shared/utils/message'
 import { copyToClipboard } from '@/packages/navigator'
 import * as toastActions from '@/stores/toastActions'
-import { useUIStore } from '@/stores/uiStore'
 import { useMultiModelStore } from '@/stores/multiModelStore'
-import { regenerateInNewFork, removeMessage } from '@/stores/sessionActions'
+import { addMessageReferencesToInput, regenerateInNewFork, removeMessage } from '@/stores/sessionActions'
 import { cn } from '@/lib/utils'
 
 export interface NodeActionBarProps {
@@ -43,7 +42,6 @@ function NodeActionBarComponent({
   onViewDetail,
 }: NodeActionBarProps) {
   const { t } = useTranslation()
-  const setQuote = useUIStore((state) => state.setQuote)
   const [isDeleting, setIsDeleting] = useState(false)
   
   // 多模型配置
@@ -57,16 +55,13 @@ function NodeActionBarComponent({
     toastActions.add(t('copied to clipboard'), 2000)
   }, [message, t])
 
-  // 引用消息
-  const handleQuote = useCallback((e: React.MouseEvent) => {
+  // 引用消息（作为结构化引用附加到下一条用户消息）
+  const handleQuote = useCallback(async (e: React.MouseEvent) => {
     e.stopPropagation()
-    const input = getMessageText(message)
-      .split('\n')
-      .map((line) => `> ${line}`)
-      .join('\n')
-    setQuote(input + '\n\n-------------------\n\n')
-    toastActions.add(t('Quote added to input'), 2000)
-  }, [message, setQuote, t])
+    if (await addMessageReferencesToInput(session.id, [message.id])) {
+      toastActions.add(t('Reference added to input'), 2000)
+    }
+  }, [session.id, message.id, t])
 
   // 编辑消息
   const handleEdit = useCallback(async (e: React.MouseEvent) => {
@@ -1,15 +1,17 @@
 /**
  * 节点创建 Popover
  * 点击节点底部 Output Handle 时弹出，支持创建 User 或 Assistant 节点
+ * 创建 Assistant 节点时可以为新分支单独指定模型和生成参数
  * 从节点右侧弹出
  */
 
 import { memo, useCallback, useState, useRef, useEffect } from 'react'
-import { Portal, Button, Textarea, Flex, Text, Divider, Tooltip, Paper } from '@mantine/core'
-import { IconUser, IconRobot, IconSend, IconKeyboard, IconX } from '@tabler/icons-react'
+import { Portal, Button, Textarea, Flex, Text, Divider, Tooltip, Paper, ActionIcon } from '@mantine/core'
+import { IconUser, IconRobot, IconSend, IconKeyboard, IconX, IconAdjustments } from '@tabler/icons-react'
 import { useTranslation } from 'react-i18next'
 
-import type { Message, Session } from 'src/shared/types'
+import type { GenerationOverride, Message, Session } from 'src/shared/types'
+import GenerationOverrideForm from './GenerationOverrideForm'
 
 export interface NodeCreatePopoverProps {
   /** 是否打开 */
@@ -26,8 +28,8 @@ export interface NodeCreatePopoverProps {
   isLeafNode: boolean
   /** 创建 User 节点回调 */
   onCreateUserNode: (content: string, targetMessageId: string) => void
-  /** 创建 Assistant 节点回调（触发 AI 生成） */
-  onCreateAssistantNode: (targetMessageId: string) => void
+  /** 创建 Assistant 节点回调（触发 AI 生成），override 为新分支的生成设置 */
+  onCreateAssistantNode: (targetMessageId: string, override?: GenerationOverride) => void
   /** 使用底部输入框回调 */
   onUseBottomInput: (targetMessageId: string) => void
 }
@@ -44,7 +46,7 @@ function NodeCreatePopoverComponent({
 }: NodeCreatePopoverProps) {
   const { t } = useTranslation()
   const [inputValue, setInputValue] = useState('')
-  const [mode, setMode] = useState<'select' | 'input'>('select')
+  const [mode, setMode] = useState<'select' | 'input' | 'settings'>('select')
   const [position, setPosition] = useState({ top: 0, left: 0 })
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const popoverRef = useRef<HTMLDivElement>(null)
@@ -131,6 +133,12 @@ function NodeCreatePopoverComponent({
     onClose()
   }, [message.id, onCreateAssistantNode, onClose])
 
+  // 使用自定义设置创建 Assistant 节点
+  const handleCreateAssistantWithOverride = useCallback((override: GenerationOverride | undefined) => {
+    onCreateAssistantNode(message.id, override)
+    onClose()
+  }, [message.id, onCreateAssistantNode, onClose])
+
   // 处理使用底部输入框
   const handleUseBottomInput = useCallback(() => {
     onUseBottomInput(message.id)
@@ -174,7 +182,7 @@ function NodeCreatePopoverComponent({
           top: position.top,
           left: position.left,
           transform: 'translateY(-50%)',
-          width: 280,
+          width: mode === 'settings' ? 320 : 280,
         }}
         onClick={(e) => e.stopPropagation()}
       >
@@ -224,16 +232,29 @@ function NodeCreatePopoverComponent({
               disabled={canCreateAssistant}
               withArrow
             >
-              <Button
-                variant="light"
-                color="green"
-                leftSection={<IconRobot size={18} />}
-                fullWidth
-                disabled={!canCreateAssistant}
-                onClick={handleCreateAssistant}
-              >
-                {t('Generate AI Response')}
-              </Button>
+              <Flex gap="xs">
+                <Button
+                  variant="light"
+                  color="green"
+                  leftSection={<IconRobot size={18} />}
+                  className="flex-1"
+                  disabled={!canCreateAssistant}
+                  onClick={handleCreateAssistant}
+                >
+                  {t('Generate AI Response')}
+                </Button>
+                <Tooltip label={t('Generate with custom settings')} withArrow disabled={!canCreateAssistant}>
+                  <ActionIcon
+                    variant="light"
+                    color="green"
+                    size={36}
+                    disabled={!canCreateAssistant}
+                    onClick={() => setMode('settings')}
+                  >
+                    <IconAdjustments size={18} />
+                  </ActionIcon>
+                </Tooltip>
+              </Flex>
             </Tooltip>
 
             <Divider label={t('or')} labelPosition="center" />
@@ -249,6 +270,28 @@ function NodeCreatePopoverComponent({
               {t('Use Main Input')}
             </Button>
           </Flex>
+        ) : mode === 'settings' ? (
+          <Flex direction="column" gap="xs">
+            <Flex justify="space-between" align="center">
+              <Text size="xs" c="dimmed">
+                {t('Generation settings for this branch')}
+              </Text>
+              <Button
+                variant="subtle"
+                size="compact-xs"
+                color="gray"
+                onClick={onClose}
+                p={2}
+              >
+                <IconX size={14} />
+              </Button>
+            </Flex>
+
+            <GenerationOverrideForm
+              onSubmit={handleCreateAssistantWithOverride}
+              onBack={() => setMode('select')}
+            />
+          </Flex>
         ) : (
           <Flex direction="column" gap="xs">
             <Flex justify="space-between" align="center">
@@ -1,11 +1,15 @@
 /**
  * 选中节点边界框组件
- * 在框选模式下显示选中节点的虚线边界框，支持拖拽移动整组节点
+ * 在框选模式下显示选中节点的虚线边界框，支持拖拽移动整组节点，以及为选中节点添加便签和分组框
  */
 
 import { memo, useCallback, useState, useRef, useEffect, useMemo } from 'react'
+import { ActionIcon, Tooltip } from '@mantine/core'
+import { IconBoxMultiple, IconNote } from '@tabler/icons-react'
 import { useReactFlow, useViewport } from '@xyflow/react'
 import type { Node } from '@xyflow/react'
+import { useTranslation } from 'react-i18next'
+import type { TreeAnnotationKind } from 'src/shared/types'
 import { cn } from '@/lib/utils'
 
 // ============ 类型定义 ============
@@ -21,6 +25,8 @@ export interface SelectionBoundingBoxProps {
   padding?: number
   /** 节点位置更新回调 */
   onNodesMove?: (nodeIds: string[], deltaX: number, deltaY: number) => void
+  /** 为选中节点创建便签或分组框 */
+  onCreateAnnotation?: (kind: TreeAnnotationKind, nodeIds: string[]) => void
 }
 
 // ============ 常量 ============
@@ -37,7 +43,9 @@ function SelectionBoundingBoxComponent({
   nodeHeight = DEFAULT_NODE_HEIGHT,
   padding = DEFAULT_PADDING,
   onNodesMove,
+  onCreateAnnotation,
 }: SelectionBoundingBoxProps) {
+  const { t } = useTranslation()
   const { setNodes } = useReactFlow()
   const viewport = useViewport()
   
@@ -197,6 +205,32 @@ function SelectionBoundingBoxComponent({
       >
         {selectedNodes.length} nodes
       </div>
+
+      {/* 标注按钮 */}
+      {onCreateAnnotation && (
+        <div className="absolute -top-7 right-0 flex gap-1 pointer-events-auto">
+          <Tooltip label={t('Add sticky note')} withArrow>
+            <ActionIcon
+              size="sm"
+              variant="filled"
+              color="yellow"
+              onClick={() => onCreateAnnotation('note', selectedNodes.map((n) => n.id))}
+            >
+              <IconNote size={14} />
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip label={t('Group into frame')} withArrow>
+            <ActionIcon
+              size="sm"
+              variant="filled"
+              color="blue"
+              onClick={() => onCreateAnnotation('frame', selectedNodes.map((n) => n.id))}
+            >
+              <IconBoxMultiple size={14} />
+            </ActionIcon>
+          </Tooltip>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,300 @@
+/**
+ * 树形图标注层
+ * 在画布坐标系中绘制便签和分组框，支持编辑文字、切换颜色、拖动便签和删除
+ * 必须在 ReactFlow 内部使用
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
+import { ActionIcon, Textarea, TextInput, Tooltip } from '@mantine/core'
+import { IconTrash } from '@tabler/icons-react'
+import { useViewport, ViewportPortal } from '@xyflow/react'
+import { useTranslation } from 'react-i18next'
+import type { TreeAnnotation } from 'src/shared/types'
+import {
+  getAnnotationColors,
+  type PositionedTreeAnnotation,
+  TREE_ANNOTATION_COLORS,
+  type TreeAnnotationColor,
+} from '@/lib/tree-annotations'
+import { cn } from '@/lib/utils'
+
+// ============ 类型定义 ============
+
+type AnnotationPatch = Partial<Pick<TreeAnnotation, 'text' | 'color' | 'offset'>>
+
+export interface TreeAnnotationLayerProps {
+  /** 已计算画布位置的标注 */
+  annotations: PositionedTreeAnnotation[]
+  /** 正在编辑文字的标注ID */
+  editingId: string | null
+  /** 开始/结束编辑 */
+  onEditingIdChange: (annotationId: string | null) => void
+  /** 修改标注 */
+  onUpdate: (annotationId: string, patch: AnnotationPatch) => void
+  /** 删除标注 */
+  onRemove: (annotationId: string) => void
+}
+
+interface AnnotationItemProps {
+  annotation: PositionedTreeAnnotation
+  isEditing: boolean
+  onEditingIdChange: (annotationId: string | null) => void
+  onUpdate: (annotationId: string, patch: AnnotationPatch) => void
+  onRemove: (annotationId: string) => void
+}
+
+// ============ 组件 ============
+
+function TreeAnnotationLayerComponent({
+  annotations,
+  editingId,
+  onEditingIdChange,
+  onUpdate,
+  onRemove,
+}: TreeAnnotationLayerProps) {
+  if (annotations.length === 0) {
+    return null
+  }
+
+  return (
+    <ViewportPortal>
+      {annotations.map((annotation) => {
+        const Item = annotation.kind === 'frame' ? FrameItem : NoteItem
+        return (
+          <Item
+            key={annotation.id}
+            annotation={annotation}
+            isEditing={editingId === annotation.id}
+            onEditingIdChange={onEditingIdChange}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+          />
+        )
+      })}
+    </ViewportPortal>
+  )
+}
+
+/**
+ * 分组框：框体不拦截鼠标事件，只有标题栏可以交互
+ */
+function FrameItem({ annotation, isEditing, onEditingIdChange, onUpdate, onRemove }: AnnotationItemProps) {
+  const { t } = useTranslation()
+  const colors = getAnnotationColors(annotation)
+
+  return (
+    <div
+      className="absolute pointer-events-none rounded-xl border-2 border-dashed"
+      style={{
+        transform: `translate(${annotation.x}px, ${annotation.y}px)`,
+        width: annotation.width,
+        height: annotation.height,
+        borderColor: colors.border,
+        backgroundColor: `${colors.bg}80`,
+      }}
+    >
+      <div className="group nopan nodrag absolute top-1 left-3 right-3 flex items-center gap-2 pointer-events-auto">
+        {isEditing ? (
+          <AnnotationTextInput
+            initialValue={annotation.text}
+            onSubmit={(text) => {
+              onUpdate(annotation.id, { text })
+              onEditingIdChange(null)
+            }}
+            onCancel={() => onEditingIdChange(null)}
+          />
+        ) : (
+          <span
+            className="text-sm font-semibold truncate cursor-text"
+            style={{ color: colors.text }}
+            onDoubleClick={() => onEditingIdChange(annotation.id)}
+          >
+            {annotation.text || t('Untitled group')}
+          </span>
+        )}
+        <AnnotationToolbar annotation={annotation} onUpdate={onUpdate} onRemove={onRemove} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * 便签：拖动时只在本地移动，松开鼠标后保存相对分组节点的偏移
+ */
+function NoteItem({ annotation, isEditing, onEditingIdChange, onUpdate, onRemove }: AnnotationItemProps) {
+  const { t } = useTranslation()
+  const { zoom } = useViewport()
+  const colors = getAnnotationColors(annotation)
+  const [dragDelta, setDragDelta] = useState<{ x: number; y: number } | null>(null)
+  const isDragging = dragDelta !== null
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null)
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent) => {
+      if (isEditing || e.button !== 0) return
+      e.stopPropagation()
+      dragStartRef.current = { x: e.clientX, y: e.clientY }
+      setDragDelta({ x: 0, y: 0 })
+    },
+    [isEditing]
+  )
+
+  useEffect(() => {
+    if (!isDragging) return
+
+    const getDelta = (e: MouseEvent) => {
+      const start = dragStartRef.current ?? { x: e.clientX, y: e.clientY }
+      return { x: (e.clientX - start.x) / zoom, y: (e.clientY - start.y) / zoom }
+    }
+    const handleMouseMove = (e: MouseEvent) => setDragDelta(getDelta(e))
+    const handleMouseUp = (e: MouseEvent) => {
+      const delta = getDelta(e)
+      if (Math.abs(delta.x) > 1 || Math.abs(delta.y) > 1) {
+        const offset = annotation.offset ?? { x: 0, y: 0 }
+        onUpdate(annotation.id, { offset: { x: offset.x + delta.x, y: offset.y + delta.y } })
+      }
+      dragStartRef.current = null
+      setDragDelta(null)
+    }
+
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [isDragging, zoom, annotation.id, annotation.offset, onUpdate])
+
+  return (
+    <div
+      className={cn(
+        'group nopan nodrag nowheel absolute flex flex-col rounded shadow-md border',
+        isDragging ? 'cursor-grabbing' : 'cursor-grab'
+      )}
+      style={{
+        transform: `translate(${annotation.x + (dragDelta?.x ?? 0)}px, ${annotation.y + (dragDelta?.y ?? 0)}px)`,
+        width: annotation.width,
+        minHeight: annotation.height,
+        backgroundColor: colors.bg,
+        borderColor: colors.border,
+      }}
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onEditingIdChange(annotation.id)}
+    >
+      <div className="flex items-center justify-end h-6 px-1">
+        <AnnotationToolbar annotation={annotation} onUpdate={onUpdate} onRemove={onRemove} />
+      </div>
+      {isEditing ? (
+        <AnnotationTextInput
+          multiline
+          initialValue={annotation.text}
+          onSubmit={(text) => {
+            onUpdate(annotation.id, { text })
+            onEditingIdChange(null)
+          }}
+          onCancel={() => onEditingIdChange(null)}
+        />
+      ) : (
+        <div
+          className={cn('px-3 pb-3 text-sm whitespace-pre-wrap break-words', !annotation.text && 'italic opacity-60')}
+          style={{ color: colors.text }}
+        >
+          {annotation.text || t('Double-click to edit')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 颜色切换和删除按钮，悬停时显示
+ */
+function AnnotationToolbar({
+  annotation,
+  onUpdate,
+  onRemove,
+}: Pick<AnnotationItemProps, 'annotation' | 'onUpdate' | 'onRemove'>) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+      {(Object.keys(TREE_ANNOTATION_COLORS) as TreeAnnotationColor[]).map((color) => (
+        <button
+          key={color}
+          type="button"
+          aria-label={color}
+          className={cn(
+            'w-3 h-3 rounded-full border cursor-pointer',
+            annotation.color === color && 'ring-2 ring-offset-1 ring-gray-400'
+          )}
+          style={{
+            backgroundColor: TREE_ANNOTATION_COLORS[color].border,
+            borderColor: TREE_ANNOTATION_COLORS[color].text,
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => onUpdate(annotation.id, { color })}
+        />
+      ))}
+      <Tooltip label={t('Delete')} withArrow>
+        <ActionIcon
+          size="xs"
+          variant="subtle"
+          color="gray"
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => onRemove(annotation.id)}
+        >
+          <IconTrash size={12} />
+        </ActionIcon>
+      </Tooltip>
+    </div>
+  )
+}
+
+/**
+ * 文字编辑框：Enter 保存（便签为 Ctrl/Cmd+Enter），Esc 取消，失去焦点时保存
+ */
+function AnnotationTextInput({
+  initialValue,
+  multiline,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue: string
+  multiline?: boolean
+  onSubmit: (text: string) => void
+  onCancel: () => void
+}) {
+  const { t } = useTranslation()
+  const [value, setValue] = useState(initialValue)
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    if (e.key === 'Escape') {
+      onCancel()
+    } else if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      onSubmit(value.trim())
+    }
+  }
+
+  const commonProps = {
+    autoFocus: true,
+    size: 'xs' as const,
+    value,
+    placeholder: (multiline ? t('Write a note') : t('Group name')) || '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setValue(e.currentTarget.value),
+    onKeyDown: handleKeyDown,
+    onBlur: () => onSubmit(value.trim()),
+    onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+  }
+
+  return multiline ? (
+    <Textarea {...commonProps} variant="unstyled" autosize minRows={3} className="px-3 pb-2" />
+  ) : (
+    <TextInput {...commonProps} className="flex-1" />
+  )
+}
+
+export const TreeAnnotationLayer = memo(TreeAnnotationLayerComponent)
+
+export default TreeAnnotationLayer
@@ -0,0 +1,94 @@
+/**
+ * 树形图搜索栏
+ * 输入关键词搜索节点，支持上一个/下一个跳转
+ */
+
+import { forwardRef, memo } from 'react'
+import { ActionIcon, CloseButton, Flex, Paper, Text, TextInput, Tooltip } from '@mantine/core'
+import { IconChevronDown, IconChevronUp, IconSearch } from '@tabler/icons-react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+
+// ============ 类型定义 ============
+
+export interface TreeSearchBarProps {
+  /** 搜索关键词 */
+  query: string
+  /** 关键词变更回调 */
+  onQueryChange: (query: string) => void
+  /** 匹配的节点数量 */
+  matchCount: number
+  /** 当前匹配项的索引，没有当前项时为 -1 */
+  currentIndex: number
+  /** 跳转到上一个匹配项 */
+  onPrevious: () => void
+  /** 跳转到下一个匹配项 */
+  onNext: () => void
+  /** 额外的 className */
+  className?: string
+}
+
+// ============ 组件 ============
+
+const TreeSearchBarComponent = forwardRef<HTMLInputElement, TreeSearchBarProps>(function TreeSearchBar(
+  { query, onQueryChange, matchCount, currentIndex, onPrevious, onNext, className },
+  ref
+) {
+  const { t } = useTranslation()
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        onPrevious()
+      } else {
+        onNext()
+      }
+    } else if (e.key === 'Escape') {
+      onQueryChange('')
+      e.currentTarget.blur()
+    }
+  }
+
+  return (
+    <Paper shadow="sm" radius="md" p={4} className={cn('bg-white dark:bg-gray-800', className)}>
+      <Flex gap={4} align="center">
+        <TextInput
+          ref={ref}
+          size="xs"
+          w={220}
+          variant="unstyled"
+          leftSection={<IconSearch size={14} />}
+          placeholder={t('Search nodes (role:, model:, date:)') || ''}
+          value={query}
+          onChange={(e) => onQueryChange(e.currentTarget.value)}
+          onKeyDown={handleKeyDown}
+          rightSection={query ? <CloseButton size="xs" onClick={() => onQueryChange('')} /> : null}
+        />
+        {query && (
+          <Text size="xs" c="dimmed" className="whitespace-nowrap tabular-nums">
+            {matchCount === 0
+              ? t('No matches')
+              : currentIndex >= 0
+                ? `${currentIndex + 1}/${matchCount}`
+                : t('{{count}} matches', { count: matchCount })}
+          </Text>
+        )}
+        <Tooltip label={`${t('Previous match')} (Shift+Enter)`} withArrow>
+          <ActionIcon size="sm" variant="subtle" color="gray" onClick={onPrevious} disabled={matchCount === 0}>
+            <IconChevronUp size={16} />
+          </ActionIcon>
+        </Tooltip>
+        <Tooltip label={`${t('Next match')} (Enter)`} withArrow>
+          <ActionIcon size="sm" variant="subtle" color="gray" onClick={onNext} disabled={matchCount === 0}>
+            <IconChevronDown size={16} />
+          </ActionIcon>
+        </Tooltip>
+      </Flex>
+    </Paper>
+  )
+})
+
+export const TreeSearchBar = memo(TreeSearchBarComponent)
+
+export default TreeSearchBar
@@ -0,0 +1,87 @@
+/**
+ * 树形图快捷键列表
+ * 按 `?`（可在快捷键设置中修改）打开，显示当前生效的按键绑定
+ */
+
+import { memo } from 'react'
+import { CloseButton, Flex, Paper, Table, Text } from '@mantine/core'
+import { useTranslation } from 'react-i18next'
+import type { ShortcutSetting } from 'src/shared/types'
+import { Keys } from '@/components/Shortcut'
+import { TREE_SHORTCUT_NAMES, type TreeKeyboardAction } from '@/lib/tree-keyboard'
+import { cn } from '@/lib/utils'
+
+// ============ 类型定义 ============
+
+export interface TreeShortcutsHelpProps {
+  /** 当前快捷键设置 */
+  shortcuts: ShortcutSetting
+  /** 关闭回调 */
+  onClose: () => void
+  /** 额外的 className */
+  className?: string
+}
+
+// ============ 组件 ============
+
+function TreeShortcutsHelpComponent({ shortcuts, onClose, className }: TreeShortcutsHelpProps) {
+  const { t } = useTranslation()
+
+  const labels: Record<TreeKeyboardAction, string> = {
+    parent: t('Select parent node'),
+    child: t('Select child node'),
+    prevSibling: t('Select previous sibling'),
+    nextSibling: t('Select next sibling'),
+    openDetail: t('Open node details'),
+    edit: t('Edit message'),
+    regenerate: t('Regenerate response'),
+    branch: t('Create branch from node'),
+    delete: t('Delete node'),
+    quote: t('Quote node'),
+    help: t('Show tree shortcuts'),
+  }
+
+  return (
+    <Paper
+      shadow="lg"
+      radius="md"
+      p="sm"
+      className={cn('w-[320px] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700', className)}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Flex justify="space-between" align="center" mb="xs">
+        <Text size="sm" fw={600}>
+          {t('Tree shortcuts')}
+        </Text>
+        <CloseButton size="sm" onClick={onClose} />
+      </Flex>
+      <Table verticalSpacing={4} fz="xs">
+        <Table.Tbody>
+          {(Object.keys(TREE_SHORTCUT_NAMES) as TreeKeyboardAction[]).map((action) => {
+            const keys = shortcuts[TREE_SHORTCUT_NAMES[action]]
+            return (
+              <Table.Tr key={action}>
+                <Table.Td>{labels[action]}</Table.Td>
+                <Table.Td className="text-right">
+                  {keys ? (
+                    <Keys keys={keys.split('+')} />
+                  ) : (
+                    <Text size="xs" c="dimmed">
+                      {t('None')}
+                    </Text>
+                  )}
+                </Table.Td>
+              </Table.Tr>
+            )
+          })}
+        </Table.Tbody>
+      </Table>
+      <Text size="xs" c="dimmed" mt="xs">
+        {t('Change the keys in Settings > Hotkeys')}
+      </Text>
+    </Paper>
+  )
+}
+
+export const TreeShortcutsHelp = memo(TreeShortcutsHelpComponent)
+export default TreeShortcutsHelp
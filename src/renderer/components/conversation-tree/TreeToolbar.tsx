@@ -5,7 +5,7 @@
  */
 
 import { memo } from 'react'
-import { ActionIcon, Flex, Tooltip } from '@mantine/core'
+import { ActionIcon, Flex, Menu, Popover, ScrollArea, Stack, Text, Tooltip, UnstyledButton } from '@mantine/core'
 import { 
   IconPointer, 
   IconBoxMultiple, 
@@ -13,9 +13,34 @@ import {
   IconTrash, 
   IconLayoutDistributeVertical,
   IconArrowBackUp,
+  IconArrowForwardUp,
+  IconHistory,
+  IconArrowMerge,
+  IconLayoutColumns,
+  IconQuote,
+  IconBookmarkFilled,
+  IconGitBranch,
+  IconTag,
+  IconChevronsUp,
+  IconChevronsDown,
+  IconHierarchy,
+  IconHierarchy3,
+  IconBinaryTree2,
+  IconAffiliate,
+  IconCheck,
+  IconRefreshAlert,
+  IconNotes,
+  IconChartBar,
+  IconScissors,
+  IconPlayerStop,
 } from '@tabler/icons-react'
 import { useTranslation } from 'react-i18next'
+import dayjs from 'dayjs'
 import { ScalableIcon } from '@/components/ScalableIcon'
+import type { TreeLabel, TreeLabelKind } from '@/lib/session-tree'
+import { cn } from '@/lib/utils'
+import type { TreeHistoryAction, TreeHistoryStacks } from '@/stores/treeHistoryStore'
+import type { TreeLayoutMode } from '@/lib/tree-layout'
 
 // ============ 类型定义 ============
 
@@ -34,14 +59,64 @@ export interface TreeToolbarProps {
   onDelete: () => void
   /** 自动整理布局 */
   onAutoLayout: () => void
-  /** 撤销删除 */
+  /** 当前布局模式 */
+  layoutMode: TreeLayoutMode
+  /** 布局模式变更回调 */
+  onLayoutModeChange: (mode: TreeLayoutMode) => void
+  /** 折叠所有非活跃分支 */
+  onCollapseInactive: () => void
+  /** 展开所有折叠的节点 */
+  onExpandAll: () => void
+  /** 撤销上一次修改 */
   onUndo: () => void
+  /** 重做上一次撤销的修改 */
+  onRedo: () => void
+  /** 跳转到指定历史记录完成后的状态 */
+  onJumpToHistory: (entryId: string) => void
+  /** 当前会话的撤销/重做历史 */
+  history: TreeHistoryStacks
+  /** 合并选中的叶子节点分支 */
+  onMerge: () => void
+  /** 并排对比选中的节点 */
+  onCompare: () => void
+  /** 将选中节点作为引用添加到输入框 */
+  onReference: () => void
+  /** 跳转到命名分支、标记或书签所在的节点 */
+  onJumpToLabel: (messageId: string) => void
+  /** 重新生成所有上下文已改变的助手消息 */
+  onRegenerateContextChanged: () => void
+  /** 上下文已改变（子树被移动过）的助手消息数量 */
+  contextChangedCount: number
+  /** 为缺少摘要或摘要已过期的分支生成标题和摘要 */
+  onSummarizeBranches: () => void
+  /** 缺少摘要或摘要已过期的分支数量 */
+  unsummarizedBranchCount: number
+  /** 打开会话的用量和费用统计 */
+  onShowStats: () => void
+  /** 打开不活跃分支的修剪和归档 */
+  onPrune: () => void
+  /** 正在进行的路径重放进度，没有重放时为 undefined */
+  replayProgress?: { done: number; total: number }
+  /** 取消路径重放 */
+  onCancelReplay: () => void
+  /** 会话中的命名分支、标记和书签 */
+  labels: TreeLabel[]
   /** 是否有选中节点可聚焦 */
   canFocus: boolean
   /** 是否有选中节点可删除 */
   canDelete: boolean
   /** 是否可以撤销 */
   canUndo: boolean
+  /** 是否可以重做 */
+  canRedo: boolean
+  /** 是否可以合并（框选模式下选中至少两个节点） */
+  canMerge: boolean
+  /** 是否可以对比（框选模式下选中 2-4 个节点） */
+  canCompare: boolean
+  /** 是否有选中节点可引用 */
+  canReference: boolean
+  /** 是否有折叠的节点可展开 */
+  canExpandAll: boolean
   /** 额外的 className */
   className?: string
 }
@@ -55,10 +130,35 @@ function TreeToolbarComponent({
   onFocus,
   onDelete,
   onAutoLayout,
+  layoutMode,
+  onLayoutModeChange,
+  onCollapseInactive,
+  onExpandAll,
   onUndo,
+  onRedo,
+  onJumpToHistory,
+  history,
+  onMerge,
+  onCompare,
+  onReference,
+  onJumpToLabel,
+  onRegenerateContextChanged,
+  contextChangedCount,
+  onSummarizeBranches,
+  unsummarizedBranchCount,
+  onShowStats,
+  onPrune,
+  replayProgress,
+  onCancelReplay,
+  labels,
   canFocus,
   canDelete,
   canUndo,
+  canRedo,
+  canMerge,
+  canCompare,
+  canReference,
+  canExpandAll,
   className,
 }: TreeToolbarProps) {
   const { t } = useTranslation()
@@ -115,6 +215,9 @@ function TreeToolbarComponent({
           </ActionIcon>
         </Tooltip>
 
+        {/* 分支/标记/书签选择器 */}
+        <TreeLabelPicker labels={labels} onJump={onJumpToLabel} />
+
         {/* 删除按钮 */}
         <Tooltip label={t('Delete selected nodes')} withArrow position="top">
           <ActionIcon
@@ -128,6 +231,111 @@ function TreeToolbarComponent({
           </ActionIcon>
         </Tooltip>
 
+        {/* 引用节点按钮 */}
+        <Tooltip label={t('Reference selected nodes in next message')} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onReference}
+            disabled={!canReference}
+          >
+            <ScalableIcon icon={IconQuote} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 对比分支按钮 */}
+        <Tooltip label={t('Compare selected nodes side by side')} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onCompare}
+            disabled={!canCompare}
+          >
+            <ScalableIcon icon={IconLayoutColumns} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 合并分支按钮 */}
+        <Tooltip label={t('Merge selected branches')} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onMerge}
+            disabled={!canMerge}
+          >
+            <ScalableIcon icon={IconArrowMerge} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 生成分支标题和摘要 */}
+        <Tooltip
+          label={
+            unsummarizedBranchCount > 0
+              ? t('Summarize {{count}} branches', { count: unsummarizedBranchCount })
+              : t('All branches are summarized')
+          }
+          withArrow
+          position="top"
+        >
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onSummarizeBranches}
+            disabled={unsummarizedBranchCount === 0}
+          >
+            <ScalableIcon icon={IconNotes} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 用量和费用统计 */}
+        <Tooltip label={t('Session statistics')} withArrow position="top">
+          <ActionIcon size={24} variant="subtle" color="chatbox-secondary" onClick={onShowStats}>
+            <ScalableIcon icon={IconChartBar} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 修剪不活跃的分支 */}
+        <Tooltip label={t('Prune branches')} withArrow position="top">
+          <ActionIcon size={24} variant="subtle" color="chatbox-secondary" onClick={onPrune}>
+            <ScalableIcon icon={IconScissors} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 路径重放进度，点击取消 */}
+        {replayProgress && (
+          <Tooltip label={t('Stop replaying')} withArrow position="top">
+            <UnstyledButton
+              className="flex items-center gap-1 rounded px-1.5 text-xs text-green-700 hover:bg-green-50 dark:text-green-300 dark:hover:bg-green-900/30"
+              onClick={onCancelReplay}
+            >
+              <ScalableIcon icon={IconPlayerStop} size={18} strokeWidth={1.8} />
+              {t('Replaying {{done}}/{{total}}', { done: replayProgress.done, total: replayProgress.total })}
+            </UnstyledButton>
+          </Tooltip>
+        )}
+
+        {/* 重新生成上下文已改变的节点 */}
+        {contextChangedCount > 0 && (
+          <Tooltip
+            label={t('Regenerate {{count}} replies whose context changed', { count: contextChangedCount })}
+            withArrow
+            position="top"
+          >
+            <ActionIcon
+              size={24}
+              variant="subtle"
+              color="orange"
+              onClick={onRegenerateContextChanged}
+            >
+              <ScalableIcon icon={IconRefreshAlert} size={22} strokeWidth={1.8} />
+            </ActionIcon>
+          </Tooltip>
+        )}
+
         {/* 整理布局按钮 */}
         <Tooltip label={t('Auto arrange layout')} withArrow position="top">
           <ActionIcon
@@ -140,8 +348,36 @@ function TreeToolbarComponent({
           </ActionIcon>
         </Tooltip>
 
-        {/* 撤销删除按钮 */}
-        <Tooltip label={t('Undo delete')} withArrow position="top">
+        {/* 布局模式 */}
+        <TreeLayoutPicker mode={layoutMode} onChange={onLayoutModeChange} />
+
+        {/* 折叠所有非活跃分支 */}
+        <Tooltip label={t('Collapse all inactive branches')} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onCollapseInactive}
+          >
+            <ScalableIcon icon={IconChevronsUp} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 展开所有节点 */}
+        <Tooltip label={t('Expand all')} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onExpandAll}
+            disabled={!canExpandAll}
+          >
+            <ScalableIcon icon={IconChevronsDown} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 撤销按钮 */}
+        <Tooltip label={`${t('Undo')} (Ctrl+Z)`} withArrow position="top">
           <ActionIcon
             size={24}
             variant="subtle"
@@ -152,10 +388,171 @@ function TreeToolbarComponent({
             <ScalableIcon icon={IconArrowBackUp} size={22} strokeWidth={1.8} />
           </ActionIcon>
         </Tooltip>
+
+        {/* 重做按钮 */}
+        <Tooltip label={`${t('Redo')} (Ctrl+Shift+Z)`} withArrow position="top">
+          <ActionIcon
+            size={24}
+            variant="subtle"
+            color="chatbox-secondary"
+            onClick={onRedo}
+            disabled={!canRedo}
+          >
+            <ScalableIcon icon={IconArrowForwardUp} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+
+        {/* 历史记录 */}
+        <TreeHistoryPopover history={history} onJump={onJumpToHistory} />
       </Flex>
     </div>
   )
 }
 
+const HISTORY_ACTION_LABELS: Record<TreeHistoryAction, string> = {
+  delete: 'Delete nodes',
+  edit: 'Edit message',
+  insert: 'Add message',
+  'create-fork': 'Create branch',
+  'delete-fork': 'Delete branch',
+  'expand-fork': 'Expand branches',
+  'switch-branch': 'Switch branch',
+  'move-nodes': 'Move nodes',
+  reparent: 'Move subtree',
+  'auto-layout': 'Auto arrange layout',
+}
+
+function TreeHistoryPopover({ history, onJump }: { history: TreeHistoryStacks; onJump: (entryId: string) => void }) {
+  const { t } = useTranslation()
+  const isEmpty = history.undo.length === 0 && history.redo.length === 0
+  // 最新的记录在最上方：先列出可重做的记录，再列出已应用的记录
+  const entries = [
+    ...history.redo.map((entry) => ({ entry, undone: true })),
+    ...[...history.undo].reverse().map((entry) => ({ entry, undone: false })),
+  ]
+
+  return (
+    <Popover position="top" withArrow shadow="md" disabled={isEmpty}>
+      <Popover.Target>
+        <Tooltip label={t('History')} withArrow position="top">
+          <ActionIcon size={24} variant="subtle" color="chatbox-secondary" disabled={isEmpty}>
+            <ScalableIcon icon={IconHistory} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+      </Popover.Target>
+      <Popover.Dropdown p={4}>
+        <ScrollArea.Autosize mah={320} type="auto">
+          <Stack gap={0} miw={220}>
+            {entries.map(({ entry, undone }, index) => (
+              <UnstyledButton
+                key={entry.id}
+                onClick={() => onJump(entry.id)}
+                className={cn(
+                  'flex items-center justify-between gap-4 rounded px-2 py-1 hover:bg-chatbox-background-secondary',
+                  undone && 'opacity-50',
+                  index === history.redo.length && 'bg-chatbox-background-secondary'
+                )}
+              >
+                <Text size="sm" td={undone ? 'line-through' : undefined}>
+                  {t(HISTORY_ACTION_LABELS[entry.action])}
+                </Text>
+                <Text size="xs" c="dimmed">
+                  {dayjs(entry.timestamp).format('HH:mm:ss')}
+                </Text>
+              </UnstyledButton>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Popover.Dropdown>
+    </Popover>
+  )
+}
+
+const LAYOUT_MODE_OPTIONS: { mode: TreeLayoutMode; title: string; icon: typeof IconHierarchy }[] = [
+  { mode: 'vertical', title: 'Top to bottom', icon: IconHierarchy },
+  { mode: 'horizontal', title: 'Left to right', icon: IconBinaryTree2 },
+  { mode: 'compact', title: 'Compact', icon: IconHierarchy3 },
+  { mode: 'radial', title: 'Radial (mind map)', icon: IconAffiliate },
+]
+
+function TreeLayoutPicker({ mode, onChange }: { mode: TreeLayoutMode; onChange: (mode: TreeLayoutMode) => void }) {
+  const { t } = useTranslation()
+  const current = LAYOUT_MODE_OPTIONS.find((option) => option.mode === mode) ?? LAYOUT_MODE_OPTIONS[0]
+
+  return (
+    <Menu position="top" withArrow shadow="md">
+      <Menu.Target>
+        <Tooltip label={`${t('Layout')}: ${t(current.title)}`} withArrow position="top">
+          <ActionIcon size={24} variant="subtle" color="chatbox-secondary">
+            <ScalableIcon icon={current.icon} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+      </Menu.Target>
+      <Menu.Dropdown>
+        <Menu.Label>{t('Layout')}</Menu.Label>
+        {LAYOUT_MODE_OPTIONS.map(({ mode: optionMode, title, icon: Icon }) => (
+          <Menu.Item
+            key={optionMode}
+            leftSection={<Icon size={14} />}
+            rightSection={optionMode === mode ? <IconCheck size={14} /> : null}
+            onClick={() => onChange(optionMode)}
+          >
+            {t(title)}
+          </Menu.Item>
+        ))}
+      </Menu.Dropdown>
+    </Menu>
+  )
+}
+
+const LABEL_GROUPS: { kind: TreeLabelKind; title: string; icon: typeof IconTag }[] = [
+  { kind: 'branch', title: 'Branches', icon: IconGitBranch },
+  { kind: 'tag', title: 'Tags', icon: IconTag },
+  { kind: 'bookmark', title: 'Bookmarks', icon: IconBookmarkFilled },
+]
+
+function TreeLabelPicker({ labels, onJump }: { labels: TreeLabel[]; onJump: (messageId: string) => void }) {
+  const { t } = useTranslation()
+
+  return (
+    <Menu position="top" withArrow shadow="md" disabled={labels.length === 0}>
+      <Menu.Target>
+        <Tooltip label={t('Jump to branch, tag or bookmark')} withArrow position="top">
+          <ActionIcon size={24} variant="subtle" color="chatbox-secondary" disabled={labels.length === 0}>
+            <ScalableIcon icon={IconGitBranch} size={22} strokeWidth={1.8} />
+          </ActionIcon>
+        </Tooltip>
+      </Menu.Target>
+      <Menu.Dropdown mah={360} className="overflow-y-auto">
+        {LABEL_GROUPS.map(({ kind, title, icon: Icon }) => {
+          const items = labels.filter((label) => label.kind === kind)
+          if (items.length === 0) return null
+          return (
+            <div key={kind}>
+              <Menu.Label>{t(title)}</Menu.Label>
+              {items.map((label) => (
+                <Menu.Item
+                  key={`${label.messageId}:${label.name ?? ''}`}
+                  leftSection={<Icon size={14} />}
+                  onClick={() => onJump(label.messageId)}
+                >
+                  <Text size="sm" maw={240} truncate>
+                    {label.name ?? (label.preview || t('Empty message'))}
+                  </Text>
+                  {label.name && (
+                    <Text size="xs" c="dimmed" maw={240} truncate>
+                      {label.preview}
+                    </Text>
+                  )}
+                </Menu.Item>
+              ))}
+            </div>
+          )
+        })}
+      </Menu.Dropdown>
+    </Menu>
+  )
+}
+
 export const TreeToolbar = memo(TreeToolbarComponent)
 export default TreeToolbar
@@ -0,0 +1,59 @@
+/**
+ * 合并边组件
+ * 用于显示合并节点与其额外来源节点之间的连线（树结构之外的父节点链接）
+ */
+
+import { memo } from 'react'
+import {
+  BaseEdge,
+  getBezierPath,
+  type Edge,
+  type EdgeProps,
+} from '@xyflow/react'
+
+type MergeEdgeData = {
+  isActivePath: boolean
+  branchIndex?: number
+}
+
+/** 合并边颜色（indigo） */
+const MERGE_EDGE_COLOR = '#6366f1'
+
+function MergeEdgeComponent({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style = {},
+  markerEnd,
+  data,
+}: EdgeProps<Edge<MergeEdgeData, 'merge'>>) {
+  // 使用贝塞尔曲线，与树结构的折线区分开
+  const [edgePath] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  })
+
+  return (
+    <BaseEdge
+      path={edgePath}
+      markerEnd={markerEnd}
+      style={{
+        ...style,
+        stroke: MERGE_EDGE_COLOR,
+        strokeWidth: 2,
+        strokeDasharray: '2 6',
+        strokeLinecap: 'round',
+        opacity: data?.isActivePath ? 0.9 : 0.5,
+      }}
+    />
+  )
+}
+
+export const MergeEdge = memo(MergeEdgeComponent)
@@ -0,0 +1,57 @@
+/**
+ * 引用边组件
+ * 用于显示被引用节点与引用它的用户消息之间的连线（树结构之外的上下文引用）
+ */
+
+import { memo } from 'react'
+import {
+  BaseEdge,
+  getBezierPath,
+  type Edge,
+  type EdgeProps,
+} from '@xyflow/react'
+
+type ReferenceEdgeData = {
+  isActivePath: boolean
+  branchIndex?: number
+}
+
+/** 引用边颜色（gray） */
+const REFERENCE_EDGE_COLOR = '#9ca3af'
+
+function ReferenceEdgeComponent({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style = {},
+  markerEnd,
+  data,
+}: EdgeProps<Edge<ReferenceEdgeData, 'reference'>>) {
+  const [edgePath] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  })
+
+  return (
+    <BaseEdge
+      path={edgePath}
+      markerEnd={markerEnd}
+      style={{
+        ...style,
+        stroke: REFERENCE_EDGE_COLOR,
+        strokeWidth: 1.5,
+        strokeDasharray: '6 4',
+        opacity: data?.isActivePath ? 0.8 : 0.4,
+      }}
+    />
+  )
+}
+
+export const ReferenceEdge = memo(ReferenceEdgeComponent)
@@ -5,10 +5,14 @@
 export { ActivePathEdge } from './ActivePathEdge'
 export { BranchEdge } from './BranchEdge'
 export { DefaultEdge } from './DefaultEdge'
+export { MergeEdge } from './MergeEdge'
+export { ReferenceEdge } from './ReferenceEdge'
 
 import { ActivePathEdge } from './ActivePathEdge'
 import { BranchEdge } from './BranchEdge'
 import { DefaultEdge } from './DefaultEdge'
+import { MergeEdge } from './MergeEdge'
+import { ReferenceEdge } from './ReferenceEdge'
 
 /**
  * ReactFlow 边类型映射
@@ -17,4 +21,6 @@ export const edgeTypes = {
   activePath: ActivePathEdge,
   branch: BranchEdge,
   default: DefaultEdge,
+  merge: MergeEdge,
+  reference: ReferenceEdge,
 }
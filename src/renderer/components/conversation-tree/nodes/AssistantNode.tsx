@@ -4,32 +4,52 @@
 
 import { memo, useState, useCallback } from 'react'
 import { Handle, Position } from '@xyflow/react'
-import { IconRobot, IconLoader2, IconGitBranch, IconGitFork, IconCopy, IconQuote, IconReload, IconTrash, IconSwitchHorizontal } from '@tabler/icons-react'
+import { IconRobot, IconLoader2, IconGitBranch, IconGitFork, IconCopy, IconQuote, IconReload, IconTrash, IconSwitchHorizontal, IconTag, IconRoute, IconSubtask, IconAlertTriangle, IconAdjustments, IconPlayerPlay, IconScissors, IconListSearch } from '@tabler/icons-react'
 import { ActionIcon, Tooltip, Flex, Paper } from '@mantine/core'
 import { useTranslation } from 'react-i18next'
+import NiceModal from '@ebay/nice-modal-react'
 
 import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
 import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
+import { describeGenerationOverride } from '@/lib/generation-override'
 import { getBranchColor } from '../utils/branchColors'
+import { NodeLabels } from './NodeLabels'
+import { CollapsedSummaryPill, NodeCollapseToggle } from './NodeCollapse'
+import { CompactNode, useIsZoomedOut } from './NodeLod'
 import { cn } from '@/lib/utils'
+import { getDropTargetClass, getSearchHighlightClass } from '../utils/searchHighlight'
 import dayjs from 'dayjs'
 import { getMessageText } from 'src/shared/utils/message'
 import { copyToClipboard } from '@/packages/navigator'
 import * as toastActions from '@/stores/toastActions'
-import { useUIStore } from '@/stores/uiStore'
 import { useMultiModelStore } from '@/stores/multiModelStore'
-import { regenerateInNewFork, removeMessage, switchToMessageBranch } from '@/stores/sessionActions'
+import {
+  addMessageReferencesToInput,
+  extractPathToNewSession,
+  regenerateInNewFork,
+  removeMessage,
+  switchToMessageBranch,
+} from '@/stores/sessionActions'
 
 type AssistantNodeProps = {
   data: TreeNodeData
   selected?: boolean
+  /** 入边连接点方向，由布局决定 */
+  targetPosition?: Position
+  /** 出边连接点方向，由布局决定 */
+  sourcePosition?: Position
 }
 
-function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodeProps) {
+function AssistantNodeComponent({
+  data,
+  selected: _rfSelected,
+  targetPosition = Position.Top,
+  sourcePosition = Position.Bottom,
+}: AssistantNodeProps) {
   const { t } = useTranslation()
   const [isHovered, setIsHovered] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
-  const setQuote = useUIStore((state) => state.setQuote)
+  const isZoomedOut = useIsZoomedOut()
   
   // 多模型配置
   const multiModelEnabled = useMultiModelStore((s) => s.multiModelEnabled)
@@ -44,6 +64,7 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
     : ''
   const isGenerating = data.message.generating
   const hasError = !!data.message.error
+  const overrideDescription = describeGenerationOverride(data.message.generationOverride)
   
   const isBranch = data.branchCount > 1
   const branchColor = isBranch ? getBranchColor(data.branchIndex) : null
@@ -61,16 +82,13 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
     toastActions.add(t('copied to clipboard'), 2000)
   }, [data.message, t])
 
-  // 引用消息
-  const handleQuote = useCallback((e: React.MouseEvent) => {
+  // 引用消息（作为结构化引用附加到下一条用户消息）
+  const handleQuote = useCallback(async (e: React.MouseEvent) => {
     e.stopPropagation()
-    const input = getMessageText(data.message)
-      .split('\n')
-      .map((line) => `> ${line}`)
-      .join('\n')
-    setQuote(input + '\n\n')
-    toastActions.add(t('Quote added to input'), 2000)
-  }, [data.message, setQuote, t])
+    if (await addMessageReferencesToInput(data.sessionId, [data.message.id])) {
+      toastActions.add(t('Reference added to input'), 2000)
+    }
+  }, [data.sessionId, data.message.id, t])
 
   // 重新生成
   const handleRegenerate = useCallback((e: React.MouseEvent) => {
@@ -98,6 +116,30 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
     switchToMessageBranch(data.sessionId, data.message.id)
   }, [data.sessionId, data.message.id])
 
+  // 编辑分支名、标记和书签
+  const handleEditLabels = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    void NiceModal.show('tree-labels', { sessionId: data.sessionId, messageId: data.message.id })
+  }, [data.sessionId, data.message.id])
+
+  // 预演此节点生成时发送给模型的上下文
+  const handleInspectContext = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    void NiceModal.show('context-inspector', { sessionId: data.sessionId, messageId: data.message.id })
+  }, [data.sessionId, data.message.id])
+
+  // 将根节点到此节点的路径（可包含整个子树）提取为新会话
+  const handleExtract = useCallback((e: React.MouseEvent, includeSubtree: boolean) => {
+    e.stopPropagation()
+    extractPathToNewSession(data.sessionId, data.message.id, { includeSubtree })
+  }, [data.sessionId, data.message.id])
+
+  // 用其他模型重放根节点到此节点的路径
+  const handleReplay = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    void NiceModal.show('replay-path', { sessionId: data.sessionId, messageId: data.message.id })
+  }, [data.sessionId, data.message.id])
+
   // 点击 Handle 创建节点
   const handleSourceClick = useCallback((e: React.MouseEvent) => {
     e.stopPropagation()
@@ -109,6 +151,11 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
     e.currentTarget.dispatchEvent(event)
   }, [data.message.id])
 
+  // 画布缩小时使用简化渲染
+  if (isZoomedOut) {
+    return <CompactNode data={data} targetPosition={targetPosition} sourcePosition={sourcePosition} />
+  }
+
   return (
     <div
       className={cn(
@@ -118,7 +165,8 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
         !data.isActivePath && 'opacity-70 dark:opacity-80',
         hasError && 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/30',
         isSelected && 'border-green-500',
-        isHovered && 'shadow-md'
+        isHovered && 'shadow-md',
+        getDropTargetClass(data) ?? getSearchHighlightClass(data)
       )}
       style={{
         ...(isBranch && !data.isActivePath && !hasError ? {
@@ -144,7 +192,7 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
       {/* 顶部连接点 */}
       <Handle
         type="target"
-        position={Position.Top}
+        position={targetPosition}
         className={cn('!w-3 !h-3', hasError ? '!bg-red-400' : '!bg-green-400')}
         style={isBranch && !data.isActivePath && !hasError ? { backgroundColor: branchColor?.border } : undefined}
       />
@@ -185,6 +233,73 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
         )}
       </div>
 
+      {/* 分支名、标记和书签 */}
+      <NodeLabels data={data} />
+
+      {/* 使用分支级生成设置生成的回复 */}
+      {overrideDescription.length > 0 && (
+        <Tooltip
+          label={
+            <div>
+              {overrideDescription.map((item) => (
+                <div key={item}>{item}</div>
+              ))}
+            </div>
+          }
+          withArrow
+          openDelay={300}
+        >
+          <div className="mb-2 mr-1 inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300">
+            <IconAdjustments size={12} />
+            {t('Custom settings')}
+          </div>
+        </Tooltip>
+      )}
+
+      {/* 子树被移动过，回复是在不同的历史下生成的 */}
+      {data.message.contextChanged && (
+        <Tooltip label={t('Generated under a different history, regenerate to refresh')} withArrow openDelay={300}>
+          <div className="mb-2 inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300">
+            <IconAlertTriangle size={12} />
+            {t('Context changed')}
+          </div>
+        </Tooltip>
+      )}
+
+      {/* 生成时上下文超出模型的上下文窗口，部分消息或附件被裁剪 */}
+      {data.message.contextTrim && (
+        <Tooltip
+          label={
+            <div>
+              {data.message.contextTrim.excludedMessageIds.length > 0 && (
+                <div>
+                  {t('{{count}} older messages were left out to fit the context window of the model', {
+                    count: data.message.contextTrim.excludedMessageIds.length,
+                  })}
+                </div>
+              )}
+              {!!data.message.contextTrim.truncatedAttachmentCount && (
+                <div>
+                  {t('{{count}} attachments were truncated', {
+                    count: data.message.contextTrim.truncatedAttachmentCount,
+                  })}
+                </div>
+              )}
+              {data.message.contextTrim.truncatedInput && <div>{t('The latest message was truncated')}</div>}
+            </div>
+          }
+          withArrow
+          openDelay={300}
+        >
+          <div className="mb-2 inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+            <IconScissors size={12} />
+            {data.message.contextTrim.excludedMessageIds.length > 0
+              ? t('{{count}} messages trimmed', { count: data.message.contextTrim.excludedMessageIds.length })
+              : t('Context trimmed')}
+          </div>
+        </Tooltip>
+      )}
+
       {/* 内容预览 */}
       <div
         className={cn(
@@ -230,6 +345,12 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
         </div>
       )}
 
+      {/* 折叠后隐藏的子孙节点摘要 */}
+      <CollapsedSummaryPill data={data} />
+
+      {/* 折叠/展开子树 */}
+      <NodeCollapseToggle data={data} />
+
       {/* 多分支点指示器 - 当此节点下有多个分支时显示 */}
       {data.childrenCount > 1 && (
         <div className="absolute -right-1 -bottom-1 flex items-center justify-center">
@@ -274,6 +395,31 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
                 <IconQuote size={16} />
               </ActionIcon>
             </Tooltip>
+            <Tooltip label={t('Labels')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleEditLabels}>
+                <IconTag size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Extract path to new session')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={(e) => handleExtract(e, false)}>
+                <IconRoute size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Extract path and subtree to new session')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={(e) => handleExtract(e, true)}>
+                <IconSubtask size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Inspect context')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleInspectContext}>
+                <IconListSearch size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Replay path with another model')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleReplay}>
+                <IconPlayerPlay size={16} />
+              </ActionIcon>
+            </Tooltip>
             {data.isActivePath && (
               <Tooltip label={t('Reply Again')} withArrow openDelay={300}>
                 <ActionIcon variant="subtle" size="sm" color="green" onClick={handleRegenerate}>
@@ -293,7 +439,7 @@ function AssistantNodeComponent({ data, selected: _rfSelected }: AssistantNodePr
       {/* 底部连接点 - 可点击创建新节点 */}
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         className={cn(
           '!w-4 !h-4 transition-all cursor-pointer',
           hasError ? '!bg-red-400 hover:!bg-red-500' : '!bg-green-400 hover:!bg-green-500',
@@ -0,0 +1,80 @@
+/**
+ * 节点折叠组件
+ * 折叠按钮用于隐藏/显示节点的子孙节点，摘要胶囊显示被隐藏部分的统计信息
+ */
+
+import { memo, useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
+import { IconChevronDown, IconChevronRight } from '@tabler/icons-react'
+import { Tooltip } from '@mantine/core'
+import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
+import { cn } from '@/lib/utils'
+import { viewModeStore } from '@/stores/viewModeStore'
+
+function NodeCollapseToggleComponent({ data }: { data: TreeNodeData }) {
+  const { t } = useTranslation()
+  const isCollapsed = !!data.isCollapsed
+
+  const handleToggle = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation()
+      viewModeStore.getState().toggleNodeCollapsed(data.sessionId, data.message.id)
+    },
+    [data.sessionId, data.message.id]
+  )
+
+  if (!data.hasChildren) {
+    return null
+  }
+
+  return (
+    <Tooltip label={isCollapsed ? t('Expand subtree') : t('Collapse subtree')} withArrow openDelay={300}>
+      <button
+        type="button"
+        className={cn(
+          'absolute -left-1 -bottom-1 z-10 w-5 h-5 rounded-full flex items-center justify-center',
+          'border border-gray-300 dark:border-gray-600 shadow-sm cursor-pointer',
+          isCollapsed
+            ? 'bg-blue-500 text-white border-blue-500'
+            : 'bg-white text-gray-500 dark:bg-gray-800 dark:text-gray-300'
+        )}
+        onClick={handleToggle}
+        onMouseDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        {isCollapsed ? <IconChevronRight size={12} /> : <IconChevronDown size={12} />}
+      </button>
+    </Tooltip>
+  )
+}
+
+function CollapsedSummaryPillComponent({ data }: { data: TreeNodeData }) {
+  const { t } = useTranslation()
+  const summary = data.collapsedSummary
+  if (!summary) {
+    return null
+  }
+
+  const parts = [t('{{count}} hidden nodes', { count: summary.nodeCount })]
+  if (summary.models.length > 0) {
+    parts.push(summary.models.join(', '))
+  }
+  if (summary.totalTokens > 0) {
+    parts.push(`${summary.totalTokens} tokens`)
+  }
+
+  return (
+    <div
+      className={cn(
+        'mt-2 rounded-full px-2 py-0.5 text-[11px] leading-4 truncate',
+        'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300'
+      )}
+      title={parts.join(' · ')}
+    >
+      {parts.join(' · ')}
+    </div>
+  )
+}
+
+export const NodeCollapseToggle = memo(NodeCollapseToggleComponent)
+export const CollapsedSummaryPill = memo(CollapsedSummaryPillComponent)
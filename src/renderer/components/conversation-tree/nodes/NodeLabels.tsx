@@ -0,0 +1,46 @@
+/**
+ * 节点标签组件
+ * 在用户/助手节点中显示命名分支、标记和书签徽章
+ */
+
+import { memo } from 'react'
+import { IconBookmarkFilled, IconGitBranch, IconTag } from '@tabler/icons-react'
+import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
+import { cn } from '@/lib/utils'
+
+const BADGE_CLASS = 'inline-flex max-w-full items-center gap-0.5 rounded px-1.5 py-0.5 text-[10px] font-medium leading-none'
+
+function NodeLabelsComponent({ data }: { data: TreeNodeData }) {
+  const { branchName } = data
+  const { tags, bookmarked } = data.message
+  if (!branchName && !tags?.length && !bookmarked) {
+    return null
+  }
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-1">
+      {bookmarked && (
+        <span className={cn(BADGE_CLASS, 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300')}>
+          <IconBookmarkFilled size={10} />
+        </span>
+      )}
+      {branchName && (
+        <span className={cn(BADGE_CLASS, 'bg-violet-100 text-violet-700 dark:bg-violet-900/50 dark:text-violet-300')}>
+          <IconGitBranch size={10} className="shrink-0" />
+          <span className="truncate">{branchName}</span>
+        </span>
+      )}
+      {tags?.map((tag) => (
+        <span
+          key={tag}
+          className={cn(BADGE_CLASS, 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300')}
+        >
+          <IconTag size={10} className="shrink-0" />
+          <span className="truncate">{tag}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export const NodeLabels = memo(NodeLabelsComponent)
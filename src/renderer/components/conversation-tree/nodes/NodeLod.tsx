@@ -0,0 +1,75 @@
+/**
+ * 节点的简化渲染
+ * 画布缩小到看不清节点内容时，节点只渲染角色颜色、分支名和一行预览，
+ * 不渲染操作栏、标签和 Tooltip，大型对话树缩小后平移和缩放依然流畅
+ */
+
+import { memo } from 'react'
+import { Handle, type Position, useStore } from '@xyflow/react'
+import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
+import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
+import { TREE_LOD_ZOOM_THRESHOLD } from '@/lib/tree-incremental'
+import { cn } from '@/lib/utils'
+import { getDropTargetClass, getSearchHighlightClass } from '../utils/searchHighlight'
+
+// ============ 类型定义 ============
+
+type CompactNodeProps = {
+  data: TreeNodeData
+  /** 入边连接点方向，由布局决定 */
+  targetPosition: Position
+  /** 出边连接点方向，由布局决定 */
+  sourcePosition: Position
+}
+
+// ============ 常量 ============
+
+/** 各角色的颜色，与完整节点一致 */
+const ROLE_CLASSES: Record<TreeNodeData['type'], { node: string; handle: string }> = {
+  system: {
+    node: 'bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600 border-dashed',
+    handle: '!bg-gray-400',
+  },
+  user: { node: 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700', handle: '!bg-blue-400' },
+  assistant: {
+    node: 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-700',
+    handle: '!bg-green-400',
+  },
+}
+
+// ============ Hooks ============
+
+/**
+ * 画布是否缩小到应使用简化渲染
+ * 只订阅是否越过阈值，缩放过程中不会让所有节点重新渲染
+ */
+export function useIsZoomedOut(): boolean {
+  return useStore((state) => state.transform[2] < TREE_LOD_ZOOM_THRESHOLD)
+}
+
+// ============ 组件 ============
+
+function CompactNodeComponent({ data, targetPosition, sourcePosition }: CompactNodeProps) {
+  const roleClasses = ROLE_CLASSES[data.type]
+  const previewText = data.branchName || getMessagePreviewText(data.message, 40)
+
+  return (
+    <div
+      className={cn(
+        'w-[260px] rounded-lg border-2 px-3 py-2 relative',
+        roleClasses.node,
+        data.isActivePath && 'ring-2 ring-blue-400 ring-offset-2 dark:ring-offset-gray-900',
+        !data.isActivePath && 'opacity-70 dark:opacity-80',
+        data.message.error && 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/30',
+        data.isSelected && 'border-blue-500',
+        getDropTargetClass(data) ?? getSearchHighlightClass(data)
+      )}
+    >
+      <Handle type="target" position={targetPosition} className={cn('!w-3 !h-3', roleClasses.handle)} />
+      <div className="text-sm truncate text-gray-700 dark:text-gray-200">{previewText || ' '}</div>
+      <Handle type="source" position={sourcePosition} className={cn('!w-3 !h-3', roleClasses.handle)} />
+    </div>
+  )
+}
+
+export const CompactNode = memo(CompactNodeComponent)
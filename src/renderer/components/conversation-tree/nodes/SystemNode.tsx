@@ -8,25 +8,45 @@ import { IconSettings } from '@tabler/icons-react'
 import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
 import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
 import { cn } from '@/lib/utils'
+import { getDropTargetClass, getSearchHighlightClass } from '../utils/searchHighlight'
+import { CollapsedSummaryPill, NodeCollapseToggle } from './NodeCollapse'
+import { CompactNode, useIsZoomedOut } from './NodeLod'
 
 type SystemNodeProps = {
   data: TreeNodeData
   selected?: boolean
+  /** 入边连接点方向，由布局决定 */
+  targetPosition?: Position
+  /** 出边连接点方向，由布局决定 */
+  sourcePosition?: Position
 }
 
-function SystemNodeComponent({ data, selected: _rfSelected }: SystemNodeProps) {
-  const previewText = getMessagePreviewText(data.message, 80)
+function SystemNodeComponent({
+  data,
+  selected: _rfSelected,
+  targetPosition = Position.Top,
+  sourcePosition = Position.Bottom,
+}: SystemNodeProps) {
+  const isZoomedOut = useIsZoomedOut()
   
   // 使用我们自己管理的选中状态，而不是 ReactFlow 的 selected
   const isSelected = data.isSelected ?? false
 
+  // 画布缩小时使用简化渲染
+  if (isZoomedOut) {
+    return <CompactNode data={data} targetPosition={targetPosition} sourcePosition={sourcePosition} />
+  }
+
+  const previewText = getMessagePreviewText(data.message, 80)
+
   return (
     <div
       className={cn(
-        'w-[260px] rounded-lg border-2 border-dashed p-3 transition-all',
+        'w-[260px] rounded-lg border-2 border-dashed p-3 transition-all relative',
         'bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600',
         data.isActivePath && 'ring-2 ring-blue-400 ring-offset-2',
-        isSelected && 'border-gray-500'
+        isSelected && 'border-gray-500',
+        getDropTargetClass(data) ?? getSearchHighlightClass(data)
       )}
       style={isSelected ? {
         boxShadow: '0 0 20px 4px rgba(107, 114, 128, 0.5), 0 0 40px 8px rgba(107, 114, 128, 0.25)',
@@ -36,7 +56,7 @@ function SystemNodeComponent({ data, selected: _rfSelected }: SystemNodeProps) {
       {/* 顶部连接点 */}
       <Handle
         type="target"
-        position={Position.Top}
+        position={targetPosition}
         className="!bg-gray-400 !w-3 !h-3"
       />
 
@@ -55,10 +75,16 @@ function SystemNodeComponent({ data, selected: _rfSelected }: SystemNodeProps) {
         {previewText || '(Empty system prompt)'}
       </div>
 
+      {/* 折叠后隐藏的子孙节点摘要 */}
+      <CollapsedSummaryPill data={data} />
+
+      {/* 折叠/展开子树 */}
+      <NodeCollapseToggle data={data} />
+
       {/* 底部连接点 */}
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         className="!bg-gray-400 !w-3 !h-3"
       />
     </div>
@@ -4,7 +4,7 @@
 
 import { memo, useState, useCallback } from 'react'
 import { Handle, Position } from '@xyflow/react'
-import { IconUser, IconGitBranch, IconCopy, IconPencil, IconQuote, IconTrash, IconSwitchHorizontal } from '@tabler/icons-react'
+import { IconUser, IconGitBranch, IconCopy, IconPencil, IconQuote, IconTrash, IconSwitchHorizontal, IconTag, IconRoute, IconSubtask, IconListSearch } from '@tabler/icons-react'
 import { ActionIcon, Tooltip, Flex, Paper } from '@mantine/core'
 import { useTranslation } from 'react-i18next'
 import NiceModal from '@ebay/nice-modal-react'
@@ -12,24 +12,41 @@ import NiceModal from '@ebay/nice-modal-react'
 import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
 import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
 import { getBranchColor } from '../utils/branchColors'
+import { NodeLabels } from './NodeLabels'
+import { CollapsedSummaryPill, NodeCollapseToggle } from './NodeCollapse'
+import { CompactNode, useIsZoomedOut } from './NodeLod'
 import { cn } from '@/lib/utils'
+import { getDropTargetClass, getSearchHighlightClass } from '../utils/searchHighlight'
 import dayjs from 'dayjs'
 import { getMessageText } from 'src/shared/utils/message'
 import { copyToClipboard } from '@/packages/navigator'
 import * as toastActions from '@/stores/toastActions'
-import { useUIStore } from '@/stores/uiStore'
-import { removeMessage, switchToMessageBranch } from '@/stores/sessionActions'
+import {
+  addMessageReferencesToInput,
+  extractPathToNewSession,
+  removeMessage,
+  switchToMessageBranch,
+} from '@/stores/sessionActions'
 
 type UserNodeProps = {
   data: TreeNodeData
   selected?: boolean
+  /** 入边连接点方向，由布局决定 */
+  targetPosition?: Position
+  /** 出边连接点方向，由布局决定 */
+  sourcePosition?: Position
 }
 
-function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
+function UserNodeComponent({
+  data,
+  selected: _rfSelected,
+  targetPosition = Position.Top,
+  sourcePosition = Position.Bottom,
+}: UserNodeProps) {
   const { t } = useTranslation()
   const [isHovered, setIsHovered] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
-  const setQuote = useUIStore((state) => state.setQuote)
+  const isZoomedOut = useIsZoomedOut()
   
   // 使用我们自己管理的选中状态，而不是 ReactFlow 的 selected
   const isSelected = data.isSelected ?? false
@@ -55,16 +72,13 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
     toastActions.add(t('copied to clipboard'), 2000)
   }, [data.message, t])
 
-  // 引用消息
-  const handleQuote = useCallback((e: React.MouseEvent) => {
+  // 引用消息（作为结构化引用附加到下一条用户消息）
+  const handleQuote = useCallback(async (e: React.MouseEvent) => {
     e.stopPropagation()
-    const input = getMessageText(data.message)
-      .split('\n')
-      .map((line) => `> ${line}`)
-      .join('\n')
-    setQuote(input + '\n\n')
-    toastActions.add(t('Quote added to input'), 2000)
-  }, [data.message, setQuote, t])
+    if (await addMessageReferencesToInput(data.sessionId, [data.message.id])) {
+      toastActions.add(t('Reference added to input'), 2000)
+    }
+  }, [data.sessionId, data.message.id, t])
 
   // 编辑消息
   const handleEdit = useCallback(async (e: React.MouseEvent) => {
@@ -91,6 +105,24 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
     switchToMessageBranch(data.sessionId, data.message.id)
   }, [data.sessionId, data.message.id])
 
+  // 编辑分支名、标记和书签
+  const handleEditLabels = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    void NiceModal.show('tree-labels', { sessionId: data.sessionId, messageId: data.message.id })
+  }, [data.sessionId, data.message.id])
+
+  // 预演此节点生成时发送给模型的上下文
+  const handleInspectContext = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    void NiceModal.show('context-inspector', { sessionId: data.sessionId, messageId: data.message.id })
+  }, [data.sessionId, data.message.id])
+
+  // 将根节点到此节点的路径（可包含整个子树）提取为新会话
+  const handleExtract = useCallback((e: React.MouseEvent, includeSubtree: boolean) => {
+    e.stopPropagation()
+    extractPathToNewSession(data.sessionId, data.message.id, { includeSubtree })
+  }, [data.sessionId, data.message.id])
+
   // 点击 Handle 创建节点
   const handleSourceClick = useCallback((e: React.MouseEvent) => {
     e.stopPropagation()
@@ -102,6 +134,11 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
     e.currentTarget.dispatchEvent(event)
   }, [data.message.id])
 
+  // 画布缩小时使用简化渲染
+  if (isZoomedOut) {
+    return <CompactNode data={data} targetPosition={targetPosition} sourcePosition={sourcePosition} />
+  }
+
   return (
     <div
       className={cn(
@@ -110,7 +147,8 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
         data.isActivePath && 'ring-2 ring-blue-400 ring-offset-2 dark:ring-offset-gray-900',
         !data.isActivePath && 'opacity-70 dark:opacity-80',
         isSelected && 'border-blue-500',
-        isHovered && 'shadow-md'
+        isHovered && 'shadow-md',
+        getDropTargetClass(data) ?? getSearchHighlightClass(data)
       )}
       style={{
         ...(isBranch && !data.isActivePath ? {
@@ -135,7 +173,7 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
       {/* 顶部连接点 */}
       <Handle
         type="target"
-        position={Position.Top}
+        position={targetPosition}
         className="!bg-blue-400 !w-3 !h-3"
         style={isBranch && !data.isActivePath ? { backgroundColor: branchColor?.border } : undefined}
       />
@@ -162,6 +200,9 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
         )}
       </div>
 
+      {/* 分支名、标记和书签 */}
+      <NodeLabels data={data} />
+
       {/* 内容预览 */}
       <div className={cn(
         'text-sm line-clamp-3',
@@ -190,6 +231,12 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
         </div>
       )}
 
+      {/* 折叠后隐藏的子孙节点摘要 */}
+      <CollapsedSummaryPill data={data} />
+
+      {/* 折叠/展开子树 */}
+      <NodeCollapseToggle data={data} />
+
       {/* 多分支点指示器 - 当此节点下有多个分支时显示 */}
       {data.childrenCount > 1 && (
         <div className="absolute -right-1 -bottom-1 flex items-center justify-center">
@@ -234,6 +281,26 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
                 <IconQuote size={16} />
               </ActionIcon>
             </Tooltip>
+            <Tooltip label={t('Labels')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleEditLabels}>
+                <IconTag size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Extract path to new session')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={(e) => handleExtract(e, false)}>
+                <IconRoute size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Extract path and subtree to new session')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={(e) => handleExtract(e, true)}>
+                <IconSubtask size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label={t('Inspect context')} withArrow openDelay={300}>
+              <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleInspectContext}>
+                <IconListSearch size={16} />
+              </ActionIcon>
+            </Tooltip>
             {data.isActivePath && (
               <Tooltip label={t('edit')} withArrow openDelay={300}>
                 <ActionIcon variant="subtle" size="sm" color="gray" onClick={handleEdit}>
@@ -253,7 +320,7 @@ function UserNodeComponent({ data, selected: _rfSelected }: UserNodeProps) {
       {/* 底部连接点 - 可点击创建新节点 */}
       <Handle
         type="source"
-        position={Position.Bottom}
+        position={sourcePosition}
         className={cn(
           '!w-4 !h-4 !bg-blue-400 transition-all cursor-pointer',
           'hover:!w-6 hover:!h-6 hover:!bg-blue-500',
@@ -3,3 +3,4 @@
  */
 
 export * from './branchColors'
+export * from './searchHighlight'
@@ -0,0 +1,26 @@
+/**
+ * 节点高亮工具
+ * 为匹配搜索的节点和拖放目标节点提供统一的描边样式
+ */
+
+import type { TreeNodeData } from '@/lib/conversation-tree-adapter'
+
+/**
+ * 获取节点的搜索高亮 className，未匹配时返回 undefined
+ */
+export function getSearchHighlightClass(data: TreeNodeData): string | undefined {
+  if (data.isCurrentSearchMatch) {
+    return 'outline outline-4 outline-offset-4 outline-orange-500'
+  }
+  if (data.isSearchMatch) {
+    return 'outline outline-2 outline-offset-4 outline-amber-400'
+  }
+  return undefined
+}
+
+/**
+ * 获取拖放目标节点的 className，不是拖放目标时返回 undefined
+ */
+export function getDropTargetClass(data: TreeNodeData): string | undefined {
+  return data.isDropTarget ? 'outline-dashed outline-4 outline-offset-4 outline-violet-500' : undefined
+}
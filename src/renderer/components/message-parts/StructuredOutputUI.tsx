@@ -0,0 +1,79 @@
+import NiceModal from '@ebay/nice-modal-react'
+import { ActionIcon, Code, Collapse, Group, Paper, Stack, Text, Tooltip } from '@mantine/core'
+import {
+  IconBraces,
+  IconChevronRight,
+  IconCircleCheckFilled,
+  IconCircleXFilled,
+  IconMaximize,
+} from '@tabler/icons-react'
+import clsx from 'clsx'
+import { type FC, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { MessageStructuredOutput } from 'src/shared/types'
+import { ScalableIcon } from '../ScalableIcon'
+
+/**
+ * 结构化输出的校验结果：通过时可展开查看解析后的对象，未通过时列出校验错误
+ */
+export const StructuredOutputUI: FC<{ structuredOutput: MessageStructuredOutput }> = ({ structuredOutput }) => {
+  const { t } = useTranslation()
+  const [expanded, setExpanded] = useState(false)
+  const valid = !structuredOutput.errors
+
+  const openViewer = async (event: React.MouseEvent) => {
+    event.stopPropagation()
+    await NiceModal.show('json-viewer', { title: t('Structured output'), data: structuredOutput.object })
+  }
+
+  return (
+    <Stack gap="xxs" mb="xs">
+      <Paper withBorder radius="md" px="xs" onClick={() => setExpanded((v) => !v)} className="cursor-pointer">
+        <Group justify="space-between" className="w-full">
+          <Group gap="xs">
+            <ScalableIcon icon={IconBraces} />
+            <Text fw={600}>{t('Structured output')}</Text>
+            {valid ? (
+              <ScalableIcon icon={IconCircleCheckFilled} color="var(--chatbox-tint-success)" />
+            ) : (
+              <ScalableIcon icon={IconCircleXFilled} color="var(--chatbox-tint-error)" />
+            )}
+            <Text size="xs" c="chatbox-tertiary">
+              {valid ? t('Matches the JSON Schema') : t('Does not match the JSON Schema')}
+              {structuredOutput.attempts > 1 && ` · ${t('{{count}} attempts', { count: structuredOutput.attempts })}`}
+            </Text>
+          </Group>
+          <Group gap={0}>
+            {valid && (
+              <Tooltip label={t('Open in JSON viewer')} withArrow openDelay={500}>
+                <ActionIcon variant="subtle" color="chatbox-gray" size="sm" onClick={openViewer}>
+                  <ScalableIcon icon={IconMaximize} size={14} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+            <ScalableIcon
+              icon={IconChevronRight}
+              size={16}
+              className={clsx('transition-transform', expanded ? 'rotate-90' : '')}
+            />
+          </Group>
+        </Group>
+      </Paper>
+      <Collapse in={expanded}>
+        {valid ? (
+          <Code block className="max-h-80 overflow-auto">
+            {JSON.stringify(structuredOutput.object, null, 2)}
+          </Code>
+        ) : (
+          <Stack gap={2} px="xs">
+            {structuredOutput.errors?.map((error) => (
+              <Text key={error} size="xs" c="chatbox-error" className="font-mono">
+                {error}
+              </Text>
+            ))}
+          </Stack>
+        )}
+      </Collapse>
+    </Stack>
+  )
+}
@@ -0,0 +1,104 @@
+import type { Message, Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  collectMessageStorageKeys,
+  collectPruneCandidates,
+  collectSessionStorageKeys,
+  filterPruneCandidates,
+} from './branch-prune'
+import { buildMessageGraph, getGraphSubtree } from './message-graph'
+import { msg } from './test-utils'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 100 * DAY
+
+/** 在指定时间创建的用户消息 */
+const at = (id: string, timestamp: number, extra: Partial<Message> = {}): Message =>
+  msg(id, 'user', { timestamp, ...extra })
+
+const u3 = at('u3', DAY, { contentParts: [{ type: 'image', storageKey: 'picture:x' }] })
+
+// u1 ─ a1 ─┬─ u2 ─ a2          (active)
+//          ├─ u3 ─ a3          (old, has a picture)
+//          └─ u4               (recent, bookmarked)
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [at('u1', 0), at('a1', 0), at('u2', NOW), at('a2', NOW)],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        {
+          id: 'l1',
+          messages: [
+            u3,
+            at('a3', 2 * DAY, { files: [{ id: 'f', name: 'f', fileType: 'text', storageKey: 'file:y' }] }),
+          ],
+        },
+        { id: 'l2', messages: [at('u4', NOW - DAY, { bookmarked: true })] },
+      ],
+    },
+  },
+}
+
+describe('branch-prune', () => {
+  const candidates = collectPruneCandidates(session)
+
+  test('lists inactive branches hanging off the active path', () => {
+    expect(candidates.map((c) => [c.headId, c.parentId, c.messageIds.length, c.isLabeled])).toEqual([
+      ['u3', 'a1', 2, false],
+      ['u4', 'a1', 1, true],
+    ])
+    expect(candidates[0].lastActivityAt).toBe(2 * DAY)
+    expect(candidates[0].storageKeys.sort()).toEqual(['file:y', 'picture:x'])
+    expect(candidates[0].dataSize).toBeGreaterThan(0)
+  })
+
+  test('filters by age, length and labels', () => {
+    const ids = (filter: Parameters<typeof filterPruneCandidates>[1]) =>
+      filterPruneCandidates(candidates, filter, NOW).map((c) => c.headId)
+    expect(ids({ unlabeledOnly: false })).toEqual(['u3', 'u4'])
+    expect(ids({ unlabeledOnly: true })).toEqual(['u3'])
+    expect(ids({ unlabeledOnly: false, olderThanDays: 30 })).toEqual(['u3'])
+    expect(ids({ unlabeledOnly: false, maxMessages: 1 })).toEqual(['u4'])
+  })
+
+  test('collects storage keys still used by the session and its archive', () => {
+    expect(collectMessageStorageKeys(u3)).toEqual(['picture:x'])
+    const keys = collectSessionStorageKeys(session)
+    expect(keys.has('picture:x')).toBe(true)
+
+    const graph = buildMessageGraph(session)
+    const pruned: Session = { ...session, messages: session.messages, messageForksHash: undefined }
+    expect(collectSessionStorageKeys(pruned).has('picture:x')).toBe(false)
+    const archive = {
+      sessionId: session.id,
+      branches: [{ id: 'b', parentId: 'a1', headId: 'u3', nodes: getGraphSubtree(graph, 'u3'), archivedAt: NOW }],
+    }
+    expect(collectSessionStorageKeys(pruned, archive).has('file:y')).toBe(true)
+  })
+
+  test('collects storage keys from forks on thread messages', () => {
+    const withThread: Session = {
+      ...session,
+      threads: [{ id: 't', name: 'old', createdAt: 0, messages: [at('t1', 0), at('t2', 0)] }],
+      messageForksHash: {
+        ...session.messageForksHash,
+        t1: {
+          position: 0,
+          createdAt: 0,
+          lists: [
+            { id: 'tl0', messages: [] },
+            { id: 'tl1', messages: [at('t3', 0, { contentParts: [{ type: 'image', storageKey: 'picture:t' }] })] },
+          ],
+        },
+      },
+    }
+    const graph = buildMessageGraph(withThread)
+    expect(graph.nodes.t3).toBeUndefined()
+    expect(collectSessionStorageKeys({ ...withThread, messageGraph: graph }).has('picture:t')).toBe(true)
+  })
+})
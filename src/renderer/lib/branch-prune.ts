@@ -0,0 +1,164 @@
+/**
+ * 修剪不活跃的分支
+ * 列出活跃路径以外的分支（按年龄、长度、是否带名称/标记/书签筛选），删除或移入独立存储的归档，
+ * 并统计这些分支引用的文件和图片（file: / picture: 等存储 key），删除后不再被引用的文件一并清理
+ */
+
+import type { Message, Session, SessionArchive } from 'src/shared/types'
+import { getMessagePreviewText } from './conversation-tree-adapter'
+import { buildMessageGraph, getActiveMessages, getDetachedForks, getGraphSubtree } from './message-graph'
+
+// ============ 类型定义 ============
+
+/** 可修剪的分支：活跃路径上某条消息的非激活子节点及其全部子孙 */
+export interface PruneCandidate {
+  /** 分支第一条消息ID */
+  headId: string
+  /** 分支所挂的活跃路径上的消息ID */
+  parentId: string
+  /** 用户设置的分支名称 */
+  name?: string
+  /** 自动生成的分支标题 */
+  title?: string
+  /** 分支第一条消息的预览 */
+  preview: string
+  /** 分支中的所有消息ID */
+  messageIds: string[]
+  /** 分支中最后一条消息的时间 */
+  lastActivityAt?: number
+  /** 分支中是否有命名分支、标记或书签 */
+  isLabeled: boolean
+  /** 分支中的消息引用的存储 key */
+  storageKeys: string[]
+  /** 消息数据的估算大小（字节），不含引用的文件 */
+  dataSize: number
+}
+
+/** 筛选条件 */
+export interface PruneFilter {
+  /** 只保留最后活动时间早于该天数的分支 */
+  olderThanDays?: number
+  /** 只保留消息数量不超过该值的分支 */
+  maxMessages?: number
+  /** 排除带有名称、标记或书签的分支 */
+  unlabeledOnly: boolean
+}
+
+// ============ 常量 ============
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============ 工具函数 ============
+
+/**
+ * 获取消息引用的存储 key（附件、链接、图片）
+ */
+export function collectMessageStorageKeys(message: Message): string[] {
+  const keys: string[] = []
+  for (const file of message.files ?? []) {
+    if (file.storageKey) keys.push(file.storageKey)
+  }
+  for (const link of message.links ?? []) {
+    if (link.storageKey) keys.push(link.storageKey)
+  }
+  for (const part of message.contentParts ?? []) {
+    if (part.type === 'image' && part.storageKey) keys.push(part.storageKey)
+  }
+  // 旧版本消息的图片
+  for (const picture of (message as Message & { pictures?: { storageKey?: string }[] }).pictures ?? []) {
+    if (picture.storageKey) keys.push(picture.storageKey)
+  }
+  return keys
+}
+
+/**
+ * 获取会话仍在使用的存储 key：对话树中的所有消息、历史话题、不在消息图中的分叉（如历史话题消息上的分叉）、
+ * 助手头像，以及会话归档中的消息
+ */
+export function collectSessionStorageKeys(session: Session, archive?: SessionArchive | null): Set<string> {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const messages = [
+    ...Object.values(graph.nodes).map((node) => node.message),
+    ...session.messages,
+    ...(session.threads ?? []).flatMap((thread) => thread.messages),
+    ...Object.values(getDetachedForks(session.messageForksHash, graph) ?? {}).flatMap((fork) =>
+      fork.lists.flatMap((list) => list.messages)
+    ),
+    ...(archive?.branches ?? []).flatMap((branch) => Object.values(branch.nodes).map((node) => node.message)),
+  ]
+  const keys = new Set(messages.flatMap(collectMessageStorageKeys))
+  if (session.assistantAvatarKey) {
+    keys.add(session.assistantAvatarKey)
+  }
+  return keys
+}
+
+/**
+ * 估算数据序列化后的大小（字节）
+ */
+export function estimateDataSize(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length
+}
+
+/**
+ * 收集会话中所有可修剪的分支
+ * 只列出直接挂在活跃路径上的分支，分支内部嵌套的分支随所在分支一起处理
+ */
+export function collectPruneCandidates(session: Session): PruneCandidate[] {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const candidates: PruneCandidate[] = []
+
+  for (const message of getActiveMessages(graph)) {
+    const parent = graph.nodes[message.id]
+    for (const headId of parent.childIds) {
+      if (headId === parent.activeChildId || !graph.nodes[headId]) continue
+
+      const subtree = Object.values(getGraphSubtree(graph, headId))
+      const messages = subtree.map((node) => node.message)
+      const name = parent.fork?.lists.find((list) => list.headId === headId)?.name
+      const timestamps = messages.flatMap((m) => (m.timestamp ? [m.timestamp] : []))
+      candidates.push({
+        headId,
+        parentId: message.id,
+        name,
+        title: session.branchSummaries?.[headId]?.title,
+        preview: getMessagePreviewText(graph.nodes[headId].message, 60),
+        messageIds: messages.map((m) => m.id),
+        lastActivityAt: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
+        isLabeled:
+          !!name ||
+          messages.some((m) => m.bookmarked || !!m.tags?.length) ||
+          subtree.some((node) => node.fork?.lists.some((list) => !!list.name)),
+        storageKeys: Array.from(new Set(messages.flatMap(collectMessageStorageKeys))),
+        dataSize: estimateDataSize(subtree),
+      })
+    }
+  }
+  return candidates
+}
+
+/**
+ * 按筛选条件过滤可修剪的分支，没有时间记录的分支不受年龄条件限制
+ */
+export function filterPruneCandidates(
+  candidates: PruneCandidate[],
+  filter: PruneFilter,
+  now = Date.now()
+): PruneCandidate[] {
+  return candidates.filter((candidate) => {
+    if (filter.unlabeledOnly && candidate.isLabeled) {
+      return false
+    }
+    if (filter.maxMessages !== undefined && candidate.messageIds.length > filter.maxMessages) {
+      return false
+    }
+    if (
+      filter.olderThanDays !== undefined &&
+      candidate.lastActivityAt !== undefined &&
+      now - candidate.lastActivityAt < filter.olderThanDays * DAY_MS
+    ) {
+      return false
+    }
+    return true
+  })
+}
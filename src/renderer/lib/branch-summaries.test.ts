@@ -0,0 +1,98 @@
+import type { Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  collectTreeBranches,
+  copyBranchSummaries,
+  createBranchSummary,
+  getBranchesToSummarize,
+  layoutBranchSummaries,
+  parseBranchSummaryResponse,
+  pruneBranchSummaries,
+} from './branch-summaries'
+import { msg } from './test-utils'
+
+// u1 ─ a1 ─┬─ u2 ─ a2   (active)
+//          └─ u3
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1', 'user'), msg('a1', 'assistant'), msg('u2', 'user'), msg('a2', 'assistant')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', name: 'alt', messages: [msg('u3', 'user')] },
+      ],
+    },
+  },
+}
+
+describe('branch-summaries', () => {
+  test('collects the branches under fork points', () => {
+    const branches = collectTreeBranches(session)
+    expect(branches.map((b) => [b.forkMessageId, b.headId, b.messages.map((m) => m.id)])).toEqual([
+      ['a1', 'u2', ['u2', 'a2']],
+      ['a1', 'u3', ['u3']],
+    ])
+    expect(branches[1].name).toBe('alt')
+  })
+
+  test('summaries go stale when a branch grows', () => {
+    const [active, other] = collectTreeBranches(session)
+    const summarized: Session = {
+      ...session,
+      branchSummaries: {
+        u2: createBranchSummary(active, { title: 'Active', summary: '' }),
+        u3: createBranchSummary(other, { title: 'Other', summary: '' }),
+      },
+    }
+    expect(getBranchesToSummarize(summarized)).toEqual([])
+
+    const grown: Session = { ...summarized, messages: [...session.messages, msg('u4', 'user')] }
+    expect(getBranchesToSummarize(grown).map((b) => b.headId)).toEqual(['u2'])
+
+    const generating: Session = {
+      ...grown,
+      messages: [...session.messages, { ...msg('u4', 'user'), generating: true }],
+    }
+    expect(getBranchesToSummarize(generating)).toEqual([])
+  })
+
+  test('parses the model response', () => {
+    expect(
+      parseBranchSummaryResponse('<think>hmm</think>\nTitle: "Use Redis"\nSummary: Chose Redis\nfor caching.')
+    ).toEqual({
+      title: 'Use Redis',
+      summary: 'Chose Redis for caching.',
+    })
+    expect(parseBranchSummaryResponse('**Title:** Plan B\n**Summary:** Fallback.')).toEqual({
+      title: 'Plan B',
+      summary: 'Fallback.',
+    })
+    expect(parseBranchSummaryResponse('Just a title\nand some text')).toEqual({
+      title: 'Just a title',
+      summary: 'and some text',
+    })
+    expect(parseBranchSummaryResponse('  ')).toBeNull()
+  })
+
+  test('prunes, copies and positions summaries', () => {
+    const summary = { title: 't', summary: 's', leafId: 'a2', messageCount: 2, updatedAt: 0 }
+    const summaries = { u2: summary, gone: summary }
+
+    expect(pruneBranchSummaries(summaries, collectTreeBranches(session))).toEqual({ u2: summary })
+    expect(pruneBranchSummaries({ gone: summary }, collectTreeBranches(session))).toBeUndefined()
+
+    const idMap = new Map([
+      ['u2', 'u2-copy'],
+      ['a2', 'a2-copy'],
+    ])
+    expect(copyBranchSummaries(summaries, idMap)).toEqual({ 'u2-copy': { ...summary, leafId: 'a2-copy' } })
+
+    expect(layoutBranchSummaries(summaries, [{ id: 'u2', position: { x: 10, y: 20 } }])).toEqual([
+      { ...summary, headId: 'u2', x: 10, y: 20 },
+    ])
+  })
+})
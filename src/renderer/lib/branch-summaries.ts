@@ -0,0 +1,180 @@
+/**
+ * 分支标题和摘要
+ * 由 threadNamingModel 在后台为分叉点下的每个分支生成简短标题和一段摘要：缩小画布时显示在分支上方，
+ * 引用整个分支时代替分支原文作为紧凑的上下文发送
+ * 摘要以分支第一条消息的ID为 key 保存在会话的 branchSummaries 中，分支变长后重新生成
+ */
+
+import type { BranchSummary, Message, Session } from 'src/shared/types'
+import { buildMessageGraph, getGraphChain } from './message-graph'
+
+// ============ 类型定义 ============
+
+/** 分叉点下的一个分支 */
+export interface TreeBranch {
+  /** 分叉点消息ID */
+  forkMessageId: string
+  /** 分支第一条消息ID，即摘要的 key */
+  headId: string
+  /** 用户设置的分支名称 */
+  name?: string
+  /** 分支内容：从第一条消息沿激活的子节点走到叶子 */
+  messages: Message[]
+}
+
+/** 模型返回的标题和摘要 */
+export interface BranchSummaryContent {
+  title: string
+  summary: string
+}
+
+/** 计算出画布位置的分支摘要 */
+export interface PositionedBranchSummary extends BranchSummary {
+  /** 分支第一条消息ID */
+  headId: string
+  x: number
+  y: number
+}
+
+/** 计算位置所需的节点信息 */
+interface SummarizedNode {
+  id: string
+  position: { x: number; y: number }
+}
+
+// ============ 常量 ============
+
+/** 缩放比例低于该值时在分支上方显示标题和摘要 */
+export const BRANCH_SUMMARY_ZOOM_THRESHOLD = 0.6
+
+/** 标题的最大长度 */
+const MAX_TITLE_LENGTH = 60
+
+// ============ 工具函数 ============
+
+/**
+ * 收集会话中所有分叉点下的分支（只有一个分支的节点不算分叉点）
+ */
+export function collectTreeBranches(session: Session): TreeBranch[] {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const branches: TreeBranch[] = []
+  for (const [forkMessageId, node] of Object.entries(graph.nodes)) {
+    if (!node.fork || node.fork.lists.length <= 1) continue
+    for (const list of node.fork.lists) {
+      if (!list.headId || !graph.nodes[list.headId]) continue
+      branches.push({
+        forkMessageId,
+        headId: list.headId,
+        name: list.name,
+        messages: getGraphChain(graph, list.headId),
+      })
+    }
+  }
+  return branches
+}
+
+/**
+ * 判断分支的摘要是否需要（重新）生成：没有摘要，或分支在生成摘要后增加或替换了消息
+ */
+export function isBranchSummaryStale(summary: BranchSummary | undefined, branch: TreeBranch): boolean {
+  const leaf = branch.messages[branch.messages.length - 1]
+  return !summary || summary.leafId !== leaf?.id || summary.messageCount !== branch.messages.length
+}
+
+/**
+ * 获取需要生成摘要的分支，正在生成回复的分支等生成结束后再处理
+ */
+export function getBranchesToSummarize(session: Session): TreeBranch[] {
+  return collectTreeBranches(session).filter(
+    (branch) =>
+      !branch.messages.some((m) => m.generating) &&
+      isBranchSummaryStale(session.branchSummaries?.[branch.headId], branch)
+  )
+}
+
+/**
+ * 解析模型返回的标题和摘要
+ * 期望格式为 `Title: ...` 和 `Summary: ...` 两行，不符合格式时第一行作为标题，其余作为摘要
+ * @returns 没有内容时返回 null
+ */
+export function parseBranchSummaryResponse(text: string): BranchSummaryContent | null {
+  const cleaned = text.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
+  if (!cleaned) {
+    return null
+  }
+
+  const titleMatch = cleaned.match(/^\s*\**title\**\s*[:：]\**\s*(.+)$/im)
+  const summaryMatch = cleaned.match(/^\s*\**summary\**\s*[:：]\**\s*([\s\S]+)$/im)
+  let title: string
+  let summary: string
+  if (titleMatch) {
+    title = titleMatch[1]
+    summary = summaryMatch?.[1] ?? ''
+  } else {
+    const [firstLine, ...rest] = cleaned.split('\n')
+    title = firstLine
+    summary = rest.join('\n')
+  }
+
+  title = title
+    .replace(/['"“”*#]/g, '')
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH)
+  summary = summary.replace(/\s+/g, ' ').trim()
+  return title ? { title, summary } : null
+}
+
+/**
+ * 为分支创建摘要记录，记下当前的叶子消息和消息数量用于判断摘要是否过期
+ */
+export function createBranchSummary(branch: TreeBranch, content: BranchSummaryContent): BranchSummary {
+  return {
+    ...content,
+    leafId: branch.messages[branch.messages.length - 1]?.id ?? branch.headId,
+    messageCount: branch.messages.length,
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * 去掉已不存在的分支的摘要
+ * @returns 没有剩余摘要时返回 undefined
+ */
+export function pruneBranchSummaries(
+  summaries: Session['branchSummaries'],
+  branches: TreeBranch[]
+): Session['branchSummaries'] {
+  const headIds = new Set(branches.map((branch) => branch.headId))
+  const entries = Object.entries(summaries ?? {}).filter(([headId]) => headIds.has(headId))
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+/**
+ * 复制会话时复制分支摘要，key 和叶子消息ID替换为复制后的消息ID，分支第一条消息没有被复制的摘要会被丢弃
+ * @param idMap 原消息ID -> 新消息ID
+ */
+export function copyBranchSummaries(
+  summaries: Session['branchSummaries'],
+  idMap: Map<string, string>
+): Session['branchSummaries'] {
+  const entries = Object.entries(summaries ?? {}).flatMap(([headId, summary]) => {
+    const newHeadId = idMap.get(headId)
+    return newHeadId ? [[newHeadId, { ...summary, leafId: idMap.get(summary.leafId) ?? summary.leafId }] as const] : []
+  })
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+/**
+ * 计算分支摘要在画布上的位置：与分支第一条节点左对齐，由组件显示在节点上方
+ * 第一条节点不在画布上（如被折叠）的摘要不显示
+ */
+export function layoutBranchSummaries(
+  summaries: Session['branchSummaries'],
+  nodes: SummarizedNode[]
+): PositionedBranchSummary[] {
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]))
+  return Object.entries(summaries ?? {}).flatMap(([headId, summary]) => {
+    const node = nodeMap.get(headId)
+    return node ? [{ ...summary, headId, x: node.position.x, y: node.position.y }] : []
+  })
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'vitest'
+import { buildContextTrim, getAttachmentTokenLimit, getContextTokenBudget } from './context-budget'
+
+describe('getContextTokenBudget', () => {
+  test('reserves room for the output and the tool definitions', () => {
+    const budget = getContextTokenBudget({ contextWindow: 100_000, maxOutput: 8000 }, { toolTokens: 1000 })
+    // 95000 after the estimate margin
+    expect(budget).toEqual({
+      contextWindow: 100_000,
+      reservedOutputTokens: 8000,
+      reservedToolTokens: 1000,
+      availableTokens: 86_000,
+    })
+    expect(budget && getAttachmentTokenLimit(budget)).toBe(43_000)
+  })
+
+  test('prefers the configured max tokens and caps the output reserve', () => {
+    expect(
+      getContextTokenBudget({ contextWindow: 100_000, maxOutput: 8000 }, { maxTokens: 2000 })?.reservedOutputTokens
+    ).toBe(2000)
+    expect(getContextTokenBudget({ contextWindow: 8000, maxOutput: 8000 })?.reservedOutputTokens).toBe(4000)
+    expect(getContextTokenBudget({ contextWindow: 100_000 })?.reservedOutputTokens).toBe(4096)
+  })
+
+  test('does not limit models without a known context window', () => {
+    expect(getContextTokenBudget({ maxOutput: 8000 })).toBeNull()
+    expect(getContextTokenBudget(undefined)).toBeNull()
+  })
+})
+
+describe('buildContextTrim', () => {
+  test('only records a trim when something was left out or cut', () => {
+    expect(buildContextTrim([], 0, false)).toBeUndefined()
+    expect(buildContextTrim(['m1', 'm2'], 0, false)).toEqual({
+      excludedMessageIds: ['m1', 'm2'],
+      truncatedAttachmentCount: undefined,
+      truncatedInput: undefined,
+    })
+    expect(buildContextTrim([], 1, true)).toMatchObject({ truncatedAttachmentCount: 1, truncatedInput: true })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * 上下文 token 预算
+ * 按模型的上下文窗口计算可用于上下文消息的 token 数：为输出（maxTokens）和工具定义预留空间，
+ * 超出预算时由 genMessageContext 丢弃最旧的消息、截断过大的附件，并把被裁剪的情况记录在生成的回复上
+ */
+
+import type { MessageContextTrim, ProviderModelInfo } from 'src/shared/types'
+
+// ============ 类型定义 ============
+
+/** 上下文 token 预算 */
+export interface ContextTokenBudget {
+  /** 模型的上下文窗口 */
+  contextWindow: number
+  /** 为输出预留的 token 数 */
+  reservedOutputTokens: number
+  /** 为工具定义和工具使用说明预留的 token 数 */
+  reservedToolTokens: number
+  /** 可用于上下文消息（含系统提示词）的 token 数 */
+  availableTokens: number
+}
+
+// ============ 常量 ============
+
+/** 没有设置最大输出时，为输出预留的 token 数上限 */
+const DEFAULT_OUTPUT_RESERVE = 4096
+/** 为输出预留的空间最多占上下文窗口的比例，避免 maxOutput 与上下文窗口相同的模型没有上下文空间 */
+const MAX_OUTPUT_RESERVE_RATIO = 0.5
+/** token 数是估算值，预留一部分上下文窗口作为误差补偿 */
+const ESTIMATE_MARGIN_RATIO = 0.05
+/** 单个附件最多占用可用预算的比例 */
+const ATTACHMENT_MAX_SHARE = 0.5
+
+// ============ 工具函数 ============
+
+/**
+ * 计算模型的上下文 token 预算
+ * @param model 模型信息，没有上下文窗口时不限制
+ * @param options.maxTokens 会话或分支设置的最大输出，未设置时使用模型的最大输出
+ * @param options.toolTokens 工具定义占用的 token 数
+ * @returns 模型没有上下文窗口信息时返回 null
+ */
+export function getContextTokenBudget(
+  model: Pick<ProviderModelInfo, 'contextWindow' | 'maxOutput'> | undefined,
+  options: { maxTokens?: number; toolTokens?: number } = {}
+): ContextTokenBudget | null {
+  const contextWindow = model?.contextWindow
+  if (!contextWindow || contextWindow <= 0) {
+    return null
+  }
+  const reservedOutputTokens = Math.min(
+    options.maxTokens || model.maxOutput || DEFAULT_OUTPUT_RESERVE,
+    Math.floor(contextWindow * MAX_OUTPUT_RESERVE_RATIO)
+  )
+  const reservedToolTokens = options.toolTokens ?? 0
+  return {
+    contextWindow,
+    reservedOutputTokens,
+    reservedToolTokens,
+    availableTokens: Math.max(
+      0,
+      Math.floor(contextWindow * (1 - ESTIMATE_MARGIN_RATIO)) - reservedOutputTokens - reservedToolTokens
+    ),
+  }
+}
+
+/**
+ * 单个附件内容最多可以占用的 token 数
+ */
+export function getAttachmentTokenLimit(budget: ContextTokenBudget): number {
+  return Math.floor(budget.availableTokens * ATTACHMENT_MAX_SHARE)
+}
+
+/**
+ * 汇总上下文的裁剪情况
+ * @returns 没有任何裁剪时返回 undefined
+ */
+export function buildContextTrim(
+  excludedMessageIds: string[],
+  truncatedAttachmentCount: number,
+  truncatedInput: boolean
+): MessageContextTrim | undefined {
+  if (excludedMessageIds.length === 0 && truncatedAttachmentCount === 0 && !truncatedInput) {
+    return undefined
+  }
+  return {
+    excludedMessageIds,
+    truncatedAttachmentCount: truncatedAttachmentCount || undefined,
+    truncatedInput: truncatedInput || undefined,
+  }
+}
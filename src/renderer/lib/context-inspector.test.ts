@@ -0,0 +1,47 @@
+import type { ModelMessage } from 'ai'
+import { describe, expect, test } from 'vitest'
+import { buildContextPayload, type ContextInspection, inspectModelMessages } from './context-inspector'
+
+describe('inspectModelMessages', () => {
+  test('joins text parts and counts images and files', () => {
+    const messages: ModelMessage[] = [
+      { role: 'system', content: 'You are helpful' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'look at this' },
+          { type: 'image', image: 'aGVsbG8=', mediaType: 'image/png' },
+          { type: 'text', text: 'and this' },
+        ],
+      },
+      { role: 'assistant', content: [{ type: 'file', data: 'aGVsbG8=', mediaType: 'image/png' }] },
+    ]
+    const [system, user, assistant] = inspectModelMessages(messages)
+    expect(system).toMatchObject({ role: 'system', text: 'You are helpful', imageCount: 0, fileCount: 0 })
+    expect(user).toMatchObject({ role: 'user', text: 'look at this\nand this', imageCount: 1 })
+    expect(assistant).toMatchObject({ text: '', fileCount: 1 })
+    expect(user.tokens).toBeGreaterThan(assistant.tokens)
+  })
+})
+
+describe('buildContextPayload', () => {
+  test('keeps only what is sent to the provider', () => {
+    const inspection: ContextInspection = {
+      provider: 'openai',
+      modelId: 'gpt-4o',
+      messages: [],
+      modelMessages: [{ role: 'user', content: 'hi' }],
+      tools: [{ name: 'web_search', description: 'search the web' }],
+      providerOptions: { openai: { reasoningEffort: 'low' } },
+      needsOCR: false,
+      tokenBudget: null,
+    }
+    expect(buildContextPayload(inspection)).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [{ name: 'web_search', description: 'search the web' }],
+      providerOptions: { openai: { reasoningEffort: 'low' } },
+    })
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * 上下文检查
+ * 预演一次生成，展示最终发送给模型的消息（含注入的系统提示词、附件内容和引用）、每条消息的估算 token 数、
+ * 可调用的工具和 providerOptions，并可以复制为 JSON
+ */
+
+import type { ModelMessage } from 'ai'
+import type { MessageContextTrim } from 'src/shared/types'
+import type { StreamTextInspection } from '@/packages/model-calls'
+import { estimateTokens } from '@/packages/token'
+import type { ContextTokenBudget } from './context-budget'
+
+// ============ 类型定义 ============
+
+/** 一次生成的上下文检查结果 */
+export interface ContextInspection extends StreamTextInspection {
+  provider?: string
+  modelId: string
+  /** 上下文 token 预算，模型没有上下文窗口信息时为 null */
+  tokenBudget: ContextTokenBudget | null
+  /** 为适应上下文窗口做的裁剪 */
+  contextTrim?: MessageContextTrim
+}
+
+/** 便于展示的单条消息摘要 */
+export interface InspectedMessage {
+  role: ModelMessage['role']
+  /** 消息中的全部文本 */
+  text: string
+  /** 图片数量 */
+  imageCount: number
+  /** 文件数量 */
+  fileCount: number
+  /** 估算的 token 数，不含图片和文件 */
+  tokens: number
+}
+
+// ============ 常量 ============
+
+/** 每条消息的格式开销，与 estimateTokensFromMessages 一致 */
+const TOKENS_PER_MESSAGE = 3
+
+// ============ 工具函数 ============
+
+/**
+ * 汇总发送给模型的消息：合并文本，统计图片和文件，估算 token 数
+ */
+export function inspectModelMessages(
+  messages: ModelMessage[],
+  model?: { provider?: string; modelId: string }
+): InspectedMessage[] {
+  const tokenModel = model && { provider: model.provider ?? '', modelId: model.modelId }
+  return messages.map((message) => {
+    const parts =
+      typeof message.content === 'string' ? [{ type: 'text' as const, text: message.content }] : message.content
+    const text = parts
+      .map((part) => (part.type === 'text' || part.type === 'reasoning' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n')
+    return {
+      role: message.role,
+      text,
+      imageCount: parts.filter((part) => part.type === 'image').length,
+      fileCount: parts.filter((part) => part.type === 'file').length,
+      tokens: TOKENS_PER_MESSAGE + estimateTokens(message.role, tokenModel) + estimateTokens(text, tokenModel),
+    }
+  })
+}
+
+/**
+ * 生成可复制的请求内容：模型、消息、工具和 providerOptions
+ */
+export function buildContextPayload(inspection: ContextInspection) {
+  return {
+    provider: inspection.provider,
+    model: inspection.modelId,
+    messages: inspection.modelMessages,
+    tools: inspection.tools,
+    providerOptions: inspection.providerOptions,
+  }
+}
@@ -0,0 +1,65 @@
+import type { Message, Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  collapseConversationTree,
+  getInactiveBranchHeadIds,
+  sessionToConversationTree,
+} from './conversation-tree-adapter'
+import { msg } from './test-utils'
+
+// u1 ─ a1 ─┬─ u2 ─ a2            (active)
+//          └─ u3 ─ a3 ─ u4       (inactive)
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1', 'assistant'), msg('u2'), msg('a2', 'assistant')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        {
+          id: 'l1',
+          messages: [
+            msg('u3'),
+            msg('a3', 'assistant', { model: 'gpt-4o', usage: { totalTokens: 30 } as Message['usage'] }),
+            msg('u4'),
+          ],
+        },
+      ],
+    },
+  },
+}
+
+describe('conversation-tree-adapter', () => {
+  const tree = sessionToConversationTree(session)
+
+  test('collapseConversationTree hides descendants and summarizes them', () => {
+    const collapsed = collapseConversationTree(tree, ['u3'])
+    const ids = collapsed.nodes.map((n) => n.id)
+    expect(ids).toContain('u3')
+    expect(ids).not.toContain('a3')
+    expect(ids).not.toContain('u4')
+    expect(collapsed.edges.some((e) => e.target === 'a3' || e.source === 'a3')).toBe(false)
+
+    const u3 = collapsed.nodes.find((n) => n.id === 'u3')
+    expect(u3?.data.isCollapsed).toBe(true)
+    expect(u3?.data.collapsedSummary).toEqual({ nodeCount: 2, models: ['gpt-4o'], totalTokens: 30 })
+  })
+
+  test('collapseConversationTree keeps only the outermost summary', () => {
+    const collapsed = collapseConversationTree(tree, ['a3', 'a1'])
+    expect(collapsed.nodes.map((n) => n.id)).toEqual(['u1', 'a1'])
+    expect(collapsed.nodes[1].data.collapsedSummary?.nodeCount).toBe(5)
+  })
+
+  test('collapseConversationTree ignores leaves and unknown ids', () => {
+    expect(collapseConversationTree(tree, [])).toBe(tree)
+    expect(collapseConversationTree(tree, ['a2', 'missing']).nodes).toHaveLength(tree.nodes.length)
+  })
+
+  test('getInactiveBranchHeadIds', () => {
+    expect(getInactiveBranchHeadIds(tree)).toEqual(['u3'])
+  })
+})
@@ -4,7 +4,8 @@
  */
 
 import type { Node, Edge } from '@xyflow/react'
-import type { Session, Message } from 'src/shared/types'
+import type { Message, MessageGraph, MessageGraphNode, Session } from 'src/shared/types'
+import { buildMessageGraph, getActiveMessages } from './message-graph'
 
 // ============ 类型定义 ============
 
@@ -31,15 +32,47 @@ export interface TreeNodeData extends Record<string, unknown> {
   depth: number
   /** 是否被选中（由外部状态管理） */
   isSelected?: boolean
+  /** 是否匹配当前搜索（由外部状态管理） */
+  isSearchMatch?: boolean
+  /** 是否为当前定位的搜索结果（由外部状态管理） */
+  isCurrentSearchMatch?: boolean
+  /** 是否为拖拽节点的放置目标（由外部状态管理） */
+  isDropTarget?: boolean
+  /** 以此节点开头的命名分支的名称 */
+  branchName?: string
+  /** 是否已折叠（子孙节点被隐藏） */
+  isCollapsed?: boolean
+  /** 折叠后被隐藏的子孙节点摘要 */
+  collapsedSummary?: CollapsedSummary
+}
+
+/** 折叠节点下被隐藏的子孙节点摘要 */
+export interface CollapsedSummary {
+  /** 隐藏的节点数量 */
+  nodeCount: number
+  /** 隐藏节点中使用过的模型 */
+  models: string[]
+  /** 隐藏节点消耗的 token 总数 */
+  totalTokens: number
 }
 
 /** ReactFlow 节点类型 */
 export type ConversationNode = Node<TreeNodeData, TreeNodeType>
 
+/**
+ * 边的种类
+ * - tree: 父子结构边（每个节点最多一条入边）
+ * - merge: 合并节点与其额外来源节点之间的连线，不参与树结构计算
+ * - reference: 被引用节点与引用它的用户消息之间的连线，不参与树结构计算
+ */
+export type ConversationEdgeKind = 'tree' | 'merge' | 'reference'
+
 /** 边数据类型 */
 export interface ConversationEdgeData extends Record<string, unknown> {
   isActivePath: boolean
   branchIndex: number
+  /** 边的种类，缺省视为 tree */
+  kind?: ConversationEdgeKind
 }
 
 /** ReactFlow 边类型 */
@@ -63,25 +96,28 @@ interface TreeBuildContext {
   nodes: ConversationNode[]
   edges: ConversationEdge[]
   activePathIds: Set<string>
-  depth: number
   sessionId: string
 }
 
+/** 待处理的分支链：从 headId 开始沿激活的子节点向下 */
+interface PendingChain {
+  headId: string
+  parentId: string | null
+  depth: number
+  branchIndex: number
+  /** 所属分叉的分支数量，主链为 undefined */
+  branchCount?: number
+}
+
 // ============ 核心转换函数 ============
 
 /**
  * 将 Session 转换为对话树结构
+ * 树结构从消息图读取，没有消息图的会话（如测试数据）会先转换
  */
 export function sessionToConversationTree(session: Session): ConversationTree {
-  const context: TreeBuildContext = {
-    nodes: [],
-    edges: [],
-    activePathIds: new Set(),
-    depth: 0,
-    sessionId: session.id,
-  }
-
-  if (!session.messages || session.messages.length === 0) {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  if (!graph.rootId || !graph.nodes[graph.rootId]) {
     return {
       nodes: [],
       edges: [],
@@ -91,148 +127,166 @@ export function sessionToConversationTree(session: Session): ConversationTree {
     }
   }
 
-  // 1. 首先构建活跃路径的节点ID集合
-  const activePathIds = buildActivePathIds(session)
-  context.activePathIds = activePathIds
-
-  // 2. 构建主消息链的节点
-  let prevNodeId: string | null = null
-  let activeLeafId: string | null = null
-
-  for (let i = 0; i < session.messages.length; i++) {
-    const message = session.messages[i]
-    const isActivePath = activePathIds.has(message.id)
-    
-    // 检查此消息是否有分支
-    const forkData = session.messageForksHash?.[message.id]
-    const hasFork = forkData && forkData.lists.length > 1
-    
-    // 创建节点
-    const node = createNode(message, {
-      sessionId: session.id,
-      isActivePath,
-      branchIndex: 0,
-      branchCount: hasFork ? forkData.lists.length : 1,
-      hasChildren: i < session.messages.length - 1 || !!hasFork,
-      childrenCount: hasFork ? forkData.lists.length : (i < session.messages.length - 1 ? 1 : 0),
-      depth: context.depth + i,
-    })
-    
-    context.nodes.push(node)
-
-    // 创建边
-    if (prevNodeId) {
-      context.edges.push(createEdge(prevNodeId, message.id, isActivePath, 0))
-    }
-
-    // 如果有分支，递归处理分支
-    if (hasFork) {
-      processForks(session, message.id, forkData, context, i)
-    }
-
-    prevNodeId = message.id
-    if (isActivePath) {
-      activeLeafId = message.id
-    }
+  // 1. 活跃路径即从根节点沿激活子节点走到底的消息链
+  const activePathIds = new Set(getActiveMessages(graph).map((m) => m.id))
+  const context: TreeBuildContext = {
+    nodes: [],
+    edges: [],
+    activePathIds,
+    sessionId: session.id,
   }
 
-  // 3. 找到最终的活跃叶子节点
-  if (session.messages.length > 0) {
-    const lastMessage = session.messages[session.messages.length - 1]
-    const lastFork = session.messageForksHash?.[lastMessage.id]
-    
-    if (lastFork && lastFork.lists.length > 0) {
-      // 当前活跃分支的消息
-      const activeBranchMessages = lastFork.lists[lastFork.position]?.messages || []
-      if (activeBranchMessages.length > 0) {
-        activeLeafId = activeBranchMessages[activeBranchMessages.length - 1].id
+  // 2. 深度优先遍历：先处理分叉点的其他分支，再沿激活子节点继续当前链
+  const pending: PendingChain[] = [{ headId: graph.rootId, parentId: null, depth: 0, branchIndex: 0 }]
+  for (let chain = pending.pop(); chain; chain = pending.pop()) {
+    let parentId = chain.parentId
+    let node: MessageGraphNode | undefined = graph.nodes[chain.headId]
+    let depth = chain.depth
+
+    while (node) {
+      appendGraphNode(node, parentId, depth, chain, context)
+
+      const { fork, activeChildId } = node
+      const forkMessageId = node.message.id
+      if (fork) {
+        const branches: PendingChain[] = []
+        fork.lists.forEach((list, listIndex) => {
+          if (list.headId && list.headId !== activeChildId) {
+            branches.push({
+              headId: list.headId,
+              parentId: forkMessageId,
+              depth: depth + 1,
+              branchIndex: listIndex,
+              branchCount: fork.lists.length,
+            })
+          }
+        })
+        // 当前链的剩余部分先入栈，分支按顺序在它之前处理
+        if (activeChildId) {
+          pending.push({ ...chain, headId: activeChildId, parentId: forkMessageId, depth: depth + 1 })
+        }
+        pending.push(...branches.reverse())
+        break
       }
-    } else {
-      activeLeafId = lastMessage.id
+
+      parentId = node.message.id
+      node = node.activeChildId ? graph.nodes[node.activeChildId] : undefined
+      depth++
     }
   }
 
+  // 3. 为合并节点添加来自其他来源节点的合并边，为带引用的消息添加引用边
+  appendMergeEdges(context)
+  appendReferenceEdges(context)
+
+  // 4. 标注命名分支
+  applyBranchNames(graph, context)
+
   return {
     nodes: context.nodes,
     edges: context.edges,
-    rootId: session.messages[0]?.id || null,
-    activeLeafId,
+    rootId: graph.rootId,
+    activeLeafId: graph.activeLeafId ?? null,
     activePathIds,
   }
 }
 
 /**
- * 处理分支数据
+ * 为消息图节点创建树节点和指向它的边
  */
-function processForks(
-  session: Session,
-  parentMessageId: string,
-  forkData: NonNullable<Session['messageForksHash']>[string],
-  context: TreeBuildContext,
-  parentDepth: number
+function appendGraphNode(
+  node: MessageGraphNode,
+  parentId: string | null,
+  depth: number,
+  chain: PendingChain,
+  context: TreeBuildContext
 ): void {
-  const { lists, position } = forkData
-
-  for (let branchIndex = 0; branchIndex < lists.length; branchIndex++) {
-    const branch = lists[branchIndex]
-    const isActiveBranch = branchIndex === position
-    
-    let prevNodeId = parentMessageId
-
-    for (let i = 0; i < branch.messages.length; i++) {
-      const message = branch.messages[i]
-      const isActivePath = isActiveBranch && context.activePathIds.has(message.id)
-
-      // 检查此消息是否也有分支
-      const nestedFork = session.messageForksHash?.[message.id]
-      const hasNestedFork = nestedFork && nestedFork.lists.length > 0
-
-      const node = createNode(message, {
-        sessionId: session.id,
-        isActivePath,
-        branchIndex,
-        branchCount: lists.length,
-        hasChildren: i < branch.messages.length - 1 || !!hasNestedFork,
-        childrenCount: hasNestedFork ? nestedFork.lists.length : (i < branch.messages.length - 1 ? 1 : 0),
-        depth: parentDepth + 1 + i,
-      })
-
-      context.nodes.push(node)
-      context.edges.push(createEdge(prevNodeId, message.id, isActivePath, branchIndex))
+  const { message, fork } = node
+  const isActivePath = context.activePathIds.has(message.id)
+  const hasFork = !!fork && fork.lists.length > 1
+  const childrenCount = hasFork ? fork.lists.length : node.childIds.length
+
+  context.nodes.push(
+    createNode(message, {
+      sessionId: context.sessionId,
+      isActivePath,
+      branchIndex: chain.branchIndex,
+      // 主链节点沿用旧逻辑：分叉点显示自己的分支数量
+      branchCount: chain.branchCount ?? (hasFork ? fork.lists.length : 1),
+      hasChildren: childrenCount > 0,
+      childrenCount,
+      depth,
+    })
+  )
+  if (parentId) {
+    context.edges.push(createEdge(parentId, message.id, isActivePath, chain.branchIndex))
+  }
+}
 
-      // 递归处理嵌套分支
-      if (hasNestedFork) {
-        processForks(session, message.id, nestedFork, context, parentDepth + 1 + i)
-      }
+/**
+ * 添加合并边：合并节点已通过树结构边连接父节点，其余来源节点各连一条合并边
+ * 已被删除的来源节点会被忽略
+ */
+function appendMergeEdges(context: TreeBuildContext): void {
+  const nodeIds = new Set(context.nodes.map((n) => n.id))
+  const parentMap = new Map(context.edges.map((e) => [e.target, e.source]))
+
+  for (const node of context.nodes) {
+    const merge = node.data.message.merge
+    if (!merge) continue
+
+    for (const sourceId of merge.sourceIds) {
+      if (!nodeIds.has(sourceId) || sourceId === node.id || sourceId === parentMap.get(node.id)) continue
+      context.edges.push({
+        id: `${sourceId}=>${node.id}`,
+        source: sourceId,
+        target: node.id,
+        type: 'merge',
+        data: { isActivePath: node.data.isActivePath, branchIndex: node.data.branchIndex, kind: 'merge' },
+        animated: false,
+      })
+    }
+  }
+}
 
-      prevNodeId = message.id
+/**
+ * 添加引用边：从被引用节点连向引用它的消息
+ * 已被删除的被引用节点会被忽略
+ */
+function appendReferenceEdges(context: TreeBuildContext): void {
+  const nodeIds = new Set(context.nodes.map((n) => n.id))
+
+  for (const node of context.nodes) {
+    const references = node.data.message.references
+    if (!references) continue
+
+    for (const reference of references) {
+      if (!nodeIds.has(reference.messageId) || reference.messageId === node.id) continue
+      context.edges.push({
+        id: `${reference.messageId}~>${node.id}`,
+        source: reference.messageId,
+        target: node.id,
+        type: 'reference',
+        data: { isActivePath: node.data.isActivePath, branchIndex: node.data.branchIndex, kind: 'reference' },
+        animated: false,
+      })
     }
   }
 }
 
 /**
- * 构建活跃路径的节点ID集合
+ * 将命名分支的名称写入分支第一条消息对应的节点
  */
-function buildActivePathIds(session: Session): Set<string> {
-  const activeIds = new Set<string>()
-
-  // 主消息链都是活跃的
-  for (const message of session.messages) {
-    activeIds.add(message.id)
-
-    // 如果有分支，只有当前位置的分支是活跃的
-    const forkData = session.messageForksHash?.[message.id]
-    if (forkData) {
-      const activeBranch = forkData.lists[forkData.position]
-      if (activeBranch) {
-        for (const branchMessage of activeBranch.messages) {
-          activeIds.add(branchMessage.id)
-        }
+function applyBranchNames(graph: MessageGraph, context: TreeBuildContext): void {
+  const nodeMap = new Map(context.nodes.map((n) => [n.id, n]))
+  for (const graphNode of Object.values(graph.nodes)) {
+    for (const list of graphNode.fork?.lists ?? []) {
+      const node = list.name && list.headId ? nodeMap.get(list.headId) : undefined
+      if (node) {
+        node.data.branchName = list.name
       }
     }
   }
-
-  return activeIds
 }
 
 /**
@@ -294,7 +348,7 @@ function createEdge(
     source: sourceId,
     target: targetId,
     type: edgeType,
-    data: { isActivePath, branchIndex },
+    data: { isActivePath, branchIndex, kind: 'tree' },
     animated: false, // 动画由自定义边组件控制
   }
 }
@@ -332,6 +386,13 @@ export function getMessagePreviewText(message: Message, maxLength = 100): string
   return `${text.slice(0, maxLength)}...`
 }
 
+/**
+ * 判断边是否为树结构边（合并边等额外连线不计入父子关系）
+ */
+export function isTreeEdge(edge: ConversationEdge): boolean {
+  return (edge.data?.kind ?? 'tree') === 'tree'
+}
+
 /**
  * 根据节点ID查找节点在树中的路径
  */
@@ -341,6 +402,7 @@ export function findNodePath(tree: ConversationTree, nodeId: string): string[] {
   const edgeMap = new Map<string, string>() // target -> source
 
   for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
     edgeMap.set(edge.target, edge.source)
   }
 
@@ -357,7 +419,7 @@ export function findNodePath(tree: ConversationTree, nodeId: string): string[] {
  * 检查节点是否是分支点（有多个子节点）
  */
 export function isBranchPoint(tree: ConversationTree, nodeId: string): boolean {
-  const childEdges = tree.edges.filter((e) => e.source === nodeId)
+  const childEdges = tree.edges.filter((e) => e.source === nodeId && isTreeEdge(e))
   return childEdges.length > 1
 }
 
@@ -365,7 +427,81 @@ export function isBranchPoint(tree: ConversationTree, nodeId: string): boolean {
  * 获取节点的所有子节点ID
  */
 export function getChildNodeIds(tree: ConversationTree, nodeId: string): string[] {
-  return tree.edges.filter((e) => e.source === nodeId).map((e) => e.target)
+  return tree.edges.filter((e) => e.source === nodeId && isTreeEdge(e)).map((e) => e.target)
+}
+
+/**
+ * 隐藏已折叠节点的所有子孙节点，并在折叠节点上附加被隐藏部分的摘要
+ * 没有子节点的折叠节点保持原样；与隐藏节点相连的合并边、引用边一并移除
+ * @param collapsedIds 已折叠的节点ID（不存在于树中的ID会被忽略）
+ */
+export function collapseConversationTree(tree: ConversationTree, collapsedIds: Iterable<string>): ConversationTree {
+  const collapsed = new Set(collapsedIds)
+  if (collapsed.size === 0) {
+    return tree
+  }
+
+  const childrenMap = new Map<string, string[]>()
+  for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
+    const children = childrenMap.get(edge.source) ?? []
+    children.push(edge.target)
+    childrenMap.set(edge.source, children)
+  }
+  const nodeMap = new Map(tree.nodes.map((n) => [n.id, n]))
+
+  const hiddenIds = new Set<string>()
+  const summaries = new Map<string, CollapsedSummary>()
+  for (const node of tree.nodes) {
+    // 已被祖先折叠隐藏的节点不再单独统计
+    if (!collapsed.has(node.id) || hiddenIds.has(node.id) || !childrenMap.has(node.id)) continue
+
+    const summary: CollapsedSummary = { nodeCount: 0, models: [], totalTokens: 0 }
+    const stack = [...(childrenMap.get(node.id) ?? [])]
+    while (stack.length > 0) {
+      const id = stack.pop() as string
+      hiddenIds.add(id)
+      // 子孙中的折叠节点若已先统计，其摘要由祖先的摘要取代
+      summaries.delete(id)
+      const message = nodeMap.get(id)?.data.message
+      if (message) {
+        summary.nodeCount++
+        summary.totalTokens += message.usage?.totalTokens || message.tokensUsed || 0
+        if (message.role === 'assistant' && message.model && !summary.models.includes(message.model)) {
+          summary.models.push(message.model)
+        }
+      }
+      stack.push(...(childrenMap.get(id) ?? []))
+    }
+    summaries.set(node.id, summary)
+  }
+
+  const nodes = tree.nodes
+    .filter((node) => !hiddenIds.has(node.id))
+    .map((node) => {
+      const summary = summaries.get(node.id)
+      return summary ? { ...node, data: { ...node.data, isCollapsed: true, collapsedSummary: summary } } : node
+    })
+  const edges = tree.edges.filter((edge) => !hiddenIds.has(edge.source) && !hiddenIds.has(edge.target))
+
+  return { ...tree, nodes, edges }
+}
+
+/**
+ * 获取所有非活跃分支的起始节点（父节点在活跃路径上、自身不在活跃路径上且有子节点）
+ * 折叠这些节点即可收起所有非活跃分支，同时保留分支入口
+ */
+export function getInactiveBranchHeadIds(tree: ConversationTree): string[] {
+  const nodeMap = new Map(tree.nodes.map((n) => [n.id, n]))
+  return tree.edges
+    .filter(
+      (edge) =>
+        isTreeEdge(edge) &&
+        tree.activePathIds.has(edge.source) &&
+        !tree.activePathIds.has(edge.target) &&
+        !!nodeMap.get(edge.target)?.data.hasChildren
+    )
+    .map((edge) => edge.target)
 }
 
 /**
@@ -0,0 +1,76 @@
+import { createMessage, type SessionSettings } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  applyGenerationOverride,
+  applySystemPromptOverride,
+  buildReasoningProviderOptions,
+  describeGenerationOverride,
+  getReasoningOverrideFields,
+  normalizeGenerationOverride,
+} from './generation-override'
+
+const settings: SessionSettings = {
+  provider: 'openai',
+  modelId: 'gpt-4o',
+  temperature: 0.7,
+  maxContextMessageCount: 10,
+  providerOptions: { openai: { reasoningEffort: 'low' } },
+}
+
+describe('generation-override', () => {
+  test('empty fields are dropped', () => {
+    expect(normalizeGenerationOverride({ provider: 'claude', systemPrompt: '  ', providerOptions: {} })).toBeUndefined()
+    expect(normalizeGenerationOverride({ temperature: 0, maxTokens: 0 })).toEqual({ temperature: 0 })
+  })
+
+  test('override is merged onto the session settings', () => {
+    const providerOptions = buildReasoningProviderOptions({ thinkingBudget: 2048 })
+    const merged = applyGenerationOverride(settings, {
+      provider: 'claude',
+      modelId: 'claude-sonnet',
+      temperature: 0.2,
+      providerOptions,
+    })
+    expect(merged).toMatchObject({
+      provider: 'claude',
+      modelId: 'claude-sonnet',
+      temperature: 0.2,
+      maxContextMessageCount: 10,
+    })
+    expect(merged.providerOptions).toEqual({ ...settings.providerOptions, ...providerOptions })
+    expect(applyGenerationOverride(settings, undefined)).toBe(settings)
+  })
+
+  test('structured output schema overrides the session one when it is not empty', () => {
+    const structuredOutput = { schema: '{"type":"object"}' }
+    expect(normalizeGenerationOverride({ structuredOutput: { schema: ' ' } })).toBeUndefined()
+    expect(normalizeGenerationOverride({ structuredOutput })).toEqual({ structuredOutput })
+    expect(
+      applyGenerationOverride({ ...settings, structuredOutput: { schema: '{}' } }, { structuredOutput })
+    ).toMatchObject({ structuredOutput })
+    expect(describeGenerationOverride({ structuredOutput })).toEqual(['structured output'])
+  })
+
+  test('system prompt replaces or prepends the system message', () => {
+    const system = createMessage('system', 'old')
+    const user = createMessage('user', 'hi')
+    const replaced = applySystemPromptOverride([system, user], 'new')
+    expect(replaced[0]).toMatchObject({ id: system.id, contentParts: [{ type: 'text', text: 'new' }] })
+    expect(replaced[1]).toBe(user)
+    const prepended = applySystemPromptOverride([user], 'new')
+    expect(prepended.map((m) => m.role)).toEqual(['system', 'user'])
+  })
+
+  test('reasoning fields round-trip and are described', () => {
+    const override = {
+      providerOptions: buildReasoningProviderOptions({ thinkingBudget: 1024, reasoningEffort: 'high' }),
+    }
+    expect(getReasoningOverrideFields(override)).toEqual({ thinkingBudget: 1024, reasoningEffort: 'high' })
+    expect(describeGenerationOverride({ ...override, temperature: 1, systemPrompt: 'x' })).toEqual([
+      'temperature 1',
+      'thinking budget 1024',
+      'reasoning effort high',
+      'custom system prompt',
+    ])
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * 分支级生成设置
+ * 从树形图生成回复时可以临时覆盖会话设置（模型、温度、最大输出、系统提示词、思考参数、结构化输出），
+ * 覆盖项保存在生成的消息上，重新生成时继续使用，节点上也能看到这条回复是用什么设置生成的
+ */
+
+import {
+  createMessage,
+  type GenerationOverride,
+  type Message,
+  type ProviderOptions,
+  type SessionSettings,
+} from 'src/shared/types'
+
+// ============ 类型定义 ============
+
+/** 表单中编辑的思考参数，保存时转换为 providerOptions */
+export interface ReasoningOverrideFields {
+  /** Claude / Gemini 的思考预算 */
+  thinkingBudget?: number
+  /** OpenAI 的推理强度 */
+  reasoningEffort?: 'low' | 'medium' | 'high'
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 去掉未设置的字段，没有任何覆盖项时返回 undefined
+ */
+export function normalizeGenerationOverride(override: GenerationOverride | undefined): GenerationOverride | undefined {
+  if (!override) {
+    return undefined
+  }
+  const result: GenerationOverride = {}
+  if (override.provider && override.modelId) {
+    result.provider = override.provider
+    result.modelId = override.modelId
+  }
+  if (typeof override.temperature === 'number') {
+    result.temperature = override.temperature
+  }
+  if (typeof override.maxTokens === 'number' && override.maxTokens > 0) {
+    result.maxTokens = override.maxTokens
+  }
+  if (override.systemPrompt?.trim()) {
+    result.systemPrompt = override.systemPrompt
+  }
+  const providerOptions = Object.fromEntries(
+    Object.entries(override.providerOptions ?? {}).filter(([, value]) => value !== undefined)
+  )
+  if (Object.keys(providerOptions).length > 0) {
+    result.providerOptions = providerOptions
+  }
+  if (override.structuredOutput?.schema.trim()) {
+    result.structuredOutput = override.structuredOutput
+  }
+  return Object.keys(result).length > 0 ? result : undefined
+}
+
+/**
+ * 将覆盖项合并到会话设置上，providerOptions 按供应商合并
+ */
+export function applyGenerationOverride(
+  settings: SessionSettings,
+  override: GenerationOverride | undefined
+): SessionSettings {
+  if (!override) {
+    return settings
+  }
+  return {
+    ...settings,
+    ...(override.provider && override.modelId ? { provider: override.provider, modelId: override.modelId } : {}),
+    ...(override.temperature !== undefined ? { temperature: override.temperature } : {}),
+    ...(override.maxTokens !== undefined ? { maxTokens: override.maxTokens } : {}),
+    ...(override.providerOptions
+      ? { providerOptions: { ...settings.providerOptions, ...override.providerOptions } }
+      : {}),
+    ...(override.structuredOutput ? { structuredOutput: override.structuredOutput } : {}),
+  }
+}
+
+/**
+ * 用覆盖的系统提示词替换上下文中的系统消息，上下文没有系统消息时插入到最前面
+ */
+export function applySystemPromptOverride(msgs: Message[], systemPrompt: string | undefined): Message[] {
+  if (!systemPrompt) {
+    return msgs
+  }
+  const [head, ...rest] = msgs
+  if (head?.role === 'system') {
+    return [{ ...head, contentParts: [{ type: 'text', text: systemPrompt }] }, ...rest]
+  }
+  return [createMessage('system', systemPrompt), ...msgs]
+}
+
+/**
+ * 将表单中的思考参数转换为 providerOptions，思考预算同时作用于 Claude 和 Gemini
+ */
+export function buildReasoningProviderOptions({
+  thinkingBudget,
+  reasoningEffort,
+}: ReasoningOverrideFields): ProviderOptions | undefined {
+  const providerOptions: ProviderOptions = {}
+  if (thinkingBudget !== undefined && thinkingBudget > 0) {
+    providerOptions.claude = { thinking: { type: 'enabled', budgetTokens: thinkingBudget } }
+    providerOptions.google = { thinkingConfig: { thinkingBudget, includeThoughts: true } }
+  }
+  if (reasoningEffort) {
+    providerOptions.openai = { reasoningEffort }
+  }
+  return Object.keys(providerOptions).length > 0 ? providerOptions : undefined
+}
+
+/**
+ * 读取覆盖项中的思考参数，用于回填表单
+ */
+export function getReasoningOverrideFields(override: GenerationOverride | undefined): ReasoningOverrideFields {
+  const providerOptions = override?.providerOptions
+  return {
+    thinkingBudget:
+      providerOptions?.claude?.thinking.budgetTokens ?? providerOptions?.google?.thinkingConfig.thinkingBudget,
+    reasoningEffort: providerOptions?.openai?.reasoningEffort,
+  }
+}
+
+/**
+ * 覆盖项的简短描述，显示在节点的设置标记上
+ */
+export function describeGenerationOverride(override: GenerationOverride | undefined): string[] {
+  if (!override) {
+    return []
+  }
+  const { thinkingBudget, reasoningEffort } = getReasoningOverrideFields(override)
+  const parts: string[] = []
+  if (override.provider && override.modelId) {
+    parts.push(`${override.provider} / ${override.modelId}`)
+  }
+  if (override.temperature !== undefined) {
+    parts.push(`temperature ${override.temperature}`)
+  }
+  if (override.maxTokens !== undefined) {
+    parts.push(`max tokens ${override.maxTokens}`)
+  }
+  if (thinkingBudget !== undefined) {
+    parts.push(`thinking budget ${thinkingBudget}`)
+  }
+  if (reasoningEffort) {
+    parts.push(`reasoning effort ${reasoningEffort}`)
+  }
+  if (override.systemPrompt) {
+    parts.push('custom system prompt')
+  }
+  if (override.structuredOutput) {
+    parts.push('structured output')
+  }
+  return parts
+}
@@ -0,0 +1,74 @@
+import type { Message } from 'src/shared/types'
+import { getMessageText } from 'src/shared/utils/message'
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { estimateTokensFromMessages } from '@/packages/token'
+import type { ContextTokenBudget } from './context-budget'
+import { genMessageContext } from './message-context'
+import { msg } from './test-utils'
+
+const { getBlob } = vi.hoisted(() => ({ getBlob: vi.fn() }))
+
+vi.mock('@/storage', () => ({
+  default: { getBlob },
+}))
+
+const budget = (availableTokens: number): ContextTokenBudget => ({
+  contextWindow: availableTokens,
+  reservedOutputTokens: 0,
+  reservedToolTokens: 0,
+  availableTokens,
+})
+
+/** 与 genMessageContext 相同的估算方式：消息本身加上误差补偿 */
+const size = (message: Message) => estimateTokensFromMessages([message]) + 20
+
+const settings = { maxContextMessageCount: Number.MAX_SAFE_INTEGER }
+const long = (id: string) => msg(id, 'user', `${id} ${'lorem ipsum '.repeat(100)}`)
+
+beforeEach(() => {
+  getBlob.mockReset()
+})
+
+describe('genMessageContext', () => {
+  test('keeps every message within the budget', async () => {
+    const msgs = [msg('system', 'system', 'be brief'), msg('u1'), msg('a1', 'assistant'), msg('u2')]
+    const { prompts, contextTrim } = await genMessageContext(settings, msgs, true, undefined, budget(10_000))
+    expect(prompts.map((m) => m.id)).toEqual(['system', 'u1', 'a1', 'u2'])
+    expect(contextTrim).toBeUndefined()
+  })
+
+  test('drops the oldest messages that do not fit and keeps the rest continuous', async () => {
+    const head = msg('system', 'system', 'be brief')
+    const msgs = [head, long('u1'), { ...msg('e1'), error: 'failed' }, long('u2'), long('u3'), long('u4')]
+    const available = estimateTokensFromMessages([head]) + size(msgs[4]) + size(msgs[5]) + size(msgs[3]) / 2
+    const { prompts, contextTrim } = await genMessageContext(settings, msgs, true, undefined, budget(available))
+    expect(prompts.map((m) => m.id)).toEqual(['system', 'u3', 'u4'])
+    expect(contextTrim).toEqual({ excludedMessageIds: ['u1', 'u2'] })
+  })
+
+  test('truncates the latest message when it alone exceeds the budget', async () => {
+    const { prompts, contextTrim } = await genMessageContext(
+      settings,
+      [long('u1'), long('u2')],
+      true,
+      undefined,
+      budget(60)
+    )
+    expect(prompts.map((m) => m.id)).toEqual(['u2'])
+    expect(getMessageText(prompts[0])).toMatch(/\[\.\.\.truncated\]$/)
+    expect(size(prompts[0])).toBeLessThan(size(long('u2')))
+    expect(contextTrim).toEqual({ excludedMessageIds: ['u1'], truncatedInput: true })
+  })
+
+  test('truncates attachments larger than their share of the budget', async () => {
+    getBlob.mockResolvedValue('lorem ipsum '.repeat(1000))
+    const withFile = {
+      ...msg('u1'),
+      files: [{ id: 'f1', name: 'a.txt', fileType: 'text/plain', storageKey: 'file-1' }],
+    }
+    const { prompts, contextTrim } = await genMessageContext(settings, [withFile], false, undefined, budget(1000))
+    expect(getBlob).toHaveBeenCalledWith('file-1')
+    expect(getMessageText(prompts[0])).toContain('[...truncated]')
+    expect(contextTrim).toEqual({ excludedMessageIds: [], truncatedAttachmentCount: 1 })
+  })
+})
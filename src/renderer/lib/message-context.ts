@@ -0,0 +1,213 @@
+/**
+ * 生成时发送给模型的上下文消息
+ * 从历史消息中按条数和 token 预算构建 prompt：合并附件和链接的内容、注入被引用的消息，超出预算时裁剪
+ */
+
+import { omit } from 'lodash'
+import {
+  createMessage,
+  type Message,
+  type MessageContextTrim,
+  type MessageReference,
+  type Session,
+  type SessionSettings,
+} from 'src/shared/types'
+import { cloneMessage, getMessageText, mergeMessages } from 'src/shared/utils/message'
+import { estimateTokensFromMessages, sliceTextByTokenLimit } from '@/packages/token'
+import storage from '@/storage'
+import { buildContextTrim, type ContextTokenBudget, getAttachmentTokenLimit } from './context-budget'
+import { indexSessionTree } from './session-tree'
+
+/**
+ * 从历史消息中生成 prompt 上下文
+ * 传入 token 预算时，超出预算的最旧消息被丢弃（保持上下文连续），过大的附件和最后一条消息被截断，
+ * 裁剪情况通过 contextTrim 返回，记录在生成的回复上
+ * @param tokenBudget 模型的上下文 token 预算，为 null 时只按消息数量限制
+ */
+export async function genMessageContext(
+  settings: SessionSettings,
+  msgs: Message[],
+  modelSupportToolUse: boolean,
+  session?: Session,
+  tokenBudget?: ContextTokenBudget | null
+): Promise<{ prompts: Message[]; contextTrim?: MessageContextTrim }> {
+  const { maxContextMessageCount } = settings
+  if (msgs.length === 0) {
+    throw new Error('No messages to replay')
+  }
+  if (maxContextMessageCount === undefined) {
+    throw new Error('maxContextMessageCount is not set')
+  }
+  const head = msgs[0].role === 'system' ? msgs[0] : undefined
+  if (head) {
+    msgs = msgs.slice(1)
+  }
+  let truncatedAttachmentCount = 0
+  let truncatedInput = false
+  let excludedMessageIds: string[] = []
+  // 附件内容超过单个附件的预算时截断
+  const fitAttachmentContent = (content: string) => {
+    if (!tokenBudget) {
+      return content
+    }
+    const sliced = sliceTextByTokenLimit(content, getAttachmentTokenLimit(tokenBudget))
+    if (sliced.length === content.length) {
+      return content
+    }
+    truncatedAttachmentCount++
+    return `${sliced}\n[...truncated]`
+  }
+
+  let totalLen = head ? estimateTokensFromMessages([head]) : 0
+  let prompts: Message[] = []
+  for (let i = msgs.length - 1; i >= 0; i--) {
+    let msg = msgs[i]
+    // 跳过错误消息
+    if (msg.error || msg.errorCode) {
+      continue
+    }
+    if (
+      maxContextMessageCount < Number.MAX_SAFE_INTEGER &&
+      prompts.length >= maxContextMessageCount + 1 // +1是为了保留用户最后一条输入消息
+    ) {
+      break
+    }
+
+    // 如果消息中包含本地文件（消息中携带有本地文件的storageKey），则将文件内容也作为 prompt 的一部分
+    let attachmentIndex = 1
+    if (msg.files && msg.files.length > 0) {
+      for (const file of msg.files) {
+        if (file.storageKey) {
+          msg = cloneMessage(msg) // 复制一份消息，避免修改原始消息
+          const content = await storage.getBlob(file.storageKey).catch(() => '')
+          if (content) {
+            let attachment = `\n\n<ATTACHMENT_FILE>\n`
+            attachment += `<FILE_INDEX>File ${attachmentIndex++}</FILE_INDEX>\n`
+            attachment += `<FILE_NAME>${file.storageKey}</FILE_NAME>\n`
+            attachment += `<FILE_LINES>${content.split('\n').length}</FILE_LINES>\n`
+            attachment += `<FILE_SIZE>${content.length} bytes</FILE_SIZE>\n`
+            if (!modelSupportToolUse) {
+              attachment += '<FILE_CONTENT>\n'
+              attachment += `${fitAttachmentContent(content)}\n`
+              attachment += '</FILE_CONTENT>\n'
+            }
+            attachment += `</ATTACHMENT_FILE>\n`
+            msg = mergeMessages(msg, createMessage(msg.role, attachment))
+          }
+        }
+      }
+    }
+    // 如果消息中包含本地链接（消息中携带有本地链接的storageKey），则将链接内容也作为 prompt 的一部分
+    if (msg.links && msg.links.length > 0) {
+      for (const link of msg.links) {
+        if (link.storageKey) {
+          msg = cloneMessage(msg) // 复制一份消息，避免修改原始消息
+          const content = await storage.getBlob(link.storageKey).catch(() => '')
+          if (content) {
+            let attachment = `\n\n<ATTACHMENT_FILE>\n`
+            attachment += `<FILE_INDEX>${attachmentIndex++}</FILE_INDEX>\n`
+            attachment += `<FILE_NAME>${link.storageKey}</FILE_NAME>\n`
+            attachment += `<FILE_LINES>${content.split('\n').length}</FILE_LINES>\n`
+            attachment += `<FILE_SIZE>${content.length} bytes</FILE_SIZE>\n`
+            if (!modelSupportToolUse) {
+              attachment += `<FILE_CONTENT>\n`
+              attachment += `${fitAttachmentContent(content)}\n`
+              attachment += '</FILE_CONTENT>\n'
+            }
+            attachment += `</ATTACHMENT_FILE>\n`
+            msg = mergeMessages(msg, createMessage(msg.role, attachment))
+          }
+        }
+      }
+    }
+
+    // 如果消息中包含节点引用，则将被引用的消息内容作为带标签的上下文块注入
+    if (session && msg.references && msg.references.length > 0) {
+      const referenceBlock = buildReferencedMessagesBlock(session, msg.references, msgs)
+      if (referenceBlock) {
+        msg = mergeMessages(msg, createMessage(msg.role, referenceBlock))
+      }
+    }
+
+    // 附件内容已合并到文本中（支持工具调用时由工具读取），不再重复计算文件的 token
+    let size = estimateTokensFromMessages([omit(msg, 'files', 'links')]) + 20 // 20 作为预估的误差补偿
+    if (tokenBudget && totalLen + size > tokenBudget.availableTokens) {
+      if (prompts.length > 0) {
+        // 丢弃这条及更早的所有消息，保证上下文连续
+        excludedMessageIds = msgs
+          .slice(0, i + 1)
+          .filter((m) => !m.error && !m.errorCode)
+          .map((m) => m.id)
+        break
+      }
+      // 最后一条消息本身就超出预算时截断其文本
+      msg = truncateMessageText(msg, Math.max(tokenBudget.availableTokens - totalLen - 20, 0))
+      size = estimateTokensFromMessages([omit(msg, 'files', 'links')]) + 20
+      truncatedInput = true
+    }
+
+    prompts = [msg, ...prompts]
+    totalLen += size
+  }
+  if (head) {
+    prompts = [head, ...prompts]
+  }
+  return {
+    prompts,
+    contextTrim: buildContextTrim(excludedMessageIds, truncatedAttachmentCount, truncatedInput),
+  }
+}
+
+/**
+ * 将消息的文本截断到指定的 token 数，图片等非文本内容保持不变
+ */
+function truncateMessageText(msg: Message, limit: number): Message {
+  const text = sliceTextByTokenLimit(getMessageText(msg), limit)
+  return {
+    ...msg,
+    contentParts: [
+      ...msg.contentParts.filter((part) => part.type !== 'text'),
+      { type: 'text', text: `${text}\n[...truncated]` },
+    ],
+  }
+}
+
+/**
+ * 构建被引用消息的上下文块，已经在上下文中的消息和已被删除的消息会被跳过
+ */
+function buildReferencedMessagesBlock(session: Session, references: MessageReference[], contextMsgs: Message[]) {
+  const index = indexSessionTree(session)
+  const contextIds = new Set(contextMsgs.map((m) => m.id))
+  const activeIds = new Set(session.messages.map((m) => m.id))
+  let block = ''
+  let referenceIndex = 1
+  for (const reference of references) {
+    const message = index.messages.get(reference.messageId)
+    if (!message || contextIds.has(message.id)) {
+      continue
+    }
+    // 引用整个分支时发送分支摘要，没有摘要时退回到引用第一条消息
+    const branchSummary = reference.branch ? session.branchSummaries?.[message.id] : undefined
+    if (branchSummary) {
+      block += `\n\n<REFERENCED_BRANCH>\n`
+      block += `<REFERENCE_INDEX>Reference ${referenceIndex++}</REFERENCE_INDEX>\n`
+      block += `<TITLE>${branchSummary.title}</TITLE>\n`
+      block += `<MESSAGE_COUNT>${branchSummary.messageCount}</MESSAGE_COUNT>\n`
+      block += '<SUMMARY>\n'
+      block += `${branchSummary.summary}\n`
+      block += '</SUMMARY>\n'
+      block += `</REFERENCED_BRANCH>\n`
+      continue
+    }
+    block += `\n\n<REFERENCED_MESSAGE>\n`
+    block += `<REFERENCE_INDEX>Reference ${referenceIndex++}</REFERENCE_INDEX>\n`
+    block += `<ROLE>${message.role}</ROLE>\n`
+    const branch = activeIds.has(message.id) ? 'current branch' : 'another branch'
+    block += `<BRANCH>${branch}, message ${reference.branchPath.length} of its path</BRANCH>\n`
+    block += '<CONTENT>\n'
+    block += `${getMessageText(message, true, false)}\n`
+    block += '</CONTENT>\n'
+    block += `</REFERENCED_MESSAGE>\n`
+  }
+  return block
+}
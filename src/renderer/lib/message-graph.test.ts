@@ -0,0 +1,177 @@
+import type { Message, Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  activateGraphMessage,
+  attachGraphSubtree,
+  buildMessageGraph,
+  getActiveMessages,
+  getGraphMessagePath,
+  getGraphSubtree,
+  getMessageTreeViews,
+  projectMessageGraph,
+  removeGraphSubtree,
+  switchGraphFork,
+  syncMessageGraph,
+  toStoredSession,
+  withMessageTreeViews,
+} from './message-graph'
+import { msg, present } from './test-utils'
+
+const ids = (messages: Message[]) => messages.map((m) => m.id)
+
+// u1 ─ a1 ─┬─ u2 ─ a2      (active)
+//          ├─ u3 ─┬─ a3
+//          │      └─ a4
+//          └─ (empty, named)
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1'), msg('u2'), msg('a2')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 1,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', name: 'retry', messages: [msg('u3'), msg('a3')] },
+        { id: 'l2', name: 'draft', messages: [] },
+      ],
+    },
+    u3: {
+      position: 0,
+      createdAt: 2,
+      lists: [
+        { id: 'm0', messages: [] },
+        { id: 'm1', messages: [msg('a4')] },
+      ],
+    },
+  },
+}
+
+const graph = buildMessageGraph(session)
+
+describe('message-graph', () => {
+  test('records parents, children and the active leaf', () => {
+    expect(graph.rootId).toBe('u1')
+    expect(graph.activeLeafId).toBe('a2')
+    expect(graph.nodes.u3).toMatchObject({ parentId: 'a1', childIds: ['a3', 'a4'], activeChildId: 'a3' })
+    expect(graph.nodes.a1.childIds).toEqual(['u2', 'u3'])
+    expect(ids(getGraphMessagePath(graph, 'a4') ?? [])).toEqual(['u1', 'a1', 'u3', 'a4'])
+  })
+
+  test('converts back to messages and forks without loss', () => {
+    expect(projectMessageGraph(graph)).toEqual({
+      messages: session.messages,
+      messageForksHash: session.messageForksHash,
+    })
+  })
+
+  test('activating a message switches every fork on its path', () => {
+    const switched = present(activateGraphMessage(graph, 'a4'))
+    expect(switched.activeLeafId).toBe('a4')
+    expect(ids(getActiveMessages(switched))).toEqual(['u1', 'a1', 'u3', 'a4'])
+    const { messageForksHash } = projectMessageGraph(switched)
+    expect(messageForksHash?.a1.position).toBe(1)
+    expect(ids(messageForksHash?.a1.lists[0].messages ?? [])).toEqual(['u2', 'a2'])
+    expect(ids(messageForksHash?.u3.lists[0].messages ?? [])).toEqual(['a3'])
+    expect(activateGraphMessage(graph, 'a1')).toBeNull()
+  })
+
+  test('switching a fork cycles through its branches', () => {
+    expect(ids(getActiveMessages(present(switchGraphFork(graph, 'a1', 'next'))))).toEqual(['u1', 'a1', 'u3', 'a3'])
+    const last = present(switchGraphFork(graph, 'a1', 'prev'))
+    expect(last.activeLeafId).toBe('a1')
+    expect(last.nodes.a1.fork?.position).toBe(2)
+  })
+
+  test('removing the active branch switches to the next branch with content', () => {
+    const removed = present(removeGraphSubtree(graph, 'u2'))
+    expect(removed.nodes.u2).toBeUndefined()
+    expect(removed.nodes.a2).toBeUndefined()
+    expect(ids(getActiveMessages(removed))).toEqual(['u1', 'a1', 'u3', 'a3'])
+    expect(removed.nodes.a1.fork).toBeUndefined()
+
+    const withoutBranch = present(removeGraphSubtree(graph, 'a4'))
+    expect(withoutBranch.nodes.u3.fork).toBeUndefined()
+    expect(withoutBranch.activeLeafId).toBe('a2')
+  })
+
+  test('detaches and reattaches a subtree as a new branch', () => {
+    const subtree = getGraphSubtree(graph, 'u3')
+    expect(Object.keys(subtree).sort()).toEqual(['a3', 'a4', 'u3'])
+
+    const removed = present(removeGraphSubtree(graph, 'u3'))
+    const restored = present(attachGraphSubtree(removed, 'a1', 'u3', subtree, 'retry'))
+    expect(restored.nodes.a1.childIds).toEqual(['u2', 'u3'])
+    expect(restored.nodes.a1.fork?.lists.at(-1)).toMatchObject({ name: 'retry', headId: 'u3' })
+    expect(restored.activeLeafId).toBe('a2')
+    expect(ids(getGraphMessagePath(restored, 'a4') ?? [])).toEqual(['u1', 'a1', 'u3', 'a4'])
+    expect(attachGraphSubtree(restored, 'a1', 'u3', subtree)).toBeNull()
+
+    // 挂到叶子节点下时成为活跃路径的后续消息
+    const onLeaf = present(attachGraphSubtree(removed, 'a2', 'u3', subtree))
+    expect(onLeaf.nodes.a2.activeChildId).toBe('u3')
+    expect(onLeaf.activeLeafId).toBe('a3')
+  })
+
+  test('syncs edits of the active path incrementally', () => {
+    const prev = { ...session, messageGraph: graph }
+    const edited = { ...msg('a2'), contentParts: [{ type: 'text' as const, text: 'edited' }] }
+    const appended = syncMessageGraph(prev, { ...prev, messages: [...prev.messages.slice(0, 3), edited, msg('u5')] })
+    expect(appended.messageGraph?.nodes.a2.message).toBe(edited)
+    expect(appended.messageGraph?.nodes.u5.parentId).toBe('a2')
+    expect(appended.messageGraph?.activeLeafId).toBe('u5')
+
+    const truncated = syncMessageGraph(prev, { ...prev, messages: prev.messages.slice(0, 2) })
+    expect(truncated.messageGraph?.nodes.u2).toBeUndefined()
+    expect(truncated.messageGraph?.nodes.a1.childIds).toEqual(['u3'])
+    expect(projectMessageGraph(present(truncated.messageGraph))).toEqual(
+      projectMessageGraph(buildMessageGraph({ ...session, messages: prev.messages.slice(0, 2) }))
+    )
+  })
+
+  test('graph changes regenerate the legacy view and keep forks outside the tree', () => {
+    const threadFork = { position: 0, createdAt: 3, lists: [{ id: 't0', messages: [] }] }
+    const prev = { ...session, messageForksHash: { ...session.messageForksHash, t1: threadFork }, messageGraph: graph }
+    const next = syncMessageGraph(prev, { ...prev, messageGraph: present(activateGraphMessage(graph, 'a3')) })
+    expect(ids(next.messages)).toEqual(['u1', 'a1', 'u3', 'a3'])
+    expect(next.messageForksHash?.t1).toBe(threadFork)
+    expect(toStoredSession(next).messageForksHash).toEqual({ t1: threadFork })
+  })
+
+  test('derives the legacy view lazily and stores the graph with the active path', () => {
+    const views = getMessageTreeViews(graph)
+    expect(getMessageTreeViews(graph).messages).toBe(views.messages)
+    expect(getMessageTreeViews(graph).messageForksHash).toBe(views.messageForksHash)
+    expect(views.messageForksHash?.a1).toBe(views.messageForksHash?.a1)
+    expect(views.messageForksHash && 'u2' in views.messageForksHash).toBe(false)
+    expect(Object.keys(views.messageForksHash ?? {}).sort()).toEqual(['a1', 'u3'])
+    expect({ ...views.messageForksHash }).toEqual(session.messageForksHash)
+    expect(() => {
+      Object.assign(views.messageForksHash ?? {}, { a1: undefined })
+    }).toThrow(/read-only view/)
+
+    const stored = toStoredSession(withMessageTreeViews(session, graph))
+    expect(stored.messages).toEqual(session.messages)
+    expect(stored.messageForksHash).toBeUndefined()
+    expect(stored.messageGraph).toBe(graph)
+  })
+
+  test('applies edits of the legacy forks to the changed subtrees only', () => {
+    const prev = withMessageTreeViews(session, graph)
+    const forks = { ...prev.messageForksHash }
+    forks.u3 = { ...forks.u3, lists: [...forks.u3.lists, { id: 'm2', messages: [msg('a5')] }] }
+    const next = syncMessageGraph(prev, { ...prev, messageForksHash: forks })
+    expect(next.messageGraph?.nodes.u3.childIds).toEqual(['a3', 'a4', 'a5'])
+    expect(next.messageGraph?.nodes.u2).toBe(graph.nodes.u2)
+    expect(projectMessageGraph(present(next.messageGraph))).toEqual(
+      projectMessageGraph(buildMessageGraph({ messages: session.messages, messageForksHash: forks }))
+    )
+
+    const { a1: _, ...withoutFork } = forks
+    const removed = syncMessageGraph(next, { ...next, messageForksHash: withoutFork })
+    expect(removed.messageGraph?.nodes.a1.fork).toBeUndefined()
+    expect(removed.messageGraph?.nodes.u3).toBeUndefined()
+    expect(ids(removed.messages)).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+})
@@ -0,0 +1,714 @@
+/**
+ * 消息图工具
+ * 会话树的扁平存储格式：每个节点记录 parentId 和当前激活的子节点，会话记录活跃叶子节点
+ * 切换分支、删除节点只需沿父指针访问 O(深度) 个节点，不再需要在嵌套的 messageForksHash 中逐层查找和搬移消息
+ *
+ * 存储中只保存消息图；旧的 messages + messageForksHash 结构作为兼容视图保留在内存中，由消息图按需生成，
+ * 通过旧结构做的修改由 syncMessageGraph 增量应用回消息图
+ */
+
+import { isEmpty, pickBy } from 'lodash'
+import type { Message, MessageGraph, MessageGraphNode, Session } from 'src/shared/types'
+import { v4 as uuidv4 } from 'uuid'
+
+// ============ 类型定义 ============
+
+/** 旧的嵌套会话树结构 */
+export type MessageTreeFields = Pick<Session, 'messages' | 'messageForksHash'>
+
+type MessageForksHash = NonNullable<Session['messageForksHash']>
+
+// ============ 格式转换 ============
+
+/**
+ * 将 messages + messageForksHash 转换为消息图
+ * 转换是无损的：分支的 ID、名称、顺序、创建时间以及空分支都会保留
+ * 以不在树中的消息为 key 的分叉（例如挂在历史话题消息上的分叉）不会进入消息图，见 getDetachedForks
+ */
+export function buildMessageGraph({ messages, messageForksHash }: MessageTreeFields): MessageGraph {
+  const nodes: Record<string, MessageGraphNode> = {}
+  const pending: { chain: Message[]; parentId: string | null }[] = [{ chain: messages, parentId: null }]
+
+  for (let item = pending.pop(); item; item = pending.pop()) {
+    const { chain, parentId } = item
+    chain.forEach((message, i) => {
+      const next = chain[i + 1]
+      const node: MessageGraphNode = {
+        message,
+        parentId: i === 0 ? parentId : chain[i - 1].id,
+        childIds: next ? [next.id] : [],
+        activeChildId: next?.id,
+      }
+      const fork = messageForksHash?.[message.id]
+      if (fork) {
+        // 激活分支的内容就是链上的后续消息，其余分支的第一条消息是分叉点的其他子节点
+        const lists = fork.lists.map((list, listIndex) => {
+          const headId = listIndex === fork.position ? next?.id : list.messages[0]?.id
+          if (listIndex !== fork.position && list.messages.length > 0) {
+            pending.push({ chain: list.messages, parentId: message.id })
+          }
+          return { id: list.id, name: list.name, headId }
+        })
+        node.fork = { position: fork.position, lists, createdAt: fork.createdAt }
+        node.childIds = getBranchHeadIds(lists)
+      }
+      nodes[message.id] = node
+    })
+  }
+
+  return {
+    rootId: messages[0]?.id,
+    activeLeafId: messages[messages.length - 1]?.id,
+    nodes,
+  }
+}
+
+/**
+ * 将消息图转换回 messages + messageForksHash 结构，生成所有分叉的完整内容，耗时 O(消息总数)
+ * 会话中使用的是 getMessageTreeViews 生成的惰性视图，这里用于需要独立副本的场景
+ * @param detachedForks 不在消息图中的分叉，原样合并回 messageForksHash
+ */
+export function projectMessageGraph(graph: MessageGraph, detachedForks?: MessageForksHash): MessageTreeFields {
+  const messageForksHash: MessageForksHash = { ...detachedForks }
+  for (const [id, node] of Object.entries(graph.nodes)) {
+    if (node.fork) {
+      messageForksHash[id] = projectFork(graph, node.fork)
+    }
+  }
+  return {
+    messages: getActiveMessages(graph),
+    messageForksHash: isEmpty(messageForksHash) ? undefined : messageForksHash,
+  }
+}
+
+/**
+ * 获取 messageForksHash 中不在消息图里的分叉
+ */
+export function getDetachedForks(
+  messageForksHash: Session['messageForksHash'],
+  graph: MessageGraph | undefined
+): MessageForksHash | undefined {
+  if (!messageForksHash) {
+    return undefined
+  }
+  const view = forksViewSources.get(messageForksHash)
+  if (view) {
+    return view.detachedForks
+  }
+  const detached = pickBy(messageForksHash, (_, id) => !graph?.nodes[id])
+  return isEmpty(detached) ? undefined : detached
+}
+
+/**
+ * 在数据更新后保持消息图与兼容视图一致，消息图是唯一的数据源
+ * - 消息图被直接修改：重新挂上由消息图生成的兼容视图，不在消息图中的分叉取自 next 的 messageForksHash
+ * - messages 被修改（追加、编辑、截断等）：增量更新活跃路径，耗时 O(深度)
+ * - messageForksHash 被修改：只重建内容有变化的分叉所在的子树
+ */
+export function syncMessageGraph(prev: Session | null | undefined, next: Session): Session {
+  if (next.messageGraph && next.messageGraph !== prev?.messageGraph) {
+    return withMessageTreeViews(next, next.messageGraph, getDetachedForks(next.messageForksHash, next.messageGraph))
+  }
+  if (next.messages === prev?.messages && next.messageForksHash === prev.messageForksHash && next.messageGraph) {
+    return next
+  }
+
+  let messageGraph = prev?.messageGraph && next.messageGraph ? next.messageGraph : null
+  if (messageGraph && prev && next.messages !== prev.messages) {
+    messageGraph = applyActivePath(messageGraph, prev.messages, next.messages)
+  }
+  if (messageGraph && prev && next.messageForksHash !== prev.messageForksHash) {
+    messageGraph = applyForkChanges(messageGraph, prev.messageForksHash, next)
+  }
+  messageGraph ??= buildMessageGraph(next)
+  return withMessageTreeViews(next, messageGraph, getDetachedForks(next.messageForksHash, messageGraph))
+}
+
+/**
+ * 获取写入存储的会话：树结构保存在消息图中，messageForksHash 只保留不在消息图里的分叉
+ * messages 仍写入活跃路径，不认识消息图的旧版本打开会话时至少能看到当前对话
+ */
+export function toStoredSession(session: Session): Session {
+  const messageGraph = session.messageGraph ?? buildMessageGraph(session)
+  return {
+    ...session,
+    messages: getMessageTreeViews(messageGraph).messages,
+    messageGraph,
+    messageForksHash: getDetachedForks(session.messageForksHash, messageGraph),
+  }
+}
+
+// ============ 兼容视图 ============
+
+/** 兼容视图对应的数据源 */
+interface ForksViewSource {
+  graph: MessageGraph
+  detachedForks?: MessageForksHash
+}
+
+const activeMessagesCache = new WeakMap<MessageGraph, Message[]>()
+const forksViewCache = new WeakMap<MessageGraph, MessageForksHash>()
+const forksViewSources = new WeakMap<object, ForksViewSource>()
+
+/**
+ * 由消息图生成 messages + messageForksHash 兼容视图，同一个消息图只生成一次
+ * messages 是活跃路径，耗时 O(深度)；messageForksHash 是只读的惰性视图，读取某个分叉时才生成它的分支内容，
+ * 遍历时才扫描整个消息图。修改分叉需要像普通对象一样整体替换 messageForksHash，由 syncMessageGraph 应用到消息图
+ * @param detachedForks 不在消息图中的分叉，原样合并到 messageForksHash
+ */
+export function getMessageTreeViews(graph: MessageGraph, detachedForks?: MessageForksHash): MessageTreeFields {
+  let messages = activeMessagesCache.get(graph)
+  if (!messages) {
+    messages = getActiveMessages(graph)
+    activeMessagesCache.set(graph, messages)
+  }
+  let messageForksHash = forksViewCache.get(graph)
+  if (!messageForksHash || forksViewSources.get(messageForksHash)?.detachedForks !== detachedForks) {
+    messageForksHash = createForksView({ graph, detachedForks })
+    forksViewCache.set(graph, messageForksHash)
+  }
+  return { messages, messageForksHash }
+}
+
+/**
+ * 为会话挂上消息图及由它生成的兼容视图
+ */
+export function withMessageTreeViews(
+  session: Session,
+  messageGraph: MessageGraph,
+  detachedForks?: MessageForksHash
+): Session {
+  return { ...session, messageGraph, ...getMessageTreeViews(messageGraph, detachedForks) }
+}
+
+function createForksView(source: ForksViewSource): MessageForksHash {
+  const { graph, detachedForks } = source
+  const projected = new Map<string, MessageForksHash[string]>()
+  const getFork = (id: string) => {
+    if (detachedForks?.[id]) {
+      return detachedForks[id]
+    }
+    const fork = graph.nodes[id]?.fork
+    if (!fork) {
+      return undefined
+    }
+    let entry = projected.get(id)
+    if (!entry) {
+      entry = projectFork(graph, fork)
+      projected.set(id, entry)
+    }
+    return entry
+  }
+
+  const view = new Proxy({} as MessageForksHash, {
+    get: (_, key) => (typeof key === 'string' ? getFork(key) : undefined),
+    has: (_, key) => typeof key === 'string' && !!getFork(key),
+    ownKeys: () => [
+      ...Object.keys(detachedForks ?? {}),
+      ...Object.keys(graph.nodes).filter((id) => graph.nodes[id].fork && !detachedForks?.[id]),
+    ],
+    getOwnPropertyDescriptor: (_, key) => {
+      const value = typeof key === 'string' ? getFork(key) : undefined
+      return value && { value, writable: false, enumerable: true, configurable: true }
+    },
+    set: (_, key) => rejectForksViewWrite(key),
+    defineProperty: (_, key) => rejectForksViewWrite(key),
+    deleteProperty: (_, key) => rejectForksViewWrite(key),
+  })
+  forksViewSources.set(view, source)
+  return view
+}
+
+function rejectForksViewWrite(key: string | symbol): never {
+  throw new TypeError(
+    `messageForksHash is a read-only view of the message graph, cannot modify fork ${String(key)} in place; ` +
+      'replace messageForksHash with a new object or update messageGraph instead'
+  )
+}
+
+/** 生成分叉点的旧结构：激活分支的内容在所在链上，其余分支从分支头沿激活子节点走到底 */
+function projectFork(graph: MessageGraph, fork: NonNullable<MessageGraphNode['fork']>): MessageForksHash[string] {
+  return {
+    position: fork.position,
+    createdAt: fork.createdAt,
+    lists: fork.lists.map((list, listIndex) => ({
+      id: list.id,
+      name: list.name,
+      messages: listIndex !== fork.position && list.headId ? getChainFrom(graph.nodes, list.headId) : [],
+    })),
+  }
+}
+
+// ============ 结构版本 ============
+
+let lastStructureVersion = 0
+const structureVersions = new WeakMap<MessageGraph, number>()
+
+/**
+ * 获取消息图的结构版本，版本相同的两个消息图转换出的树只有消息内容不同
+ * 只修改消息内容（不改变角色、合并来源和引用）得到的消息图沿用原来的版本，其他修改得到新版本，
+ * 用于按结构缓存对话树，不需要逐个节点比较
+ */
+export function getGraphStructureVersion(graph: MessageGraph): number {
+  let version = structureVersions.get(graph)
+  if (version === undefined) {
+    version = ++lastStructureVersion
+    structureVersions.set(graph, version)
+  }
+  return version
+}
+
+// ============ 查询 ============
+
+/**
+ * 获取当前活跃路径上的消息，耗时 O(深度)
+ */
+export function getActiveMessages(graph: MessageGraph): Message[] {
+  return graph.rootId ? getChainFrom(graph.nodes, graph.rootId) : []
+}
+
+/**
+ * 获取从根节点到指定消息的路径，耗时 O(深度)
+ * @returns 路径上的消息（包含根节点和目标消息），消息不存在时返回 null
+ */
+export function getGraphMessagePath(graph: MessageGraph, messageId: string): Message[] | null {
+  if (!graph.nodes[messageId]) {
+    return null
+  }
+  const path: Message[] = []
+  let current: MessageGraphNode | undefined = graph.nodes[messageId]
+  while (current) {
+    path.push(current.message)
+    current = current.parentId ? graph.nodes[current.parentId] : undefined
+  }
+  return path.reverse()
+}
+
+/**
+ * 获取从指定消息开始沿激活子节点走到叶子的消息链，即以该消息开头的分支内容
+ */
+export function getGraphChain(graph: MessageGraph, startId: string): Message[] {
+  return getChainFrom(graph.nodes, startId)
+}
+
+/**
+ * 获取以指定消息为根的子树中的所有节点
+ */
+export function getGraphSubtree(graph: MessageGraph, messageId: string): MessageGraph['nodes'] {
+  const subtree: MessageGraph['nodes'] = {}
+  const stack = [messageId]
+  for (let id = stack.pop(); id !== undefined; id = stack.pop()) {
+    const node = graph.nodes[id]
+    if (!node || subtree[id]) continue
+    subtree[id] = node
+    stack.push(...node.childIds)
+  }
+  return subtree
+}
+
+/**
+ * 判断消息是否在活跃路径上，耗时 O(深度)
+ */
+export function isOnActivePath(graph: MessageGraph, messageId: string): boolean {
+  let node = graph.nodes[messageId]
+  while (node?.parentId) {
+    const parent: MessageGraphNode | undefined = graph.nodes[node.parentId]
+    if (parent?.activeChildId !== node.message.id) {
+      return false
+    }
+    node = parent
+  }
+  return !!node && node.message.id === graph.rootId
+}
+
+// ============ 结构调整 ============
+
+/**
+ * 修改消息图中的一条消息，不改变树结构，耗时 O(1)
+ * @returns 新的消息图，消息不在消息图中时返回 null
+ */
+export function updateGraphMessage(
+  graph: MessageGraph,
+  messageId: string,
+  updater: (message: Message) => Message
+): MessageGraph | null {
+  const node = graph.nodes[messageId]
+  if (!node) {
+    return null
+  }
+  const message = updater(node.message)
+  const next = { ...graph, nodes: { ...graph.nodes, [messageId]: { ...node, message } } }
+  if (isSameMessageStructure(node.message, message)) {
+    structureVersions.set(next, getGraphStructureVersion(graph))
+  }
+  return next
+}
+
+/**
+ * 切换到包含指定消息的路径：沿父指针逐层激活，目标消息之后沿用各节点原先激活的子节点
+ * @returns 新的消息图，目标不存在或已在活跃路径上时返回 null
+ */
+export function activateGraphMessage(graph: MessageGraph, messageId: string): MessageGraph | null {
+  const target = graph.nodes[messageId]
+  if (!target) {
+    return null
+  }
+
+  const changed: Record<string, MessageGraphNode> = {}
+  let childId = messageId
+  let parentId = target.parentId
+  while (parentId) {
+    const parent = graph.nodes[parentId]
+    if (!parent) {
+      return null
+    }
+    if (parent.activeChildId !== childId) {
+      changed[parentId] = setActiveChild(parent, childId)
+    }
+    childId = parentId
+    parentId = parent.parentId
+  }
+  if (isEmpty(changed)) {
+    return null
+  }
+
+  const nodes = { ...graph.nodes, ...changed }
+  return { ...graph, nodes, activeLeafId: getChainLeafId(nodes, messageId) }
+}
+
+/**
+ * 将分叉点切换到上一个/下一个分支（循环切换）
+ * @returns 新的消息图，节点不是分叉点或只有一个分支时返回 null
+ */
+export function switchGraphFork(
+  graph: MessageGraph,
+  forkMessageId: string,
+  direction: 'next' | 'prev'
+): MessageGraph | null {
+  const node = graph.nodes[forkMessageId]
+  if (!node?.fork || node.fork.lists.length <= 1) {
+    return null
+  }
+
+  const total = node.fork.lists.length
+  const position = direction === 'next' ? (node.fork.position + 1) % total : (node.fork.position - 1 + total) % total
+  const nodes = {
+    ...graph.nodes,
+    [forkMessageId]: {
+      ...node,
+      activeChildId: node.fork.lists[position].headId,
+      fork: { ...node.fork, position },
+    },
+  }
+  return {
+    ...graph,
+    nodes,
+    activeLeafId: isOnActivePath(graph, forkMessageId) ? getChainLeafId(nodes, forkMessageId) : graph.activeLeafId,
+  }
+}
+
+/**
+ * 删除消息及其所有子孙节点，耗时 O(深度 + 子树大小)
+ * 被删除的分支从分叉点中移除；若删除的是激活分支，则切换到第一个仍有内容的分支
+ * @returns 新的消息图，消息不存在时返回 null
+ */
+export function removeGraphSubtree(graph: MessageGraph, messageId: string): MessageGraph | null {
+  const target = graph.nodes[messageId]
+  if (!target) {
+    return null
+  }
+
+  const nodes = { ...graph.nodes }
+  deleteSubtree(nodes, messageId)
+  const parent = target.parentId ? nodes[target.parentId] : undefined
+  if (!parent) {
+    return { nodes, rootId: undefined, activeLeafId: undefined }
+  }
+
+  nodes[parent.message.id] = removeChild(parent, messageId)
+  return {
+    ...graph,
+    nodes,
+    activeLeafId: isOnActivePath(graph, messageId) ? getChainLeafId(nodes, parent.message.id) : graph.activeLeafId,
+  }
+}
+
+/**
+ * 将子树作为新分支挂到指定消息下（用于恢复归档的分支）
+ * 父节点没有子节点时子树直接成为它的后续消息，否则作为分叉点的一个新分支，不改变当前激活的分支
+ * @param subtree 子树的所有节点，headId 为子树的根
+ * @param name 新分支的名称
+ * @returns 新的消息图，父节点不存在或子树中的消息已在消息图中时返回 null
+ */
+export function attachGraphSubtree(
+  graph: MessageGraph,
+  parentId: string,
+  headId: string,
+  subtree: MessageGraph['nodes'],
+  name?: string
+): MessageGraph | null {
+  const parent = graph.nodes[parentId]
+  if (!parent || !subtree[headId] || Object.keys(subtree).some((id) => graph.nodes[id])) {
+    return null
+  }
+
+  const nodes = { ...graph.nodes, ...subtree, [headId]: { ...subtree[headId], parentId } }
+  nodes[parentId] = addChild(parent, headId, name)
+  return {
+    ...graph,
+    nodes,
+    activeLeafId:
+      parent.childIds.length === 0 && isOnActivePath(graph, parentId)
+        ? getChainLeafId(nodes, parentId)
+        : graph.activeLeafId,
+  }
+}
+
+// ============ 内部辅助函数 ============
+
+/** 消息中影响树结构的字段（角色、合并来源、引用）没有变化 */
+function isSameMessageStructure(a: Message, b: Message): boolean {
+  return a.role === b.role && a.merge === b.merge && a.references === b.references
+}
+
+function getBranchHeadIds(lists: { headId?: string }[]): string[] {
+  return lists.flatMap((list) => (list.headId ? [list.headId] : []))
+}
+
+/** 从指定节点开始沿激活的子节点一直走到底，返回经过的消息 */
+function getChainFrom(nodes: MessageGraph['nodes'], startId: string): Message[] {
+  const chain: Message[] = []
+  let node: MessageGraphNode | undefined = nodes[startId]
+  while (node) {
+    chain.push(node.message)
+    node = node.activeChildId ? nodes[node.activeChildId] : undefined
+  }
+  return chain
+}
+
+function getChainLeafId(nodes: MessageGraph['nodes'], startId: string): string {
+  let id = startId
+  let childId = nodes[id]?.activeChildId
+  while (childId && nodes[childId]) {
+    id = childId
+    childId = nodes[id].activeChildId
+  }
+  return id
+}
+
+function setActiveChild(node: MessageGraphNode, childId: string): MessageGraphNode {
+  return {
+    ...node,
+    activeChildId: childId,
+    fork: node.fork && {
+      ...node.fork,
+      position: node.fork.lists.findIndex((list) => list.headId === childId),
+    },
+  }
+}
+
+/** 将子节点设为活跃路径上的下一条消息，替换原先的激活子节点 */
+function linkActiveChild(node: MessageGraphNode, childId: string): MessageGraphNode {
+  if (!node.fork) {
+    return { ...node, childIds: [childId], activeChildId: childId }
+  }
+  const existing = node.fork.lists.findIndex((list) => list.headId === childId)
+  const position = existing >= 0 ? existing : node.fork.position
+  const lists = node.fork.lists.map((list, index) => (index === position ? { ...list, headId: childId } : list))
+  return {
+    ...node,
+    childIds: getBranchHeadIds(lists),
+    activeChildId: childId,
+    fork: { ...node.fork, position, lists },
+  }
+}
+
+/** 添加子节点：没有子节点时作为激活子节点，否则作为分叉点的新分支（没有分叉信息时先为已有子节点创建分支） */
+function addChild(node: MessageGraphNode, childId: string, name?: string): MessageGraphNode {
+  if (node.childIds.length === 0 && !node.fork) {
+    return { ...node, childIds: [childId], activeChildId: childId }
+  }
+  const fork = node.fork ?? {
+    position: Math.max(0, node.childIds.indexOf(node.activeChildId ?? '')),
+    lists: node.childIds.map((headId) => ({ id: uuidv4(), headId })),
+    createdAt: Date.now(),
+  }
+  const lists = [...fork.lists, { id: uuidv4(), name, headId: childId }]
+  return {
+    ...node,
+    childIds: getBranchHeadIds(lists),
+    fork: { ...fork, lists },
+  }
+}
+
+/** 断开子节点，分支保留为空分支，对应旧结构中直接截断消息列表 */
+function unlinkChild(node: MessageGraphNode, childId: string): MessageGraphNode {
+  const lists = node.fork?.lists.map((list) => (list.headId === childId ? { ...list, headId: undefined } : list))
+  return {
+    ...node,
+    childIds: node.childIds.filter((id) => id !== childId),
+    activeChildId: node.activeChildId === childId ? undefined : node.activeChildId,
+    fork: node.fork && lists && { ...node.fork, lists },
+  }
+}
+
+/** 删除子节点所在的分支，与旧结构 removeMessage 的分叉清理规则一致 */
+function removeChild(node: MessageGraphNode, childId: string): MessageGraphNode {
+  if (!node.fork) {
+    const childIds = node.childIds.filter((id) => id !== childId)
+    return { ...node, childIds, activeChildId: childIds[0] }
+  }
+
+  const activeListId = node.fork.lists[node.fork.position]?.id
+  let lists = node.fork.lists.flatMap((list) => {
+    if (list.headId !== childId) return [list]
+    return list.id === activeListId ? [{ ...list, headId: undefined }] : []
+  })
+  let position = lists.findIndex((list) => list.id === activeListId)
+  if (!lists[position]?.headId) {
+    const nextValid = lists.findIndex((list) => list.headId)
+    if (nextValid >= 0) {
+      position = nextValid
+    }
+  }
+  const activeId = lists[position]?.id
+  lists = lists.filter((list, index) => list.headId || index === position)
+  position = Math.max(
+    0,
+    lists.findIndex((list) => list.id === activeId)
+  )
+
+  // 只剩激活分支时分叉点不再有意义
+  return {
+    ...node,
+    childIds: getBranchHeadIds(lists),
+    activeChildId: lists[position]?.headId,
+    fork: lists.length > 1 ? { ...node.fork, position, lists } : undefined,
+  }
+}
+
+/** 从节点表中删除子树（原地修改），keep 中的节点及其子孙会被保留 */
+function deleteSubtree(nodes: MessageGraph['nodes'], messageId: string, keep?: Set<string>): void {
+  const stack = [messageId]
+  for (let id = stack.pop(); id !== undefined; id = stack.pop()) {
+    const node = nodes[id]
+    if (!node) continue
+    delete nodes[id]
+    stack.push(...node.childIds.filter((childId) => !keep?.has(childId)))
+  }
+}
+
+/**
+ * 将旧结构中对 messages（活跃路径）的修改增量应用到消息图
+ * 找到新旧路径的公共前缀，更新其中被替换的消息，删除不再出现的旧消息，再逐条挂接新路径
+ * @returns 新的消息图，消息图与旧路径不一致时返回 null（由调用方重新构建）
+ */
+function applyActivePath(graph: MessageGraph, prevMessages: Message[], nextMessages: Message[]): MessageGraph | null {
+  let common = 0
+  while (
+    common < prevMessages.length &&
+    common < nextMessages.length &&
+    prevMessages[common].id === nextMessages[common].id
+  ) {
+    common++
+  }
+
+  const nodes = { ...graph.nodes }
+  let sameStructure = common === prevMessages.length && common === nextMessages.length
+  for (let i = 0; i < common; i++) {
+    const node = nodes[nextMessages[i].id]
+    if (!node) {
+      return null
+    }
+    if (node.message !== nextMessages[i]) {
+      sameStructure &&= isSameMessageStructure(node.message, nextMessages[i])
+      nodes[nextMessages[i].id] = { ...node, message: nextMessages[i] }
+    }
+  }
+  if (sameStructure) {
+    const next = { ...graph, nodes }
+    structureVersions.set(next, getGraphStructureVersion(graph))
+    return next
+  }
+
+  const keep = new Set(nextMessages.slice(common).map((m) => m.id))
+  for (const message of prevMessages.slice(common)) {
+    const node = nodes[message.id]
+    if (!node || keep.has(message.id)) continue
+    if (node.parentId && nodes[node.parentId]) {
+      nodes[node.parentId] = unlinkChild(nodes[node.parentId], message.id)
+    }
+    deleteSubtree(nodes, message.id, keep)
+  }
+
+  for (let i = common; i < nextMessages.length; i++) {
+    const message = nextMessages[i]
+    const parentId = i > 0 ? nextMessages[i - 1].id : null
+    const existing = nodes[message.id]
+    if (existing?.parentId && existing.parentId !== parentId && nodes[existing.parentId]) {
+      nodes[existing.parentId] = unlinkChild(nodes[existing.parentId], message.id)
+    }
+    nodes[message.id] = { ...(existing ?? { childIds: [] }), message, parentId }
+    if (parentId) {
+      nodes[parentId] = linkActiveChild(nodes[parentId], message.id)
+    }
+  }
+
+  return {
+    rootId: nextMessages[0]?.id,
+    activeLeafId: nextMessages[nextMessages.length - 1]?.id,
+    nodes,
+  }
+}
+
+/**
+ * 将旧结构中对 messageForksHash 的修改应用到消息图
+ * 逐个比较分叉，只重建内容有变化（包括新增、删除）的分叉点的子树，祖先也有变化时随祖先一起重建，
+ * 耗时 O(分叉数 + 被重建的子树大小)；不在消息图中的分叉不处理，由 getDetachedForks 保留
+ */
+function applyForkChanges(
+  graph: MessageGraph,
+  prevForks: MessageForksHash | undefined,
+  next: MessageTreeFields
+): MessageGraph {
+  const nextForks = next.messageForksHash ?? {}
+  const changed = new Set<string>()
+  for (const [id, fork] of Object.entries(nextForks)) {
+    if (prevForks?.[id] !== fork) changed.add(id)
+  }
+  for (const id of Object.keys(prevForks ?? {})) {
+    if (!(id in nextForks)) changed.add(id)
+  }
+
+  const nodes = { ...graph.nodes }
+  const isChangedRoot = (id: string) => {
+    let parentId = nodes[id]?.parentId
+    while (parentId) {
+      if (changed.has(parentId)) return false
+      parentId = nodes[parentId]?.parentId
+    }
+    return !!nodes[id]
+  }
+  // 先取出各子树在新结构中的内容再统一删除，消息在分支之间移动时不会被另一个子树的删除误删
+  const pathIndex = new Map(next.messages.map((message, index) => [message.id, index]))
+  const rebuilds = [...changed].filter(isChangedRoot).map((id) => {
+    const node = nodes[id]
+    const index = pathIndex.get(id)
+    const continuation =
+      index !== undefined
+        ? next.messages.slice(index + 1)
+        : node.activeChildId
+          ? getChainFrom(nodes, node.activeChildId)
+          : []
+    return { node, chain: [node.message, ...continuation] }
+  })
+  for (const { node } of rebuilds) {
+    deleteSubtree(nodes, node.message.id)
+  }
+  for (const { node, chain } of rebuilds) {
+    const subtree = buildMessageGraph({ messages: chain, messageForksHash: nextForks })
+    Object.assign(nodes, subtree.nodes)
+    nodes[node.message.id] = { ...subtree.nodes[node.message.id], parentId: node.parentId }
+  }
+  return { ...graph, nodes }
+}
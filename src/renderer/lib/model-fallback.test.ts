@@ -0,0 +1,56 @@
+import { ApiError, ChatboxAIAPIError, NetworkError } from 'src/shared/models/errors'
+import { describe, expect, test } from 'vitest'
+import { getFallbackDelay, getFallbackModels, isRetryableGenerationError } from './model-fallback'
+
+describe('getFallbackModels', () => {
+  const global = { fallbackModels: [{ provider: 'openai', model: 'gpt-4o' }] }
+
+  test('prefers the session chain and falls back to the global one', () => {
+    const session = { provider: 'claude', modelId: 'sonnet', fallbackModels: [{ provider: 'ollama', model: 'llama3' }] }
+    expect(getFallbackModels(session, global)).toEqual([{ provider: 'ollama', model: 'llama3' }])
+    expect(getFallbackModels({ provider: 'claude', modelId: 'sonnet' }, global)).toEqual(global.fallbackModels)
+    expect(getFallbackModels({ provider: 'claude', modelId: 'sonnet', fallbackModels: [] }, global)).toEqual([])
+  })
+
+  test('skips the current model and duplicates', () => {
+    const session = {
+      provider: 'openai',
+      modelId: 'gpt-4o',
+      fallbackModels: [
+        { provider: 'openai', model: 'gpt-4o' },
+        { provider: 'ollama', model: 'llama3' },
+        { provider: 'ollama', model: 'llama3' },
+      ],
+    }
+    expect(getFallbackModels(session, {})).toEqual([{ provider: 'ollama', model: 'llama3' }])
+  })
+})
+
+describe('isRetryableGenerationError', () => {
+  test('retries network errors, rate limits and server errors', () => {
+    expect(isRetryableGenerationError(new NetworkError('fetch failed', 'api.openai.com'))).toBe(true)
+    expect(isRetryableGenerationError(new ApiError('Error from Claude', undefined, 408))).toBe(true)
+    expect(isRetryableGenerationError(new ApiError('Error from Claude', undefined, 429))).toBe(true)
+    expect(isRetryableGenerationError(new ApiError('Error from Claude', undefined, 529))).toBe(true)
+    expect(isRetryableGenerationError(new ApiError('Status Code 503, unavailable'))).toBe(true)
+    expect(isRetryableGenerationError(new ApiError('Error from OpenAI', '{"error":"Rate limit reached"}'))).toBe(true)
+  })
+
+  test('does not retry bad requests, configuration errors and unexpected errors', () => {
+    expect(isRetryableGenerationError(new ApiError('Error from Claude', undefined, 400))).toBe(false)
+    for (const statusCode of [401, 402, 403, 404]) {
+      expect(isRetryableGenerationError(new ApiError('Error from Claude', undefined, statusCode))).toBe(false)
+    }
+    expect(isRetryableGenerationError(ChatboxAIAPIError.fromCodeName('', 'expired_license'))).toBe(false)
+    expect(isRetryableGenerationError(new ApiError('Status Code 422, invalid'))).toBe(false)
+    expect(isRetryableGenerationError(new Error('boom'))).toBe(false)
+    expect(isRetryableGenerationError(ChatboxAIAPIError.fromCodeName('', 'rate_limit_exceeded'))).toBe(true)
+    expect(isRetryableGenerationError(ChatboxAIAPIError.fromCodeName('', 'file_too_large'))).toBe(false)
+  })
+})
+
+describe('getFallbackDelay', () => {
+  test('doubles the delay and caps it', () => {
+    expect([1, 2, 3, 4, 5].map(getFallbackDelay)).toEqual([1000, 2000, 4000, 8000, 8000])
+  })
+})
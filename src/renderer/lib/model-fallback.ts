@@ -0,0 +1,110 @@
+/**
+ * 模型回退链
+ * 回复生成失败且错误可重试（网络错误、超时、限流、服务端错误）时，
+ * 按会话或全局设置的回退链依次换用下一个模型重新生成，每次回退前等待一段逐渐增加的时间
+ */
+
+import { ApiError, ChatboxAIAPIError, NetworkError } from 'src/shared/models/errors'
+import type { FallbackModel, SessionSettings, Settings } from 'src/shared/types'
+
+// ============ 常量 ============
+
+/** 第一次回退前等待的时间 */
+const FALLBACK_BASE_DELAY_MS = 1000
+/** 回退前等待的最长时间 */
+const FALLBACK_MAX_DELAY_MS = 8000
+
+/**
+ * 暂时性故障的 HTTP 状态码：超时、冲突、限流，此外所有 5xx 都可重试
+ * 鉴权、额度、模型不存在等配置问题换模型也无法修复，不重试，直接提示用户
+ */
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429])
+
+/** Chatbox AI 服务中的暂时性错误 */
+const RETRYABLE_CHATBOX_ERRORS = new Set(['rate_limit_exceeded'])
+
+/** 没有状态码时，根据错误信息判断是否为限流或服务不可用 */
+const RETRYABLE_MESSAGE_PATTERN =
+  /rate.?limit|too many requests|overloaded|unavailable|timed? ?out|econnreset|fetch failed/i
+
+// ============ 工具函数 ============
+
+/**
+ * 会话使用的回退链：会话设置了回退链（包括空列表）时使用会话的，否则使用全局设置，
+ * 与当前模型相同的项和重复项会被跳过
+ */
+export function getFallbackModels(
+  settings: Pick<SessionSettings, 'provider' | 'modelId' | 'fallbackModels'>,
+  globalSettings: Pick<Settings, 'fallbackModels'>
+): FallbackModel[] {
+  const chain = settings.fallbackModels ?? globalSettings.fallbackModels ?? []
+  const seen = new Set([`${settings.provider}/${settings.modelId}`])
+  return chain.filter((item) => {
+    const key = `${item.provider}/${item.model}`
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * 获取 API 错误的 HTTP 状态码，旧的请求封装只把状态码写在错误信息中
+ */
+function getErrorStatusCode(error: ApiError): number | undefined {
+  if (error.statusCode) {
+    return error.statusCode
+  }
+  const match = error.message.match(/status code (\d{3})/i)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * 判断生成错误是否值得换用回退链中的下一个模型重试
+ * 请求参数错误（400、413、422 等）换模型通常也会失败，不重试
+ */
+export function isRetryableGenerationError(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true
+  }
+  if (error instanceof ChatboxAIAPIError) {
+    return RETRYABLE_CHATBOX_ERRORS.has(error.detail.name)
+  }
+  if (error instanceof ApiError) {
+    const statusCode = getErrorStatusCode(error)
+    if (statusCode) {
+      return statusCode >= 500 || RETRYABLE_STATUS_CODES.has(statusCode)
+    }
+    return RETRYABLE_MESSAGE_PATTERN.test(`${error.message} ${error.responseBody ?? ''}`)
+  }
+  return false
+}
+
+/**
+ * 第 attempt 次回退（从 1 开始）前等待的时间，指数增长
+ */
+export function getFallbackDelay(attempt: number): number {
+  return Math.min(FALLBACK_BASE_DELAY_MS * 2 ** (attempt - 1), FALLBACK_MAX_DELAY_MS)
+}
+
+/**
+ * 等待指定时间，signal 取消时立即结束
+ */
+export function waitForFallback(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        resolve()
+      },
+      { once: true }
+    )
+  })
+}
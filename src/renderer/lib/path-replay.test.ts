@@ -0,0 +1,42 @@
+
+import { describe, expect, test } from 'vitest'
+import { buildPathReplayPlan, copyReplayMessage, getReplayGenerationOverride } from './path-replay'
+import { msg } from './test-utils'
+
+describe('path-replay', () => {
+  test('forks before the first reply and replays every turn after it', () => {
+    const path = [
+      msg('s', 'system'),
+      msg('u1', 'user'),
+      msg('a1', 'assistant'),
+      msg('u2', 'user'),
+      msg('a2', 'assistant'),
+    ]
+    const plan = buildPathReplayPlan(path)
+    expect(plan?.forkMessageId).toBe('u1')
+    expect(plan?.steps.map((m) => m.id)).toEqual(['a1', 'u2', 'a2'])
+    expect(plan?.replyCount).toBe(2)
+
+    expect(buildPathReplayPlan([msg('u1', 'user')])).toBeNull()
+    expect(buildPathReplayPlan([msg('a1', 'assistant')])).toBeNull()
+  })
+
+  test('copies user turns without node-specific labels', () => {
+    const source = msg('u2', 'user', { bookmarked: true, tags: ['keep'], timestamp: 1 })
+    const copy = copyReplayMessage(source)
+    expect(copy.id).not.toBe('u2')
+    expect(copy.contentParts).toEqual(source.contentParts)
+    expect(copy.bookmarked).toBeUndefined()
+    expect(copy.tags).toBeUndefined()
+  })
+
+  test('replay settings override the settings the original reply used', () => {
+    const source = msg('a1', 'assistant', { generationOverride: { temperature: 0.2, modelId: 'old', provider: 'p' } })
+    expect(getReplayGenerationOverride(source, { provider: 'q', modelId: 'new' })).toEqual({
+      temperature: 0.2,
+      provider: 'q',
+      modelId: 'new',
+    })
+    expect(getReplayGenerationOverride(msg('a2', 'assistant'), undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * 用其他模型重放一条路径
+ * 从路径上第一条助手回复处创建新分支，用户消息原样复制，助手回复依次用新的生成设置重新生成，
+ * 每条新回复都作为下一轮的上下文
+ */
+
+import type { GenerationOverride, Message } from 'src/shared/types'
+import { v4 as uuidv4 } from 'uuid'
+
+// ============ 类型定义 ============
+
+/** 重放计划 */
+export interface PathReplayPlan {
+  /** 新分支所挂的消息（第一条助手回复的上一条消息） */
+  forkMessageId: string
+  /** 需要依次处理的原消息，助手消息重新生成，其他消息复制 */
+  steps: Message[]
+  /** 需要重新生成的助手消息数量 */
+  replyCount: number
+}
+
+/** 重放进度 */
+export interface PathReplayProgress {
+  /** 被重放路径的最后一条消息ID */
+  leafId: string
+  /** 已完成的回复数量 */
+  done: number
+  /** 需要重新生成的回复数量 */
+  total: number
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 根据从根节点到被重放消息的路径创建重放计划
+ * @returns 路径上没有可重新生成的助手回复时返回 null
+ */
+export function buildPathReplayPlan(path: Message[]): PathReplayPlan | null {
+  const firstReplyIndex = path.findIndex((m) => m.role === 'assistant')
+  if (firstReplyIndex <= 0) {
+    return null
+  }
+  const steps = path.slice(firstReplyIndex)
+  return {
+    forkMessageId: path[firstReplyIndex - 1].id,
+    steps,
+    replyCount: steps.filter((m) => m.role === 'assistant').length,
+  }
+}
+
+/**
+ * 复制重放路径上的非助手消息：保留内容和附件，去掉生成状态、标记、书签等只属于原节点的信息
+ */
+export function copyReplayMessage(source: Message): Message {
+  return {
+    ...source,
+    id: uuidv4(),
+    cancel: undefined,
+    generating: undefined,
+    timestamp: Date.now(),
+    tags: undefined,
+    bookmarked: undefined,
+    contextChanged: undefined,
+    merge: undefined,
+  }
+}
+
+/**
+ * 重放时生成的助手回复：沿用原回复的分支级设置，并用重放设置覆盖
+ */
+export function getReplayGenerationOverride(
+  source: Message,
+  override: GenerationOverride | undefined
+): GenerationOverride | undefined {
+  if (!source.generationOverride) {
+    return override
+  }
+  return { ...source.generationOverride, ...override }
+}
@@ -0,0 +1,105 @@
+import type { ModelMessage } from 'ai'
+import { describe, expect, test } from 'vitest'
+import { applyPromptCacheBreakpoints, getCacheHitRate, isPromptCacheEnabled } from './prompt-cache'
+
+const cacheControl = { anthropic: { cacheControl: { type: 'ephemeral' } } }
+
+const attachmentText = `read this\n\n<ATTACHMENT_FILE>\n${'lorem ipsum dolor sit amet '.repeat(400)}</ATTACHMENT_FILE>\n`
+
+const messages: ModelMessage[] = [
+  { role: 'system', content: 'You are helpful' },
+  { role: 'user', content: [{ type: 'text', text: attachmentText }] },
+  {
+    role: 'assistant',
+    content: [
+      { type: 'reasoning', text: 'hmm' },
+      { type: 'text', text: 'done' },
+    ],
+  },
+  { role: 'user', content: [{ type: 'text', text: 'short question' }] },
+  {
+    role: 'assistant',
+    content: [
+      { type: 'text', text: 'answer' },
+      { type: 'reasoning', text: 'trailing' },
+    ],
+  },
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'and this picture' },
+      { type: 'image', image: 'aGVsbG8=', mediaType: 'image/png' },
+    ],
+  },
+]
+
+function getBreakpoints(result: ModelMessage[]) {
+  return result.flatMap((message, index) => {
+    if (message.providerOptions) {
+      return [`${index}`]
+    }
+    if (typeof message.content === 'string') {
+      return []
+    }
+    return message.content.flatMap((part, partIndex) => (part.providerOptions ? [`${index}.${partIndex}`] : []))
+  })
+}
+
+describe('isPromptCacheEnabled', () => {
+  test('is enabled when any part is cacheable', () => {
+    expect(isPromptCacheEnabled(undefined)).toBe(false)
+    expect(isPromptCacheEnabled({ systemPrompt: false })).toBe(false)
+    expect(isPromptCacheEnabled({ attachments: true })).toBe(true)
+  })
+})
+
+describe('applyPromptCacheBreakpoints', () => {
+  test('marks the system prompt on the message and other messages on their last part', () => {
+    const result = applyPromptCacheBreakpoints(messages, { systemPrompt: true, branchPrefix: true })
+    expect(getBreakpoints(result)).toEqual(['0', '4.0', '5.1'])
+    expect(result[0].providerOptions).toEqual(cacheControl)
+    expect(messages[0].providerOptions).toBeUndefined()
+  })
+
+  test('marks large attachments from newest to oldest within the breakpoint limit', () => {
+    expect(getBreakpoints(applyPromptCacheBreakpoints(messages, { attachments: true }))).toEqual(['1.0', '5.1'])
+    expect(
+      getBreakpoints(
+        applyPromptCacheBreakpoints(messages, { systemPrompt: true, attachments: true, branchPrefix: true })
+      )
+    ).toEqual(['0', '1.0', '4.0', '5.1'])
+    const manyAttachments: ModelMessage[] = Array.from({ length: 5 }, () => ({
+      role: 'user',
+      content: [{ type: 'file', data: 'aGVsbG8=', mediaType: 'application/pdf' }],
+    }))
+    expect(getBreakpoints(applyPromptCacheBreakpoints(manyAttachments, { attachments: true }))).toEqual([
+      '1.0',
+      '2.0',
+      '3.0',
+      '4.0',
+    ])
+  })
+
+  test('keeps existing provider options', () => {
+    const withOptions: ModelMessage[] = [
+      { role: 'system', content: 'hi', providerOptions: { anthropic: { foo: 'bar' }, openai: { baz: 1 } } },
+    ]
+    expect(applyPromptCacheBreakpoints(withOptions, { systemPrompt: true })[0].providerOptions).toEqual({
+      anthropic: { foo: 'bar', cacheControl: { type: 'ephemeral' } },
+      openai: { baz: 1 },
+    })
+  })
+
+  test('returns the messages unchanged when caching is off', () => {
+    expect(applyPromptCacheBreakpoints(messages, undefined)).toBe(messages)
+  })
+})
+
+describe('getCacheHitRate', () => {
+  test('divides cached input tokens by input tokens', () => {
+    expect(getCacheHitRate({ inputTokens: 1000, cachedInputTokens: 250 })).toBe(0.25)
+    expect(getCacheHitRate({ inputTokens: 1000, cachedInputTokens: 0 })).toBe(0)
+    expect(getCacheHitRate({ inputTokens: 1000 })).toBeNull()
+    expect(getCacheHitRate(undefined)).toBeNull()
+  })
+})
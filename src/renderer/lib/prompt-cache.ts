@@ -0,0 +1,127 @@
+/**
+ * 提示词缓存
+ * 按会话设置在发送的消息上标记缓存断点（Anthropic cache_control，OpenRouter 会透传给支持缓存的模型），
+ * 让探索分支时反复发送的系统提示词、大附件和分支共同的前缀命中缓存，并计算回复的缓存命中率
+ */
+
+import type { ModelMessage } from 'ai'
+import type { Message, PromptCacheSettings } from 'src/shared/types'
+import { estimateTokens } from '@/packages/token'
+
+// ============ 常量 ============
+
+/** Anthropic 每次请求最多允许的缓存断点数量 */
+const MAX_CACHE_BREAKPOINTS = 4
+/** Anthropic 可缓存内容的最小长度，更短的附件不单独设置断点 */
+const MIN_CACHEABLE_ATTACHMENT_TOKENS = 1024
+/** genMessageContext 注入附件内容时使用的标记 */
+const ATTACHMENT_MARKER = '<ATTACHMENT_FILE>'
+
+const CACHE_CONTROL = { type: 'ephemeral' }
+
+// ============ 工具函数 ============
+
+/**
+ * 是否开启了任意一项提示词缓存
+ */
+export function isPromptCacheEnabled(settings: PromptCacheSettings | undefined): boolean {
+  return !!(settings?.systemPrompt || settings?.attachments || settings?.branchPrefix)
+}
+
+/**
+ * 消息是否带有值得缓存的附件：图片、文件，或足够长的附件文本
+ */
+function hasLargeAttachment(message: ModelMessage): boolean {
+  if (message.role !== 'user' || typeof message.content === 'string') {
+    return false
+  }
+  if (message.content.some((part) => part.type === 'image' || part.type === 'file')) {
+    return true
+  }
+  const text = message.content.map((part) => (part.type === 'text' ? part.text : '')).join('')
+  return text.includes(ATTACHMENT_MARKER) && estimateTokens(text) >= MIN_CACHEABLE_ATTACHMENT_TOKENS
+}
+
+/**
+ * 在消息末尾设置缓存断点，缓存内容为从请求开头到这里的全部内容
+ * 多段内容的消息设置在最后一段上：OpenRouter 会把消息上的断点复制到每一段，可能超过断点数量上限
+ */
+function markCacheBreakpoint(message: ModelMessage): ModelMessage {
+  const withCacheControl = <T extends { providerOptions?: ModelMessage['providerOptions'] }>(target: T): T => ({
+    ...target,
+    providerOptions: {
+      ...target.providerOptions,
+      anthropic: { ...target.providerOptions?.anthropic, cacheControl: CACHE_CONTROL },
+    },
+  })
+  if (typeof message.content === 'string') {
+    return withCacheControl(message)
+  }
+  // 思考内容不能设置断点
+  let index = message.content.length - 1
+  while (index >= 0 && message.content[index].type === 'reasoning') {
+    index--
+  }
+  if (index < 0) {
+    return message
+  }
+  const content = [...message.content]
+  content[index] = withCacheControl(content[index])
+  return { ...message, content } as ModelMessage
+}
+
+/**
+ * 按会话的提示词缓存设置标记缓存断点，返回新的消息列表，不修改传入的消息
+ * 断点数量有限，按以下顺序分配：
+ * 1. 分支前缀：最后一条消息（重新生成和继续对话时命中），以及最新用户消息之前的消息（从这里分出的其他分支命中）
+ * 2. 系统提示词
+ * 3. 大附件，从新到旧
+ */
+export function applyPromptCacheBreakpoints(
+  messages: ModelMessage[],
+  settings: PromptCacheSettings | undefined
+): ModelMessage[] {
+  const breakpoints = new Set<number>()
+  const addBreakpoint = (index: number) => {
+    if (index >= 0 && breakpoints.size < MAX_CACHE_BREAKPOINTS) {
+      breakpoints.add(index)
+    }
+  }
+
+  if (settings?.branchPrefix) {
+    addBreakpoint(messages.length - 1)
+    let lastUserIndex = messages.length - 1
+    while (lastUserIndex >= 0 && messages[lastUserIndex].role !== 'user') {
+      lastUserIndex--
+    }
+    addBreakpoint(lastUserIndex - 1)
+  }
+  if (settings?.systemPrompt) {
+    addBreakpoint(messages.findIndex((message) => message.role === 'system'))
+  }
+  if (settings?.attachments) {
+    for (let index = messages.length - 1; index >= 0; index--) {
+      if (hasLargeAttachment(messages[index])) {
+        addBreakpoint(index)
+      }
+    }
+  }
+
+  if (breakpoints.size === 0) {
+    return messages
+  }
+  return messages.map((message, index) => (breakpoints.has(index) ? markCacheBreakpoint(message) : message))
+}
+
+/**
+ * 回复的缓存命中率：缓存命中的输入 token 占全部输入 token 的比例
+ * @returns 没有输入 token 或提供方没有返回缓存用量时返回 null
+ */
+export function getCacheHitRate(
+  usage: Pick<NonNullable<Message['usage']>, 'inputTokens' | 'cachedInputTokens'> | undefined
+): number | null {
+  if (!usage?.inputTokens || usage.cachedInputTokens === undefined) {
+    return null
+  }
+  return Math.min(usage.cachedInputTokens / usage.inputTokens, 1)
+}
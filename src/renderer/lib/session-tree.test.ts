@@ -0,0 +1,174 @@
+import type { Message, Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  buildMessageReference,
+  collectContextChangedMessageIds,
+  collectSubtreeIds,
+  collectTreeLabels,
+  excludeAncestorMessageIds,
+  extractMessagePath,
+  findContainingForkBranch,
+  getCommonPrefixLength,
+  getForkBranchHeadId,
+  getMessagePath,
+  indexSessionTree,
+  isLeafMessage,
+  reparentSubtree,
+} from './session-tree'
+import { msg } from './test-utils'
+
+// u1 ─ a1 ─┬─ u2 ─ a2            (active)
+//          ├─ u3 ─┬─ a3          (inactive, nested fork at u3, a3 active)
+//          │      └─ a4
+//          └─ u4
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1', 'assistant'), msg('u2'), msg('a2', 'assistant')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', messages: [msg('u3'), msg('a3', 'assistant')] },
+        { id: 'l2', messages: [msg('u4')] },
+      ],
+    },
+    u3: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l3', messages: [] },
+        { id: 'l4', messages: [msg('a4', 'assistant')] },
+      ],
+    },
+  },
+}
+
+const ids = (messages: Message[] | null) => messages?.map((m) => m.id)
+
+describe('session-tree', () => {
+  test('indexes parents across forks', () => {
+    const index = indexSessionTree(session)
+    expect(index.parents.get('u1')).toBeNull()
+    expect(index.parents.get('u2')).toBe('a1')
+    expect(index.parents.get('u3')).toBe('a1')
+    expect(index.parents.get('a3')).toBe('u3')
+    expect(index.parents.get('a4')).toBe('u3')
+  })
+
+  test('getMessagePath resolves active and nested inactive branches', () => {
+    expect(ids(getMessagePath(session, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(ids(getMessagePath(session, 'a4'))).toEqual(['u1', 'a1', 'u3', 'a4'])
+    expect(getMessagePath(session, 'missing')).toBeNull()
+  })
+
+  test('getCommonPrefixLength', () => {
+    const paths = ['a2', 'a3', 'u4'].map((id) => getMessagePath(session, id) ?? [])
+    expect(getCommonPrefixLength(paths)).toBe(2)
+    expect(getCommonPrefixLength([])).toBe(0)
+  })
+
+  test('excludeAncestorMessageIds keeps only messages on distinct paths', () => {
+    const index = indexSessionTree(session)
+    expect(excludeAncestorMessageIds(['a1', 'a2', 'a3', 'a2', 'u3', 'u4'], index)).toEqual(['a2', 'a3', 'u4'])
+    expect(excludeAncestorMessageIds(['u1', 'a4'], index)).toEqual(['a4'])
+  })
+
+  test('isLeafMessage', () => {
+    expect(isLeafMessage(session, 'a2')).toBe(true)
+    expect(isLeafMessage(session, 'u4')).toBe(true)
+    expect(isLeafMessage(session, 'u3')).toBe(false)
+    expect(isLeafMessage(session, 'a1')).toBe(false)
+  })
+
+  test('buildMessageReference records role and branch path', () => {
+    expect(buildMessageReference(session, 'a4')).toEqual({
+      messageId: 'a4',
+      role: 'assistant',
+      branchPath: ['u1', 'a1', 'u3', 'a4'],
+    })
+    expect(buildMessageReference(session, 'missing')).toBeNull()
+  })
+  test('getForkBranchHeadId resolves active branches from the parent index', () => {
+    expect(getForkBranchHeadId(session, 'a1', 0)).toBe('u2')
+    expect(getForkBranchHeadId(session, 'a1', 1)).toBe('u3')
+    expect(getForkBranchHeadId(session, 'u3', 0)).toBe('a3')
+    expect(getForkBranchHeadId(session, 'u3', 1)).toBe('a4')
+    expect(getForkBranchHeadId(session, 'a2', 0)).toBeNull()
+  })
+
+  test('findContainingForkBranch walks up to the nearest branch head', () => {
+    expect(findContainingForkBranch(session, 'a2')).toEqual({
+      forkMessageId: 'a1',
+      listIndex: 0,
+      listId: 'l0',
+      headId: 'u2',
+    })
+    expect(findContainingForkBranch(session, 'a4')?.listId).toBe('l4')
+    expect(findContainingForkBranch(session, 'a1')).toBeNull()
+  })
+
+  test('collectTreeLabels gathers named branches, tags and bookmarks', () => {
+    const labeled = structuredClone(session)
+    labeled.messages[1] = { ...labeled.messages[1], tags: ['v1'], bookmarked: true }
+    const fork = labeled.messageForksHash?.a1
+    if (fork) fork.lists[1].name = 'alt'
+    expect(collectTreeLabels(labeled)).toEqual([
+      { kind: 'branch', messageId: 'u3', name: 'alt', preview: 'u3' },
+      { kind: 'tag', messageId: 'a1', name: 'v1', preview: 'a1' },
+      { kind: 'bookmark', messageId: 'a1', preview: 'a1' },
+    ])
+  })
+
+  test('extractMessagePath keeps only the root path, or the subtree with its forks', () => {
+    expect(extractMessagePath(session, 'u3')).toEqual({
+      messages: [session.messages[0], session.messages[1], msg('u3')],
+    })
+
+    const subtree = extractMessagePath(session, 'u3', { includeSubtree: true })
+    expect(ids(subtree?.messages ?? null)).toEqual(['u1', 'a1', 'u3', 'a3'])
+    expect(Object.keys(subtree?.messageForksHash ?? {})).toEqual(['u3'])
+
+    const activeSubtree = extractMessagePath(session, 'a1', { includeSubtree: true })
+    expect(ids(activeSubtree?.messages ?? null)).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(Object.keys(activeSubtree?.messageForksHash ?? {}).sort()).toEqual(['a1', 'u3'])
+
+    expect(extractMessagePath(session, 'missing')).toBeNull()
+  })
+
+  test('collectSubtreeIds includes nested inactive branches', () => {
+    expect([...collectSubtreeIds(session, 'a1')].sort()).toEqual(['a1', 'a2', 'a3', 'a4', 'u2', 'u3', 'u4'])
+    expect([...collectSubtreeIds(session, 'u4')]).toEqual(['u4'])
+  })
+
+  test('reparentSubtree rejects moves into its own subtree or onto the same parent', () => {
+    expect(reparentSubtree(session, 'u1', 'a2')).toBeNull()
+    expect(reparentSubtree(session, 'u3', 'a1')).toBeNull()
+    expect(reparentSubtree(session, 'u3', 'a4')).toBeNull()
+  })
+
+  test('reparentSubtree moves an inactive branch with its forks onto a leaf', () => {
+    const result = reparentSubtree(session, 'u3', 'a2')
+    const moved = { ...session, ...result }
+    expect(ids(moved.messages)).toEqual(['u1', 'a1', 'u2', 'a2', 'u3', 'a3'])
+    expect(moved.messageForksHash?.a1.lists.map((l) => l.id)).toEqual(['l0', 'l2'])
+    expect(moved.messageForksHash?.u3.lists.map((l) => l.id)).toEqual(['l3', 'l4'])
+    expect(indexSessionTree(moved).parents.get('a4')).toBe('u3')
+    expect(collectContextChangedMessageIds(moved)).toEqual(['a3', 'a4'])
+    expect(moved.messages.find((m) => m.id === 'a2')?.contextChanged).toBeUndefined()
+  })
+
+  test('reparentSubtree moves the active branch and creates a fork at a non-leaf parent', () => {
+    const result = reparentSubtree(session, 'u2', 'u1')
+    const moved = { ...session, ...result }
+    // a1 switches to its next branch (u3), u1 gets a new fork holding the moved branch
+    expect(ids(moved.messages)).toEqual(['u1', 'a1', 'u3', 'a3'])
+    expect(moved.messageForksHash?.a1.lists.map((l) => l.id)).toEqual(['l1', 'l2'])
+    expect(moved.messageForksHash?.a1.position).toBe(0)
+    expect(ids(moved.messageForksHash?.u1.lists[1].messages ?? null)).toEqual(['u2', 'a2'])
+    expect(getMessagePath(moved, 'a2')?.map((m) => m.id)).toEqual(['u1', 'u2', 'a2'])
+    expect(collectContextChangedMessageIds(moved)).toEqual(['a2'])
+  })
+})
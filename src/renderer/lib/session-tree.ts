@@ -0,0 +1,508 @@
+/**
+ * 会话树工具
+ * 基于 Session 的 messages + messageForksHash 结构，提供跨分支的消息路径查询和结构调整
+ * 与 conversation-tree-adapter 不同，这里不依赖 ReactFlow，可在 store 层直接使用
+ */
+
+import type { Message, MessageReference, Session } from 'src/shared/types'
+import { getMessageText } from 'src/shared/utils/message'
+import { v4 as uuidv4 } from 'uuid'
+
+// ============ 类型定义 ============
+
+/** 会话树索引 */
+export interface SessionTreeIndex {
+  /** 消息ID -> 消息 */
+  messages: Map<string, Message>
+  /** 消息ID -> 父消息ID（根节点为 null） */
+  parents: Map<string, string | null>
+}
+
+/** 分叉点下的一个分支 */
+export interface ForkBranchLocation {
+  /** 分叉点消息ID */
+  forkMessageId: string
+  /** 分支在 lists 中的索引 */
+  listIndex: number
+  /** 分支列表ID */
+  listId: string
+  /** 分支的第一条消息ID */
+  headId: string
+}
+
+/**
+ * 树标签种类
+ * - branch: 命名分支，指向分支的第一条消息
+ * - tag: 消息上的标记
+ * - bookmark: 书签
+ */
+export type TreeLabelKind = 'branch' | 'tag' | 'bookmark'
+
+/** 树标签 */
+export interface TreeLabel {
+  kind: TreeLabelKind
+  /** 标签指向的消息ID */
+  messageId: string
+  /** 分支名或标记名，书签没有名称 */
+  name?: string
+  /** 消息内容预览 */
+  preview: string
+}
+
+/** 从会话树中提取出的线性路径 */
+export interface ExtractedMessagePath {
+  /** 从根节点到目标消息（包含子树时继续沿当前分支到叶子）的消息链 */
+  messages: Message[]
+  /** 子树内的分叉信息，不包含子树时为 undefined */
+  messageForksHash?: Session['messageForksHash']
+}
+
+/** 会话树的结构部分：主消息链和分叉信息 */
+export type SessionTreeState = Pick<Session, 'messages' | 'messageForksHash'>
+
+/** 消息链的位置：主消息链为 null，否则为某个分叉点下的分支列表 */
+type ChainLocation = { forkMessageId: string; listIndex: number } | null
+
+// ============ 常量 ============
+
+/** 标签内容预览的最大长度 */
+const LABEL_PREVIEW_LENGTH = 40
+
+// ============ 核心函数 ============
+
+/**
+ * 为会话的所有消息（包括非活跃分支）建立父子索引
+ */
+export function indexSessionTree(session: Session): SessionTreeIndex {
+  const messages = new Map<string, Message>()
+  const parents = new Map<string, string | null>()
+
+  const addChain = (chain: Message[], parentId: string | null) => {
+    let prevId = parentId
+    for (const message of chain) {
+      messages.set(message.id, message)
+      parents.set(message.id, prevId)
+      prevId = message.id
+    }
+  }
+
+  // 主消息链（活跃路径）
+  addChain(session.messages, null)
+
+  // 分支列表：每个列表的第一条消息的父节点是分叉点
+  if (session.messageForksHash) {
+    for (const [forkMessageId, forkEntry] of Object.entries(session.messageForksHash)) {
+      for (const list of forkEntry.lists) {
+        addChain(list.messages, forkMessageId)
+      }
+    }
+  }
+
+  return { messages, parents }
+}
+
+/**
+ * 获取从根节点到指定消息的完整路径（包括非活跃分支中的消息）
+ * @returns 路径上的消息列表，找不到消息时返回 null
+ */
+export function getMessagePath(
+  session: Session,
+  messageId: string,
+  index = indexSessionTree(session)
+): Message[] | null {
+  if (!index.messages.has(messageId)) {
+    return null
+  }
+
+  const path: Message[] = []
+  const visited = new Set<string>()
+  let currentId: string | null | undefined = messageId
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId)
+    const message = index.messages.get(currentId)
+    if (!message) {
+      break
+    }
+    path.unshift(message)
+    currentId = index.parents.get(currentId)
+  }
+
+  return path
+}
+
+/**
+ * 计算多条路径的公共前缀长度
+ */
+export function getCommonPrefixLength(paths: Message[][]): number {
+  if (paths.length === 0) {
+    return 0
+  }
+  const minLength = Math.min(...paths.map((path) => path.length))
+  let length = 0
+  while (length < minLength && paths.every((path) => path[length].id === paths[0][length].id)) {
+    length++
+  }
+  return length
+}
+
+/**
+ * 去掉重复的消息和其他消息的祖先，剩下的消息互不在同一条路径上，保持原有顺序
+ */
+export function excludeAncestorMessageIds(messageIds: string[], index: SessionTreeIndex): string[] {
+  const ancestors = new Set<string>()
+  for (const id of messageIds) {
+    // 已记录的祖先的更上层也已记录，遇到后即可停止
+    for (let parentId = index.parents.get(id); parentId && !ancestors.has(parentId); ) {
+      ancestors.add(parentId)
+      parentId = index.parents.get(parentId)
+    }
+  }
+  return [...new Set(messageIds)].filter((id) => !ancestors.has(id))
+}
+
+/**
+ * 判断消息是否为叶子节点（没有任何后续消息或分支）
+ */
+export function isLeafMessage(session: Session, messageId: string, index = indexSessionTree(session)): boolean {
+  if (!index.messages.has(messageId)) {
+    return false
+  }
+  for (const parentId of index.parents.values()) {
+    if (parentId === messageId) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * 为指定消息构建结构化引用（记录消息ID、角色和从根节点开始的分支路径）
+ * @returns 找不到消息时返回 null
+ */
+export function buildMessageReference(
+  session: Session,
+  messageId: string,
+  index = indexSessionTree(session)
+): MessageReference | null {
+  const path = getMessagePath(session, messageId, index)
+  if (!path) {
+    return null
+  }
+  const message = path[path.length - 1]
+  return {
+    messageId,
+    role: message.role,
+    branchPath: path.map((m) => m.id),
+  }
+}
+
+/**
+ * 获取分支的第一条消息ID
+ * 当前活跃分支的消息不存储在 lists 中，而是紧跟在分叉点之后，需要通过父子索引查找
+ * @returns 分支为空或不存在时返回 null
+ */
+export function getForkBranchHeadId(
+  session: Session,
+  forkMessageId: string,
+  listIndex: number,
+  index = indexSessionTree(session)
+): string | null {
+  const forkEntry = session.messageForksHash?.[forkMessageId]
+  const list = forkEntry?.lists[listIndex]
+  if (!forkEntry || !list) {
+    return null
+  }
+  if (list.messages.length > 0) {
+    return list.messages[0].id
+  }
+  if (listIndex !== forkEntry.position) {
+    return null
+  }
+
+  const otherHeads = new Set(forkEntry.lists.map((l) => l.messages[0]?.id).filter(Boolean))
+  for (const [id, parentId] of index.parents) {
+    if (parentId === forkMessageId && !otherHeads.has(id)) {
+      return id
+    }
+  }
+  return null
+}
+
+/**
+ * 查找消息所在的分支（从消息向上查找最近的分支起点）
+ * @returns 消息不在任何分支中时返回 null
+ */
+export function findContainingForkBranch(
+  session: Session,
+  messageId: string,
+  index = indexSessionTree(session)
+): ForkBranchLocation | null {
+  const path = getMessagePath(session, messageId, index)
+  if (!path) {
+    return null
+  }
+
+  for (let i = path.length - 1; i > 0; i--) {
+    const forkMessageId = path[i - 1].id
+    const forkEntry = session.messageForksHash?.[forkMessageId]
+    if (!forkEntry) continue
+
+    for (let listIndex = 0; listIndex < forkEntry.lists.length; listIndex++) {
+      if (getForkBranchHeadId(session, forkMessageId, listIndex, index) === path[i].id) {
+        return { forkMessageId, listIndex, listId: forkEntry.lists[listIndex].id, headId: path[i].id }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * 收集会话中的所有树标签：命名分支、消息标记和书签
+ */
+export function collectTreeLabels(session: Session, index = indexSessionTree(session)): TreeLabel[] {
+  const labels: TreeLabel[] = []
+  const getPreview = (messageId: string) => {
+    const message = index.messages.get(messageId)
+    return message ? getMessageText(message, false).replace(/\s+/g, ' ').trim().slice(0, LABEL_PREVIEW_LENGTH) : ''
+  }
+
+  for (const [forkMessageId, forkEntry] of Object.entries(session.messageForksHash ?? {})) {
+    forkEntry.lists.forEach((list, listIndex) => {
+      if (!list.name) return
+      const headId = getForkBranchHeadId(session, forkMessageId, listIndex, index)
+      if (headId) {
+        labels.push({ kind: 'branch', messageId: headId, name: list.name, preview: getPreview(headId) })
+      }
+    })
+  }
+
+  for (const message of index.messages.values()) {
+    for (const tag of message.tags ?? []) {
+      labels.push({ kind: 'tag', messageId: message.id, name: tag, preview: getPreview(message.id) })
+    }
+    if (message.bookmarked) {
+      labels.push({ kind: 'bookmark', messageId: message.id, preview: getPreview(message.id) })
+    }
+  }
+
+  return labels
+}
+
+/**
+ * 提取从根节点到指定消息的路径，用于生成独立会话
+ * 路径上祖先节点的其他分支会被丢弃；includeSubtree 为 true 时保留该消息的整个子树：
+ * 当前分支接在路径之后，子树内分叉点的其他分支原样保留
+ * @returns 找不到消息时返回 null
+ */
+export function extractMessagePath(
+  session: Session,
+  messageId: string,
+  options: { includeSubtree?: boolean } = {},
+  index = indexSessionTree(session)
+): ExtractedMessagePath | null {
+  const path = getMessagePath(session, messageId, index)
+  if (!path) {
+    return null
+  }
+  if (!options.includeSubtree) {
+    return { messages: path }
+  }
+
+  const children = buildChildrenMap(index)
+
+  // 沿当前分支延伸到叶子：分叉点的当前分支紧跟在分叉点之后，不是任何非空分支列表的首条消息
+  const messages = [...path]
+  let currentId = messageId
+  for (;;) {
+    const branchHeads = new Set(
+      (session.messageForksHash?.[currentId]?.lists ?? []).map((list) => list.messages[0]?.id).filter(Boolean)
+    )
+    const nextId = (children.get(currentId) ?? []).find((id) => !branchHeads.has(id))
+    const next = nextId ? index.messages.get(nextId) : undefined
+    if (!next) break
+    messages.push(next)
+    currentId = next.id
+  }
+
+  // 收集子树内的所有分叉点
+  const messageForksHash: NonNullable<Session['messageForksHash']> = {}
+  for (const id of collectSubtreeIds(session, messageId, index)) {
+    const forkEntry = session.messageForksHash?.[id]
+    if (forkEntry) {
+      messageForksHash[id] = forkEntry
+    }
+  }
+
+  return { messages, messageForksHash }
+}
+
+/**
+ * 收集消息及其所有子孙消息的ID（包括非活跃分支）
+ */
+export function collectSubtreeIds(session: Session, messageId: string, index = indexSessionTree(session)): Set<string> {
+  const children = buildChildrenMap(index)
+  const ids = new Set<string>()
+  const stack = [messageId]
+  for (let id = stack.pop(); id; id = stack.pop()) {
+    if (ids.has(id)) continue
+    ids.add(id)
+    stack.push(...(children.get(id) ?? []))
+  }
+  return ids
+}
+
+/**
+ * 将消息及其整个子树移动到新的父消息下
+ * - 原位置：被移动的是当前分支时按删除分支处理（切换到相邻分支），否则直接移除该分支
+ * - 新位置：父消息是没有后续的叶子时直接接在其后，否则作为新的非活跃分支
+ * 子树中的助手消息会被标记为上下文已改变（contextChanged），当前路径的切换由调用方处理
+ * @returns 消息是根节点、新父消息就是原父消息或位于子树内等无法移动的情况返回 null
+ */
+export function reparentSubtree(
+  session: Session,
+  messageId: string,
+  newParentId: string,
+  index = indexSessionTree(session)
+): SessionTreeState | null {
+  const parentId = index.parents.get(messageId)
+  const subtreeIds = collectSubtreeIds(session, messageId, index)
+  if (!parentId || parentId === newParentId || !index.messages.has(newParentId) || subtreeIds.has(newParentId)) {
+    return null
+  }
+
+  const state: Required<SessionTreeState> = {
+    messages: session.messages,
+    messageForksHash: { ...session.messageForksHash },
+  }
+  const source = findChain(state, messageId)
+  if (!source) {
+    return null
+  }
+
+  // 从原位置移除子树
+  const chain = getChain(state, source.location)
+  const detached = chain.slice(source.index)
+  if (source.index > 0) {
+    let remaining = chain.slice(0, source.index)
+    const forkEntry = state.messageForksHash[parentId]
+    if (forkEntry) {
+      const lists = forkEntry.lists.filter((_, i) => i !== forkEntry.position)
+      if (lists.length === 0) {
+        delete state.messageForksHash[parentId]
+      } else {
+        const position = Math.min(forkEntry.position, lists.length - 1)
+        remaining = remaining.concat(lists[position].messages)
+        state.messageForksHash[parentId] = {
+          ...forkEntry,
+          position,
+          lists: lists.map((list, i) => (i === position ? { ...list, messages: [] } : list)),
+        }
+      }
+    }
+    setChain(state, source.location, remaining)
+  } else if (source.location) {
+    const { forkMessageId, listIndex } = source.location
+    const forkEntry = state.messageForksHash[forkMessageId]
+    state.messageForksHash[forkMessageId] = {
+      ...forkEntry,
+      position: listIndex < forkEntry.position ? forkEntry.position - 1 : forkEntry.position,
+      lists: forkEntry.lists.filter((_, i) => i !== listIndex),
+    }
+  }
+
+  // 接到新的父消息下
+  const target = findChain(state, newParentId)
+  if (!target) {
+    return null
+  }
+  const targetChain = getChain(state, target.location)
+  const targetFork = state.messageForksHash[newParentId]
+  const newList = { id: `fork_list_${uuidv4()}`, messages: detached }
+  if (targetFork) {
+    state.messageForksHash[newParentId] = { ...targetFork, lists: [...targetFork.lists, newList] }
+  } else if (target.index === targetChain.length - 1) {
+    setChain(state, target.location, targetChain.concat(detached))
+  } else {
+    state.messageForksHash[newParentId] = {
+      position: 0,
+      lists: [{ id: `fork_list_${uuidv4()}`, messages: [] }, newList],
+      createdAt: Date.now(),
+    }
+  }
+
+  // 标记子树中在不同历史下生成的助手消息
+  const markContextChanged = (messages: Message[]) =>
+    messages.some((m) => subtreeIds.has(m.id) && m.role === 'assistant')
+      ? messages.map((m) => (subtreeIds.has(m.id) && m.role === 'assistant' ? { ...m, contextChanged: true } : m))
+      : messages
+  state.messages = markContextChanged(state.messages)
+  for (const [forkMessageId, forkEntry] of Object.entries(state.messageForksHash)) {
+    const lists = forkEntry.lists.map((list) => {
+      const messages = markContextChanged(list.messages)
+      return messages === list.messages ? list : { ...list, messages }
+    })
+    if (lists.some((list, i) => list !== forkEntry.lists[i])) {
+      state.messageForksHash[forkMessageId] = { ...forkEntry, lists }
+    }
+  }
+
+  return state
+}
+
+/**
+ * 收集被标记为上下文已改变的助手消息ID，按深度从浅到深排序
+ */
+export function collectContextChangedMessageIds(session: Session, index = indexSessionTree(session)): string[] {
+  const depthOf = (id: string) => getMessagePath(session, id, index)?.length ?? 0
+  return Array.from(index.messages.values())
+    .filter((m) => m.role === 'assistant' && m.contextChanged)
+    .map((m) => ({ id: m.id, depth: depthOf(m.id) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map((m) => m.id)
+}
+
+// ============ 内部函数 ============
+
+function buildChildrenMap(index: SessionTreeIndex): Map<string, string[]> {
+  const children = new Map<string, string[]>()
+  for (const [id, parentId] of index.parents) {
+    if (!parentId) continue
+    children.set(parentId, [...(children.get(parentId) ?? []), id])
+  }
+  return children
+}
+
+function findChain(
+  state: Required<SessionTreeState>,
+  messageId: string
+): { location: ChainLocation; index: number } | null {
+  const mainIndex = state.messages.findIndex((m) => m.id === messageId)
+  if (mainIndex >= 0) {
+    return { location: null, index: mainIndex }
+  }
+  for (const [forkMessageId, forkEntry] of Object.entries(state.messageForksHash)) {
+    for (let listIndex = 0; listIndex < forkEntry.lists.length; listIndex++) {
+      const index = forkEntry.lists[listIndex].messages.findIndex((m) => m.id === messageId)
+      if (index >= 0) {
+        return { location: { forkMessageId, listIndex }, index }
+      }
+    }
+  }
+  return null
+}
+
+function getChain(state: Required<SessionTreeState>, location: ChainLocation): Message[] {
+  return location ? state.messageForksHash[location.forkMessageId].lists[location.listIndex].messages : state.messages
+}
+
+function setChain(state: Required<SessionTreeState>, location: ChainLocation, messages: Message[]) {
+  if (!location) {
+    state.messages = messages
+    return
+  }
+  const forkEntry = state.messageForksHash[location.forkMessageId]
+  state.messageForksHash[location.forkMessageId] = {
+    ...forkEntry,
+    lists: forkEntry.lists.map((list, i) => (i === location.listIndex ? { ...list, messages } : list)),
+  }
+}
@@ -0,0 +1,107 @@
+import type { JSONSchema7 } from 'ai'
+import { createMessage } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import {
+  appendStructuredOutputInstructions,
+  checkStructuredOutput,
+  parseJsonReply,
+  parseStructuredOutputSchema,
+  validateJsonSchema,
+} from './structured-output'
+
+const personSchema: JSONSchema7 = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'user'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    address: { $ref: '#/$defs/address' },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+  $defs: {
+    address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  },
+}
+
+describe('parseStructuredOutputSchema', () => {
+  test('parses the schema text and ignores an empty one', () => {
+    expect(parseStructuredOutputSchema({ schema: '{"type":"object"}' })).toEqual({ type: 'object' })
+    expect(parseStructuredOutputSchema({ schema: '  ' })).toBeUndefined()
+    expect(parseStructuredOutputSchema(undefined)).toBeUndefined()
+  })
+
+  test('rejects invalid JSON and non-object schemas', () => {
+    expect(() => parseStructuredOutputSchema({ schema: '{type: object}' })).toThrow('Invalid JSON Schema')
+    expect(() => parseStructuredOutputSchema({ schema: '[]' })).toThrow('The JSON Schema must be an object')
+  })
+})
+
+describe('parseJsonReply', () => {
+  test('reads plain, fenced and surrounded JSON', () => {
+    expect(parseJsonReply('{"a":1}')).toEqual({ value: { a: 1 } })
+    expect(parseJsonReply('```json\n{"a":1}\n```')).toEqual({ value: { a: 1 } })
+    expect(parseJsonReply('Here you go: [1, 2] hope it helps')).toEqual({ value: [1, 2] })
+    expect(parseJsonReply('null')).toEqual({ value: null })
+    expect(parseJsonReply('no json here')).toBeNull()
+  })
+})
+
+describe('validateJsonSchema', () => {
+  test('accepts conforming data', () => {
+    const person = { name: 'Ada', age: 36, role: 'admin', tags: ['math'], address: { city: 'London' } }
+    expect(validateJsonSchema(person, personSchema)).toEqual([])
+  })
+
+  test('reports every violation with its path', () => {
+    const person = { name: '', age: 1.5, role: 'guest', tags: ['a', 2, 'c'], address: {}, extra: true }
+    expect(validateJsonSchema(person, personSchema)).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: must be integer, got number',
+      '$.role: must be one of "admin", "user"',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: must be string, got integer',
+      '$.address: missing required property "city"',
+      '$: unexpected property "extra"',
+    ])
+    expect(validateJsonSchema({}, personSchema)).toEqual([
+      '$: missing required property "name"',
+      '$: missing required property "age"',
+    ])
+  })
+
+  test('supports anyOf and oneOf', () => {
+    const schema: JSONSchema7 = { oneOf: [{ type: 'number' }, { type: 'integer' }] }
+    expect(validateJsonSchema(1.5, schema)).toEqual([])
+    expect(validateJsonSchema(1, schema)).toEqual(['$: matches more than one of the allowed schemas'])
+    expect(validateJsonSchema('1', { anyOf: [{ type: 'number' }, { type: 'null' }] })).toEqual([
+      '$: does not match any of the allowed schemas',
+    ])
+  })
+})
+
+describe('checkStructuredOutput', () => {
+  test('returns the object when the reply conforms', () => {
+    expect(checkStructuredOutput('```json\n{"name":"Ada","age":36}\n```', personSchema)).toEqual({
+      object: { name: 'Ada', age: 36 },
+    })
+    expect(checkStructuredOutput('{"name":"Ada"}', personSchema)).toEqual({
+      errors: ['$: missing required property "age"'],
+    })
+    expect(checkStructuredOutput('Sorry, I cannot', personSchema)).toEqual({
+      errors: ['$: the reply is not valid JSON'],
+    })
+  })
+})
+
+describe('appendStructuredOutputInstructions', () => {
+  test('appends the schema to the latest user message only', () => {
+    const messages = [createMessage('user', 'first'), createMessage('user', 'extract this'), createMessage('assistant')]
+    const result = appendStructuredOutputInstructions(messages, { type: 'object' })
+    expect(result[0]).toBe(messages[0])
+    expect(result[1].contentParts).toHaveLength(2)
+    expect(result[1].contentParts[1]).toMatchObject({ type: 'text', text: expect.stringContaining('<JSON_SCHEMA>') })
+    expect(messages[1].contentParts).toHaveLength(1)
+  })
+})
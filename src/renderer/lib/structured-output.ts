@@ -0,0 +1,287 @@
+/**
+ * 结构化输出
+ * 会话或分支设置了 JSON Schema 时，支持原生结构化输出的模型直接按 Schema 生成，其他模型通过提示词要求只输出 JSON；
+ * 两种方式的回复都会按 Schema 校验，不符合时把校验错误发回给模型重试，校验通过的对象保存在回复上
+ */
+
+import type { JSONSchema7, JSONSchema7Definition } from '@ai-sdk/provider'
+import { isEqual } from 'lodash'
+import type { Message, MessageStructuredOutput, StructuredOutputSettings } from 'src/shared/types'
+
+// ============ 常量 ============
+
+/** 校验失败后最多重试的次数 */
+export const STRUCTURED_OUTPUT_MAX_RETRIES = 2
+
+/** 回复被代码块包裹时的匹配规则 */
+const CODE_FENCE_PATTERN = /^```[\w-]*\s*\n([\s\S]*?)\n?```$/
+
+// ============ Schema ============
+
+/**
+ * 解析用户输入的 JSON Schema
+ * @returns 没有设置 Schema 时返回 undefined
+ * @throws Schema 不是合法的 JSON 对象时抛出错误
+ */
+export function parseStructuredOutputSchema(settings: StructuredOutputSettings | undefined): JSONSchema7 | undefined {
+  const text = settings?.schema.trim()
+  if (!text) {
+    return undefined
+  }
+  let schema: unknown
+  try {
+    schema = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : error}`)
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('The JSON Schema must be an object')
+  }
+  return schema as JSONSchema7
+}
+
+/**
+ * 模型不支持原生结构化输出时，附加在最新用户消息后的说明
+ */
+export function buildStructuredOutputInstructions(schema: JSONSchema7): string {
+  return [
+    'Respond only with JSON that conforms to the following JSON Schema.',
+    'Do not add explanations or Markdown code fences.',
+    '',
+    '<JSON_SCHEMA>',
+    JSON.stringify(schema, null, 2),
+    '</JSON_SCHEMA>',
+  ].join('\n')
+}
+
+/**
+ * 将结构化输出的说明附加到最新的用户消息上，不修改传入的消息
+ */
+export function appendStructuredOutputInstructions(messages: Message[], schema: JSONSchema7): Message[] {
+  let index = messages.length - 1
+  while (index >= 0 && messages[index].role !== 'user') {
+    index--
+  }
+  if (index < 0) {
+    return messages
+  }
+  const result = [...messages]
+  result[index] = {
+    ...messages[index],
+    contentParts: [
+      ...messages[index].contentParts,
+      { type: 'text', text: `\n\n${buildStructuredOutputInstructions(schema)}` },
+    ],
+  }
+  return result
+}
+
+/**
+ * 校验失败后发回给模型的重试提示
+ */
+export function buildStructuredOutputRetryPrompt(errors: string[]): string {
+  return [
+    'Your previous reply does not conform to the JSON Schema:',
+    ...errors.map((error) => `- ${error}`),
+    'Reply again with only the corrected JSON.',
+  ].join('\n')
+}
+
+// ============ 校验 ============
+
+/**
+ * 从回复文本中解析 JSON，兼容代码块包裹和前后夹带说明文字的回复
+ * @returns 解析失败时返回 null
+ */
+export function parseJsonReply(text: string): { value: unknown } | null {
+  const trimmed = text.trim()
+  const candidates = [trimmed, trimmed.match(CODE_FENCE_PATTERN)?.[1]]
+  const start = trimmed.search(/[[{]/)
+  if (start >= 0) {
+    const end = trimmed.lastIndexOf(trimmed[start] === '{' ? '}' : ']')
+    candidates.push(trimmed.slice(start, end + 1))
+  }
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue
+    }
+    try {
+      return { value: JSON.parse(candidate) }
+    } catch {
+      // 继续尝试下一种
+    }
+  }
+  return null
+}
+
+function getJsonType(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer'
+  }
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/**
+ * 按 JSON Pointer 查找 Schema 中的定义，只支持文档内的引用（#/$defs/...）
+ */
+function resolveRef(root: JSONSchema7, ref: string): JSONSchema7Definition | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined
+  }
+  let target: unknown = root
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined
+  }
+  return target as JSONSchema7Definition | undefined
+}
+
+function validateValue(
+  value: unknown,
+  definition: JSONSchema7Definition,
+  path: string,
+  root: JSONSchema7,
+  errors: string[]
+) {
+  if (definition === true) {
+    return
+  }
+  if (definition === false) {
+    errors.push(`${path}: is not allowed`)
+    return
+  }
+  const schema = definition
+  if (schema.$ref) {
+    const resolved = resolveRef(root, schema.$ref)
+    if (resolved !== undefined) {
+      validateValue(value, resolved, path, root, errors)
+    }
+  }
+  for (const subSchema of schema.allOf ?? []) {
+    validateValue(value, subSchema, path, root, errors)
+  }
+  if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf ?? schema.oneOf) as JSONSchema7Definition[]
+    const matched = options.filter((option) => validateJsonSchema(value, option, root).length === 0).length
+    if (matched === 0) {
+      errors.push(`${path}: does not match any of the allowed schemas`)
+    } else if (schema.oneOf && matched > 1) {
+      errors.push(`${path}: matches more than one of the allowed schemas`)
+    }
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+  if (schema.enum && !schema.enum.some((item) => isEqual(value, item))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}`)
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: must be ${types.join(' or ')}, got ${getJsonType(value)}`)
+      return
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          errors.push(`${path}: must match the pattern ${schema.pattern}`)
+        }
+      } catch {
+        // Schema 中的正则不合法时跳过该项
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`)
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`)
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+    const { items } = schema
+    if (items !== undefined) {
+      value.forEach((item, index) => {
+        const itemSchema = Array.isArray(items) ? (items[index] ?? schema.additionalItems) : items
+        if (itemSchema !== undefined) {
+          validateValue(item, itemSchema, `${path}[${index}]`, root, errors)
+        }
+      })
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`)
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties
+      if (propertySchema === false) {
+        errors.push(`${path}: unexpected property "${key}"`)
+      } else if (propertySchema !== undefined) {
+        validateValue(propertyValue, propertySchema, `${path}.${key}`, root, errors)
+      }
+    }
+  }
+}
+
+/**
+ * 按 JSON Schema 校验数据，支持常用的关键字（type、enum、const、properties、required、additionalProperties、
+ * items、长度和数值范围、pattern、allOf / anyOf / oneOf、文档内的 $ref），不认识的关键字会被忽略
+ * @returns 校验错误，数据符合 Schema 时为空数组
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema7Definition, root?: JSONSchema7): string[] {
+  const errors: string[] = []
+  validateValue(value, schema, '$', root ?? (typeof schema === 'object' ? schema : {}), errors)
+  return errors
+}
+
+/**
+ * 解析回复文本并按 Schema 校验
+ */
+export function checkStructuredOutput(text: string, schema: JSONSchema7): Omit<MessageStructuredOutput, 'attempts'> {
+  const parsed = parseJsonReply(text)
+  if (!parsed) {
+    return { errors: ['$: the reply is not valid JSON'] }
+  }
+  const errors = validateJsonSchema(parsed.value, schema)
+  return errors.length > 0 ? { errors } : { object: parsed.value }
+}
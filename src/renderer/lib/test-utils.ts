@@ -0,0 +1,20 @@
+import type { Message } from 'src/shared/types'
+import { expect } from 'vitest'
+
+/**
+ * 构造测试用的文本消息
+ * @param id 消息 id，未指定文本时同时作为消息文本
+ * @param role 消息角色，默认为 user
+ * @param extra 消息文本，或需要覆盖的其他字段
+ */
+export function msg(id: string, role: Message['role'] = 'user', extra: string | Partial<Message> = {}): Message {
+  const overrides: Partial<Message> =
+    typeof extra === 'string' ? { contentParts: [{ type: 'text', text: extra }] } : extra
+  return { id, role, contentParts: [{ type: 'text', text: id }], ...overrides }
+}
+
+/** 断言结果不为空并收窄类型 */
+export function present<T>(value: T | null | undefined): T {
+  expect(value).toBeTruthy()
+  return value as T
+}
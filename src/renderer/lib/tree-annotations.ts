@@ -0,0 +1,149 @@
+/**
+ * 树形图标注
+ * 便签和分组框不是消息，只存在于画布上：位置由所分组节点的位置推算，因此会随自动布局一起移动
+ * 标注保存在会话的 treeAnnotations 中，不会进入模型上下文
+ */
+
+import type { TreeAnnotation, TreeAnnotationKind } from 'src/shared/types'
+import { v4 as uuidv4 } from 'uuid'
+
+// ============ 类型定义 ============
+
+/** 标注颜色 */
+export type TreeAnnotationColor = 'yellow' | 'blue' | 'green' | 'red' | 'purple' | 'gray'
+
+/** 计算出画布位置的标注 */
+export interface PositionedTreeAnnotation extends TreeAnnotation {
+  x: number
+  y: number
+  width: number
+  height: number
+  /** 仍在画布上的分组节点 */
+  visibleNodeIds: string[]
+}
+
+/** 计算标注位置所需的节点信息 */
+interface AnnotatedNode {
+  id: string
+  position: { x: number; y: number }
+}
+
+// ============ 常量 ============
+
+export const TREE_ANNOTATION_COLORS: Record<TreeAnnotationColor, { bg: string; border: string; text: string }> = {
+  yellow: { bg: '#fef9c3', border: '#facc15', text: '#854d0e' },
+  blue: { bg: '#dbeafe', border: '#60a5fa', text: '#1e40af' },
+  green: { bg: '#dcfce7', border: '#4ade80', text: '#166534' },
+  red: { bg: '#fee2e2', border: '#f87171', text: '#991b1b' },
+  purple: { bg: '#f3e8ff', border: '#c084fc', text: '#6b21a8' },
+  gray: { bg: '#f3f4f6', border: '#9ca3af', text: '#374151' },
+}
+
+export const DEFAULT_ANNOTATION_COLOR: Record<TreeAnnotationKind, TreeAnnotationColor> = {
+  note: 'yellow',
+  frame: 'blue',
+}
+
+export const NOTE_WIDTH = 200
+export const NOTE_HEIGHT = 120
+/** 分组框与节点之间的留白，顶部额外留出标题的位置 */
+const FRAME_PADDING = 24
+const FRAME_LABEL_HEIGHT = 28
+/** 新建便签默认放在分组节点右上角外侧 */
+const DEFAULT_NOTE_OFFSET = { x: 32, y: 0 }
+
+// ============ 工具函数 ============
+
+/**
+ * 创建标注
+ */
+export function createTreeAnnotation(kind: TreeAnnotationKind, nodeIds: string[], text = ''): TreeAnnotation {
+  return {
+    id: `annotation_${uuidv4()}`,
+    kind,
+    text,
+    color: DEFAULT_ANNOTATION_COLOR[kind],
+    nodeIds,
+    ...(kind === 'note' ? { offset: DEFAULT_NOTE_OFFSET } : {}),
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * 复制会话时复制标注，分组节点ID替换为复制后的消息ID，分组节点都没有被复制的标注会被丢弃
+ * @param idMap 原消息ID -> 新消息ID
+ */
+export function copyTreeAnnotations(
+  annotations: TreeAnnotation[] | undefined,
+  idMap: Map<string, string>
+): TreeAnnotation[] | undefined {
+  const copied = annotations?.flatMap((annotation) => {
+    const nodeIds = annotation.nodeIds.flatMap((id) => idMap.get(id) ?? [])
+    return nodeIds.length > 0 ? [{ ...annotation, nodeIds }] : []
+  })
+  return copied?.length ? copied : undefined
+}
+
+/**
+ * 获取标注颜色，未知颜色按默认颜色处理
+ */
+export function getAnnotationColors(annotation: Pick<TreeAnnotation, 'kind' | 'color'>) {
+  return (
+    TREE_ANNOTATION_COLORS[annotation.color as TreeAnnotationColor] ??
+    TREE_ANNOTATION_COLORS[DEFAULT_ANNOTATION_COLOR[annotation.kind]]
+  )
+}
+
+/**
+ * 根据节点位置计算标注在画布上的位置
+ * 分组节点全部不在画布上（被删除或折叠）的标注不显示
+ * @param nodeWidth 节点宽度
+ * @param nodeHeight 节点高度
+ */
+export function layoutTreeAnnotations(
+  annotations: TreeAnnotation[] | undefined,
+  nodes: AnnotatedNode[],
+  nodeWidth: number,
+  nodeHeight: number
+): PositionedTreeAnnotation[] {
+  if (!annotations?.length) {
+    return []
+  }
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]))
+  const result: PositionedTreeAnnotation[] = []
+
+  for (const annotation of annotations) {
+    const members = annotation.nodeIds.flatMap((id) => nodeMap.get(id) ?? [])
+    if (members.length === 0) continue
+
+    const minX = Math.min(...members.map((n) => n.position.x))
+    const minY = Math.min(...members.map((n) => n.position.y))
+    const maxX = Math.max(...members.map((n) => n.position.x)) + nodeWidth
+    const maxY = Math.max(...members.map((n) => n.position.y)) + nodeHeight
+    const visibleNodeIds = members.map((n) => n.id)
+
+    if (annotation.kind === 'frame') {
+      result.push({
+        ...annotation,
+        x: minX - FRAME_PADDING,
+        y: minY - FRAME_PADDING - FRAME_LABEL_HEIGHT,
+        width: maxX - minX + FRAME_PADDING * 2,
+        height: maxY - minY + FRAME_PADDING * 2 + FRAME_LABEL_HEIGHT,
+        visibleNodeIds,
+      })
+    } else {
+      const offset = annotation.offset ?? DEFAULT_NOTE_OFFSET
+      result.push({
+        ...annotation,
+        x: maxX + offset.x,
+        y: minY + offset.y,
+        width: NOTE_WIDTH,
+        height: NOTE_HEIGHT,
+        visibleNodeIds,
+      })
+    }
+  }
+
+  // 分组框先绘制，便签叠在上面
+  return result.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'frame' ? -1 : 1))
+}
@@ -0,0 +1,111 @@
+import type { Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { sessionToConversationTree } from './conversation-tree-adapter'
+import { msg } from './test-utils'
+import { layoutTreeAnnotations } from './tree-annotations'
+import {
+  EXPORT_NODE_HEIGHT,
+  EXPORT_NODE_WIDTH,
+  formatTreeAsDot,
+  formatTreeAsJson,
+  formatTreeAsJsonCanvas,
+  formatTreeAsMermaid,
+  formatTreeAsSvg,
+  type TreeExportDocument,
+} from './tree-export'
+import { applyTreeLayout } from './tree-layout'
+
+// u1 ─ a1 ─┬─ u2      (active)
+//          └─ u3
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1', 'user', 'Say "hi" <now>'), msg('a1', 'assistant', 'hi'), msg('u2', 'user', 'again')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', messages: [msg('u3', 'user', 'other')] },
+      ],
+    },
+  },
+}
+
+const tree = applyTreeLayout(sessionToConversationTree(session), { savedPositions: { u1: { x: 10, y: 20 } } })
+
+const annotations = layoutTreeAnnotations(
+  [
+    { id: 'note1', kind: 'note', text: 'check this', color: 'yellow', nodeIds: ['u3'], createdAt: 0 },
+    { id: 'frame1', kind: 'frame', text: 'Greeting', color: 'blue', nodeIds: ['u1', 'a1', 'missing'], createdAt: 0 },
+  ],
+  tree.nodes,
+  EXPORT_NODE_WIDTH,
+  EXPORT_NODE_HEIGHT
+)
+
+describe('tree-export', () => {
+  test('mermaid', () => {
+    const mermaid = formatTreeAsMermaid(tree)
+    expect(mermaid).toContain('flowchart TD')
+    expect(mermaid).toContain('n0["User: Say #quot;hi#quot; <now>"]')
+    expect(mermaid).toContain('n1 --> n2')
+    expect(mermaid).toContain('n1 --> n3')
+    expect(mermaid).toContain('class n0,n1,n3 active')
+  })
+
+  test('dot escapes labels', () => {
+    const dot = formatTreeAsDot(tree, 'my "session"', 'LR')
+    expect(dot).toContain('digraph "my \\"session\\"" {')
+    expect(dot).toContain('rankdir=LR;')
+    expect(dot).toContain('"a1" -> "u3";')
+  })
+
+  test('json canvas keeps node positions', () => {
+    const canvas = JSON.parse(formatTreeAsJsonCanvas(tree))
+    expect(canvas.nodes.find((n: { id: string }) => n.id === 'u1')).toMatchObject({ x: 10, y: 20, type: 'text' })
+    expect(canvas.edges).toContainEqual(
+      expect.objectContaining({ fromNode: 'a1', toNode: 'u3', fromSide: 'bottom', toSide: 'top' })
+    )
+  })
+
+  test('json dump includes parents and full text', () => {
+    const doc: TreeExportDocument = JSON.parse(formatTreeAsJson(tree, 'test'))
+    expect(doc.rootId).toBe('u1')
+    expect(doc.nodes.find((n) => n.id === 'u3')).toMatchObject({ parentId: 'a1', text: 'other', isActivePath: false })
+  })
+
+  test('svg escapes text', () => {
+    const svg = formatTreeAsSvg(tree)
+    expect(svg.startsWith('<svg')).toBe(true)
+    expect(svg).toContain('Say &quot;hi&quot; &lt;now&gt;')
+    expect(svg.match(/<rect width=/g)).toHaveLength(4)
+  })
+
+  test('annotations follow their nodes and are exported', () => {
+    const [frame, note] = annotations
+    const u1 = tree.nodes.find((n) => n.id === 'u1')
+    const u3 = tree.nodes.find((n) => n.id === 'u3')
+    if (!u1 || !u3) throw new Error('expected the nodes u1 and u3')
+    expect(frame).toMatchObject({ id: 'frame1', visibleNodeIds: ['u1', 'a1'] })
+    expect(frame.x).toBeLessThan(u1.position.x)
+    expect(note.x).toBeGreaterThan(u3.position.x + EXPORT_NODE_WIDTH)
+
+    const mermaid = formatTreeAsMermaid(tree, 'TB', annotations)
+    expect(mermaid).toContain('subgraph f0["Greeting"]\n    n0\n    n1\n  end')
+    expect(mermaid).toContain('note1>"check this"]:::note')
+
+    const dot = formatTreeAsDot(tree, 'test', 'TB', annotations)
+    expect(dot).toContain('subgraph "cluster_frame1" {')
+    expect(dot).toContain('"note1" [shape=note, label="check this"')
+
+    const canvas = JSON.parse(formatTreeAsJsonCanvas(tree, annotations))
+    expect(canvas.nodes[0]).toMatchObject({ id: 'frame1', type: 'group', label: 'Greeting' })
+    expect(canvas.nodes.at(-1)).toMatchObject({ id: 'note1', type: 'text', text: 'check this' })
+
+    const doc: TreeExportDocument = JSON.parse(formatTreeAsJson(tree, 'test', annotations))
+    expect(doc.annotations?.map((a) => a.id)).toEqual(['frame1', 'note1'])
+    expect(formatTreeAsSvg(tree, annotations)).toContain('check this')
+  })
+})
@@ -0,0 +1,463 @@
+/**
+ * 对话树导出格式
+ * 将 sessionToConversationTree 生成的树结构转换为 Mermaid、Graphviz DOT、JSON Canvas、JSON 和 SVG
+ * 节点位置取自传入的树（通常已经应用了布局和保存的节点位置），便签和分组框按 layoutTreeAnnotations 计算的位置导出
+ */
+
+import { getMessageText } from 'src/shared/utils/message'
+import {
+  type ConversationEdge,
+  type ConversationNode,
+  type ConversationTree,
+  getMessagePreviewText,
+  isTreeEdge,
+} from './conversation-tree-adapter'
+import { getAnnotationColors, type PositionedTreeAnnotation } from './tree-annotations'
+
+// ============ 类型定义 ============
+
+/** 图表方向：从上到下或从左到右 */
+export type TreeExportDirection = 'TB' | 'LR'
+
+/** 节点连接点所在的边 */
+type NodeSide = 'top' | 'bottom' | 'left' | 'right'
+
+/** JSON Canvas 节点（https://jsoncanvas.org） */
+export interface JsonCanvasNode {
+  id: string
+  type: 'text' | 'group'
+  text?: string
+  label?: string
+  x: number
+  y: number
+  width: number
+  height: number
+  color?: string
+}
+
+/** JSON Canvas 边 */
+export interface JsonCanvasEdge {
+  id: string
+  fromNode: string
+  toNode: string
+  fromSide?: NodeSide
+  toSide?: NodeSide
+  label?: string
+  color?: string
+}
+
+/** JSON 导出中的节点 */
+export interface TreeExportNode {
+  id: string
+  parentId: string | null
+  role: string
+  model?: string
+  timestamp?: number
+  text: string
+  isActivePath: boolean
+  branchName?: string
+  tags?: string[]
+  bookmarked?: boolean
+  position: { x: number; y: number }
+}
+
+/** JSON 导出中的便签和分组框 */
+export interface TreeExportAnnotation {
+  id: string
+  kind: string
+  text: string
+  color: string
+  nodeIds: string[]
+  position: { x: number; y: number }
+  size: { width: number; height: number }
+}
+
+/** JSON 导出的完整结构 */
+export interface TreeExportDocument {
+  version: 1
+  name: string
+  rootId: string | null
+  activeLeafId: string | null
+  nodes: TreeExportNode[]
+  edges: { source: string; target: string; kind: string }[]
+  annotations?: TreeExportAnnotation[]
+}
+
+// ============ 常量 ============
+
+/** 导出图片和画布中节点的尺寸，与树形图节点组件一致 */
+export const EXPORT_NODE_WIDTH = 260
+export const EXPORT_NODE_HEIGHT = 120
+const LABEL_LENGTH = 80
+const SVG_PADDING = 40
+const SVG_LINE_CHARS = 34
+const SVG_MAX_LINES = 4
+
+const ROLE_COLORS: Record<string, { bg: string; border: string; active: string; text: string }> = {
+  system: { bg: '#f9fafb', border: '#d1d5db', active: '#6b7280', text: '#4b5563' },
+  user: { bg: '#eff6ff', border: '#93c5fd', active: '#3b82f6', text: '#1d4ed8' },
+  assistant: { bg: '#f0fdf4', border: '#86efac', active: '#22c55e', text: '#15803d' },
+}
+
+/** JSON Canvas 预设颜色：1 红、3 黄、4 绿、5 青、6 紫 */
+const CANVAS_COLORS: Record<string, string | undefined> = { user: '5', assistant: '4' }
+const CANVAS_ANNOTATION_COLORS: Record<string, string | undefined> = {
+  red: '1',
+  yellow: '3',
+  green: '4',
+  blue: '5',
+  purple: '6',
+}
+
+// ============ 导出函数 ============
+
+/**
+ * 导出为 Mermaid flowchart，活跃路径上的节点加粗显示
+ */
+export function formatTreeAsMermaid(
+  tree: ConversationTree,
+  direction: TreeExportDirection = 'TB',
+  annotations: PositionedTreeAnnotation[] = []
+): string {
+  const ids = createShortIds(tree)
+  const lines = [`flowchart ${direction === 'LR' ? 'LR' : 'TD'}`]
+  for (const node of tree.nodes) {
+    const label = `${getRoleLabel(node)}: ${getNodeLabel(node)}`.replace(/"/g, '#quot;')
+    lines.push(`  ${ids.get(node.id)}["${label}"]`)
+  }
+  for (const edge of tree.edges) {
+    const arrow = isTreeEdge(edge) ? '-->' : `-.->|${edge.data?.kind}|`
+    lines.push(`  ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}`)
+  }
+  annotations.forEach((annotation, index) => {
+    const label = (annotation.text.replace(/\s+/g, ' ').trim() || ' ').replace(/"/g, '#quot;')
+    if (annotation.kind === 'frame') {
+      lines.push(`  subgraph f${index}["${label}"]`)
+      lines.push(...annotation.visibleNodeIds.map((id) => `    ${ids.get(id)}`))
+      lines.push('  end')
+    } else {
+      lines.push(`  note${index}>"${label}"]:::note`)
+      lines.push(`  note${index} -.- ${ids.get(annotation.visibleNodeIds[0])}`)
+    }
+  })
+  if (annotations.some((a) => a.kind === 'note')) {
+    lines.push('  classDef note fill:#fef9c3,stroke:#facc15')
+  }
+  const activeIds = tree.nodes.filter((n) => n.data.isActivePath).map((n) => ids.get(n.id))
+  if (activeIds.length > 0) {
+    lines.push('  classDef active stroke-width:3px')
+    lines.push(`  class ${activeIds.join(',')} active`)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * 导出为 Graphviz DOT
+ */
+export function formatTreeAsDot(
+  tree: ConversationTree,
+  name: string,
+  direction: TreeExportDirection = 'TB',
+  annotations: PositionedTreeAnnotation[] = []
+): string {
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    `  rankdir=${direction};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ]
+  for (const node of tree.nodes) {
+    const colors = getRoleColors(node)
+    const attrs = [
+      `label=${quoteDot(`${getRoleLabel(node)}\n${getNodeLabel(node)}`)}`,
+      `fillcolor=${quoteDot(colors.bg)}`,
+      `color=${quoteDot(node.data.isActivePath ? colors.active : colors.border)}`,
+    ]
+    if (node.data.isActivePath) {
+      attrs.push('penwidth=2')
+    }
+    lines.push(`  ${quoteDot(node.id)} [${attrs.join(', ')}];`)
+  }
+  for (const edge of tree.edges) {
+    const attrs = isTreeEdge(edge) ? [] : ['style=dashed', `label=${quoteDot(edge.data?.kind ?? '')}`]
+    if (edge.data?.isActivePath && isTreeEdge(edge)) {
+      attrs.push('penwidth=2')
+    }
+    const suffix = attrs.length > 0 ? ` [${attrs.join(', ')}]` : ''
+    lines.push(`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${suffix};`)
+  }
+  for (const annotation of annotations) {
+    const colors = getAnnotationColors(annotation)
+    if (annotation.kind === 'frame') {
+      lines.push(`  subgraph ${quoteDot(`cluster_${annotation.id}`)} {`)
+      lines.push(
+        `    label=${quoteDot(annotation.text)}; style="rounded,filled"; fillcolor=${quoteDot(colors.bg)}; color=${quoteDot(colors.border)};`
+      )
+      lines.push(...annotation.visibleNodeIds.map((id) => `    ${quoteDot(id)};`))
+      lines.push('  }')
+    } else {
+      lines.push(
+        `  ${quoteDot(annotation.id)} [shape=note, label=${quoteDot(annotation.text)}, fillcolor=${quoteDot(colors.bg)}, color=${quoteDot(colors.border)}];`
+      )
+      lines.push(
+        `  ${quoteDot(annotation.id)} -> ${quoteDot(annotation.visibleNodeIds[0])} [style=dotted, arrowhead=none];`
+      )
+    }
+  }
+  lines.push('}')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * 导出为 Obsidian JSON Canvas，保留树形图中的节点位置
+ */
+export function formatTreeAsJsonCanvas(tree: ConversationTree, annotations: PositionedTreeAnnotation[] = []): string {
+  // 分组节点需要排在前面，才会显示在被分组的节点下方
+  const annotationNodes: JsonCanvasNode[] = annotations.map((annotation) => ({
+    id: annotation.id,
+    type: annotation.kind === 'frame' ? 'group' : 'text',
+    ...(annotation.kind === 'frame' ? { label: annotation.text } : { text: annotation.text }),
+    x: Math.round(annotation.x),
+    y: Math.round(annotation.y),
+    width: Math.round(annotation.width),
+    height: Math.round(annotation.height),
+    ...(CANVAS_ANNOTATION_COLORS[annotation.color] ? { color: CANVAS_ANNOTATION_COLORS[annotation.color] } : {}),
+  }))
+  const messageNodes: JsonCanvasNode[] = tree.nodes.map((node) => ({
+    id: node.id,
+    type: 'text',
+    text: `**${getRoleLabel(node)}**\n\n${getMessageText(node.data.message, true, false)}`,
+    x: Math.round(node.position.x),
+    y: Math.round(node.position.y),
+    width: EXPORT_NODE_WIDTH,
+    height: EXPORT_NODE_HEIGHT,
+    ...(CANVAS_COLORS[node.data.message.role] ? { color: CANVAS_COLORS[node.data.message.role] } : {}),
+  }))
+  const nodeMap = new Map(tree.nodes.map((n) => [n.id, n]))
+  const edges: JsonCanvasEdge[] = tree.edges.map((edge) => ({
+    id: edge.id,
+    fromNode: edge.source,
+    toNode: edge.target,
+    fromSide: getNodeSide(nodeMap.get(edge.source), 'source'),
+    toSide: getNodeSide(nodeMap.get(edge.target), 'target'),
+    ...(isTreeEdge(edge) ? {} : { label: edge.data?.kind }),
+  }))
+  const nodes = [
+    ...annotationNodes.filter((n) => n.type === 'group'),
+    ...messageNodes,
+    ...annotationNodes.filter((n) => n.type === 'text'),
+  ]
+  return JSON.stringify({ nodes, edges }, null, 2)
+}
+
+/**
+ * 导出为完整的 JSON 树结构
+ */
+export function formatTreeAsJson(
+  tree: ConversationTree,
+  name: string,
+  annotations: PositionedTreeAnnotation[] = []
+): string {
+  const parentMap = new Map<string, string>()
+  for (const edge of tree.edges) {
+    if (isTreeEdge(edge)) {
+      parentMap.set(edge.target, edge.source)
+    }
+  }
+  const doc: TreeExportDocument = {
+    version: 1,
+    name,
+    rootId: tree.rootId,
+    activeLeafId: tree.activeLeafId,
+    nodes: tree.nodes.map((node) => {
+      const { message } = node.data
+      return {
+        id: node.id,
+        parentId: parentMap.get(node.id) ?? null,
+        role: message.role,
+        model: message.model,
+        timestamp: message.timestamp,
+        text: getMessageText(message, true, false),
+        isActivePath: node.data.isActivePath,
+        branchName: node.data.branchName,
+        tags: message.tags,
+        bookmarked: message.bookmarked,
+        position: node.position,
+      }
+    }),
+    edges: tree.edges.map((edge) => ({ source: edge.source, target: edge.target, kind: edge.data?.kind ?? 'tree' })),
+    ...(annotations.length > 0
+      ? {
+          annotations: annotations.map((annotation) => ({
+            id: annotation.id,
+            kind: annotation.kind,
+            text: annotation.text,
+            color: annotation.color,
+            nodeIds: annotation.nodeIds,
+            position: { x: annotation.x, y: annotation.y },
+            size: { width: annotation.width, height: annotation.height },
+          })),
+        }
+      : {}),
+  }
+  return JSON.stringify(doc, null, 2)
+}
+
+/**
+ * 按节点位置渲染为 SVG 图片
+ */
+export function formatTreeAsSvg(tree: ConversationTree, annotations: PositionedTreeAnnotation[] = []): string {
+  if (tree.nodes.length === 0) {
+    return '<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"></svg>'
+  }
+  const boxes = [
+    ...tree.nodes.map((n) => ({ ...n.position, width: EXPORT_NODE_WIDTH, height: EXPORT_NODE_HEIGHT })),
+    ...annotations,
+  ]
+  const minX = Math.min(...boxes.map((b) => b.x)) - SVG_PADDING
+  const minY = Math.min(...boxes.map((b) => b.y)) - SVG_PADDING
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width)) + SVG_PADDING
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height)) + SVG_PADDING
+  const width = Math.ceil(maxX - minX)
+  const height = Math.ceil(maxY - minY)
+  const nodeMap = new Map(tree.nodes.map((n) => [n.id, n]))
+
+  const edgeElements = tree.edges.map((edge) => renderSvgEdge(edge, nodeMap)).filter(Boolean)
+  const nodeElements = tree.nodes.map(renderSvgNode)
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...annotations.filter((a) => a.kind === 'frame').map(renderSvgAnnotation),
+    ...edgeElements,
+    ...nodeElements,
+    ...annotations.filter((a) => a.kind === 'note').map(renderSvgAnnotation),
+    '</svg>',
+  ].join('\n')
+}
+
+// ============ 内部函数 ============
+
+/** Mermaid 节点ID只能包含有限字符，按顺序生成短ID */
+function createShortIds(tree: ConversationTree): Map<string, string> {
+  return new Map(tree.nodes.map((node, index) => [node.id, `n${index}`]))
+}
+
+function getRoleLabel(node: ConversationNode): string {
+  const { message } = node.data
+  switch (message.role) {
+    case 'system':
+      return 'System'
+    case 'user':
+      return 'User'
+    default:
+      return message.model || 'Assistant'
+  }
+}
+
+function getNodeLabel(node: ConversationNode): string {
+  return getMessagePreviewText(node.data.message, LABEL_LENGTH).replace(/\s+/g, ' ').trim()
+}
+
+function getRoleColors(node: ConversationNode) {
+  return ROLE_COLORS[node.data.message.role] ?? ROLE_COLORS.assistant
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function getNodeSide(node: ConversationNode | undefined, handle: 'source' | 'target'): NodeSide {
+  const position = handle === 'source' ? node?.sourcePosition : node?.targetPosition
+  return (position as NodeSide | undefined) ?? (handle === 'source' ? 'bottom' : 'top')
+}
+
+function getAnchor(node: ConversationNode, side: NodeSide): { x: number; y: number; dx: number; dy: number } {
+  const { x, y } = node.position
+  switch (side) {
+    case 'top':
+      return { x: x + EXPORT_NODE_WIDTH / 2, y, dx: 0, dy: -1 }
+    case 'bottom':
+      return { x: x + EXPORT_NODE_WIDTH / 2, y: y + EXPORT_NODE_HEIGHT, dx: 0, dy: 1 }
+    case 'left':
+      return { x, y: y + EXPORT_NODE_HEIGHT / 2, dx: -1, dy: 0 }
+    case 'right':
+      return { x: x + EXPORT_NODE_WIDTH, y: y + EXPORT_NODE_HEIGHT / 2, dx: 1, dy: 0 }
+  }
+}
+
+function renderSvgEdge(edge: ConversationEdge, nodeMap: Map<string, ConversationNode>): string {
+  const source = nodeMap.get(edge.source)
+  const target = nodeMap.get(edge.target)
+  if (!source || !target) {
+    return ''
+  }
+  const from = getAnchor(source, getNodeSide(source, 'source'))
+  const to = getAnchor(target, getNodeSide(target, 'target'))
+  const curve = 60
+  const path = `M ${from.x} ${from.y} C ${from.x + from.dx * curve} ${from.y + from.dy * curve}, ${to.x + to.dx * curve} ${to.y + to.dy * curve}, ${to.x} ${to.y}`
+  if (!isTreeEdge(edge)) {
+    const stroke = edge.data?.kind === 'merge' ? '#a855f7' : '#9ca3af'
+    return `<path d="${path}" fill="none" stroke="${stroke}" stroke-width="1.5" stroke-dasharray="6 4"/>`
+  }
+  const stroke = edge.data?.isActivePath ? '#3b82f6' : '#9ca3af'
+  const strokeWidth = edge.data?.isActivePath ? 2.5 : 1.5
+  return `<path d="${path}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+}
+
+function renderSvgNode(node: ConversationNode): string {
+  const colors = getRoleColors(node)
+  const { isActivePath } = node.data
+  const lines = wrapText(getNodeLabel(node), SVG_LINE_CHARS, SVG_MAX_LINES)
+  const textLines = lines.map((line, i) => `<tspan x="12" dy="${i === 0 ? 0 : 18}">${escapeXml(line)}</tspan>`)
+  return [
+    `<g transform="translate(${node.position.x} ${node.position.y})"${isActivePath ? '' : ' opacity="0.75"'}>`,
+    `<rect width="${EXPORT_NODE_WIDTH}" height="${EXPORT_NODE_HEIGHT}" rx="8" fill="${colors.bg}" stroke="${isActivePath ? colors.active : colors.border}" stroke-width="${isActivePath ? 3 : 1.5}"/>`,
+    `<text x="12" y="24" font-size="12" font-weight="600" fill="${colors.text}">${escapeXml(getRoleLabel(node))}</text>`,
+    `<text x="12" y="48" font-size="13" fill="#374151">${textLines.join('')}</text>`,
+    '</g>',
+  ].join('')
+}
+
+function renderSvgAnnotation(annotation: PositionedTreeAnnotation): string {
+  const colors = getAnnotationColors(annotation)
+  const { x, y, width, height } = annotation
+  if (annotation.kind === 'frame') {
+    return [
+      `<g transform="translate(${x} ${y})">`,
+      `<rect width="${width}" height="${height}" rx="12" fill="${colors.bg}" fill-opacity="0.5" stroke="${colors.border}" stroke-width="2" stroke-dasharray="8 4"/>`,
+      `<text x="14" y="24" font-size="14" font-weight="600" fill="${colors.text}">${escapeXml(annotation.text)}</text>`,
+      '</g>',
+    ].join('')
+  }
+  const lines = wrapText(annotation.text.replace(/\s+/g, ' ').trim(), 26, 5)
+  const textLines = lines.map((line, i) => `<tspan x="12" dy="${i === 0 ? 0 : 18}">${escapeXml(line)}</tspan>`)
+  return [
+    `<g transform="translate(${x} ${y})">`,
+    `<rect width="${width}" height="${height}" rx="4" fill="${colors.bg}" stroke="${colors.border}" stroke-width="1.5"/>`,
+    `<text x="12" y="26" font-size="13" fill="${colors.text}">${textLines.join('')}</text>`,
+    '</g>',
+  ].join('')
+}
+
+function wrapText(text: string, lineChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let rest = text
+  while (rest && lines.length < maxLines) {
+    if (rest.length <= lineChars) {
+      lines.push(rest)
+      break
+    }
+    const breakAt = rest.lastIndexOf(' ', lineChars)
+    const cut = breakAt > lineChars / 2 ? breakAt : lineChars
+    lines.push(rest.slice(0, cut).trimEnd())
+    rest = rest.slice(cut).trimStart()
+    if (rest && lines.length === maxLines) {
+      lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, lineChars - 1)}…`
+    }
+  }
+  return lines
+}
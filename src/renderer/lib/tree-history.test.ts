@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest'
+import {
+  activateGraphMessage,
+  buildMessageGraph,
+  getActiveMessages,
+  getDetachedForks,
+  removeGraphSubtree,
+  updateGraphMessage,
+} from './message-graph'
+import { msg, present } from './test-utils'
+import { applyPositionsPatch, applyTreePatch, diffNodePositions, diffTreeState, type TreeState } from './tree-history'
+
+const [m1, m2, m3, m4] = [msg('m1'), msg('m2'), msg('m3'), msg('m4')]
+const fork = { position: 0, createdAt: 0, lists: [{ id: 'l0', messages: [] }] }
+
+// m1 ─┬─ m2 ─ m3   (active)
+//     └─ m4
+const graph = buildMessageGraph({
+  messages: [m1, m2, m3],
+  messageForksHash: { m1: { ...fork, lists: [...fork.lists, { id: 'l1', messages: [m4] }] } },
+})
+const state: TreeState = { messageGraph: graph }
+
+const activeIds = (treeState: TreeState | null) =>
+  treeState?.messageGraph ? getActiveMessages(treeState.messageGraph).map((m) => m.id) : []
+
+describe('tree-history', () => {
+  test('returns null when nothing changed', () => {
+    expect(diffTreeState(state, { messageGraph: { ...graph, nodes: { ...graph.nodes } } })).toBeNull()
+  })
+
+  test('records only the changed nodes', () => {
+    const patch = diffTreeState(state, { messageGraph: present(removeGraphSubtree(graph, 'm2')) })
+    expect(Object.keys(patch?.graph?.nodes ?? {}).sort()).toEqual(['m1', 'm2', 'm3'])
+    expect(patch?.graph?.nodes.m2).toEqual({ before: graph.nodes.m2, after: null })
+    expect(patch?.graph?.activeLeafId).toEqual({ before: 'm3', after: 'm4' })
+    expect(patch?.forks).toBeUndefined()
+  })
+
+  test('undo and redo restore both sides', () => {
+    const edited = present(updateGraphMessage(graph, 'm2', () => msg('m2', 'user', 'edited')))
+    const after: TreeState = { messageGraph: present(activateGraphMessage(edited, 'm4')) }
+    const patch = diffTreeState(state, after)
+    if (!patch) throw new Error('expected a patch')
+
+    const undone = applyTreePatch(after, patch, 'undo')
+    expect(undone?.messageGraph).toEqual(graph)
+    expect(activeIds(undone)).toEqual(['m1', 'm2', 'm3'])
+
+    const redone = undone && applyTreePatch(undone, patch, 'redo')
+    expect(redone?.messageGraph).toEqual(after.messageGraph)
+    expect(redone?.messageGraph?.nodes.m2.message).toEqual(msg('m2', 'user', 'edited'))
+    expect(activeIds(redone)).toEqual(['m1', 'm4'])
+  })
+
+  test('refuses to apply when the changed nodes no longer match', () => {
+    const patch = diffTreeState(state, { messageGraph: present(removeGraphSubtree(graph, 'm3')) })
+    if (!patch) throw new Error('expected a patch')
+    expect(applyTreePatch({ messageGraph: present(removeGraphSubtree(graph, 'm2')) }, patch, 'redo')).toBeNull()
+    expect(applyTreePatch({ messageGraph: present(activateGraphMessage(graph, 'm4')) }, patch, 'redo')).toBeNull()
+    expect(activeIds(applyTreePatch(state, patch, 'redo'))).toEqual(['m1', 'm2'])
+
+    // 其他节点的修改不影响补丁
+    const unrelated = present(removeGraphSubtree(graph, 'm4'))
+    expect(applyTreePatch({ messageGraph: unrelated }, patch, 'redo')?.messageGraph?.nodes.m1).toBe(unrelated.nodes.m1)
+  })
+
+  test('compares forks outside the graph by content', () => {
+    const threadFork = { ...fork, lists: [...fork.lists, { id: 'l1', messages: [m4] }] }
+    const withFork: TreeState = { messageGraph: graph, messageForksHash: { t1: threadFork } }
+    const regenerated = { t1: { ...threadFork, lists: threadFork.lists.map((list) => ({ ...list })) } }
+    expect(diffTreeState(withFork, { ...withFork, messageForksHash: regenerated })).toBeNull()
+
+    const patch = diffTreeState(withFork, { ...withFork, messageForksHash: { t1: fork } })
+    if (!patch) throw new Error('expected a patch')
+    expect(Object.keys(patch.forks ?? {})).toEqual(['t1'])
+    expect(patch.graph).toBeUndefined()
+    const edited = { t1: { ...threadFork, lists: [fork.lists[0], { id: 'l1', messages: [m3] }] } }
+    expect(applyTreePatch({ ...withFork, messageForksHash: edited }, patch, 'redo')).toBeNull()
+
+    const redone = applyTreePatch({ ...withFork, messageForksHash: regenerated }, patch, 'redo')
+    expect(redone?.messageGraph).not.toBe(graph)
+    expect(getDetachedForks(redone?.messageForksHash, redone?.messageGraph)).toEqual({ t1: fork })
+  })
+
+  test('node positions', () => {
+    const patch = diffNodePositions({ a: { x: 0, y: 0 } }, { a: { x: 10, y: 0 }, b: { x: 5, y: 5 } })
+    if (!patch) throw new Error('expected a patch')
+    const current = { a: { x: 10, y: 0 }, b: { x: 5, y: 5 }, c: { x: 1, y: 1 } }
+    expect(applyPositionsPatch(current, patch, 'undo')).toEqual({ a: { x: 0, y: 0 }, c: { x: 1, y: 1 } })
+    expect(diffNodePositions({ a: { x: 1, y: 1 } }, { a: { x: 1, y: 1 } })).toBeNull()
+  })
+})
@@ -0,0 +1,282 @@
+/**
+ * 树形图历史补丁
+ * 记录两次会话状态之间的最小差异，用于多级撤销/重做
+ * 补丁中只保存消息图中变化的节点、不在消息图里的分叉和节点位置，未变化的部分不会被复制
+ */
+
+import { isEmpty } from 'lodash'
+import type { MessageGraph, MessageGraphNode, Session } from 'src/shared/types'
+import { getDetachedForks, getMessageTreeViews } from './message-graph'
+
+// ============ 类型定义 ============
+
+type MessageForkEntry = NonNullable<Session['messageForksHash']>[string]
+
+type NodePosition = { x: number; y: number }
+
+/** 补丁所作用的会话树状态 */
+export type TreeState = Pick<Session, 'messageGraph' | 'messageForksHash'>
+
+/** 补丁的应用方向 */
+export type TreePatchDirection = 'undo' | 'redo'
+
+/** 单个键的变化，null 表示不存在 */
+export interface ValueChange<T> {
+  before: T | null
+  after: T | null
+}
+
+/** 消息图的变化 */
+export interface GraphPatch {
+  /** 节点ID -> 节点（消息、父子关系、激活的子节点和分支信息）的变化 */
+  nodes: Record<string, ValueChange<MessageGraphNode>>
+  rootId: ValueChange<string>
+  activeLeafId: ValueChange<string>
+}
+
+/** 树形图补丁 */
+export interface TreePatch {
+  graph?: GraphPatch
+  /** 不在消息图中的分叉（例如挂在历史话题消息上的分叉）：分叉点ID -> 分叉数据的变化 */
+  forks?: Record<string, ValueChange<MessageForkEntry>>
+  /** 节点ID -> 节点位置的变化 */
+  positions?: Record<string, ValueChange<NodePosition>>
+}
+
+const EMPTY_GRAPH: MessageGraph = { nodes: {} }
+
+// ============ 核心函数 ============
+
+/**
+ * 计算两个会话树状态之间的补丁
+ * 消息图是不可变更新的，未修改的节点保持同一引用，只有引用变化的节点才需要按内容比较；
+ * 不在消息图中的分叉按内容（分支和其中的消息）比较
+ * @returns 没有变化时返回 null
+ */
+export function diffTreeState(before: TreeState, after: TreeState): TreePatch | null {
+  const patch: TreePatch = {}
+
+  const graph = diffGraph(before.messageGraph ?? EMPTY_GRAPH, after.messageGraph ?? EMPTY_GRAPH)
+  if (graph) {
+    patch.graph = graph
+  }
+
+  const forks = diffRecords(
+    getDetachedForks(before.messageForksHash, before.messageGraph) ?? {},
+    getDetachedForks(after.messageForksHash, after.messageGraph) ?? {},
+    isSameFork
+  )
+  if (forks) {
+    patch.forks = forks
+  }
+
+  return isEmptyPatch(patch) ? null : patch
+}
+
+/**
+ * 计算两组节点位置之间的补丁
+ * @returns 没有变化时返回 null
+ */
+export function diffNodePositions(
+  before: Record<string, NodePosition>,
+  after: Record<string, NodePosition>
+): TreePatch | null {
+  const positions = diffRecords(before, after, (a, b) => a.x === b.x && a.y === b.y)
+  return positions ? { positions } : null
+}
+
+/**
+ * 将补丁应用到会话树状态
+ * 变化的节点、根节点、活跃叶子节点以及变化的分叉点都要与补丁记录的一致
+ * @returns 当前状态与补丁记录的状态不一致（例如消息已被其他操作改动）时返回 null
+ */
+export function applyTreePatch(state: TreeState, patch: TreePatch, direction: TreePatchDirection): TreeState | null {
+  let { messageGraph, messageForksHash } = state
+
+  if (patch.graph) {
+    const graph = applyGraphPatch(messageGraph ?? EMPTY_GRAPH, patch.graph, direction)
+    if (!graph) {
+      return null
+    }
+    messageGraph = graph
+  }
+
+  if (patch.forks) {
+    const forks = { ...getDetachedForks(state.messageForksHash, state.messageGraph) }
+    for (const [forkId, change] of Object.entries(patch.forks)) {
+      const [from, to] = pick(change, direction)
+      const current = forks[forkId]
+      if (current ? !from || !isSameFork(current, from) : from) {
+        return null
+      }
+      if (to) {
+        forks[forkId] = to
+      } else {
+        delete forks[forkId]
+      }
+    }
+    // 不在消息图中的分叉挂在兼容视图上，换一个消息图对象让 syncMessageGraph 重新生成兼容视图
+    if (messageGraph === state.messageGraph) {
+      messageGraph = { ...(messageGraph ?? EMPTY_GRAPH) }
+    }
+    messageForksHash = getMessageTreeViews(
+      messageGraph ?? EMPTY_GRAPH,
+      isEmpty(forks) ? undefined : forks
+    ).messageForksHash
+  }
+
+  return { messageGraph, messageForksHash }
+}
+
+/**
+ * 将补丁中的节点位置变化应用到节点位置表
+ */
+export function applyPositionsPatch(
+  positions: Record<string, NodePosition>,
+  patch: TreePatch,
+  direction: TreePatchDirection
+): Record<string, NodePosition> {
+  if (!patch.positions) {
+    return positions
+  }
+  const result = { ...positions }
+  for (const [nodeId, change] of Object.entries(patch.positions)) {
+    const [, to] = pick(change, direction)
+    if (to) {
+      result[nodeId] = to
+    } else {
+      delete result[nodeId]
+    }
+  }
+  return result
+}
+
+/**
+ * 判断补丁是否会改动会话数据（而不仅是节点位置）
+ */
+export function patchTouchesSession(patch: TreePatch): boolean {
+  return !!patch.graph || !!patch.forks
+}
+
+// ============ 内部函数 ============
+
+function pick<T>(change: { before: T; after: T }, direction: TreePatchDirection): [T, T] {
+  return direction === 'undo' ? [change.after, change.before] : [change.before, change.after]
+}
+
+function isEmptyPatch(patch: TreePatch): boolean {
+  return !patch.graph && !patch.forks && !patch.positions
+}
+
+function diffGraph(before: MessageGraph, after: MessageGraph): GraphPatch | null {
+  if (before === after) {
+    return null
+  }
+  const nodes = diffRecords(before.nodes, after.nodes, isSameNode)
+  const rootId = { before: before.rootId ?? null, after: after.rootId ?? null }
+  const activeLeafId = { before: before.activeLeafId ?? null, after: after.activeLeafId ?? null }
+  if (!nodes && rootId.before === rootId.after && activeLeafId.before === activeLeafId.after) {
+    return null
+  }
+  return { nodes: nodes ?? {}, rootId, activeLeafId }
+}
+
+function applyGraphPatch(graph: MessageGraph, patch: GraphPatch, direction: TreePatchDirection): MessageGraph | null {
+  const [fromRootId, toRootId] = pick(patch.rootId, direction)
+  const [fromLeafId, toLeafId] = pick(patch.activeLeafId, direction)
+  if ((graph.rootId ?? null) !== fromRootId || (graph.activeLeafId ?? null) !== fromLeafId) {
+    return null
+  }
+
+  const nodes = { ...graph.nodes }
+  for (const [nodeId, change] of Object.entries(patch.nodes)) {
+    const [from, to] = pick(change, direction)
+    const current = graph.nodes[nodeId]
+    if (current ? !from || !isSameNodeStructure(current, from) : from) {
+      return null
+    }
+    if (to) {
+      nodes[nodeId] = to
+    } else {
+      delete nodes[nodeId]
+    }
+  }
+  return { rootId: toRootId ?? undefined, activeLeafId: toLeafId ?? undefined, nodes }
+}
+
+/** 节点的消息（按引用）和结构都相同 */
+function isSameNode(a: MessageGraphNode, b: MessageGraphNode): boolean {
+  return a === b || (a.message === b.message && isSameNodeStructure(a, b))
+}
+
+/** 节点是同一条消息，且父子关系、激活的子节点和分支信息都相同 */
+function isSameNodeStructure(a: MessageGraphNode, b: MessageGraphNode): boolean {
+  return (
+    a.message.id === b.message.id &&
+    a.parentId === b.parentId &&
+    a.activeChildId === b.activeChildId &&
+    a.childIds.length === b.childIds.length &&
+    a.childIds.every((id, i) => id === b.childIds[i]) &&
+    isSameGraphFork(a.fork, b.fork)
+  )
+}
+
+/** 消息图中分叉点的位置和分支（ID、名称、分支头）都相同 */
+function isSameGraphFork(a: MessageGraphNode['fork'], b: MessageGraphNode['fork']): boolean {
+  if (a === b) {
+    return true
+  }
+  return (
+    !!a &&
+    !!b &&
+    a.position === b.position &&
+    a.createdAt === b.createdAt &&
+    a.lists.length === b.lists.length &&
+    a.lists.every((list, i) => {
+      const other = b.lists[i]
+      return list.id === other.id && list.name === other.name && list.headId === other.headId
+    })
+  )
+}
+
+/** 分叉点的位置、分支以及分支中的消息（按引用）都相同 */
+function isSameFork(a: MessageForkEntry, b: MessageForkEntry): boolean {
+  return (
+    a === b ||
+    (a.position === b.position &&
+      a.createdAt === b.createdAt &&
+      a.lists.length === b.lists.length &&
+      a.lists.every((list, i) => {
+        const other = b.lists[i]
+        return (
+          list.id === other.id &&
+          list.name === other.name &&
+          list.messages.length === other.messages.length &&
+          list.messages.every((message, j) => message === other.messages[j])
+        )
+      }))
+  )
+}
+
+function diffRecords<T>(
+  before: Record<string, T>,
+  after: Record<string, T>,
+  isEqual: (a: T, b: T) => boolean
+): Record<string, ValueChange<T>> | null {
+  const changes: Record<string, ValueChange<T>> = {}
+  let changed = false
+  const compare = (key: string) => {
+    const a = before[key]
+    const b = after[key]
+    if ((a && b && isEqual(a, b)) || (!a && !b)) return
+    changes[key] = { before: a ?? null, after: b ?? null }
+    changed = true
+  }
+  for (const key of Object.keys(before)) {
+    compare(key)
+  }
+  for (const key of Object.keys(after)) {
+    if (!(key in before)) compare(key)
+  }
+  return changed ? changes : null
+}
@@ -0,0 +1,124 @@
+import type { MessageGraph, Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { buildMessageGraph, getGraphStructureVersion, updateGraphMessage } from './message-graph'
+import { msg } from './test-utils'
+import { createConversationTreeBuilder, createIncrementalTreeLayout } from './tree-incremental'
+
+// u1 ─ a1 ─┬─ u2 ─ a2   (active)
+//          └─ u3
+const baseSession: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1', 'assistant'), msg('u2'), msg('a2', 'assistant')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', messages: [msg('u3')] },
+      ],
+    },
+  },
+}
+const graph = buildMessageGraph(baseSession)
+const session: Session = { ...baseSession, messageGraph: graph }
+
+/** 模拟流式输出：只替换一条消息的内容 */
+const withText = (g: MessageGraph, id: string, text: string): MessageGraph =>
+  updateGraphMessage(g, id, (message) => ({ ...message, contentParts: [{ type: 'text', text }] })) ?? g
+
+/** 在 a2 之后追加一条回复 */
+const grow = (g: MessageGraph): MessageGraph => ({
+  ...g,
+  activeLeafId: 'a3',
+  nodes: {
+    ...g.nodes,
+    a2: { ...g.nodes.a2, childIds: ['a3'], activeChildId: 'a3' },
+    a3: { message: msg('a3', 'assistant'), parentId: 'a2', childIds: [] },
+  },
+})
+
+describe('getGraphStructureVersion', () => {
+  test('keeps the version when only message content changes', () => {
+    expect(getGraphStructureVersion(withText(graph, 'a2', 'streaming...'))).toBe(getGraphStructureVersion(graph))
+    const switched: MessageGraph = {
+      ...graph,
+      activeLeafId: 'u3',
+      nodes: { ...graph.nodes, a1: { ...graph.nodes.a1, activeChildId: 'u3' } },
+    }
+    expect(getGraphStructureVersion(switched)).not.toBe(getGraphStructureVersion(graph))
+    const referenced = updateGraphMessage(graph, 'u2', (message) => ({ ...message, references: [] }))
+    expect(referenced && getGraphStructureVersion(referenced)).not.toBe(getGraphStructureVersion(graph))
+  })
+})
+
+describe('createConversationTreeBuilder', () => {
+  test('reuses unchanged nodes and edges while a message streams', () => {
+    const build = createConversationTreeBuilder()
+    const first = build(session)
+    expect(build({ ...session })).toBe(first)
+
+    const second = build({ ...session, messageGraph: withText(graph, 'a2', 'streaming...') })
+    expect(second).not.toBe(first)
+    expect(second.edges).toBe(first.edges)
+    for (const [index, node] of second.nodes.entries()) {
+      if (node.id === 'a2') {
+        expect(node).not.toBe(first.nodes[index])
+        expect(node.data.message.contentParts).toEqual([{ type: 'text', text: 'streaming...' }])
+      } else {
+        expect(node).toBe(first.nodes[index])
+      }
+    }
+  })
+
+  test('rebuilds the tree when the structure changes', () => {
+    const build = createConversationTreeBuilder()
+    const first = build(session)
+    const second = build({ ...session, messageGraph: grow(graph) })
+    expect(second.edges).not.toBe(first.edges)
+    expect(second.nodes.map((n) => n.id)).toContain('a3')
+  })
+})
+
+describe('createIncrementalTreeLayout', () => {
+  test('keeps positions and unchanged nodes when only content changes', () => {
+    const build = createConversationTreeBuilder()
+    const layout = createIncrementalTreeLayout()
+    const options = { mode: 'vertical' as const, savedPositions: {} }
+    const first = layout(build(session), options)
+    const second = layout(build({ ...session, messageGraph: withText(graph, 'a2', 'a much longer reply') }), options)
+
+    for (const [index, node] of second.nodes.entries()) {
+      expect(node.position).toEqual(first.nodes[index].position)
+      if (node.id !== 'a2') {
+        expect(node).toBe(first.nodes[index])
+      }
+    }
+    expect(layout(build(session), { mode: 'horizontal', savedPositions: {} }).nodes[1].position).not.toEqual(
+      first.nodes[1].position
+    )
+  })
+
+  test('places new nodes next to their parent and relayouts only when reset', () => {
+    const build = createConversationTreeBuilder()
+    const layout = createIncrementalTreeLayout()
+    const options = { mode: 'vertical' as const, savedPositions: {} }
+    const first = layout(build(session), options)
+    const position = (tree: typeof first, id: string) => tree.nodes.find((node) => node.id === id)?.position
+
+    const grown = layout(build({ ...session, messageGraph: grow(graph) }), options)
+    for (const node of first.nodes) {
+      expect(position(grown, node.id)).toEqual(node.position)
+    }
+    expect(position(grown, 'a3')?.x).toBe(position(grown, 'a2')?.x)
+    expect(position(grown, 'a3')?.y).toBeGreaterThan(position(grown, 'a2')?.y ?? 0)
+
+    const saved = { u1: { x: -500, y: -500 } }
+    expect(position(layout(build(session), { ...options, savedPositions: saved }), 'u1')).toEqual(saved.u1)
+
+    layout.reset()
+    const relayouted = layout(build({ ...session, messageGraph: grow(graph) }), options)
+    expect(position(relayouted, 'u1')).toEqual(position(first, 'u1'))
+  })
+})
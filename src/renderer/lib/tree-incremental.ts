@@ -0,0 +1,153 @@
+/**
+ * 对话树的增量构建和布局
+ * 流式输出时每个 token 都会产生新的会话对象，但树结构（消息ID、父子关系、分支、合并和引用）不变：
+ * 消息图的结构版本不变时复用上一次的树，只替换内容变化的节点；节点集合不变时复用上一次的布局位置
+ * 新增节点时只为新节点计算位置（放在父节点旁边），其余节点保持原位，需要时再整体重新布局
+ * 未变化的节点保持对象引用不变，节点组件（memo）不会重新渲染
+ */
+
+import type { Session } from 'src/shared/types'
+import { type ConversationNode, type ConversationTree, sessionToConversationTree } from './conversation-tree-adapter'
+import { buildMessageGraph, getGraphStructureVersion } from './message-graph'
+import { applyTreeLayout, type TreeLayoutOptions } from './tree-layout'
+
+// ============ 类型定义 ============
+
+/** 带缓存的树构建函数 */
+export type ConversationTreeBuilder = (session: Session) => ConversationTree
+
+/** 带缓存的布局函数 */
+export type IncrementalTreeLayout = ((tree: ConversationTree, options: TreeLayoutOptions) => ConversationTree) & {
+  /** 丢弃已计算的位置，下一次调用时整体重新布局 */
+  reset: () => void
+}
+
+// ============ 常量 ============
+
+/** 缩放比例低于该值时节点使用简化的渲染（只显示角色和一行预览） */
+export const TREE_LOD_ZOOM_THRESHOLD = 0.45
+
+// ============ 工具函数 ============
+
+/**
+ * 创建带缓存的树构建函数
+ * 会话和消息图的结构版本不变时复用上一次的树：消息对象变化的节点替换为新对象，其余节点和所有边保持原引用
+ */
+export function createConversationTreeBuilder(): ConversationTreeBuilder {
+  let last: { sessionId: string; version: number; tree: ConversationTree } | null = null
+
+  return (session) => {
+    const graph = session.messageGraph ?? buildMessageGraph(session)
+    const version = getGraphStructureVersion(graph)
+    if (!last || last.sessionId !== session.id || last.version !== version) {
+      last = { sessionId: session.id, version, tree: sessionToConversationTree(session) }
+      return last.tree
+    }
+
+    let changed = false
+    const nodes = last.tree.nodes.map((node) => {
+      const message = graph.nodes[node.id]?.message
+      if (!message || message === node.data.message) {
+        return node
+      }
+      changed = true
+      return { ...node, data: { ...node.data, message } }
+    })
+    if (changed) {
+      last = { ...last, tree: { ...last.tree, nodes } }
+    }
+    return last.tree
+  }
+}
+
+/**
+ * 创建带缓存的布局函数
+ * - 节点ID、边和布局选项都与上一次相同：沿用上一次的位置，节点对象未变化时直接返回上一次的结果
+ * - 节点或边有变化：已布局过的节点保持原位，只为新节点计算位置
+ * - 第一次调用、布局选项变化或调用 reset 之后：整体重新布局
+ * 已保存的节点位置（手动拖拽、自动整理）优先于计算出的位置
+ */
+export function createIncrementalTreeLayout(): IncrementalTreeLayout {
+  let last: { input: ConversationTree; options: TreeLayoutOptions; output: ConversationTree } | null = null
+  // 计算过的节点位置，折叠后重新展开的节点回到原来的位置
+  let positions: Record<string, { x: number; y: number }> = {}
+
+  const layout = (tree: ConversationTree, options: TreeLayoutOptions) => {
+    const sameOptions = !!last && isSameLayoutOptions(last.options, options)
+    if (last && sameOptions && last.options.savedPositions === options.savedPositions && isSameTree(last.input, tree)) {
+      return reuseLayout(last, tree)
+    }
+    if (!sameOptions) {
+      positions = {}
+    }
+
+    const output = applyTreeLayout(tree, { ...options, savedPositions: { ...positions, ...options.savedPositions } })
+    for (const node of output.nodes) {
+      positions[node.id] = node.position
+    }
+    last = { input: tree, options, output }
+    return output
+  }
+
+  return Object.assign(layout, {
+    reset: () => {
+      last = null
+      positions = {}
+    },
+  })
+}
+
+/**
+ * 沿用上一次的布局结果：节点对象未变化时返回上一次的节点，变化的节点（如正在生成的回复）只更新数据
+ */
+function reuseLayout(
+  last: { input: ConversationTree; output: ConversationTree },
+  tree: ConversationTree
+): ConversationTree {
+  if (last.input === tree) {
+    return last.output
+  }
+  const previousInput = last.input.nodes
+  const previousOutput = last.output.nodes
+  const nodes = tree.nodes.map((node, index): ConversationNode => {
+    const layouted = previousOutput[index]
+    if (node === previousInput[index]) {
+      return layouted
+    }
+    return {
+      ...node,
+      position: layouted.position,
+      sourcePosition: layouted.sourcePosition,
+      targetPosition: layouted.targetPosition,
+    }
+  })
+  return { ...tree, nodes }
+}
+
+/**
+ * 判断两次布局的选项是否相同（不包括已保存的节点位置）
+ */
+function isSameLayoutOptions(previous: TreeLayoutOptions, options: TreeLayoutOptions): boolean {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(options)])
+  keys.delete('savedPositions')
+  for (const key of keys) {
+    if (previous[key as keyof TreeLayoutOptions] !== options[key as keyof TreeLayoutOptions]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * 判断两棵树是否只有节点内容不同
+ * 构建树时边会复用原对象，因此按引用比较边
+ */
+function isSameTree(previous: ConversationTree, tree: ConversationTree): boolean {
+  if (previous.nodes.length !== tree.nodes.length || previous.edges.length !== tree.edges.length) {
+    return false
+  }
+  return (
+    tree.edges.every((edge, index) => edge === previous.edges[index]) &&
+    tree.nodes.every((node, index) => node.id === previous.nodes[index].id)
+  )
+}
@@ -0,0 +1,76 @@
+import * as defaults from 'src/shared/defaults'
+import type { Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { sessionToConversationTree } from './conversation-tree-adapter'
+import { msg } from './test-utils'
+import { findNeighborNodeId, getTreeKeyboardAction, matchesShortcut } from './tree-keyboard'
+import { applyTreeLayout } from './tree-layout'
+
+const key = (
+  k: string,
+  modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>> = {}
+) => ({
+  key: k,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+})
+
+// u1 ─ a1 ─┬─ u2 ─ a2   (active)
+//          ├─ u3
+//          └─ u4
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1'), msg('u2'), msg('a2')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', messages: [msg('u3')] },
+        { id: 'l2', messages: [msg('u4')] },
+      ],
+    },
+  },
+}
+
+const tree = applyTreeLayout(sessionToConversationTree(session), { mode: 'vertical' })
+
+describe('tree-keyboard', () => {
+  test('matches keys and modifiers', () => {
+    expect(matchesShortcut(key('ArrowUp'), 'up')).toBe(true)
+    expect(matchesShortcut(key('ArrowUp', { ctrlKey: true }), 'up')).toBe(false)
+    expect(matchesShortcut(key('R', { shiftKey: true }), 'shift+r')).toBe(true)
+    expect(matchesShortcut(key('R', { shiftKey: true }), 'r')).toBe(false)
+    expect(matchesShortcut(key('?', { shiftKey: true }), '?')).toBe(true)
+    expect(matchesShortcut(key('Enter', { metaKey: true }), 'mod+enter')).toBe(true)
+    expect(matchesShortcut(key('Enter'), 'mod+enter')).toBe(false)
+    expect(matchesShortcut(key('e'), '')).toBe(false)
+  })
+
+  test('maps keys to actions with the default bindings', () => {
+    const { shortcuts } = defaults.settings()
+    expect(getTreeKeyboardAction(key('ArrowLeft'), shortcuts)).toBe('prevSibling')
+    expect(getTreeKeyboardAction(key('d'), shortcuts)).toBe('delete')
+    expect(getTreeKeyboardAction(key('d', { ctrlKey: true }), shortcuts)).toBeNull()
+    expect(getTreeKeyboardAction(key('j'), { ...shortcuts, treeNavChild: 'j' })).toBe('child')
+  })
+
+  test('finds parents, active children and siblings', () => {
+    expect(findNeighborNodeId(tree, 'a1', 'parent')).toBe('u1')
+    expect(findNeighborNodeId(tree, 'u1', 'parent')).toBeNull()
+    expect(findNeighborNodeId(tree, 'a1', 'child')).toBe('u2')
+    // 兄弟节点按画布上从左到右的顺序
+    const x = (id: string) => tree.nodes.find((n) => n.id === id)?.position.x ?? 0
+    const siblings = ['u2', 'u3', 'u4'].sort((a, b) => x(a) - x(b))
+    expect(findNeighborNodeId(tree, siblings[0], 'prevSibling')).toBeNull()
+    expect(findNeighborNodeId(tree, siblings[0], 'nextSibling')).toBe(siblings[1])
+    expect(findNeighborNodeId(tree, siblings[2], 'prevSibling')).toBe(siblings[1])
+    expect(findNeighborNodeId(tree, siblings[2], 'nextSibling')).toBeNull()
+    expect(findNeighborNodeId(tree, 'u1', 'nextSibling')).toBeNull()
+  })
+})
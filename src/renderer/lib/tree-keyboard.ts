@@ -0,0 +1,140 @@
+/**
+ * 树形图键盘操作
+ * 按键绑定保存在设置的 shortcuts 中（ShortcutSetting），这里负责匹配按键和计算导航目标
+ */
+
+import type { ShortcutName, ShortcutSetting } from 'src/shared/types'
+import { type ConversationTree, isTreeEdge } from './conversation-tree-adapter'
+
+// ============ 类型定义 ============
+
+/** 树形图键盘操作 */
+export type TreeKeyboardAction =
+  | 'parent'
+  | 'child'
+  | 'prevSibling'
+  | 'nextSibling'
+  | 'openDetail'
+  | 'edit'
+  | 'regenerate'
+  | 'branch'
+  | 'delete'
+  | 'quote'
+  | 'help'
+
+/** 导航方向 */
+export type TreeNavigationDirection = Extract<TreeKeyboardAction, 'parent' | 'child' | 'prevSibling' | 'nextSibling'>
+
+type KeyboardEventLike = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+
+// ============ 常量 ============
+
+/** 操作对应的快捷键设置项，顺序即快捷键列表中的显示顺序 */
+export const TREE_SHORTCUT_NAMES: Record<TreeKeyboardAction, ShortcutName> = {
+  parent: 'treeNavParent',
+  child: 'treeNavChild',
+  prevSibling: 'treeNavPrevSibling',
+  nextSibling: 'treeNavNextSibling',
+  openDetail: 'treeOpenDetail',
+  edit: 'treeEditMessage',
+  regenerate: 'treeRegenerate',
+  branch: 'treeCreateBranch',
+  delete: 'treeDeleteNode',
+  quote: 'treeQuoteNode',
+  help: 'treeShowShortcuts',
+}
+
+/** 设置中的按键名 -> KeyboardEvent.key（小写） */
+const KEY_ALIASES: Record<string, string> = {
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  space: ' ',
+  esc: 'escape',
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 判断按键是否匹配快捷键，例如 `k`、`shift+r`、`mod+enter`
+ * 字母和数字区分 Shift，`?` 这类符号本身就需要 Shift，不检查 Shift
+ */
+export function matchesShortcut(event: KeyboardEventLike, shortcut: string): boolean {
+  if (!shortcut) {
+    return false
+  }
+  const parts = shortcut.toLowerCase().split('+')
+  const key = parts[parts.length - 1]
+  const modifiers = new Set(parts.slice(0, -1))
+
+  const wantsMod = modifiers.has('mod')
+  const ctrlMatches = wantsMod || event.ctrlKey === modifiers.has('ctrl')
+  const metaMatches = wantsMod || event.metaKey === (modifiers.has('meta') || modifiers.has('command'))
+  if (!ctrlMatches || !metaMatches || (wantsMod && !(event.ctrlKey || event.metaKey))) {
+    return false
+  }
+  if (event.altKey !== (modifiers.has('alt') || modifiers.has('option'))) {
+    return false
+  }
+  const isSymbol = key.length === 1 && !/[a-z0-9]/.test(key)
+  if (!isSymbol && event.shiftKey !== modifiers.has('shift')) {
+    return false
+  }
+  return event.key.toLowerCase() === (KEY_ALIASES[key] ?? key)
+}
+
+/**
+ * 找到按键对应的树形图操作
+ */
+export function getTreeKeyboardAction(event: KeyboardEventLike, shortcuts: ShortcutSetting): TreeKeyboardAction | null {
+  for (const [action, name] of Object.entries(TREE_SHORTCUT_NAMES)) {
+    if (matchesShortcut(event, shortcuts[name])) {
+      return action as TreeKeyboardAction
+    }
+  }
+  return null
+}
+
+/**
+ * 计算导航目标节点
+ * 子节点优先选择活跃路径上的子节点，兄弟节点按画布上的位置排列（左到右、上到下），到头后不循环
+ * @returns 目标节点ID，没有目标时返回 null
+ */
+export function findNeighborNodeId(
+  tree: ConversationTree,
+  nodeId: string,
+  direction: TreeNavigationDirection
+): string | null {
+  const parentMap = new Map<string, string>()
+  const childrenMap = new Map<string, string[]>()
+  for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
+    parentMap.set(edge.target, edge.source)
+    const children = childrenMap.get(edge.source) ?? []
+    children.push(edge.target)
+    childrenMap.set(edge.source, children)
+  }
+
+  switch (direction) {
+    case 'parent':
+      return parentMap.get(nodeId) ?? null
+    case 'child': {
+      const children = childrenMap.get(nodeId) ?? []
+      return children.find((id) => tree.activePathIds.has(id)) ?? children[0] ?? null
+    }
+    case 'prevSibling':
+    case 'nextSibling': {
+      const parentId = parentMap.get(nodeId)
+      const positions = new Map(tree.nodes.map((node) => [node.id, node.position]))
+      const siblings = (parentId ? (childrenMap.get(parentId) ?? []) : []).slice().sort((a, b) => {
+        const pa = positions.get(a)
+        const pb = positions.get(b)
+        return pa && pb ? pa.x - pb.x || pa.y - pb.y : 0
+      })
+      const index = siblings.indexOf(nodeId)
+      if (index < 0) return null
+      return siblings[index + (direction === 'nextSibling' ? 1 : -1)] ?? null
+    }
+  }
+}
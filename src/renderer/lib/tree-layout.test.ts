@@ -0,0 +1,64 @@
+import { Position } from '@xyflow/react'
+import type { Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { sessionToConversationTree } from './conversation-tree-adapter'
+import { msg } from './test-utils'
+import { applyTreeLayout, estimateNodeHeight, forceRelayout } from './tree-layout'
+
+// u1 ─ a1 ─┬─ u2
+//          └─ u3
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [msg('u1'), msg('a1'), msg('u2')],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', messages: [msg('u3')] },
+      ],
+    },
+  },
+}
+
+const tree = sessionToConversationTree(session)
+const positionsOf = (layouted: typeof tree) => new Map(layouted.nodes.map((n) => [n.id, n]))
+
+describe('tree-layout', () => {
+  test('horizontal layout grows to the right', () => {
+    const nodes = positionsOf(forceRelayout(tree, { mode: 'horizontal' }))
+    const u1 = nodes.get('u1')
+    const a1 = nodes.get('a1')
+    expect(a1?.position.x).toBeGreaterThan(u1?.position.x ?? 0)
+    expect(a1?.targetPosition).toBe(Position.Left)
+    expect(a1?.sourcePosition).toBe(Position.Right)
+  })
+
+  test('radial layout centers the root and spreads branches around it', () => {
+    const nodes = positionsOf(forceRelayout(tree, { mode: 'radial', nodeWidth: 200, nodeHeight: 100 }))
+    expect(nodes.get('u1')?.position).toEqual({ x: -100, y: -50 })
+    const distance = (id: string) =>
+      Math.hypot((nodes.get(id)?.position.x ?? 0) + 100, (nodes.get(id)?.position.y ?? 0) + 50)
+    expect(distance('u2')).toBeCloseTo(distance('u3'))
+    expect(distance('u2')).toBeGreaterThan(distance('a1'))
+    expect(nodes.get('u2')?.position).not.toEqual(nodes.get('u3')?.position)
+  })
+
+  test('new nodes are placed next to their saved parent in the layout direction', () => {
+    const savedPositions = { u1: { x: 0, y: 0 }, a1: { x: 500, y: 0 }, u2: { x: 1000, y: 0 } }
+    const nodes = positionsOf(applyTreeLayout(tree, { mode: 'horizontal', savedPositions }))
+    expect(nodes.get('a1')?.position).toEqual({ x: 500, y: 0 })
+    expect(nodes.get('u3')?.position.x).toBeGreaterThan(500)
+  })
+
+  test('compact layout estimates node height from content', () => {
+    const [short, long] = sessionToConversationTree({
+      id: 's',
+      name: 'test',
+      messages: [msg('short', 'user', 'hi'), msg('long', 'user', 'x'.repeat(200))],
+    }).nodes
+    expect(estimateNodeHeight(long)).toBeGreaterThan(estimateNodeHeight(short))
+  })
+})
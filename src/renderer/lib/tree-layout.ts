@@ -1,14 +1,36 @@
 /**
  * 对话树布局算法
- * 使用 dagre 实现垂直方向的自动布局
+ * 使用 dagre 实现垂直、水平和紧凑布局，径向（思维导图）布局由自身计算
  */
 
 import dagre from 'dagre'
-import type { ConversationNode, ConversationEdge, ConversationTree } from './conversation-tree-adapter'
+import { Position } from '@xyflow/react'
+import {
+  getMessagePreviewText,
+  isTreeEdge,
+  type ConversationNode,
+  type ConversationEdge,
+  type ConversationTree,
+} from './conversation-tree-adapter'
 
 // ============ 布局配置 ============
 
+/**
+ * 布局模式
+ * - vertical: 从上到下
+ * - horizontal: 从左到右
+ * - compact: 从上到下，节点高度按内容估算，间距更小
+ * - radial: 根节点居中，子孙节点按层级向外环形展开（思维导图）
+ */
+export type TreeLayoutMode = 'vertical' | 'horizontal' | 'compact' | 'radial'
+
+export const TREE_LAYOUT_MODES: TreeLayoutMode[] = ['vertical', 'horizontal', 'compact', 'radial']
+
+export const DEFAULT_TREE_LAYOUT_MODE: TreeLayoutMode = 'vertical'
+
 export interface TreeLayoutOptions {
+  /** 布局模式，设置后 direction 由模式决定 */
+  mode?: TreeLayoutMode
   /** 节点宽度 */
   nodeWidth?: number
   /** 节点高度 */
@@ -23,7 +45,10 @@ export interface TreeLayoutOptions {
   savedPositions?: Record<string, { x: number; y: number }>
 }
 
-const DEFAULT_OPTIONS: Required<Omit<TreeLayoutOptions, 'savedPositions'>> = {
+type ResolvedLayoutOptions = Required<Omit<TreeLayoutOptions, 'savedPositions'>>
+
+const DEFAULT_OPTIONS: ResolvedLayoutOptions = {
+  mode: DEFAULT_TREE_LAYOUT_MODE,
   nodeWidth: 280,
   nodeHeight: 120,
   horizontalSpacing: 80,   // 增加水平间距，避免分支节点过近
@@ -31,6 +56,21 @@ const DEFAULT_OPTIONS: Required<Omit<TreeLayoutOptions, 'savedPositions'>> = {
   direction: 'TB',
 }
 
+/** 各布局模式对默认配置的覆盖，horizontalSpacing 始终指同级节点之间的间距 */
+const MODE_OPTIONS: Record<TreeLayoutMode, Partial<ResolvedLayoutOptions>> = {
+  vertical: { direction: 'TB' },
+  horizontal: { direction: 'LR', horizontalSpacing: 40, verticalSpacing: 120 },
+  compact: { direction: 'TB', horizontalSpacing: 40, verticalSpacing: 60 },
+  radial: { direction: 'TB' },
+}
+
+// 紧凑布局估算节点高度用的尺寸，与节点组件的样式保持一致
+const NODE_CHROME_HEIGHT = 60 // 内边距、边框和头部
+const NODE_LINE_HEIGHT = 20
+const NODE_MAX_LINES = 3 // 内容预览最多显示 3 行
+const NODE_CHARS_PER_LINE = 32
+const NODE_EXTRA_ROW_HEIGHT = 24 // 标签、token、分支指示器等附加行
+
 // ============ 布局函数 ============
 
 /**
@@ -48,9 +88,34 @@ export function applyTreeLayout(
     return tree
   }
 
-  const opts = { ...DEFAULT_OPTIONS, ...options }
-  const savedPositions = options.savedPositions || {}
+  const opts = resolveOptions(options)
+  return assignHandlePositions(layoutWithSavedPositions(tree, opts, options.savedPositions || {}), opts.mode)
+}
+
+/**
+ * 解析布局选项：默认配置 < 布局模式配置 < 调用方传入的配置
+ */
+function resolveOptions(options: TreeLayoutOptions): ResolvedLayoutOptions {
+  const mode = options.mode ?? (options.direction === 'LR' ? 'horizontal' : DEFAULT_TREE_LAYOUT_MODE)
+  const { savedPositions: _, ...overrides } = options
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+  return {
+    ...DEFAULT_OPTIONS,
+    ...MODE_OPTIONS[mode],
+    ...defined,
+    mode,
+    direction: mode === 'horizontal' ? 'LR' : 'TB',
+  }
+}
 
+/**
+ * 保留已保存位置的节点，只为新节点计算位置
+ */
+function layoutWithSavedPositions(
+  tree: ConversationTree,
+  opts: ResolvedLayoutOptions,
+  savedPositions: Record<string, { x: number; y: number }>
+): ConversationTree {
   // 分离已有位置的节点和需要布局的新节点
   const nodesWithSavedPosition: ConversationNode[] = []
   const nodesNeedingLayout: ConversationNode[] = []
@@ -90,6 +155,7 @@ export function applyTreeLayout(
   const childrenMap = new Map<string, string[]>()
   
   for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
     parentMap.set(edge.target, edge.source)
     const children = childrenMap.get(edge.source) || []
     children.push(edge.target)
@@ -101,39 +167,61 @@ export function applyTreeLayout(
     return (a.data.depth || 0) - (b.data.depth || 0)
   })
 
+  // 径向布局中新节点沿用完整布局中相对父节点的偏移，其余布局沿父子方向向外排列
+  const radialPositions =
+    opts.mode === 'radial' ? new Map(applyRadialLayout(tree, opts).nodes.map((n) => [n.id, n.position])) : null
+  const nodeMap = new Map(tree.nodes.map((n) => [n.id, n]))
+  const isHorizontal = opts.direction === 'LR'
+  // 主轴：父节点指向子节点的方向；交叉轴：兄弟节点排列的方向
+  const crossSize = isHorizontal ? opts.nodeHeight : opts.nodeWidth
+  const toPosition = (main: number, cross: number) => (isHorizontal ? { x: main, y: cross } : { x: cross, y: main })
+  const mainOf = (pos: { x: number; y: number }) => (isHorizontal ? pos.x : pos.y)
+  const crossOf = (pos: { x: number; y: number }) => (isHorizontal ? pos.y : pos.x)
+
   for (const node of sortedNewNodes) {
     const parentId = parentMap.get(node.id)
     let position = { x: 0, y: 0 }
 
-    if (parentId && nodePositionMap.has(parentId)) {
+    const savedParentPos = parentId ? nodePositionMap.get(parentId) : undefined
+    const radialPos = radialPositions?.get(node.id)
+    const radialParentPos = parentId ? radialPositions?.get(parentId) : undefined
+
+    if (savedParentPos && radialPos && radialParentPos) {
+      position = {
+        x: savedParentPos.x + radialPos.x - radialParentPos.x,
+        y: savedParentPos.y + radialPos.y - radialParentPos.y,
+      }
+    } else if (parentId && nodePositionMap.has(parentId)) {
       const parentPos = nodePositionMap.get(parentId)!
       const siblings = childrenMap.get(parentId) || []
       const siblingIndex = siblings.indexOf(node.id)
       const totalSiblings = siblings.length
+      const parentNode = nodeMap.get(parentId)
+      const parentMainSize = isHorizontal ? opts.nodeWidth : parentNode ? getNodeHeight(parentNode, opts) : opts.nodeHeight
       
-      // 计算水平偏移：如果有多个兄弟节点，需要分散排列
-      let xOffset = 0
+      // 计算交叉轴偏移：如果有多个兄弟节点，需要分散排列
+      let crossOffset = 0
       if (totalSiblings > 1) {
         // 计算已存在兄弟节点的位置，找到合适的空位
         const existingSiblingPositions = siblings
           .filter(id => id !== node.id && nodePositionMap.has(id))
-          .map(id => nodePositionMap.get(id)!.x)
+          .map(id => crossOf(nodePositionMap.get(id)!))
         
         if (existingSiblingPositions.length > 0) {
-          // 在现有兄弟节点的右侧放置
-          const maxX = Math.max(...existingSiblingPositions)
-          xOffset = maxX - parentPos.x + opts.nodeWidth + opts.horizontalSpacing
+          // 在现有兄弟节点之后放置
+          const maxCross = Math.max(...existingSiblingPositions)
+          crossOffset = maxCross - crossOf(parentPos) + crossSize + opts.horizontalSpacing
         } else {
           // 第一个子节点，根据索引计算偏移
           const centerOffset = (totalSiblings - 1) / 2
-          xOffset = (siblingIndex - centerOffset) * (opts.nodeWidth + opts.horizontalSpacing)
+          crossOffset = (siblingIndex - centerOffset) * (crossSize + opts.horizontalSpacing)
         }
       }
       
-      position = {
-        x: parentPos.x + xOffset,
-        y: parentPos.y + opts.nodeHeight + opts.verticalSpacing,
-      }
+      position = toPosition(
+        mainOf(parentPos) + parentMainSize + opts.verticalSpacing,
+        crossOf(parentPos) + crossOffset
+      )
     } else {
       // 没有父节点或父节点位置未知，使用 dagre 计算
       const tempTree = { ...tree, nodes: [node], edges: [] }
@@ -155,13 +243,14 @@ export function applyTreeLayout(
 }
 
 /**
- * 应用完整的自动布局（使用 dagre）
+ * 应用完整的自动布局（径向布局之外使用 dagre）
  * 针对分支情况进行优化，确保足够的垂直间距
  */
-function applyFullAutoLayout(
-  tree: ConversationTree,
-  opts: Required<Omit<TreeLayoutOptions, 'savedPositions'>>
-): ConversationTree {
+function applyFullAutoLayout(tree: ConversationTree, opts: ResolvedLayoutOptions): ConversationTree {
+  if (opts.mode === 'radial') {
+    return applyRadialLayout(tree, opts)
+  }
+
   // 创建 dagre 图
   const g = new dagre.graphlib.Graph()
   g.setGraph({
@@ -179,12 +268,13 @@ function applyFullAutoLayout(
   for (const node of tree.nodes) {
     g.setNode(node.id, {
       width: opts.nodeWidth,
-      height: opts.nodeHeight,
+      height: getNodeHeight(node, opts),
     })
   }
 
-  // 添加边
+  // 添加边（只使用树结构边，合并边不影响布局）
   for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
     g.setEdge(edge.source, edge.target)
   }
 
@@ -203,7 +293,99 @@ function applyFullAutoLayout(
       position: {
         // dagre 返回的是节点中心点，需要转换为左上角
         x: nodeWithPosition.x - opts.nodeWidth / 2,
-        y: nodeWithPosition.y - opts.nodeHeight / 2,
+        y: nodeWithPosition.y - nodeWithPosition.height / 2,
+      },
+    }
+  })
+
+  return {
+    ...tree,
+    nodes: layoutedNodes,
+  }
+}
+
+/**
+ * 径向布局：根节点位于中心，每层节点分布在同心圆上
+ * 每个节点占据的角度与其子树的叶子数成正比，子节点在父节点的角度范围内展开
+ */
+function applyRadialLayout(tree: ConversationTree, opts: ResolvedLayoutOptions): ConversationTree {
+  const childrenMap = new Map<string, string[]>()
+  const childIds = new Set<string>()
+  for (const edge of tree.edges) {
+    if (!isTreeEdge(edge)) continue
+    const children = childrenMap.get(edge.source) || []
+    children.push(edge.target)
+    childrenMap.set(edge.source, children)
+    childIds.add(edge.target)
+  }
+  const roots = tree.nodes.filter((n) => !childIds.has(n.id)).map((n) => n.id)
+
+  // 广度优先确定层级，再倒序累计子树叶子数
+  // 只有一个根节点时根位于圆心，多个根节点时分布在第一层
+  const depthOffset = roots.length === 1 ? 0 : 1
+  const depths = new Map<string, number>()
+  const order: string[] = []
+  const queue = roots.map((id) => ({ id, depth: depthOffset }))
+  for (let i = 0; i < queue.length; i++) {
+    const { id, depth } = queue[i]
+    if (depths.has(id)) continue
+    depths.set(id, depth)
+    order.push(id)
+    for (const childId of childrenMap.get(id) || []) {
+      queue.push({ id: childId, depth: depth + 1 })
+    }
+  }
+  const leafCounts = new Map<string, number>()
+  for (const id of [...order].reverse()) {
+    const children = childrenMap.get(id) || []
+    leafCounts.set(id, children.length === 0 ? 1 : children.reduce((sum, c) => sum + (leafCounts.get(c) || 0), 0))
+  }
+
+  // 每层半径至少比上一层大一个节点尺寸，并保证该层节点沿圆周排开时不重叠
+  const countsByDepth: number[] = []
+  for (const depth of depths.values()) {
+    countsByDepth[depth] = (countsByDepth[depth] || 0) + 1
+  }
+  const ringStep = Math.max(opts.nodeWidth, opts.nodeHeight) + opts.horizontalSpacing
+  const radii: number[] = []
+  for (let depth = 0; depth < countsByDepth.length; depth++) {
+    const minRadius = depth === 0 ? 0 : (radii[depth - 1] ?? 0) + ringStep
+    const circumferenceRadius = ((countsByDepth[depth] || 0) * (opts.nodeWidth + opts.horizontalSpacing)) / (2 * Math.PI)
+    radii[depth] = depth === 0 && depthOffset === 0 ? 0 : Math.max(minRadius, circumferenceRadius)
+  }
+
+  // 按叶子数分配角度范围，节点位于其范围的中间
+  const angles = new Map<string, number>()
+  const totalLeaves = roots.reduce((sum, id) => sum + (leafCounts.get(id) || 1), 0)
+  const stack: Array<{ id: string; start: number; end: number }> = []
+  let cursor = -Math.PI / 2
+  for (const id of roots) {
+    const span = ((leafCounts.get(id) || 1) / totalLeaves) * 2 * Math.PI
+    stack.push({ id, start: cursor, end: cursor + span })
+    cursor += span
+  }
+  for (let item = stack.pop(); item; item = stack.pop()) {
+    const { id, start, end } = item
+    if (angles.has(id)) continue
+    angles.set(id, (start + end) / 2)
+    const children = childrenMap.get(id) || []
+    const leaves = leafCounts.get(id) || 1
+    let childStart = start
+    for (const childId of children) {
+      const span = ((leafCounts.get(childId) || 1) / leaves) * (end - start)
+      stack.push({ id: childId, start: childStart, end: childStart + span })
+      childStart += span
+    }
+  }
+
+  const layoutedNodes: ConversationNode[] = tree.nodes.map((node) => {
+    const radius = radii[depths.get(node.id) ?? 0] ?? 0
+    const angle = angles.get(node.id) ?? 0
+    return {
+      ...node,
+      position: {
+        x: radius * Math.cos(angle) - opts.nodeWidth / 2,
+        y: radius * Math.sin(angle) - opts.nodeHeight / 2,
       },
     }
   })
@@ -214,6 +396,69 @@ function applyFullAutoLayout(
   }
 }
 
+/**
+ * 根据布局模式和节点位置设置连接点方向
+ * 径向布局中连接点朝向远离根节点的方向，其余布局与布局方向一致
+ */
+function assignHandlePositions(tree: ConversationTree, mode: TreeLayoutMode): ConversationTree {
+  if (mode !== 'radial') {
+    const [targetPosition, sourcePosition] =
+      mode === 'horizontal' ? [Position.Left, Position.Right] : [Position.Top, Position.Bottom]
+    return {
+      ...tree,
+      nodes: tree.nodes.map((node) => ({ ...node, targetPosition, sourcePosition })),
+    }
+  }
+
+  const root = tree.nodes.find((n) => n.id === tree.rootId)
+  const center = root?.position ?? { x: 0, y: 0 }
+  return {
+    ...tree,
+    nodes: tree.nodes.map((node) => {
+      const dx = node.position.x - center.x
+      const dy = node.position.y - center.y
+      if (node.id === tree.rootId || (dx === 0 && dy === 0)) {
+        return { ...node, targetPosition: Position.Top, sourcePosition: Position.Bottom }
+      }
+      if (Math.abs(dx) > Math.abs(dy)) {
+        return dx > 0
+          ? { ...node, targetPosition: Position.Left, sourcePosition: Position.Right }
+          : { ...node, targetPosition: Position.Right, sourcePosition: Position.Left }
+      }
+      return dy > 0
+        ? { ...node, targetPosition: Position.Top, sourcePosition: Position.Bottom }
+        : { ...node, targetPosition: Position.Bottom, sourcePosition: Position.Top }
+    }),
+  }
+}
+
+/**
+ * 获取节点在布局中的高度，紧凑布局按内容估算
+ */
+function getNodeHeight(node: ConversationNode, opts: ResolvedLayoutOptions): number {
+  return opts.mode === 'compact' ? estimateNodeHeight(node) : opts.nodeHeight
+}
+
+/**
+ * 按节点内容估算节点渲染后的高度（全角字符按两个字符宽度计算）
+ */
+export function estimateNodeHeight(node: ConversationNode): number {
+  const { data } = node
+  const preview = getMessagePreviewText(data.message, 100)
+  let textWidth = 0
+  for (const char of preview) {
+    textWidth += char.charCodeAt(0) > 0x2e80 ? 2 : 1
+  }
+  const lines = Math.min(NODE_MAX_LINES, Math.max(1, Math.ceil(textWidth / NODE_CHARS_PER_LINE)))
+  const extraRows = [
+    !!data.branchName || !!data.message.tags?.length || !!data.message.bookmarked,
+    data.type === 'assistant' && !!data.message.usage?.totalTokens,
+    data.branchCount > 1,
+    !!data.collapsedSummary,
+  ].filter(Boolean).length
+  return NODE_CHROME_HEIGHT + lines * NODE_LINE_HEIGHT + extraRows * NODE_EXTRA_ROW_HEIGHT
+}
+
 /**
  * 计算树的边界框
  */
@@ -328,6 +573,6 @@ export function forceRelayout(
   if (tree.nodes.length === 0) {
     return tree
   }
-  const opts = { ...DEFAULT_OPTIONS, ...options }
-  return applyFullAutoLayout(tree, opts)
+  const opts = resolveOptions(options)
+  return assignHandlePositions(applyFullAutoLayout(tree, opts), opts.mode)
 }
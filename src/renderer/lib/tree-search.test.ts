@@ -0,0 +1,42 @@
+import type { Message } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { matchesTreeSearch, parseTreeSearchQuery } from './tree-search'
+
+const message: Message = {
+  id: 'a1',
+  role: 'assistant',
+  model: 'GPT-4o',
+  timestamp: new Date(2024, 4, 1, 9, 30).getTime(),
+  contentParts: [{ type: 'text', text: 'Use a Binary Search here' }],
+}
+
+const matches = (query: string) => matchesTreeSearch(message, parseTreeSearchQuery(query))
+
+describe('tree-search', () => {
+  test('parses qualified and plain terms', () => {
+    expect(parseTreeSearchQuery('  Binary  role:User model: ')).toEqual([
+      { value: 'binary' },
+      { field: 'role', value: 'user' },
+    ])
+    expect(parseTreeSearchQuery('http://x')).toEqual([{ value: 'http://x' }])
+  })
+
+  test('plain terms match text, role, model or date', () => {
+    expect(matches('binary search')).toBe(true)
+    expect(matches('assistant')).toBe(true)
+    expect(matches('gpt-4o')).toBe(true)
+    expect(matches('2024-05-01')).toBe(true)
+    expect(matches('binary linear')).toBe(false)
+  })
+
+  test('qualified terms only match their field', () => {
+    expect(matches('role:assistant model:gpt')).toBe(true)
+    expect(matches('role:user')).toBe(false)
+    expect(matches('model:binary')).toBe(false)
+    expect(matches('date:2024-05-01 09:30')).toBe(true)
+  })
+
+  test('an empty query matches nothing', () => {
+    expect(matches('   ')).toBe(false)
+  })
+})
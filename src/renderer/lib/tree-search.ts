@@ -0,0 +1,84 @@
+/**
+ * 对话树搜索
+ * 按消息文本、角色、模型和日期匹配树中的节点
+ *
+ * 查询语法：空格分隔的多个条件需同时满足
+ * - 普通关键词：匹配文本、角色、模型或日期中的任意一项
+ * - role:xxx / model:xxx / date:xxx：只匹配对应字段
+ * 所有匹配均不区分大小写，日期格式为 YYYY-MM-DD HH:mm
+ */
+
+import dayjs from 'dayjs'
+import type { Message } from 'src/shared/types'
+import { getMessageText } from 'src/shared/utils/message'
+import type { ConversationTree } from './conversation-tree-adapter'
+
+// ============ 类型定义 ============
+
+/** 可限定的搜索字段 */
+export type TreeSearchField = 'role' | 'model' | 'date'
+
+/** 单个搜索条件，field 为空表示匹配任意字段 */
+export interface TreeSearchTerm {
+  field?: TreeSearchField
+  value: string
+}
+
+const SEARCH_FIELDS: TreeSearchField[] = ['role', 'model', 'date']
+
+// ============ 核心函数 ============
+
+/**
+ * 解析搜索查询
+ */
+export function parseTreeSearchQuery(query: string): TreeSearchTerm[] {
+  const terms: TreeSearchTerm[] = []
+  for (const token of query.trim().toLowerCase().split(/\s+/)) {
+    if (!token) continue
+    const separator = token.indexOf(':')
+    const field = token.slice(0, separator) as TreeSearchField
+    if (separator > 0 && SEARCH_FIELDS.includes(field)) {
+      const value = token.slice(separator + 1)
+      if (value) {
+        terms.push({ field, value })
+      }
+      continue
+    }
+    terms.push({ value: token })
+  }
+  return terms
+}
+
+/**
+ * 判断消息是否满足所有搜索条件
+ */
+export function matchesTreeSearch(message: Message, terms: TreeSearchTerm[]): boolean {
+  if (terms.length === 0) {
+    return false
+  }
+  const fields: Record<TreeSearchField, string> = {
+    role: message.role,
+    model: (message.model || '').toLowerCase(),
+    date: message.timestamp ? dayjs(message.timestamp).format('YYYY-MM-DD HH:mm') : '',
+  }
+  let text: string | undefined
+  return terms.every((term) => {
+    if (term.field) {
+      return fields[term.field].includes(term.value)
+    }
+    text ??= getMessageText(message, false, false).toLowerCase()
+    return text.includes(term.value) || SEARCH_FIELDS.some((field) => fields[field].includes(term.value))
+  })
+}
+
+/**
+ * 在对话树中搜索节点
+ * @returns 匹配节点的ID，按树中的顺序排列；查询为空时返回空数组
+ */
+export function searchConversationTree(tree: ConversationTree, query: string): string[] {
+  const terms = parseTreeSearchQuery(query)
+  if (terms.length === 0) {
+    return []
+  }
+  return tree.nodes.filter((node) => matchesTreeSearch(node.data.message, terms)).map((node) => node.id)
+}
@@ -0,0 +1,149 @@
+import { type Message, ModelProviderType, type Session } from 'src/shared/types'
+import { describe, expect, test } from 'vitest'
+import { msg } from './test-utils'
+import {
+  computeSessionTreeStats,
+  createCachedInputResolver,
+  createPricingResolver,
+  estimateMessageCost,
+  getMessageTokenTotals,
+} from './tree-stats'
+
+const user = (id: string, timestamp?: number): Message => msg(id, 'user', { timestamp })
+
+const reply = (id: string, model: string, inputTokens: number, outputTokens: number, latency?: number): Message =>
+  msg(id, 'assistant', {
+    aiProvider: 'openai',
+    model,
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    firstTokenLatency: latency,
+  })
+
+// u1 ─ a1 ─┬─ u2 ─ a2   (active, gpt-4o)
+//          └─ u3 ─ a3   (mini)
+const session: Session = {
+  id: 'session',
+  name: 'test',
+  messages: [
+    user('u1', 1),
+    reply('a1', 'OpenAI API (gpt-4o)', 1000, 500, 300),
+    user('u2', 3),
+    reply('a2', 'OpenAI API (gpt-4o)', 2000, 1000, 500),
+  ],
+  messageForksHash: {
+    a1: {
+      position: 0,
+      createdAt: 0,
+      lists: [
+        { id: 'l0', messages: [] },
+        { id: 'l1', name: 'cheap', messages: [user('u3', 2), reply('a3', 'OpenAI API (mini)', 1000, 1000)] },
+      ],
+    },
+  },
+}
+
+const resolvePricing = createPricingResolver([
+  { id: 'openai', models: [{ modelId: 'gpt-4o', pricing: { input: 2, output: 10 } }, { modelId: 'mini' }] },
+])
+
+describe('estimateMessageCost', () => {
+  test('prices cached input tokens separately', () => {
+    const tokens = {
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      cachedInputTokens: 400_000,
+      totalTokens: 1_000_000,
+    }
+    expect(estimateMessageCost(tokens, { input: 2, cachedInput: 0.5 })).toBeCloseTo(1.4)
+    expect(estimateMessageCost(tokens, { input: 2 })).toBeCloseTo(2)
+    expect(estimateMessageCost(tokens, undefined)).toBeNull()
+  })
+})
+
+describe('getMessageTokenTotals', () => {
+  const claudeReply = (usage: Message['usage']): Message => ({
+    id: 'c',
+    role: 'assistant',
+    contentParts: [],
+    aiProvider: 'claude',
+    model: 'Claude (claude-sonnet-4-0)',
+    usage,
+  })
+  // 旧版本保存的 Anthropic 用量，inputTokens 不含缓存命中的 token
+  const legacy = claudeReply({ inputTokens: 200, outputTokens: 100, totalTokens: 300, cachedInputTokens: 800 })
+  const normalized = claudeReply({
+    inputTokens: 1000,
+    outputTokens: 100,
+    totalTokens: 1100,
+    cachedInputTokens: 800,
+    cachedInputIncluded: true,
+  })
+
+  test('adds cached tokens to the input of providers that report them separately', () => {
+    expect(getMessageTokenTotals(legacy, true)).toMatchObject({ inputTokens: 1000, totalTokens: 1100 })
+    expect(getMessageTokenTotals(normalized, true)).toMatchObject({ inputTokens: 1000, totalTokens: 1100 })
+    expect(getMessageTokenTotals(legacy)).toMatchObject({ inputTokens: 200, totalTokens: 300 })
+  })
+
+  test('prices the cache reads of legacy Anthropic usage', () => {
+    const resolveCachedInput = createCachedInputResolver([
+      { id: 'claude', type: ModelProviderType.Claude },
+      { id: 'openai', type: ModelProviderType.OpenAI },
+    ])
+    expect(resolveCachedInput(legacy)).toBe(true)
+    expect(resolveCachedInput({ ...legacy, aiProvider: 'openai' })).toBe(false)
+
+    const stats = computeSessionTreeStats(
+      { id: 's', name: 's', messages: [user('u1'), legacy] },
+      createPricingResolver([
+        {
+          id: 'claude',
+          models: [{ modelId: 'claude-sonnet-4-0', pricing: { input: 3, cachedInput: 0.3, output: 15 } }],
+        },
+      ]),
+      resolveCachedInput
+    )
+    // 200 * 3 + 800 * 0.3 + 100 * 15 = 2340 per million
+    expect(stats.totals.cost).toBeCloseTo(0.00234)
+    expect(stats.totals.inputTokens).toBe(1000)
+  })
+})
+
+describe('computeSessionTreeStats', () => {
+  const stats = computeSessionTreeStats(session, resolvePricing)
+
+  test('splits the tree into branches that add up to the session totals', () => {
+    expect(stats.branches.map((b) => [b.headId, b.messageCount, b.isActive])).toEqual([
+      ['u1', 2, true],
+      ['u2', 2, true],
+      ['u3', 2, false],
+    ])
+    expect(stats.branches[2].name).toBe('cheap')
+    expect(stats.totals.totalTokens).toBe(6500)
+    expect(stats.branches.reduce((sum, b) => sum + b.totalTokens, 0)).toBe(stats.totals.totalTokens)
+    // 1000 * 2 + 500 * 10 + 2000 * 2 + 1000 * 10 = 21000 per million
+    expect(stats.totals.cost).toBeCloseTo(0.021)
+    expect(stats.totals.unpricedMessageCount).toBe(1)
+  })
+
+  test('groups usage and latency by model', () => {
+    expect(stats.models.map((m) => [m.model, m.messageCount, m.averageFirstTokenLatency])).toEqual([
+      ['OpenAI API (gpt-4o)', 2, 400],
+      ['OpenAI API (mini)', 1, null],
+    ])
+  })
+
+  test('measures the shape of the tree and orders the timeline', () => {
+    expect(stats.shape).toMatchObject({
+      messageCount: 6,
+      maxDepth: 4,
+      maxBreadth: 2,
+      leafCount: 2,
+      forkCount: 1,
+      branchCount: 3,
+      abandonedBranchCount: 1,
+    })
+    expect(stats.timeline.map((b) => b.headId)).toEqual(['u1', 'u3', 'u2'])
+  })
+})
@@ -0,0 +1,352 @@
+/**
+ * 会话树统计
+ * 按分支和模型汇总 token 用量与估算费用，并统计树的形状（深度、宽度、被放弃的分支）和分支创建时间线
+ * 价格来自用户在模型设置中填写的价格表（ProviderModelInfo.pricing），单位为美元 / 百万 token
+ */
+
+import {
+  type Message,
+  type MessageGraph,
+  type MessageGraphNode,
+  type ModelPricing,
+  ModelProviderType,
+  type ProviderModelInfo,
+  type Session,
+} from 'src/shared/types'
+import { getMessagePreviewText } from './conversation-tree-adapter'
+import { buildMessageGraph, getActiveMessages } from './message-graph'
+
+// ============ 类型定义 ============
+
+/** token 用量合计 */
+export interface TokenTotals {
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cachedInputTokens: number
+  totalTokens: number
+}
+
+/** token 用量和估算费用合计 */
+export interface CostTotals extends TokenTotals {
+  /** 估算费用（美元），只包含有价格的消息 */
+  cost: number
+  /** 有用量且有价格的消息数量 */
+  pricedMessageCount: number
+  /** 有用量但没有价格的消息数量，费用不完整时大于 0 */
+  unpricedMessageCount: number
+}
+
+/**
+ * 分支统计
+ * 分支指从分叉点的某个子节点开始、到下一个分叉点或叶子为止的一段消息，根节点开始的一段为主干，
+ * 每条消息只属于一个分支，各分支的合计相加即为会话合计
+ */
+export interface BranchStats extends CostTotals {
+  /** 分支第一条消息ID */
+  headId: string
+  /** 分叉点消息ID，主干为 null */
+  forkMessageId: string | null
+  /** 用户设置的分支名称 */
+  name?: string
+  /** 自动生成的分支标题 */
+  title?: string
+  /** 分支第一条消息的预览 */
+  preview: string
+  messageCount: number
+  /** 是否在当前活跃路径上，不在的分支视为被放弃的分支 */
+  isActive: boolean
+  /** 分支第一条消息的时间 */
+  createdAt?: number
+}
+
+/** 模型统计 */
+export interface ModelStats extends CostTotals {
+  /** 供应商和模型名组成的 key */
+  key: string
+  provider?: string
+  /** 消息上记录的模型名 */
+  model: string
+  messageCount: number
+  /** 平均首 token 延迟（毫秒），没有记录时为 null */
+  averageFirstTokenLatency: number | null
+}
+
+/** 树的形状 */
+export interface TreeShapeStats {
+  messageCount: number
+  /** 最深路径上的消息数量 */
+  maxDepth: number
+  /** 同一层上最多的消息数量 */
+  maxBreadth: number
+  leafCount: number
+  /** 有多个子节点的消息数量 */
+  forkCount: number
+  /** 分支数量（含主干） */
+  branchCount: number
+  /** 不在活跃路径上的分支数量 */
+  abandonedBranchCount: number
+}
+
+/** 会话统计 */
+export interface SessionTreeStats {
+  totals: CostTotals
+  shape: TreeShapeStats
+  branches: BranchStats[]
+  /** 按费用（没有价格时按 token）从高到低排列 */
+  models: ModelStats[]
+  /** 有创建时间的分支，按时间排列 */
+  timeline: BranchStats[]
+}
+
+/** 获取消息对应模型的价格 */
+export type PricingResolver = (message: Message) => ModelPricing | undefined
+
+/** 判断消息的供应商是否单独报告缓存命中的输入 token（不计入 inputTokens） */
+export type CachedInputResolver = (message: Message) => boolean
+
+/** 查找价格所需的供应商信息 */
+interface PricedProvider {
+  id: string
+  type?: ModelProviderType
+  models?: ProviderModelInfo[]
+  defaultSettings?: { models?: ProviderModelInfo[] }
+}
+
+// ============ 常量 ============
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000
+
+// ============ 工具函数 ============
+
+/**
+ * 读取消息的 token 用量，兼容只有 tokensUsed 的旧消息
+ * @param usageExcludesCachedInput 供应商单独报告缓存命中的 token 时为 true，
+ *   此前保存的用量中 inputTokens 不含缓存命中的 token，读取时补上
+ */
+export function getMessageTokenTotals(message: Message, usageExcludesCachedInput = false): TokenTotals {
+  const usage = message.usage
+  const cachedInputTokens = usage?.cachedInputTokens ?? 0
+  const missingCachedTokens = usageExcludesCachedInput && !usage?.cachedInputIncluded ? cachedInputTokens : 0
+  const inputTokens = (usage?.inputTokens ?? 0) + missingCachedTokens
+  const outputTokens = usage?.outputTokens ?? 0
+  return {
+    inputTokens,
+    outputTokens,
+    reasoningTokens: usage?.reasoningTokens ?? 0,
+    cachedInputTokens,
+    totalTokens:
+      (usage?.totalTokens ? usage.totalTokens + missingCachedTokens : 0) ||
+      inputTokens + outputTokens ||
+      message.tokensUsed ||
+      0,
+  }
+}
+
+/**
+ * 估算一条消息的费用
+ * 缓存命中的输入 token 使用缓存价格（未设置时按输入价格），推理 token 已包含在输出 token 中
+ * @returns 没有价格时返回 null
+ */
+export function estimateMessageCost(tokens: TokenTotals, pricing: ModelPricing | undefined): number | null {
+  if (!pricing || (pricing.input === undefined && pricing.output === undefined)) {
+    return null
+  }
+  const inputPrice = pricing.input ?? 0
+  const cachedTokens = Math.min(tokens.cachedInputTokens, tokens.inputTokens)
+  const cost =
+    (tokens.inputTokens - cachedTokens) * inputPrice +
+    cachedTokens * (pricing.cachedInput ?? inputPrice) +
+    tokens.outputTokens * (pricing.output ?? 0)
+  return cost / TOKENS_PER_PRICE_UNIT
+}
+
+/**
+ * 创建按供应商模型列表查找价格的函数
+ * 消息上记录的是模型显示名（如 `OpenAI API (gpt-4o)`），取括号中的部分按模型ID或昵称匹配
+ */
+export function createPricingResolver(providers: PricedProvider[]): PricingResolver {
+  const providerMap = new Map(providers.map((provider) => [provider.id, provider]))
+  return (message) => {
+    if (!message.model) {
+      return undefined
+    }
+    const name = message.model.match(/\(([^()]+)\)\s*$/)?.[1] ?? message.model
+    const candidates = message.aiProvider ? [providerMap.get(message.aiProvider)] : providers
+    for (const provider of candidates) {
+      const models = provider?.models ?? provider?.defaultSettings?.models ?? []
+      const model = models.find((m) => m.modelId === name || m.nickname === name)
+      if (model?.pricing) {
+        return model.pricing
+      }
+    }
+    return undefined
+  }
+}
+
+/**
+ * 创建按供应商类型判断用量格式的函数，Claude 类型的供应商单独报告缓存命中的 token
+ */
+export function createCachedInputResolver(providers: PricedProvider[]): CachedInputResolver {
+  const excluded = new Set(
+    providers.filter((provider) => provider.type === ModelProviderType.Claude).map((provider) => provider.id)
+  )
+  return (message) => !!message.aiProvider && excluded.has(message.aiProvider)
+}
+
+/**
+ * 统计会话树
+ */
+export function computeSessionTreeStats(
+  session: Session,
+  resolvePricing: PricingResolver,
+  usageExcludesCachedInput: CachedInputResolver = () => false
+): SessionTreeStats {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const activePathIds = new Set(getActiveMessages(graph).map((m) => m.id))
+  const totals = createCostTotals()
+  const modelMap = new Map<string, ModelStats & { latencySum: number; latencyCount: number }>()
+  const branches: BranchStats[] = []
+  const levelCounts: number[] = []
+  let leafCount = 0
+  let forkCount = 0
+
+  const pending: Array<{ headId: string; forkMessageId: string | null; depth: number }> = graph.rootId
+    ? [{ headId: graph.rootId, forkMessageId: null, depth: 0 }]
+    : []
+  while (pending.length > 0) {
+    const { headId, forkMessageId, depth: headDepth } = pending.pop() as (typeof pending)[number]
+    const head = graph.nodes[headId]
+    if (!head) continue
+
+    const branch: BranchStats = {
+      ...createCostTotals(),
+      headId,
+      forkMessageId,
+      name: forkMessageId ? findBranchName(graph, forkMessageId, headId) : undefined,
+      title: session.branchSummaries?.[headId]?.title,
+      preview: getMessagePreviewText(head.message, 60),
+      messageCount: 0,
+      isActive: activePathIds.has(headId),
+      createdAt: head.message.timestamp,
+    }
+    branches.push(branch)
+
+    // 沿唯一的子节点走到分叉点或叶子
+    let node: MessageGraphNode | undefined = head
+    let depth = headDepth
+    while (node) {
+      levelCounts[depth] = (levelCounts[depth] ?? 0) + 1
+      branch.messageCount++
+
+      const tokens = getMessageTokenTotals(node.message, usageExcludesCachedInput(node.message))
+      const cost = tokens.totalTokens > 0 ? estimateMessageCost(tokens, resolvePricing(node.message)) : null
+      addUsage(totals, tokens, cost)
+      addUsage(branch, tokens, cost)
+      if (node.message.role === 'assistant' && node.message.model) {
+        const stats = getModelStats(modelMap, node.message)
+        stats.messageCount++
+        addUsage(stats, tokens, cost)
+        if (typeof node.message.firstTokenLatency === 'number') {
+          stats.latencySum += node.message.firstTokenLatency
+          stats.latencyCount++
+        }
+      }
+
+      const childIds: string[] = node.childIds.filter((id) => graph.nodes[id])
+      if (childIds.length === 1) {
+        node = graph.nodes[childIds[0]]
+        depth++
+        continue
+      }
+      if (childIds.length === 0) {
+        leafCount++
+      } else {
+        forkCount++
+        for (const childId of childIds.slice().reverse()) {
+          pending.push({ headId: childId, forkMessageId: node.message.id, depth: depth + 1 })
+        }
+      }
+      node = undefined
+    }
+  }
+
+  const models = Array.from(modelMap.values())
+    .map(({ latencySum, latencyCount, ...stats }) => ({
+      ...stats,
+      averageFirstTokenLatency: latencyCount > 0 ? latencySum / latencyCount : null,
+    }))
+    .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+
+  return {
+    totals,
+    shape: {
+      messageCount: levelCounts.reduce((sum, count) => sum + count, 0),
+      maxDepth: levelCounts.length,
+      maxBreadth: Math.max(0, ...levelCounts),
+      leafCount,
+      forkCount,
+      branchCount: branches.length,
+      abandonedBranchCount: branches.filter((branch) => !branch.isActive).length,
+    },
+    branches,
+    models,
+    timeline: branches
+      .filter((branch) => branch.createdAt !== undefined)
+      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0)),
+  }
+}
+
+function createCostTotals(): CostTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    pricedMessageCount: 0,
+    unpricedMessageCount: 0,
+  }
+}
+
+function addUsage(target: CostTotals, tokens: TokenTotals, cost: number | null): void {
+  target.inputTokens += tokens.inputTokens
+  target.outputTokens += tokens.outputTokens
+  target.reasoningTokens += tokens.reasoningTokens
+  target.cachedInputTokens += tokens.cachedInputTokens
+  target.totalTokens += tokens.totalTokens
+  if (cost !== null) {
+    target.cost += cost
+    target.pricedMessageCount++
+  } else if (tokens.totalTokens > 0) {
+    target.unpricedMessageCount++
+  }
+}
+
+function getModelStats(
+  modelMap: Map<string, ModelStats & { latencySum: number; latencyCount: number }>,
+  message: Message
+): ModelStats & { latencySum: number; latencyCount: number } {
+  const model = message.model ?? ''
+  const key = `${message.aiProvider ?? ''}|${model}`
+  let stats = modelMap.get(key)
+  if (!stats) {
+    stats = {
+      ...createCostTotals(),
+      key,
+      provider: message.aiProvider,
+      model,
+      messageCount: 0,
+      averageFirstTokenLatency: null,
+      latencySum: 0,
+      latencyCount: 0,
+    }
+    modelMap.set(key, stats)
+  }
+  return stats
+}
+
+function findBranchName(graph: MessageGraph, forkMessageId: string, headId: string): string | undefined {
+  return graph.nodes[forkMessageId]?.fork?.lists.find((list) => list.headId === headId)?.name
+}
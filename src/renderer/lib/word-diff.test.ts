@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest'
+import { diffWords, getDiffSimilarity, tokenizeWords } from './word-diff'
+
+const join = (segments: ReturnType<typeof diffWords>, type: 'insert' | 'delete') =>
+  segments
+    .filter((s) => s.type !== type)
+    .map((s) => s.text)
+    .join('')
+
+describe('word-diff', () => {
+  test('tokenizes words, whitespace, punctuation and CJK characters', () => {
+    expect(tokenizeWords('Hello, world!')).toEqual(['Hello', ',', ' ', 'world', '!'])
+    expect(tokenizeWords('使用 React')).toEqual(['使', '用', ' ', 'React'])
+  })
+
+  test('identical texts produce a single equal segment', () => {
+    const segments = diffWords('the same text', 'the same text')
+    expect(segments).toEqual([{ type: 'equal', text: 'the same text' }])
+    expect(getDiffSimilarity(segments)).toBe(1)
+  })
+
+  test('marks replaced words as delete + insert', () => {
+    const segments = diffWords('use a map here', 'use a set here')
+    expect(segments).toEqual([
+      { type: 'equal', text: 'use a ' },
+      { type: 'delete', text: 'map' },
+      { type: 'insert', text: 'set' },
+      { type: 'equal', text: ' here' },
+    ])
+  })
+
+  test('segments can rebuild both sides', () => {
+    const oldText = 'First, install the package. Then run the build script.'
+    const newText = 'First install the dependencies, then run the test script twice.'
+    const segments = diffWords(oldText, newText)
+    expect(join(segments, 'insert')).toBe(oldText)
+    expect(join(segments, 'delete')).toBe(newText)
+  })
+
+  test('handles empty inputs', () => {
+    expect(diffWords('', 'new')).toEqual([{ type: 'insert', text: 'new' }])
+    expect(diffWords('old', '')).toEqual([{ type: 'delete', text: 'old' }])
+    expect(getDiffSimilarity(diffWords('', ''))).toBe(1)
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * 词级文本差异计算
+ * 基于最长公共子序列（LCS），用于对比同级分支的回复内容
+ */
+
+// ============ 类型定义 ============
+
+/** 差异片段类型：equal 两侧相同，insert 仅存在于新文本，delete 仅存在于旧文本 */
+export type DiffSegmentType = 'equal' | 'insert' | 'delete'
+
+/** 差异片段 */
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+// ============ 常量 ============
+
+/** LCS 矩阵的最大单元格数，超过时不再逐词对比，避免长文本卡顿 */
+const MAX_LCS_CELLS = 4_000_000
+
+/** 中日韩字符逐字切分，其余文字按连续的字母数字切分 */
+const TOKEN_REGEX = /\s+|[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]|(?:(?![\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af])[\p{L}\p{N}_])+|[^\s]/gu
+
+// ============ 核心函数 ============
+
+/**
+ * 将文本切分为词、空白和标点
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(TOKEN_REGEX) ?? []
+}
+
+/**
+ * 计算两段文本的词级差异
+ * @param oldText 基准文本
+ * @param newText 对比文本
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const oldTokens = tokenizeWords(oldText)
+  const newTokens = tokenizeWords(newText)
+
+  // 去掉公共前缀和后缀，缩小 LCS 的计算范围
+  let prefix = 0
+  while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (type: DiffSegmentType, text: string) => {
+    if (!text) return
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      segments.push({ type, text })
+    }
+  }
+
+  push('equal', oldTokens.slice(0, prefix).join(''))
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix)
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix)
+  for (const segment of diffTokens(oldMiddle, newMiddle)) {
+    push(segment.type, segment.text)
+  }
+  push('equal', oldTokens.slice(oldTokens.length - suffix).join(''))
+
+  return segments
+}
+
+/**
+ * 计算差异片段中未改动内容的占比（0-1），两段文本都为空时返回 1
+ */
+export function getDiffSimilarity(segments: DiffSegment[]): number {
+  let equal = 0
+  let total = 0
+  for (const segment of segments) {
+    const length = segment.text.length
+    total += segment.type === 'equal' ? length * 2 : length
+    if (segment.type === 'equal') {
+      equal += length * 2
+    }
+  }
+  return total === 0 ? 1 : equal / total
+}
+
+// ============ 内部函数 ============
+
+function diffTokens(oldTokens: string[], newTokens: string[]): DiffSegment[] {
+  const n = oldTokens.length
+  const m = newTokens.length
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      { type: 'delete', text: oldTokens.join('') },
+      { type: 'insert', text: newTokens.join('') },
+    ]
+  }
+
+  // lengths[i * (m + 1) + j] = oldTokens[i..] 与 newTokens[j..] 的 LCS 长度
+  const width = m + 1
+  const lengths = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldTokens[i] === newTokens[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const result: DiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (oldTokens[i] === newTokens[j]) {
+      result.push({ type: 'equal', text: oldTokens[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: 'delete', text: oldTokens[i] })
+      i++
+    } else {
+      result.push({ type: 'insert', text: newTokens[j] })
+      j++
+    }
+  }
+  for (; i < n; i++) {
+    result.push({ type: 'delete', text: oldTokens[i] })
+  }
+  for (; j < m; j++) {
+    result.push({ type: 'insert', text: newTokens[j] })
+  }
+  return result
+}
@@ -0,0 +1,192 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Badge, Button, Flex, ScrollArea, Stack, Switch, Text } from '@mantine/core'
+import { IconArrowUpCircle, IconScale } from '@tabler/icons-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { Message } from '@/../shared/types'
+import { getMessageText } from '@/../shared/utils/message'
+import { Modal } from '@/components/Overlay'
+import { indexSessionTree } from '@/lib/session-tree'
+import { cn } from '@/lib/utils'
+import { type DiffSegment, diffWords, getDiffSimilarity } from '@/lib/word-diff'
+import { useSession } from '@/stores/chatStore'
+import { switchToMessagePath } from '@/stores/sessionActions'
+import * as toastActions from '@/stores/toastActions'
+
+/** 对比模式支持的节点数量范围 */
+export const BRANCH_COMPARE_MIN = 2
+export const BRANCH_COMPARE_MAX = 4
+
+const BranchCompare = NiceModal.create((props: { sessionId: string; messageIds: string[] }) => {
+  const { sessionId, messageIds } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+  const [baselineId, setBaselineId] = useState(messageIds[0])
+  const [showDiff, setShowDiff] = useState(true)
+
+  // 从会话中实时获取消息，确保生成中的内容和切换分支后的状态是最新的
+  const messages = useMemo(() => {
+    if (!session) return []
+    const index = indexSessionTree(session)
+    return messageIds.map((id) => index.messages.get(id)).filter((m): m is Message => !!m)
+  }, [session, messageIds])
+
+  const activeIds = useMemo(() => new Set(session?.messages.map((m) => m.id) ?? []), [session?.messages])
+
+  const baselineIndex = Math.max(
+    messages.findIndex((m) => m.id === baselineId),
+    0
+  )
+  // 差异只依赖各列的文本：以文本为键缓存，会话的其他变化（用量统计、其他节点生成中等）不会重新计算 LCS
+  const textsKey = JSON.stringify(messages.map((message) => getMessageText(message, true, false)))
+  const diffs = useMemo(() => {
+    const texts: string[] = JSON.parse(textsKey)
+    return texts.map((text, i) => {
+      const segments: DiffSegment[] =
+        i === baselineIndex ? [{ type: 'equal', text }] : diffWords(texts[baselineIndex], text)
+      return { segments, similarity: getDiffSimilarity(segments) }
+    })
+  }, [textsKey, baselineIndex])
+
+  const onClose = () => {
+    modal.resolve()
+    modal.hide()
+  }
+
+  const onPromote = async (messageId: string) => {
+    await switchToMessagePath(sessionId, messageId)
+    toastActions.add(t('Switched to the selected branch'))
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={onClose} centered size="95%" title={t('Compare Branches')}>
+      <Flex justify="flex-end" mb="sm">
+        <Switch
+          size="xs"
+          checked={showDiff}
+          onChange={(e) => setShowDiff(e.currentTarget.checked)}
+          label={t('Highlight differences')}
+        />
+      </Flex>
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${Math.max(messages.length, 1)}, minmax(0, 1fr))` }}
+      >
+        {messages.map((message, messageIndex) => {
+          const { segments, similarity } = diffs[messageIndex]
+          const isBaseline = messageIndex === baselineIndex
+          const isActive = activeIds.has(message.id)
+          return (
+            <Stack
+              key={message.id}
+              gap="xs"
+              className={cn(
+                'rounded-md border border-solid p-sm min-w-0',
+                isActive ? 'border-green-400 dark:border-green-600' : 'border-chatbox-border-primary'
+              )}
+            >
+              <Flex gap="xs" align="center" wrap="wrap">
+                <Text size="sm" fw={600} className="truncate">
+                  {message.model || t(message.role)}
+                </Text>
+                {isActive && (
+                  <Badge size="xs" color="green" variant="light">
+                    {t('Active')}
+                  </Badge>
+                )}
+                {isBaseline ? (
+                  <Badge size="xs" color="gray" variant="light">
+                    {t('Baseline')}
+                  </Badge>
+                ) : (
+                  <Badge size="xs" color="blue" variant="light">
+                    {Math.round(similarity * 100)}% {t('similar')}
+                  </Badge>
+                )}
+              </Flex>
+
+              <table className="w-full text-xs text-chatbox-tertiary">
+                <tbody>
+                  <StatRow label={t('Provider')} value={message.aiProvider} />
+                  <StatRow label={t('Input tokens')} value={message.usage?.inputTokens} />
+                  <StatRow label={t('Output tokens')} value={message.usage?.outputTokens} />
+                  <StatRow label={t('Total tokens')} value={message.usage?.totalTokens ?? message.tokensUsed} />
+                  <StatRow
+                    label={t('First token latency')}
+                    value={message.firstTokenLatency !== undefined ? `${message.firstTokenLatency}ms` : undefined}
+                  />
+                  <StatRow label={t('Finish reason')} value={message.finishReason} />
+                </tbody>
+              </table>
+
+              <Flex gap="xs">
+                <Button
+                  size="compact-xs"
+                  variant="light"
+                  leftSection={<IconArrowUpCircle size={14} />}
+                  disabled={isActive}
+                  onClick={() => onPromote(message.id)}
+                >
+                  {t('Promote to active branch')}
+                </Button>
+                {!isBaseline && (
+                  <Button
+                    size="compact-xs"
+                    variant="subtle"
+                    color="chatbox-gray"
+                    leftSection={<IconScale size={14} />}
+                    onClick={() => setBaselineId(message.id)}
+                  >
+                    {t('Set as baseline')}
+                  </Button>
+                )}
+              </Flex>
+
+              <ScrollArea.Autosize mah="55vh" type="auto">
+                <div className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+                  {segments.map((segment, index) => (
+                    <DiffText
+                      // biome-ignore lint/suspicious/noArrayIndexKey: 差异片段没有 ID，只会随文本整体重新计算
+                      key={index}
+                      segment={segment}
+                      highlight={showDiff}
+                    />
+                  ))}
+                </div>
+              </ScrollArea.Autosize>
+            </Stack>
+          )
+        })}
+      </div>
+    </Modal>
+  )
+})
+
+function StatRow({ label, value }: { label: string; value?: string | number }) {
+  return (
+    <tr>
+      <td className="py-0.5 pr-2">{label}</td>
+      <td className="py-0.5 text-right font-mono text-chatbox-primary">{value ?? '-'}</td>
+    </tr>
+  )
+}
+
+function DiffText({ segment, highlight }: { segment: DiffSegment; highlight: boolean }) {
+  if (segment.type === 'equal') {
+    return <span>{segment.text}</span>
+  }
+  if (segment.type === 'delete') {
+    // 基准文本中被删除的内容只在高亮模式下显示
+    return highlight ? (
+      <span className="bg-red-100 text-red-700 line-through dark:bg-red-900/40 dark:text-red-300">{segment.text}</span>
+    ) : null
+  }
+  return (
+    <span className={highlight ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' : undefined}>
+      {segment.text}
+    </span>
+  )
+}
+
+export default BranchCompare
@@ -0,0 +1,199 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Alert, Badge, Button, Code, Flex, Loader, ScrollArea, Spoiler, Stack, Text } from '@mantine/core'
+import { IconCheck, IconCopy } from '@tabler/icons-react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { Message } from 'src/shared/types'
+import { formatNumber } from 'src/shared/utils'
+import { Modal } from '@/components/Overlay'
+import { ScalableIcon } from '@/components/ScalableIcon'
+import { buildContextPayload, type ContextInspection, inspectModelMessages } from '@/lib/context-inspector'
+import { useCopied } from '@/hooks/useCopied'
+import { inspectGenerationContext } from '@/stores/sessionActions'
+
+const ContextInspector = NiceModal.create((props: { sessionId: string; messageId?: string; draft?: Message }) => {
+  const { sessionId, messageId, draft } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const [inspection, setInspection] = useState<ContextInspection | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // 打开时预演一次，之后会话的变化不会自动刷新
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 只在打开时预演
+  useEffect(() => {
+    let cancelled = false
+    inspectGenerationContext(sessionId, messageId ? { messageId } : { draft })
+      .then((result) => {
+        if (!cancelled) setInspection(result)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, messageId])
+
+  const messages = useMemo(
+    () => (inspection ? inspectModelMessages(inspection.modelMessages, inspection) : []),
+    [inspection]
+  )
+  const totalTokens = messages.reduce((sum, message) => sum + message.tokens, 0)
+  const payloadJson = useMemo(
+    () => (inspection ? JSON.stringify(buildContextPayload(inspection), null, 2) : ''),
+    [inspection]
+  )
+  const { copied, copy } = useCopied(payloadJson)
+
+  const onClose = () => {
+    modal.resolve()
+    modal.hide()
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={onClose} centered size="xl" title={t('Inspect context')}>
+      <Stack gap="sm">
+        {loading && (
+          <Flex justify="center" py="md">
+            <Loader size="sm" />
+          </Flex>
+        )}
+        {error && (
+          <Alert color="red" variant="light">
+            {error}
+          </Alert>
+        )}
+        {!loading && !error && !inspection && (
+          <Text size="sm" c="dimmed">
+            {t('There is nothing to send yet')}
+          </Text>
+        )}
+        {inspection && (
+          <>
+            <Flex gap="xs" wrap="wrap" align="center">
+              <Badge variant="light" color="gray" tt="none">
+                {inspection.provider ? `${inspection.provider} / ${inspection.modelId}` : inspection.modelId}
+              </Badge>
+              <Text size="xs" c="dimmed">
+                {inspection.tokenBudget
+                  ? t('About {{tokens}} of {{available}} context tokens', {
+                      tokens: formatNumber(totalTokens),
+                      available: formatNumber(inspection.tokenBudget.availableTokens),
+                    })
+                  : t('About {{tokens}} tokens', { tokens: formatNumber(totalTokens) })}
+              </Text>
+            </Flex>
+
+            {inspection.contextTrim && inspection.contextTrim.excludedMessageIds.length > 0 && (
+              <Text size="xs" c="orange">
+                {t('{{count}} older messages were left out to fit the context window of the model', {
+                  count: inspection.contextTrim.excludedMessageIds.length,
+                })}
+              </Text>
+            )}
+            {inspection.needsOCR && (
+              <Text size="xs" c="orange">
+                {t('Images will be converted to text with OCR before sending')}
+              </Text>
+            )}
+            {inspection.structuredOutput && (
+              <Text size="xs" c="dimmed">
+                {inspection.structuredOutput === 'native'
+                  ? t('The reply is requested in the format of the JSON Schema')
+                  : t('Native structured output is not available for this request, so the JSON Schema is added to the prompt')}
+              </Text>
+            )}
+            {inspection.promptSearch && (
+              <Text size="xs" c="orange">
+                {t('The model does not support tool use, so a search runs through the prompt before the reply')}
+              </Text>
+            )}
+
+            <ScrollArea.Autosize mah="50vh" type="auto">
+              <Stack gap="xs">
+                {messages.map((message, index) => (
+                  <Stack
+                    // biome-ignore lint/suspicious/noArrayIndexKey: 发送的消息没有 ID，列表不会重新排序
+                    key={index}
+                    gap={4}
+                    className="border border-solid border-chatbox-border-secondary rounded-xs p-xs"
+                  >
+                    <Flex gap="xs" align="center">
+                      <Badge size="xs" variant="light">
+                        {message.role}
+                      </Badge>
+                      <Text size="xs" c="dimmed">
+                        {t('{{count}} tokens', { count: message.tokens })}
+                      </Text>
+                      {message.imageCount > 0 && (
+                        <Text size="xs" c="dimmed">
+                          {t('{{count}} images', { count: message.imageCount })}
+                        </Text>
+                      )}
+                      {message.fileCount > 0 && (
+                        <Text size="xs" c="dimmed">
+                          {t('{{count}} files', { count: message.fileCount })}
+                        </Text>
+                      )}
+                    </Flex>
+                    <Spoiler maxHeight={120} showLabel={t('Show more')} hideLabel={t('Show less')}>
+                      <Text size="xs" component="pre" className="whitespace-pre-wrap break-words font-mono m-0">
+                        {message.text}
+                      </Text>
+                    </Spoiler>
+                  </Stack>
+                ))}
+
+                <Text size="sm" fw={600}>
+                  {t('Tools')}
+                </Text>
+                {inspection.tools.length > 0 ? (
+                  inspection.tools.map((tool) => (
+                    <Text key={tool.name} size="xs" lineClamp={2}>
+                      <Code>{tool.name}</Code> <span className="text-chatbox-tint-tertiary">{tool.description}</span>
+                    </Text>
+                  ))
+                ) : (
+                  <Text size="xs" c="dimmed">
+                    {t('No tools')}
+                  </Text>
+                )}
+
+                <Text size="sm" fw={600}>
+                  {t('Provider options')}
+                </Text>
+                {inspection.providerOptions ? (
+                  <Code block>{JSON.stringify(inspection.providerOptions, null, 2)}</Code>
+                ) : (
+                  <Text size="xs" c="dimmed">
+                    {t('None')}
+                  </Text>
+                )}
+              </Stack>
+            </ScrollArea.Autosize>
+          </>
+        )}
+
+        <Flex gap="md" justify="flex-end" align="center">
+          <Button
+            onClick={copy}
+            variant="light"
+            disabled={!inspection}
+            leftSection={<ScalableIcon size={16} icon={copied ? IconCheck : IconCopy} />}
+          >
+            {copied ? t('copied to clipboard') : t('Copy as JSON')}
+          </Button>
+          <Button onClick={onClose} color="chatbox-gray" variant="light">
+            {t('close')}
+          </Button>
+        </Flex>
+      </Stack>
+    </Modal>
+  )
+})
+
+export default ContextInspector
@@ -3,16 +3,32 @@ import { Button, Flex, Select, Stack, Text } from '@mantine/core'
 import { useAtomValue } from 'jotai'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import type { ExportChatFormat, ExportChatScope } from '@/../shared/types'
+import type { ExportChatFormat, ExportChatScope, ExportTreeFormat } from '@/../shared/types'
 import { Modal } from '@/components/Overlay'
 import { currentSessionIdAtom } from '@/stores/atoms'
-import { exportSessionChat } from '@/stores/sessionActions'
+import { exportSessionChat, exportSessionTree } from '@/stores/sessionActions'
+
+const CHAT_FORMATS: ExportChatFormat[] = ['Markdown', 'TXT', 'HTML']
+
+// 对话树格式保留全部分支，与导出范围无关
+const TREE_FORMATS: { value: ExportTreeFormat; label: string }[] = [
+  { value: 'Mermaid', label: 'Mermaid' },
+  { value: 'DOT', label: 'Graphviz DOT' },
+  { value: 'JSONCanvas', label: 'JSON Canvas' },
+  { value: 'JSON', label: 'JSON' },
+  { value: 'SVG', label: 'SVG' },
+  { value: 'PNG', label: 'PNG' },
+]
+
+function isTreeFormat(format: ExportChatFormat | ExportTreeFormat): format is ExportTreeFormat {
+  return TREE_FORMATS.some((item) => item.value === format)
+}
 
 const ExportChat = NiceModal.create(() => {
   const modal = useModal()
   const { t } = useTranslation()
   const [scope, setScope] = useState<ExportChatScope>('all_threads')
-  const [format, setFormat] = useState<ExportChatFormat>('HTML')
+  const [format, setFormat] = useState<ExportChatFormat | ExportTreeFormat>('HTML')
 
   const currentSessionId = useAtomValue(currentSessionIdAtom)
   const onCancel = () => {
@@ -23,7 +39,11 @@ const ExportChat = NiceModal.create(() => {
     if (!currentSessionId) {
       return
     }
-    void exportSessionChat(currentSessionId, scope, format)
+    if (isTreeFormat(format)) {
+      void exportSessionTree(currentSessionId, format)
+    } else {
+      void exportSessionChat(currentSessionId, scope, format)
+    }
     modal.resolve()
     modal.hide()
   }
@@ -51,14 +71,18 @@ const ExportChat = NiceModal.create(() => {
             value: scope,
           }))}
           value={scope}
+          disabled={isTreeFormat(format)}
           onChange={(e) => e && setScope(e as ExportChatScope)}
         />
 
         <Select
           label={t('Format')}
-          data={['Markdown', 'TXT', 'HTML']}
+          data={[
+            { group: t('Conversation'), items: CHAT_FORMATS },
+            { group: t('Branch tree'), items: TREE_FORMATS },
+          ]}
           value={format}
-          onChange={(e) => e && setFormat(e as ExportChatFormat)}
+          onChange={(e) => e && setFormat(e as ExportChatFormat | ExportTreeFormat)}
         />
       </Stack>
       <Flex gap="md" mt="md" justify="flex-end" align="center">
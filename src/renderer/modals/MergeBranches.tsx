@@ -0,0 +1,92 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Button, Flex, Radio, Stack, Text, Textarea } from '@mantine/core'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { MergeStrategy } from '@/../shared/types'
+import { Modal } from '@/components/Overlay'
+import { mergeBranches } from '@/stores/sessionActions'
+import * as toastActions from '@/stores/toastActions'
+
+const strategies: { value: MergeStrategy; label: string; description: string }[] = [
+  {
+    value: 'summarize',
+    label: 'Summarize',
+    description: 'Combine the useful ideas of every branch into one answer',
+  },
+  {
+    value: 'reconcile',
+    label: 'Reconcile',
+    description: 'Compare the branches, resolve their conflicts and give one recommendation',
+  },
+  {
+    value: 'pick-best',
+    label: 'Pick best',
+    description: 'Choose the strongest branch and improve it with the others',
+  },
+  {
+    value: 'custom',
+    label: 'Custom prompt',
+    description: 'Write your own instruction for merging the branches',
+  },
+]
+
+const MergeBranches = NiceModal.create((props: { sessionId: string; sourceIds: string[] }) => {
+  const { sessionId, sourceIds } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const [strategy, setStrategy] = useState<MergeStrategy>('summarize')
+  const [prompt, setPrompt] = useState('')
+
+  const onCancel = () => {
+    modal.resolve()
+    modal.hide()
+  }
+  const onMerge = async () => {
+    modal.resolve(strategy)
+    modal.hide()
+    try {
+      await mergeBranches(sessionId, sourceIds, { strategy, prompt })
+    } catch (error) {
+      toastActions.add(t('Failed to merge branches: {{error}}', { error: (error as Error)?.message ?? `${error}` }))
+    }
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={onCancel} centered title={t('Merge Branches')}>
+      <Stack gap="md" p="sm">
+        <Text size="sm" c="chatbox-tertiary">
+          {t('A new assistant node will be generated from {{count}} branches and attached below the first one.', {
+            count: sourceIds.length,
+          })}
+        </Text>
+        <Radio.Group value={strategy} onChange={(value) => setStrategy(value as MergeStrategy)}>
+          <Stack gap="sm">
+            {strategies.map((item) => (
+              <Radio key={item.value} value={item.value} label={t(item.label)} description={t(item.description)} />
+            ))}
+          </Stack>
+        </Radio.Group>
+        {strategy === 'custom' && (
+          <Textarea
+            autosize
+            minRows={3}
+            maxRows={8}
+            placeholder={t('e.g. Merge the branches into a comparison table') || ''}
+            value={prompt}
+            onChange={(e) => setPrompt(e.currentTarget.value)}
+          />
+        )}
+      </Stack>
+      <Flex gap="md" mt="md" justify="flex-end" align="center">
+        <Button onClick={onCancel} color="chatbox-gray" variant="light">
+          {t('cancel')}
+        </Button>
+        <Button onClick={onMerge} disabled={strategy === 'custom' && !prompt.trim()}>
+          {t('Merge')}
+        </Button>
+      </Flex>
+    </Modal>
+  )
+})
+
+export default MergeBranches
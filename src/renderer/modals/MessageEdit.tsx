@@ -5,7 +5,7 @@ import { useTranslation } from 'react-i18next'
 import { type Message, type MessageContentParts, type MessageRole, MessageRoleEnum } from '@/../shared/types'
 import { AssistantAvatar, SystemAvatar, UserAvatar } from '@/components/Avatar'
 import { useIsSmallScreen } from '@/hooks/useScreenChange'
-import { modifyMessage, saveAndResendWithFork } from '@/stores/sessionActions'
+import { editMessage, saveAndResendWithFork } from '@/stores/sessionActions'
 
 const MessageEdit = NiceModal.create((props: { sessionId: string; msg: Message }) => {
   const modal = useModal()
@@ -67,7 +67,7 @@ const MessageEditModal = ({
     if (!msg) {
       return
     }
-    void modifyMessage(sessionId, msg, true)
+    void editMessage(sessionId, msg)
     onClose()
   }
   const onSaveAndReply = () => {
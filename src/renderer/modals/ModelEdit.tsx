@@ -2,7 +2,7 @@ import NiceModal, { useModal } from '@ebay/nice-modal-react'
 import { Button, Checkbox, Flex, Loader, NumberInput, Select, Stack, Text, TextInput, Tooltip } from '@mantine/core'
 import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import type { ProviderModelInfo } from 'src/shared/types'
+import type { ModelPricing, ProviderModelInfo } from 'src/shared/types'
 import { createModelDependencies } from '@/adapters'
 import { Modal } from '@/components/Overlay'
 import platform from '@/platform'
@@ -21,6 +21,7 @@ const ModelEdit = NiceModal.create((props: { model?: ProviderModelInfo; provider
   const [type, setType] = useState<ProviderModelInfo['type']>(props.model?.type || 'chat')
   const [contextWindow, setContextWindow] = useState<number | undefined>(props.model?.contextWindow)
   const [maxOutput, setMaxOutput] = useState<number | undefined>(props.model?.maxOutput)
+  const [pricing, setPricing] = useState<ModelPricing>(props.model?.pricing || {})
   const [testState, setTestState] = useState<ModelTestState>({
     testing: false,
   })
@@ -38,6 +39,7 @@ const ModelEdit = NiceModal.create((props: { model?: ProviderModelInfo; provider
     setType(props.model?.type || 'chat')
     setContextWindow(props.model?.contextWindow)
     setMaxOutput(props.model?.maxOutput)
+    setPricing(props.model?.pricing || {})
     setTestState({ testing: false })
   }, [props])
 
@@ -80,6 +82,7 @@ const ModelEdit = NiceModal.create((props: { model?: ProviderModelInfo; provider
       capabilities,
       contextWindow,
       maxOutput,
+      pricing: Object.values(pricing).some((price) => price !== undefined) ? pricing : undefined,
     })
     modal.hide()
   }
@@ -215,6 +218,37 @@ const ModelEdit = NiceModal.create((props: { model?: ProviderModelInfo; provider
           </Flex>
         </Stack>
 
+        {/* Pricing, used to estimate the cost of sessions */}
+        {type === 'chat' && (
+          <Stack gap="xs">
+            <Text fw="600">{t('Pricing (USD per 1M tokens)')}</Text>
+            <Flex gap="md">
+              {(
+                [
+                  ['input', t('Input')],
+                  ['output', t('Output')],
+                  ['cachedInput', t('Cached Input')],
+                ] as const
+              ).map(([key, label]) => (
+                <Stack gap="xs" flex={1} key={key}>
+                  <Text size="sm">{label}</Text>
+                  <NumberInput
+                    placeholder={String(t('optional'))}
+                    value={pricing[key] ?? ''}
+                    onChange={(value) =>
+                      setPricing((prev) => ({ ...prev, [key]: typeof value === 'number' ? value : undefined }))
+                    }
+                    min={0}
+                    step={0.1}
+                    decimalScale={4}
+                    prefix="$"
+                  />
+                </Stack>
+              ))}
+            </Flex>
+          </Stack>
+        )}
+
         <Flex align="center" justify="flex-end" gap="xs">
           <Text>
             {testState.basicTest?.status === 'success' ? (
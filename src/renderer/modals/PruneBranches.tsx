@@ -0,0 +1,309 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Flex,
+  NumberInput,
+  ScrollArea,
+  Stack,
+  Switch,
+  Text,
+  UnstyledButton,
+} from '@mantine/core'
+import dayjs from 'dayjs'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { formatFileSize } from 'src/shared/utils'
+import { Modal } from '@/components/Overlay'
+import {
+  collectMessageStorageKeys,
+  collectPruneCandidates,
+  estimateDataSize,
+  filterPruneCandidates,
+  type PruneCandidate,
+} from '@/lib/branch-prune'
+import { getMessagePreviewText } from '@/lib/conversation-tree-adapter'
+import { buildMessageGraph } from '@/lib/message-graph'
+import { useSession, useSessionArchive } from '@/stores/chatStore'
+import {
+  deleteArchivedBranches,
+  getStorageKeysSize,
+  pruneBranches,
+  restoreArchivedBranch,
+} from '@/stores/sessionActions'
+import * as toastActions from '@/stores/toastActions'
+
+const PruneBranches = NiceModal.create((props: { sessionId: string }) => {
+  const { sessionId } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+  const { archive } = useSessionArchive(sessionId)
+
+  const [olderThanDays, setOlderThanDays] = useState<number | undefined>(30)
+  const [maxMessages, setMaxMessages] = useState<number | undefined>()
+  const [unlabeledOnly, setUnlabeledOnly] = useState(true)
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set())
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [blobSize, setBlobSize] = useState(0)
+  const [busy, setBusy] = useState(false)
+
+  const graph = useMemo(() => (session ? (session.messageGraph ?? buildMessageGraph(session)) : null), [session])
+  const candidates = useMemo(
+    () =>
+      session
+        ? filterPruneCandidates(collectPruneCandidates(session), { olderThanDays, maxMessages, unlabeledOnly })
+        : [],
+    [session, olderThanDays, maxMessages, unlabeledOnly]
+  )
+  const selected = candidates.filter((candidate) => !excludedIds.has(candidate.headId))
+  const selectedMessageCount = selected.reduce((sum, candidate) => sum + candidate.messageIds.length, 0)
+  const selectedDataSize = selected.reduce((sum, candidate) => sum + candidate.dataSize, 0)
+  const selectedStorageKeys = selected.flatMap((candidate) => candidate.storageKeys)
+  const storageKeysDep = selectedStorageKeys.join('|')
+
+  // 图片和文件保存在独立的存储中，需要异步读取大小
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 只在选中的存储 key 变化时重新计算
+  useEffect(() => {
+    let cancelled = false
+    getStorageKeysSize(selectedStorageKeys).then((size) => {
+      if (!cancelled) setBlobSize(size)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [storageKeysDep])
+
+  const onClose = () => {
+    modal.resolve()
+    modal.hide()
+  }
+
+  const toggleCandidate = (headId: string) => {
+    setExcludedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(headId)) {
+        next.delete(headId)
+      } else {
+        next.add(headId)
+      }
+      return next
+    })
+  }
+
+  const onPrune = async (mode: 'archive' | 'delete') => {
+    setBusy(true)
+    try {
+      await pruneBranches(
+        sessionId,
+        selected.map((candidate) => candidate.headId),
+        mode
+      )
+      setExcludedIds(new Set())
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const onRestore = async (archivedBranchId: string) => {
+    const restored = await restoreArchivedBranch(sessionId, archivedBranchId)
+    if (!restored) {
+      toastActions.add(t('The message this branch was attached to no longer exists'))
+    }
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={onClose} centered size="lg" title={t('Prune branches')}>
+      <Stack gap="md">
+        <Text size="xs" c="dimmed">
+          {t(
+            'Branches that are not on the current path can be archived to separate storage and restored later, or deleted permanently together with their images and files.'
+          )}
+        </Text>
+
+        <Flex gap="sm" align="flex-end">
+          <NumberInput
+            label={t('Inactive for at least (days)')}
+            value={olderThanDays ?? ''}
+            onChange={(value) => setOlderThanDays(typeof value === 'number' ? value : undefined)}
+            min={0}
+            allowDecimal={false}
+            size="xs"
+            className="flex-1"
+          />
+          <NumberInput
+            label={t('At most (messages)')}
+            value={maxMessages ?? ''}
+            onChange={(value) => setMaxMessages(typeof value === 'number' ? value : undefined)}
+            min={1}
+            allowDecimal={false}
+            size="xs"
+            className="flex-1"
+          />
+        </Flex>
+        <Switch
+          label={t('Skip named, tagged and bookmarked branches')}
+          checked={unlabeledOnly}
+          onChange={(e) => setUnlabeledOnly(e.currentTarget.checked)}
+          size="xs"
+        />
+
+        <ScrollArea.Autosize mah="35vh" type="auto">
+          {candidates.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="md">
+              {t('No branches match the filters')}
+            </Text>
+          ) : (
+            <Stack gap={4}>
+              {candidates.map((candidate) => (
+                <CandidateRow
+                  key={candidate.headId}
+                  candidate={candidate}
+                  checked={!excludedIds.has(candidate.headId)}
+                  onToggle={() => toggleCandidate(candidate.headId)}
+                  expanded={expandedId === candidate.headId}
+                  onExpand={() => setExpandedId(expandedId === candidate.headId ? null : candidate.headId)}
+                  messagePreviews={
+                    expandedId === candidate.headId && graph
+                      ? candidate.messageIds.flatMap((id) =>
+                          graph.nodes[id] ? [{ id, text: getMessagePreviewText(graph.nodes[id].message, 80) }] : []
+                        )
+                      : []
+                  }
+                />
+              ))}
+            </Stack>
+          )}
+        </ScrollArea.Autosize>
+
+        <Flex justify="space-between" align="center">
+          <Text size="xs" c="dimmed">
+            {t('{{branches}} branches, {{messages}} messages, about {{size}}', {
+              branches: selected.length,
+              messages: selectedMessageCount,
+              size: formatFileSize(selectedDataSize + blobSize),
+            })}
+          </Text>
+          <Flex gap="xs">
+            <Button
+              size="xs"
+              variant="light"
+              disabled={selected.length === 0}
+              loading={busy}
+              onClick={() => onPrune('archive')}
+            >
+              {t('Archive')}
+            </Button>
+            <Button
+              size="xs"
+              color="red"
+              disabled={selected.length === 0}
+              loading={busy}
+              onClick={() => onPrune('delete')}
+            >
+              {t('Delete')}
+            </Button>
+          </Flex>
+        </Flex>
+
+        {/* 已归档的分支 */}
+        {!!archive?.branches.length && (
+          <Stack gap="xs">
+            <Text fw={600}>{t('Archived branches')}</Text>
+            <ScrollArea.Autosize mah="25vh" type="auto">
+              <Stack gap={4}>
+                {archive.branches.map((branch) => {
+                  const head = branch.nodes[branch.headId]?.message
+                  const messages = Object.values(branch.nodes).map((node) => node.message)
+                  return (
+                    <Flex
+                      key={branch.id}
+                      gap="xs"
+                      align="center"
+                      className="rounded-md border border-solid border-chatbox-border-primary px-xs py-1"
+                    >
+                      <Stack gap={0} className="flex-1 min-w-0">
+                        <Text size="xs" className="truncate">
+                          {branch.name || (head ? getMessagePreviewText(head, 60) : branch.headId)}
+                        </Text>
+                        <Text size="xs" c="dimmed">
+                          {t('{{messages}} messages, about {{size}}, archived {{date}}', {
+                            messages: messages.length,
+                            size: formatFileSize(estimateDataSize(branch.nodes)),
+                            date: dayjs(branch.archivedAt).format('YYYY-MM-DD HH:mm'),
+                          })}
+                          {messages.some((m) => collectMessageStorageKeys(m).length > 0) && ` · ${t('has files')}`}
+                        </Text>
+                      </Stack>
+                      <Button size="compact-xs" variant="subtle" onClick={() => onRestore(branch.id)}>
+                        {t('Restore')}
+                      </Button>
+                      <Button
+                        size="compact-xs"
+                        variant="subtle"
+                        color="red"
+                        onClick={() => deleteArchivedBranches(sessionId, [branch.id])}
+                      >
+                        {t('Delete')}
+                      </Button>
+                    </Flex>
+                  )
+                })}
+              </Stack>
+            </ScrollArea.Autosize>
+          </Stack>
+        )}
+      </Stack>
+    </Modal>
+  )
+})
+
+function CandidateRow(props: {
+  candidate: PruneCandidate
+  checked: boolean
+  onToggle: () => void
+  expanded: boolean
+  onExpand: () => void
+  messagePreviews: { id: string; text: string }[]
+}) {
+  const { candidate, checked, onToggle, expanded, onExpand, messagePreviews } = props
+  const { t } = useTranslation()
+
+  return (
+    <div className="rounded-md border border-solid border-chatbox-border-primary px-xs py-1">
+      <Flex gap="xs" align="center">
+        <Checkbox size="xs" checked={checked} onChange={onToggle} />
+        <UnstyledButton className="flex-1 min-w-0" onClick={onExpand}>
+          <Flex gap={6} align="center">
+            <Text size="xs" className="truncate">
+              {candidate.name || candidate.title || candidate.preview}
+            </Text>
+            {candidate.isLabeled && (
+              <Badge size="xs" color="gray" variant="light">
+                {t('Labeled')}
+              </Badge>
+            )}
+          </Flex>
+          <Text size="xs" c="dimmed">
+            {t('{{messages}} messages', { messages: candidate.messageIds.length })}
+            {candidate.lastActivityAt !== undefined &&
+              ` · ${dayjs(candidate.lastActivityAt).format('YYYY-MM-DD HH:mm')}`}
+            {candidate.storageKeys.length > 0 && ` · ${t('{{count}} files', { count: candidate.storageKeys.length })}`}
+          </Text>
+        </UnstyledButton>
+      </Flex>
+      {expanded && (
+        <Stack gap={2} pl={28} pt={4}>
+          {messagePreviews.map((preview) => (
+            <Text key={preview.id} size="xs" c="dimmed" className="truncate">
+              {preview.text}
+            </Text>
+          ))}
+        </Stack>
+      )}
+    </div>
+  )
+}
+
+export default PruneBranches
@@ -0,0 +1,52 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Stack, Text } from '@mantine/core'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { GenerationOverride } from 'src/shared/types'
+import GenerationOverrideForm from '@/components/conversation-tree/GenerationOverrideForm'
+import { Modal } from '@/components/Overlay'
+import { getGraphMessagePath } from '@/lib/message-graph'
+import { buildPathReplayPlan } from '@/lib/path-replay'
+import { useSession } from '@/stores/chatStore'
+import { replayPathInNewFork } from '@/stores/sessionActions'
+
+const ReplayPath = NiceModal.create((props: { sessionId: string; messageId: string }) => {
+  const { sessionId, messageId } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+
+  const plan = useMemo(() => {
+    const path = session?.messageGraph ? getGraphMessagePath(session.messageGraph, messageId) : null
+    return path ? buildPathReplayPlan(path) : null
+  }, [session, messageId])
+
+  const onClose = () => {
+    modal.resolve()
+    modal.hide()
+  }
+
+  // 重放在后台进行，进度显示在树形图工具栏
+  const onSubmit = (override: GenerationOverride | undefined) => {
+    void replayPathInNewFork(sessionId, messageId, override)
+    onClose()
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={onClose} centered title={t('Replay path with another model')}>
+      <Stack gap="sm">
+        <Text size="xs" c="dimmed">
+          {plan
+            ? t(
+                'Every reply on the path from the root to this message will be generated again in a new branch ({{count}} replies). User messages are kept as they are.',
+                { count: plan.replyCount }
+              )
+            : t('There are no replies on this path to replay')}
+        </Text>
+        {plan && <GenerationOverrideForm onSubmit={onSubmit} onBack={onClose} />}
+      </Stack>
+    </Modal>
+  )
+})
+
+export default ReplayPath
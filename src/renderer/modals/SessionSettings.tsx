@@ -28,6 +28,7 @@ import {
   type SessionSettings,
 } from 'src/shared/types'
 import { AssistantAvatar } from '@/components/Avatar'
+import FallbackModelsEditor from '@/components/FallbackModelsEditor'
 import { handleImageInputAndSave } from '@/components/Image'
 import ImageStyleSelect from '@/components/ImageStyleSelect'
 import LazyNumberInput from '@/components/LazyNumberInput'
@@ -35,6 +36,7 @@ import MaxContextMessageCountSlider from '@/components/MaxContextMessageCountSli
 import { ScalableIcon } from '@/components/ScalableIcon'
 import SegmentedControl from '@/components/SegmentedControl'
 import SliderWithInput from '@/components/SliderWithInput'
+import StructuredOutputEditor from '@/components/StructuredOutputEditor'
 import { useIsSmallScreen } from '@/hooks/useScreenChange'
 import { trackingEvent } from '@/packages/event'
 import { StorageKeyGenerator } from '@/storage/StoreStorage'
@@ -556,6 +558,7 @@ export function ChatConfig({
 }) {
   const { t } = useTranslation()
   const globalSettingsStream = useSettingsStore((s) => s.stream)
+  const globalFallbackModels = useSettingsStore((s) => s.fallbackModels)
 
   return (
     <Stack gap="md">
@@ -652,6 +655,112 @@ export function ChatConfig({
         </Stack>
       )}
 
+      <Stack gap="xs">
+        <Flex align="center" justify="space-between" gap="xs">
+          <Flex align="center" gap="xs">
+            <Text size="sm" fw="600">
+              {t('Fallback models')}
+            </Text>
+            <Tooltip
+              label={t(
+                'When a reply fails because of a network error, a timeout, a rate limit or a server error, it is generated again with the next model in the list.'
+              )}
+              withArrow={true}
+              maw={320}
+              className="!whitespace-normal"
+              zIndex={3000}
+              events={{ hover: true, focus: true, touch: true }}
+            >
+              <ScalableIcon icon={IconInfoCircle} size={20} className="text-chatbox-tint-tertiary" />
+            </Tooltip>
+          </Flex>
+          <Switch
+            label={t('Customize')}
+            checked={!!settings?.fallbackModels}
+            onChange={(v) =>
+              onSettingsChange({ fallbackModels: v.target.checked ? [...(globalFallbackModels ?? [])] : undefined })
+            }
+          />
+        </Flex>
+        {settings?.fallbackModels ? (
+          <FallbackModelsEditor
+            value={settings.fallbackModels}
+            onChange={(fallbackModels) => onSettingsChange({ fallbackModels })}
+          />
+        ) : (
+          <Text size="xs" c="chatbox-tertiary">
+            {t('Using the default fallback models ({{count}})', { count: globalFallbackModels?.length ?? 0 })}
+          </Text>
+        )}
+      </Stack>
+
+      <Stack gap="xs">
+        <Flex align="center" gap="xs">
+          <Text size="sm" fw="600">
+            {t('Prompt caching')}
+          </Text>
+          <Tooltip
+            label={t(
+              'Ask the provider to cache the selected parts of the request, so branches that resend the same beginning cost less. Used by Claude, OpenRouter and OpenAI.'
+            )}
+            withArrow={true}
+            maw={320}
+            className="!whitespace-normal"
+            zIndex={3000}
+            events={{ hover: true, focus: true, touch: true }}
+          >
+            <ScalableIcon icon={IconInfoCircle} size={20} className="text-chatbox-tint-tertiary" />
+          </Tooltip>
+        </Flex>
+        {(
+          [
+            ['systemPrompt', t('System prompt')],
+            ['attachments', t('Large attachments')],
+            ['branchPrefix', t('Shared beginning of the branch')],
+          ] as const
+        ).map(([key, label]) => (
+          <Flex key={key} align="center" justify="space-between" gap="xs">
+            <Text size="sm">{label}</Text>
+            <Switch
+              checked={!!settings?.promptCache?.[key]}
+              onChange={(v) => onSettingsChange({ promptCache: { ...settings?.promptCache, [key]: v.target.checked } })}
+            />
+          </Flex>
+        ))}
+      </Stack>
+
+      <Stack gap="xs">
+        <Flex align="center" justify="space-between" gap="xs">
+          <Flex align="center" gap="xs">
+            <Text size="sm" fw="600">
+              {t('Structured output')}
+            </Text>
+            <Tooltip
+              label={t(
+                'Ask the model to reply with JSON that conforms to a JSON Schema. Models without native support get the schema in the prompt, and replies that do not conform are sent back to be fixed.'
+              )}
+              withArrow={true}
+              maw={320}
+              className="!whitespace-normal"
+              zIndex={3000}
+              events={{ hover: true, focus: true, touch: true }}
+            >
+              <ScalableIcon icon={IconInfoCircle} size={20} className="text-chatbox-tint-tertiary" />
+            </Tooltip>
+          </Flex>
+          <Switch
+            checked={!!settings?.structuredOutput}
+            onChange={(v) => onSettingsChange({ structuredOutput: v.target.checked ? { schema: '' } : undefined })}
+          />
+        </Flex>
+        {settings?.structuredOutput && (
+          <StructuredOutputEditor
+            value={settings.structuredOutput.schema}
+            onChange={(schema) => onSettingsChange({ structuredOutput: { schema } })}
+          />
+        )}
+      </Stack>
+
       <Stack>
         {settings?.provider === ModelProviderEnum.Claude && (
           <ClaudeProviderConfig settings={settings} onSettingsChange={onSettingsChange} />
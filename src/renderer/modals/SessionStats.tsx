@@ -0,0 +1,244 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Badge, Flex, ScrollArea, SimpleGrid, Stack, Table, Text, Tooltip } from '@mantine/core'
+import dayjs from 'dayjs'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Modal } from '@/components/Overlay'
+import { useProviders } from '@/hooks/useProviders'
+import { getCacheHitRate } from '@/lib/prompt-cache'
+import {
+  type BranchStats,
+  type CostTotals,
+  computeSessionTreeStats,
+  createCachedInputResolver,
+  createPricingResolver,
+} from '@/lib/tree-stats'
+import { cn } from '@/lib/utils'
+import { useSession } from '@/stores/chatStore'
+import { formatNumber } from '@/utils/format'
+
+const SessionStats = NiceModal.create((props: { sessionId: string }) => {
+  const { sessionId } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+  const { providers } = useProviders()
+
+  const stats = useMemo(
+    () =>
+      session
+        ? computeSessionTreeStats(session, createPricingResolver(providers), createCachedInputResolver(providers))
+        : null,
+    [session, providers]
+  )
+
+  const onClose = () => {
+    modal.resolve()
+    modal.hide()
+  }
+
+  // 关闭后在树形图中定位到分支的第一条消息
+  const onJumpToBranch = (headId: string) => {
+    onClose()
+    window.dispatchEvent(new CustomEvent('tree-toolbar-jump', { detail: { messageId: headId } }))
+  }
+
+  const hasUnpriced = !!stats && stats.totals.unpricedMessageCount > 0
+
+  return (
+    <Modal opened={modal.visible} onClose={onClose} centered size="xl" title={t('Session statistics')}>
+      {stats && (
+        <Stack gap="md">
+          <SimpleGrid cols={4} spacing="xs">
+            <StatCard label={t('Total tokens')} value={formatNumber(stats.totals.totalTokens, 1)} />
+            <StatCard label={t('Estimated cost')} value={formatCost(stats.totals)} />
+            <StatCard label={t('Messages')} value={String(stats.shape.messageCount)} />
+            <StatCard
+              label={t('Abandoned branches')}
+              value={`${stats.shape.abandonedBranchCount} / ${stats.shape.branchCount}`}
+            />
+            <StatCard label={t('Max depth')} value={String(stats.shape.maxDepth)} />
+            <StatCard label={t('Max breadth')} value={String(stats.shape.maxBreadth)} />
+            <StatCard label={t('Fork points')} value={String(stats.shape.forkCount)} />
+            <StatCard label={t('Leaves')} value={String(stats.shape.leafCount)} />
+          </SimpleGrid>
+
+          {hasUnpriced && (
+            <Text size="xs" c="dimmed">
+              {t(
+                '* {{count}} messages use models without a price. Set prices in the model settings of the provider to include them.',
+                { count: stats.totals.unpricedMessageCount }
+              )}
+            </Text>
+          )}
+
+          {/* 按模型统计 */}
+          <Stack gap="xs">
+            <Text fw={600}>{t('By model')}</Text>
+            <Table fz="xs" verticalSpacing={4} striped>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>{t('Model')}</Table.Th>
+                  <Table.Th className="text-right">{t('Replies')}</Table.Th>
+                  <Table.Th className="text-right">{t('Input tokens')}</Table.Th>
+                  <Table.Th className="text-right">{t('Output tokens')}</Table.Th>
+                  <Table.Th className="text-right">{t('Cached')}</Table.Th>
+                  <Table.Th className="text-right">{t('First token latency')}</Table.Th>
+                  <Table.Th className="text-right">{t('Estimated cost')}</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {stats.models.map((model) => (
+                  <Table.Tr key={model.key}>
+                    <Table.Td className="max-w-[200px] truncate">{model.model}</Table.Td>
+                    <Table.Td className="text-right">{model.messageCount}</Table.Td>
+                    <Table.Td className="text-right">{formatNumber(model.inputTokens, 1)}</Table.Td>
+                    <Table.Td className="text-right">{formatNumber(model.outputTokens, 1)}</Table.Td>
+                    <Table.Td className="text-right">
+                      {formatNumber(model.cachedInputTokens, 1)}
+                      {model.cachedInputTokens > 0 && ` (${Math.round((getCacheHitRate(model) ?? 0) * 100)}%)`}
+                    </Table.Td>
+                    <Table.Td className="text-right">
+                      {model.averageFirstTokenLatency !== null
+                        ? `${Math.round(model.averageFirstTokenLatency)}ms`
+                        : '-'}
+                    </Table.Td>
+                    <Table.Td className="text-right">{formatCost(model)}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </Stack>
+
+          {/* 按分支统计 */}
+          <Stack gap="xs">
+            <Text fw={600}>{t('By branch')}</Text>
+            <ScrollArea.Autosize mah="30vh" type="auto">
+              <Table fz="xs" verticalSpacing={4} striped highlightOnHover>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>{t('Branch')}</Table.Th>
+                    <Table.Th className="text-right">{t('Messages')}</Table.Th>
+                    <Table.Th className="text-right">{t('Total tokens')}</Table.Th>
+                    <Table.Th className="text-right">{t('Estimated cost')}</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {stats.branches.map((branch) => (
+                    <Table.Tr
+                      key={branch.headId}
+                      className="cursor-pointer"
+                      onClick={() => onJumpToBranch(branch.headId)}
+                    >
+                      <Table.Td className="max-w-[320px]">
+                        <Flex gap={6} align="center">
+                          <Text size="xs" className="truncate">
+                            {getBranchLabel(branch, t('Main'))}
+                          </Text>
+                          {!branch.isActive && (
+                            <Badge size="xs" color="gray" variant="light">
+                              {t('Abandoned')}
+                            </Badge>
+                          )}
+                        </Flex>
+                      </Table.Td>
+                      <Table.Td className="text-right">{branch.messageCount}</Table.Td>
+                      <Table.Td className="text-right">{formatNumber(branch.totalTokens, 1)}</Table.Td>
+                      <Table.Td className="text-right">{formatCost(branch)}</Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </ScrollArea.Autosize>
+          </Stack>
+
+          {/* 分支创建时间线 */}
+          {stats.timeline.length > 1 && (
+            <Stack gap="xs">
+              <Text fw={600}>{t('Branch timeline')}</Text>
+              <BranchTimeline branches={stats.timeline} mainLabel={t('Main')} onSelect={onJumpToBranch} />
+            </Stack>
+          )}
+        </Stack>
+      )}
+    </Modal>
+  )
+})
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-solid border-chatbox-border-primary px-sm py-xs">
+      <Text size="xs" c="dimmed">
+        {label}
+      </Text>
+      <Text fw={600}>{value}</Text>
+    </div>
+  )
+}
+
+/**
+ * 分支创建时间线：按创建时间在横轴上排列，活跃分支为绿色
+ */
+function BranchTimeline({
+  branches,
+  mainLabel,
+  onSelect,
+}: {
+  branches: BranchStats[]
+  mainLabel: string
+  onSelect: (headId: string) => void
+}) {
+  const start = branches[0].createdAt ?? 0
+  const span = Math.max((branches[branches.length - 1].createdAt ?? 0) - start, 1)
+
+  return (
+    <div className="px-2">
+      <div className="relative h-6">
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-chatbox-border-primary" />
+        {branches.map((branch) => (
+          <Tooltip
+            key={branch.headId}
+            label={`${dayjs(branch.createdAt).format('YYYY-MM-DD HH:mm')} · ${getBranchLabel(branch, mainLabel)}`}
+            withArrow
+          >
+            <button
+              type="button"
+              className={cn(
+                'absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-0 p-0 cursor-pointer',
+                branch.isActive ? 'bg-green-500' : 'bg-gray-400'
+              )}
+              style={{ left: `${(((branch.createdAt ?? start) - start) / span) * 100}%` }}
+              onClick={() => onSelect(branch.headId)}
+            />
+          </Tooltip>
+        ))}
+      </div>
+      <Flex justify="space-between">
+        <Text size="xs" c="dimmed">
+          {dayjs(start).format('YYYY-MM-DD HH:mm')}
+        </Text>
+        <Text size="xs" c="dimmed">
+          {dayjs(start + span).format('YYYY-MM-DD HH:mm')}
+        </Text>
+      </Flex>
+    </div>
+  )
+}
+
+function getBranchLabel(branch: BranchStats, mainLabel: string): string {
+  if (!branch.forkMessageId) {
+    return mainLabel
+  }
+  return branch.name || branch.title || branch.preview
+}
+
+/** 费用显示，部分消息没有价格时加 `*`，全部没有价格时显示 `-` */
+function formatCost(totals: CostTotals): string {
+  if (totals.pricedMessageCount === 0) {
+    return '-'
+  }
+  const cost = `$${totals.cost.toFixed(totals.cost > 0 && totals.cost < 0.01 ? 4 : 2)}`
+  return totals.unpricedMessageCount > 0 ? `${cost}*` : cost
+}
+
+export default SessionStats
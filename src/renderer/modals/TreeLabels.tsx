@@ -0,0 +1,113 @@
+import NiceModal, { useModal } from '@ebay/nice-modal-react'
+import { Button, Flex, Stack, Switch, TagsInput, TextInput } from '@mantine/core'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Modal } from '@/components/Overlay'
+import {
+  collectTreeLabels,
+  type ForkBranchLocation,
+  findContainingForkBranch,
+  indexSessionTree,
+} from '@/lib/session-tree'
+import { useSession } from '@/stores/chatStore'
+import { renameForkBranch, setMessageBookmarked, setMessageTags } from '@/stores/sessionActions'
+
+interface LabelValues {
+  branch: ForkBranchLocation | null
+  branchName: string
+  tags: string[]
+  bookmarked: boolean
+  existingTags: string[]
+}
+
+const TreeLabels = NiceModal.create((props: { sessionId: string; messageId: string }) => {
+  const { sessionId, messageId } = props
+  const modal = useModal()
+  const { t } = useTranslation()
+  const { session } = useSession(sessionId)
+
+  const initial = useMemo((): LabelValues | null => {
+    if (!session) return null
+    const index = indexSessionTree(session)
+    const message = index.messages.get(messageId)
+    if (!message) return null
+    const branch = findContainingForkBranch(session, messageId, index)
+    const existingTags = collectTreeLabels(session, index)
+      .filter((label) => label.kind === 'tag')
+      .map((label) => label.name ?? '')
+    return {
+      branch,
+      branchName: (branch && session.messageForksHash?.[branch.forkMessageId]?.lists[branch.listIndex]?.name) || '',
+      tags: message.tags ?? [],
+      bookmarked: !!message.bookmarked,
+      existingTags: Array.from(new Set(existingTags)),
+    }
+  }, [session, messageId])
+
+  const onClose = (saved?: boolean) => {
+    modal.resolve(saved)
+    modal.hide()
+  }
+
+  return (
+    <Modal opened={modal.visible} onClose={() => onClose()} centered title={t('Labels')}>
+      {initial && <TreeLabelsForm sessionId={sessionId} messageId={messageId} initial={initial} onClose={onClose} />}
+    </Modal>
+  )
+})
+
+/** 表单只在首次拿到会话数据时初始化，避免编辑过程中被会话更新覆盖 */
+function TreeLabelsForm(props: {
+  sessionId: string
+  messageId: string
+  initial: LabelValues
+  onClose: (saved?: boolean) => void
+}) {
+  const { sessionId, messageId, initial, onClose } = props
+  const { t } = useTranslation()
+  const [branchName, setBranchName] = useState(initial.branchName)
+  const [tags, setTags] = useState(initial.tags)
+  const [bookmarked, setBookmarked] = useState(initial.bookmarked)
+
+  const onSave = async () => {
+    if (initial.branch && branchName.trim() !== initial.branchName) {
+      await renameForkBranch(sessionId, initial.branch.forkMessageId, initial.branch.listId, branchName)
+    }
+    await setMessageTags(sessionId, messageId, tags)
+    await setMessageBookmarked(sessionId, messageId, bookmarked)
+    onClose(true)
+  }
+
+  return (
+    <>
+      <Stack gap="md" p="sm">
+        <TextInput
+          label={t('Branch name')}
+          description={
+            initial.branch ? t('Names the branch that contains this message') : t('This message is not inside a branch')
+          }
+          disabled={!initial.branch}
+          value={branchName}
+          onChange={(e) => setBranchName(e.currentTarget.value)}
+        />
+        <TagsInput
+          label={t('Tags')}
+          placeholder={t('Press Enter to add a tag') || ''}
+          data={initial.existingTags}
+          value={tags}
+          onChange={setTags}
+          clearable
+        />
+        <Switch label={t('Bookmark')} checked={bookmarked} onChange={(e) => setBookmarked(e.currentTarget.checked)} />
+      </Stack>
+      <Flex gap="md" mt="md" justify="flex-end" align="center">
+        <Button onClick={() => onClose()} color="chatbox-gray" variant="light">
+          {t('cancel')}
+        </Button>
+        <Button onClick={onSave}>{t('save')}</Button>
+      </Flex>
+    </>
+  )
+}
+
+export default TreeLabels
@@ -1,18 +1,25 @@
 import NiceModal from '@ebay/nice-modal-react'
 import AppStoreRating from './AppStoreRating'
 import ArtifactPreview from './ArtifactPreview'
+import BranchCompare from './BranchCompare'
 import AttachLink from './AttachLink'
 import ClearSessionList from './ClearSessionList'
+import ContextInspector from './ContextInspector'
 import EdgeOneDeploySuccess from './EdgeOneDeploySuccess'
 import ExportChat from './ExportChat'
 import JsonViewer from './JsonViewer'
+import MergeBranches from './MergeBranches'
 import MessageEdit from './MessageEdit'
 import ModelEdit from './ModelEdit'
 import OcrContentViewer from './OcrContentViewer'
 import ProviderSelector from './ProviderSelector'
+import PruneBranches from './PruneBranches'
+import ReplayPath from './ReplayPath'
 import ReportContent from './ReportContent'
 import SessionSettings from './SessionSettings'
+import SessionStats from './SessionStats'
 import ThreadNameEdit from './ThreadNameEdit'
+import TreeLabels from './TreeLabels'
 import Welcome from './Welcome'
 
 NiceModal.register('welcome', Welcome)
@@ -30,3 +37,10 @@ NiceModal.register('model-edit', ModelEdit)
 NiceModal.register('thread-name-edit', ThreadNameEdit)
 NiceModal.register('ocr-content-viewer', OcrContentViewer)
 NiceModal.register('edgeone-deploy-success', EdgeOneDeploySuccess)
+NiceModal.register('merge-branches', MergeBranches)
+NiceModal.register('branch-compare', BranchCompare)
+NiceModal.register('tree-labels', TreeLabels)
+NiceModal.register('session-stats', SessionStats)
+NiceModal.register('prune-branches', PruneBranches)
+NiceModal.register('replay-path', ReplayPath)
+NiceModal.register('context-inspector', ContextInspector)
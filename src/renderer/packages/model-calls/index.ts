@@ -3,7 +3,7 @@ import type { Message } from 'src/shared/types'
 import { convertToModelMessages } from './message-utils'
 
 export { generateImage } from './generate-image'
-export { streamText } from './stream-text'
+export { estimateToolDefinitionTokens, inspectStreamText, type StreamTextInspection, streamText } from './stream-text'
 
 export async function generateText(model: ModelInterface, messages: Message[]) {
   return model.chat(await convertToModelMessages(messages), {})
@@ -1,4 +1,4 @@
-import type { ModelMessage, ToolSet } from 'ai'
+import type { JSONSchema7, ModelMessage, ToolSet } from 'ai'
 import { t } from 'i18next'
 import { uniqueId } from 'lodash'
 import { getModel } from 'src/shared/models'
@@ -6,19 +6,35 @@ import { ChatboxAIAPIError } from 'src/shared/models/errors'
 import { sequenceMessages } from 'src/shared/utils/message'
 import { getModelSettings } from 'src/shared/utils/model_settings'
 import { createModelDependencies } from '@/adapters'
+import { applyPromptCacheBreakpoints, isPromptCacheEnabled } from '@/lib/prompt-cache'
+import {
+  appendStructuredOutputInstructions,
+  buildStructuredOutputRetryPrompt,
+  checkStructuredOutput,
+  parseStructuredOutputSchema,
+  STRUCTURED_OUTPUT_MAX_RETRIES,
+} from '@/lib/structured-output'
 import * as settingActions from '@/stores/settingActions'
 import { settingsStore } from '@/stores/settingsStore'
-import type { ModelInterface, OnResultChange, OnResultChangeWithCancel } from '../../../shared/models/types'
+import type {
+  CallChatCompletionOptions,
+  ModelInterface,
+  OnResultChange,
+  OnResultChangeWithCancel,
+} from '../../../shared/models/types'
 import {
   type KnowledgeBase,
   type Message,
   type MessageInfoPart,
   type MessageToolCallPart,
   ModelProviderEnum,
+  type PromptCacheSettings,
   type ProviderOptions,
   type StreamTextResult,
+  type StructuredOutputSettings,
 } from '../../../shared/types'
 import { mcpController } from '../mcp/controller'
+import { estimateTokens } from '../token'
 import { convertToModelMessages, injectModelSystemPrompt } from './message-utils'
 import { imageOCR } from './preprocess'
 import {
@@ -32,6 +48,69 @@ import fileToolSet from './toolsets/file'
 import { getToolSet } from './toolsets/knowledge-base'
 import websearchToolSet, { parseLinkTool, webSearchTool } from './toolsets/web-search'
 
+/** 结构化输出的 Schema、是否使用原生结构化输出，以及重试时显示在回复开头的提示 */
+type StructuredOutputCheck = {
+  schema: JSONSchema7
+  native: boolean
+  infoParts: MessageInfoPart[]
+}
+
+function addUsage(total: StreamTextResult['usage'], usage: StreamTextResult['usage']): StreamTextResult['usage'] {
+  if (!total || !usage) {
+    return usage ?? total
+  }
+  const add = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0))
+  return {
+    inputTokens: add(total.inputTokens, usage.inputTokens),
+    outputTokens: add(total.outputTokens, usage.outputTokens),
+    totalTokens: add(total.totalTokens, usage.totalTokens),
+    reasoningTokens: add(total.reasoningTokens, usage.reasoningTokens),
+    cachedInputTokens: add(total.cachedInputTokens, usage.cachedInputTokens),
+    cachedInputIncluded: total.cachedInputIncluded || usage.cachedInputIncluded || undefined,
+  }
+}
+
+/**
+ * 调用模型生成回复；设置了结构化输出时按 JSON Schema 校验回复，不符合时把校验错误发回给模型重试，
+ * 返回最后一次的回复和校验结果，用量为所有尝试的合计
+ */
+async function chatWithStructuredOutput(
+  model: ModelInterface,
+  coreMessages: ModelMessage[],
+  options: CallChatCompletionOptions,
+  structuredOutput: StructuredOutputCheck | undefined
+): Promise<StreamTextResult> {
+  if (!structuredOutput) {
+    return model.chat(coreMessages, options)
+  }
+  const { schema, native, infoParts } = structuredOutput
+  let messages = coreMessages
+  let usage: StreamTextResult['usage']
+  for (let attempt = 1; ; attempt++) {
+    const result = await model.chat(messages, { ...options, structuredOutput: native ? { schema } : undefined })
+    usage = addUsage(usage, result.usage)
+    const text = result.contentParts.map((part) => (part.type === 'text' ? part.text : '')).join('')
+    const checked = checkStructuredOutput(text, schema)
+    if (!checked.errors || attempt > STRUCTURED_OUTPUT_MAX_RETRIES || options.signal?.aborted) {
+      return { ...result, usage, structuredOutput: { ...checked, attempts: attempt } }
+    }
+    infoParts.push({
+      type: 'info',
+      text: t('The reply does not match the JSON Schema, retrying ({{attempt}}/{{max}})', {
+        attempt,
+        max: STRUCTURED_OUTPUT_MAX_RETRIES,
+      }),
+    })
+    // 清空上一次的回复，只保留提示
+    options.onResultChange?.({ contentParts: [] })
+    messages = [
+      ...messages,
+      { role: 'assistant', content: text },
+      { role: 'user', content: buildStructuredOutputRetryPrompt(checked.errors) },
+    ]
+  }
+}
+
 /**
  * 处理搜索结果并返回模型响应的通用函数
  */
@@ -43,10 +122,16 @@ async function handleSearchResult(
   coreMessages: ModelMessage[],
   controller: AbortController,
   onResultChange: OnResultChange,
-  params: { providerOptions?: ProviderOptions }
+  params: { providerOptions?: ProviderOptions; promptCache?: PromptCacheSettings },
+  structuredOutput: StructuredOutputCheck | undefined
 ) {
   if (!result?.searchResults?.length || result.type === 'none') {
-    return model.chat(coreMessages, { signal: controller.signal, onResultChange })
+    return chatWithStructuredOutput(
+      model,
+      coreMessages,
+      { signal: controller.signal, onResultChange },
+      structuredOutput
+    )
   }
 
   const toolCallPart: MessageToolCallPart = {
@@ -64,17 +149,26 @@ async function handleSearchResult(
       ? constructMessagesWithKnowledgeBaseResults(messages, result.searchResults)
       : constructMessagesWithSearchResults(messages, result.searchResults)
 
-  return model.chat(await convertToModelMessages(messagesWithResults), {
-    signal: controller.signal,
-    onResultChange: (data) => {
-      if (data.contentParts) {
-        onResultChange({ ...data, contentParts: [toolCallPart, ...data.contentParts] })
-      } else {
-        onResultChange(data)
-      }
+  const modelMessages = applyPromptCacheBreakpoints(
+    await convertToModelMessages(messagesWithResults),
+    params.promptCache
+  )
+  return chatWithStructuredOutput(
+    model,
+    modelMessages,
+    {
+      signal: controller.signal,
+      onResultChange: (data) => {
+        if (data.contentParts) {
+          onResultChange({ ...data, contentParts: [toolCallPart, ...data.contentParts] })
+        } else {
+          onResultChange(data)
+        }
+      },
+      providerOptions: params.providerOptions,
     },
-    providerOptions: params.providerOptions,
-  })
+    structuredOutput
+  )
 }
 
 async function ocrMessages(messages: Message[]) {
@@ -99,39 +193,87 @@ async function ocrMessages(messages: Message[]) {
   await imageOCR(ocrModel, messages)
 }
 
+/** 每个工具的参数结构估算占用的 token 数 */
+const TOOL_SCHEMA_TOKENS = 100
+
 /**
- * 这里是供UI层调用，集中处理了模型的联网搜索、工具调用、系统消息等逻辑
+ * 估算 streamText 会附带的工具定义和工具使用说明占用的 token 数，构建上下文时为其预留空间
+ * 工具和说明由 resolveStreamTools 生成，与实际调用一致，参数结构按每个工具固定数量估算
  */
-export async function streamText(
+export function estimateToolDefinitionTokens(
   model: ModelInterface,
-  params: {
-    sessionId?: string
-    messages: Message[]
-    onResultChangeWithCancel: OnResultChangeWithCancel
-    providerOptions?: ProviderOptions
-    knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>
-    webBrowsing?: boolean
-  },
-  signal?: AbortSignal
+  params: Pick<StreamTextParams, 'messages' | 'knowledgeBase' | 'webBrowsing'>
 ) {
-  const { knowledgeBase, webBrowsing, sessionId } = params
-  const hasFileOrLink = params.messages.some((m) => m.files?.length || m.links?.length)
+  const { tools, toolSetInstructions } = resolveStreamTools(model, params)
+  return Object.entries(tools).reduce(
+    (sum, [name, tool]) => sum + estimateTokens(`${name} ${tool.description ?? ''}`) + TOOL_SCHEMA_TOKENS,
+    estimateTokens(toolSetInstructions)
+  )
+}
 
-  const controller = new AbortController()
-  const cancel = () => controller.abort()
-  if (signal) {
-    signal.addEventListener('abort', cancel, { once: true })
+type StreamTextParams = {
+  messages: Message[]
+  providerOptions?: ProviderOptions
+  knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>
+  webBrowsing?: boolean
+  /** 标记为可缓存的内容 */
+  promptCache?: PromptCacheSettings
+  /** 回复需要符合的 JSON Schema */
+  structuredOutput?: StructuredOutputSettings
+}
+
+/**
+ * 注入工具使用说明和模型信息、调整系统消息的角色并整理消息顺序，得到实际发送给模型的消息
+ * 模型不支持工具调用时，知识库和联网搜索改为通过提示词完成；
+ * 模型不支持原生结构化输出，或本次调用附带工具、开启思考等无法使用时，JSON Schema 附加在最新的用户消息上
+ */
+function prepareStreamMessages(model: ModelInterface, params: StreamTextParams) {
+  const { tools, toolSetInstructions, kbNotSupported, webNotSupported } = resolveStreamTools(model, params)
+
+  params.messages = injectModelSystemPrompt(
+    model.modelId,
+    params.messages,
+    // 在系统提示中添加知识库名称，方便模型理解
+    toolSetInstructions,
+    model.isSupportSystemMessage() ? 'system' : 'user'
+  )
+
+  if (!model.isSupportSystemMessage()) {
+    params.messages = params.messages.map((m) => ({ ...m, role: m.role === 'system' ? 'user' : m.role }))
   }
 
-  let result: StreamTextResult = {
-    contentParts: [],
+  const messages = sequenceMessages(params.messages)
+  const structuredOutputSchema = parseStructuredOutputSchema(params.structuredOutput)
+  const nativeStructuredOutput =
+    !!structuredOutputSchema && model.isSupportStructuredOutput({ tools, providerOptions: params.providerOptions })
+  return {
+    messages:
+      structuredOutputSchema && !nativeStructuredOutput
+        ? appendStructuredOutputInstructions(messages, structuredOutputSchema)
+        : messages,
+    tools,
+    structuredOutputSchema,
+    nativeStructuredOutput,
+    kbNotSupported,
+    webNotSupported,
   }
+}
+
+/**
+ * 确定模型调用附带的工具和注入系统提示的工具使用说明
+ * 模型不支持工具调用时，知识库和联网搜索改为通过提示词完成，此时模型调用不附带工具
+ */
+function resolveStreamTools(
+  model: ModelInterface,
+  params: Pick<StreamTextParams, 'messages' | 'knowledgeBase' | 'webBrowsing'>
+) {
+  const { knowledgeBase, webBrowsing } = params
+  const hasFileOrLink = params.messages.some((m) => m.files?.length || m.links?.length)
   // for model not support tool use, use prompt engineering to handle knowledge base and web search
   const needFileToolSet = hasFileOrLink && model.isSupportToolUse()
   const kbNotSupported = knowledgeBase && !model.isSupportToolUse('knowledge-base')
   const webNotSupported = webBrowsing && !model.isSupportToolUse('web-browsing')
 
-  // 1. inject system prompt for tool use
   let toolSetInstructions = ''
   if (knowledgeBase && !kbNotSupported) {
     toolSetInstructions += getToolSet(knowledgeBase.id, knowledgeBase.name).description
@@ -143,21 +285,129 @@ export async function streamText(
     toolSetInstructions += websearchToolSet.description
   }
 
-  params.messages = injectModelSystemPrompt(
-    model.modelId,
-    params.messages,
-    // 在系统提示中添加知识库名称，方便模型理解
-    toolSetInstructions,
-    model.isSupportSystemMessage() ? 'system' : 'user'
+  const tools: ToolSet =
+    kbNotSupported || webNotSupported ? {} : buildStreamToolSet({ knowledgeBase, webBrowsing, needFileToolSet })
+  return { tools, toolSetInstructions, kbNotSupported, webNotSupported }
+}
+
+/**
+ * 构建模型可以调用的工具
+ */
+function buildStreamToolSet(params: {
+  knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>
+  webBrowsing?: boolean
+  needFileToolSet: boolean
+}) {
+  const { knowledgeBase, webBrowsing, needFileToolSet } = params
+  let tools: ToolSet = {
+    ...mcpController.getAvailableTools(),
+  }
+  if (webBrowsing) {
+    tools.web_search = webSearchTool
+    if (settingActions.isPro()) {
+      tools.parse_link = parseLinkTool
+    }
+  }
+  if (knowledgeBase) {
+    tools = {
+      ...tools,
+      ...getToolSet(knowledgeBase.id, knowledgeBase.name).tools,
+    }
+  }
+
+  if (needFileToolSet) {
+    tools = {
+      ...tools,
+      ...fileToolSet.tools,
+    }
+  }
+  return tools
+}
+
+/** streamText 的预演结果 */
+export interface StreamTextInspection {
+  /** 整理后实际发送的消息 */
+  messages: Message[]
+  /** 转换为 AI SDK 格式的消息 */
+  modelMessages: ModelMessage[]
+  /** 模型可以调用的工具，模型不支持工具调用时为空 */
+  tools: { name: string; description?: string }[]
+  providerOptions?: ProviderOptions
+  /** 模型不支持图片输入，发送前会先对图片做 OCR，预演时不执行 */
+  needsOCR: boolean
+  /** 模型不支持工具调用时，先通过提示词完成的搜索 */
+  promptSearch?: 'knowledge_base' | 'web' | 'combined'
+  /** 结构化输出的方式：原生结构化输出，或在提示词中附加 JSON Schema */
+  structuredOutput?: 'native' | 'prompt'
+}
+
+/**
+ * 预演 streamText：按相同的步骤构建消息和工具，但不调用模型，也不执行 OCR 和搜索
+ */
+export async function inspectStreamText(
+  model: ModelInterface,
+  params: StreamTextParams
+): Promise<StreamTextInspection> {
+  const { providerOptions } = params
+  const { messages, tools, structuredOutputSchema, nativeStructuredOutput, kbNotSupported, webNotSupported } =
+    prepareStreamMessages(model, params)
+  const needsOCR =
+    !model.isSupportVision() && messages.some((m) => m.contentParts.some((c) => c.type === 'image' && !c.ocrResult))
+  const modelMessages = applyPromptCacheBreakpoints(
+    await convertToModelMessages(messages, { modelSupportVision: model.isSupportVision() }),
+    params.promptCache
   )
+  const promptSearch =
+    kbNotSupported && webNotSupported
+      ? 'combined'
+      : kbNotSupported
+        ? 'knowledge_base'
+        : webNotSupported
+          ? 'web'
+          : undefined
+  return {
+    messages,
+    modelMessages,
+    tools: Object.entries(tools).map(([name, tool]) => ({ name, description: tool.description })),
+    providerOptions,
+    needsOCR,
+    promptSearch,
+    structuredOutput: structuredOutputSchema ? (nativeStructuredOutput ? 'native' : 'prompt') : undefined,
+  }
+}
 
-  if (!model.isSupportSystemMessage()) {
-    params.messages = params.messages.map((m) => ({ ...m, role: m.role === 'system' ? 'user' : m.role }))
+/**
+ * 这里是供UI层调用，集中处理了模型的联网搜索、工具调用、系统消息等逻辑
+ */
+export async function streamText(
+  model: ModelInterface,
+  params: StreamTextParams & {
+    sessionId?: string
+    onResultChangeWithCancel: OnResultChangeWithCancel
+  },
+  signal?: AbortSignal
+) {
+  const { knowledgeBase, sessionId } = params
+
+  const controller = new AbortController()
+  const cancel = () => controller.abort()
+  if (signal) {
+    signal.addEventListener('abort', cancel, { once: true })
   }
 
+  let result: StreamTextResult = {
+    contentParts: [],
+  }
+  // 1. inject system prompt for tool use
   // 2. sequence messages to fix the order, prevent model API 400 errors
-  const messages = sequenceMessages(params.messages)
+  const { messages, tools, structuredOutputSchema, nativeStructuredOutput, kbNotSupported, webNotSupported } =
+    prepareStreamMessages(model, params)
   const infoParts: MessageInfoPart[] = []
+  const structuredOutput = structuredOutputSchema && {
+    schema: structuredOutputSchema,
+    native: nativeStructuredOutput,
+    infoParts,
+  }
   try {
     params.onResultChangeWithCancel({ cancel }) // 这里先传递 cancel 方法
     const onResultChange: OnResultChange = (data) => {
@@ -181,12 +431,15 @@ export async function streamText(
       })
     }
 
-    const coreMessages = await convertToModelMessages(messages, { modelSupportVision: model.isSupportVision() })
+    const coreMessages = applyPromptCacheBreakpoints(
+      await convertToModelMessages(messages, { modelSupportVision: model.isSupportVision() }),
+      params.promptCache
+    )
 
     // 3. handle model not support tool use scenarios
     if (kbNotSupported || webNotSupported) {
       // 当两个功能都启用且都不支持工具调用时，使用组合搜索
-      if (kbNotSupported && webNotSupported) {
+      if (knowledgeBase && kbNotSupported && webNotSupported) {
         // infoParts.push({
         //   type: 'info',
         //   text: t(
@@ -212,11 +465,12 @@ export async function streamText(
           coreMessages,
           controller,
           onResultChange,
-          params
+          params,
+          structuredOutput
         )
       }
       // 只有知识库不支持工具调用
-      else if (kbNotSupported) {
+      else if (knowledgeBase && kbNotSupported) {
         // infoParts.push({
         //   type: 'info',
         //   text: t('Current model {{modelName}} does not support tool use, using prompt for knowledge base', {
@@ -234,7 +488,8 @@ export async function streamText(
           coreMessages,
           controller,
           onResultChange,
-          params
+          params,
+          structuredOutput
         )
       }
       // 只有网络搜索不支持工具调用
@@ -255,44 +510,28 @@ export async function streamText(
           coreMessages,
           controller,
           onResultChange,
-          params
+          params,
+          structuredOutput
         )
       }
     }
 
-    // 4. construct tool set
-    let tools: ToolSet = {
-      ...mcpController.getAvailableTools(),
-    }
-    if (webBrowsing) {
-      tools.web_search = webSearchTool
-      if (settingActions.isPro()) {
-        tools.parse_link = parseLinkTool
-      }
-    }
-    if (knowledgeBase) {
-      tools = {
-        ...tools,
-        ...getToolSet(knowledgeBase.id, knowledgeBase.name).tools,
-      }
-    }
-
-    if (needFileToolSet) {
-      tools = {
-        ...tools,
-        ...fileToolSet.tools,
-      }
-    }
-
+    // 4. call the model with the tool set
     console.debug('tools', tools)
 
-    result = await model.chat(coreMessages, {
-      sessionId,
-      signal: controller.signal,
-      onResultChange,
-      providerOptions: params.providerOptions,
-      tools,
-    })
+    result = await chatWithStructuredOutput(
+      model,
+      coreMessages,
+      {
+        sessionId,
+        signal: controller.signal,
+        onResultChange,
+        providerOptions: params.providerOptions,
+        tools,
+        promptCacheKey: sessionId && isPromptCacheEnabled(params.promptCache) ? sessionId : undefined,
+      },
+      structuredOutput
+    )
 
     return result
   } catch (err) {
@@ -1,4 +1,4 @@
-import type { Message } from '../../shared/types'
+import type { MergeStrategy, Message } from '../../shared/types'
 import { getMessageText } from '../../shared/utils/message'
 
 export function nameConversation(msgs: Message[], language: string): Message[] {
@@ -180,3 +180,90 @@ Return only the continuation-ready instruction with the sections above.`,
     },
   ]
 }
+
+const mergeStrategyInstructions: Record<Exclude<MergeStrategy, 'custom'>, string> = {
+  summarize:
+    'Synthesize all branches into a single, well-structured answer. Keep every distinct idea that is worth keeping, remove duplication, and note where the branches complement each other.',
+  reconcile:
+    'Compare the branches point by point. Identify where they agree, where they conflict, and resolve each conflict with a clear recommendation and the reasoning behind it. End with one consolidated answer.',
+  'pick-best':
+    'Evaluate the branches against each other on correctness, completeness and clarity. Pick the best one, explain briefly why it wins, then present it, improved with any strong points from the other branches.',
+}
+
+export function mergeBranches(
+  branches: Message[][],
+  options: { strategy: MergeStrategy; prompt?: string; originalRequest?: Message }
+): Message {
+  const format = (msgs: Message[]) =>
+    msgs.map((msg) => `${msg.role.toUpperCase()}: ${getMessageText(msg, true, false)}`).join('\n\n')
+  const instruction =
+    options.strategy === 'custom'
+      ? options.prompt?.trim() || mergeStrategyInstructions.summarize
+      : mergeStrategyInstructions[options.strategy]
+  const originalRequest = options.originalRequest
+    ? `The alternatives below were all produced for this request:
+
+\`\`\`
+${getMessageText(options.originalRequest, true, false)}
+\`\`\`
+
+`
+    : ''
+
+  return {
+    id: 'merge-branches',
+    role: 'user',
+    contentParts: [
+      {
+        type: 'text',
+        text: `${originalRequest}The conversation was explored in ${branches.length} alternative branches. Each branch is shown as [branch X begin]...[branch X end].
+
+${branches.map((msgs, index) => `[branch ${index + 1} begin]\n${format(msgs)}\n[branch ${index + 1} end]`).join('\n\n')}
+
+${instruction}
+Answer directly, without mentioning that the content came from branches unless the comparison itself is useful to the user.`,
+      },
+    ],
+  }
+}
+
+export function summarizeBranch(context: Message[], branch: Message[], language: string): Message[] {
+  const format = (msgs: Message[]) =>
+    msgs
+      .map((msg) => `${msg.role.toUpperCase()}: ${getMessageText(msg, true, false).slice(0, 600)}`) // 限制长度以节省 tokens
+      .join('\n\n---------\n\n')
+  const background = context.length
+    ? `The branch continues from this point of the conversation:
+
+\`\`\`
+${format(context)}
+\`\`\`
+
+`
+    : ''
+
+  return [
+    {
+      id: '1',
+      role: 'user',
+      contentParts: [
+        {
+          type: 'text',
+          text: `${background}Here is one branch of the conversation:
+
+\`\`\`
+${format(branch.slice(0, 12))}
+\`\`\`
+
+Give this branch a short title (6 words max, no quotes) that tells it apart from other branches of the same conversation,
+and a one-paragraph summary (3 sentences max) of what was asked, answered and decided in it.
+Use ${language}.
+Reply in exactly this format, nothing else:
+
+Title: <title>
+Summary: <summary>`,
+        },
+      ],
+    },
+  ]
+}
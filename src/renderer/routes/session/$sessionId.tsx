@@ -5,11 +5,26 @@ import MessageList, { type MessageListRef } from '@/components/MessageList'
 import ThreadHistoryDrawer from '@/components/ThreadHistoryDrawer'
 import { ConversationTreeView } from '@/components/conversation-tree'
 import TreeToolbar from '@/components/conversation-tree/TreeToolbar'
+import { getBranchesToSummarize } from '@/lib/branch-summaries'
+import { collectContextChangedMessageIds, collectTreeLabels } from '@/lib/session-tree'
+import { DEFAULT_TREE_LAYOUT_MODE } from '@/lib/tree-layout'
+import { BRANCH_COMPARE_MAX, BRANCH_COMPARE_MIN } from '@/modals/BranchCompare'
 import { updateSession as updateSessionStore, useSession } from '@/stores/chatStore'
 import { lastUsedModelStore } from '@/stores/lastUsedModelStore'
 import * as scrollActions from '@/stores/scrollActions'
-import { modifyMessage, removeCurrentThread, startNewThread, submitNewUserMessage } from '@/stores/sessionActions'
+import * as settingActions from '@/stores/settingActions'
+import {
+  cancelPathReplay,
+  modifyMessage,
+  regenerateContextChangedMessages,
+  removeCurrentThread,
+  scheduleGenerateBranchSummaries,
+  startNewThread,
+  submitNewUserMessage,
+} from '@/stores/sessionActions'
 import { getAllMessageList } from '@/stores/sessionHelpers'
+import { useTreeHistoryStore } from '@/stores/treeHistoryStore'
+import { useUIStore } from '@/stores/uiStore'
 import { useViewModeStore } from '@/stores/viewModeStore'
 import NiceModal from '@ebay/nice-modal-react'
 import { Button } from '@mantine/core'
@@ -37,7 +52,11 @@ function RouteComponent() {
   const setInteractionMode = useViewModeStore((s) => s.setInteractionMode)
   const selectedNodeId = useViewModeStore((s) => s.selectedNodeId)
   const selectedNodeIds = useViewModeStore((s) => s.selectedNodeIds)
-  const treeUndoState = useViewModeStore((s) => s.treeUndoState)
+  const treeHistory = useTreeHistoryStore((s) => s.getStacks(currentSessionId))
+  const pathReplay = useUIStore((s) => s.pathReplays[currentSessionId])
+  const hasCollapsedNodes = useViewModeStore((s) => (s.collapsedNodes[currentSessionId]?.length ?? 0) > 0)
+  const layoutMode = useViewModeStore((s) => s.layoutModes[currentSessionId]) ?? DEFAULT_TREE_LAYOUT_MODE
+  const setLayoutMode = useViewModeStore((s) => s.setLayoutMode)
 
   const currentMessageList = useMemo(() => (currentSession ? getAllMessageList(currentSession) : []), [currentSession])
   const lastGeneratingMessage = useMemo(
@@ -45,6 +64,24 @@ function RouteComponent() {
     [currentMessageList]
   )
 
+  const treeLabels = useMemo(() => (currentSession ? collectTreeLabels(currentSession) : []), [currentSession])
+  const contextChangedCount = useMemo(
+    () => (currentSession ? collectContextChangedMessageIds(currentSession).length : 0),
+    [currentSession]
+  )
+  const unsummarizedBranchCount = useMemo(
+    () => (currentSession ? getBranchesToSummarize(currentSession).length : 0),
+    [currentSession]
+  )
+
+  // 分支摘要自动生成：分支新增或变长后重新调度（在 sessionActions 中进行去重和延迟处理）
+  useEffect(() => {
+    if (!currentSession || unsummarizedBranchCount === 0 || !settingActions.getAutoGenerateBranchSummaries()) {
+      return
+    }
+    scheduleGenerateBranchSummaries(currentSession.id)
+  }, [currentSession, unsummarizedBranchCount])
+
   const messageListRef = useRef<MessageListRef>(null)
 
   const goHome = useCallback(() => {
@@ -185,10 +222,43 @@ function RouteComponent() {
           onFocus={() => window.dispatchEvent(new CustomEvent('tree-toolbar-focus'))}
           onDelete={() => window.dispatchEvent(new CustomEvent('tree-toolbar-delete'))}
           onAutoLayout={() => window.dispatchEvent(new CustomEvent('tree-toolbar-auto-layout'))}
+          layoutMode={layoutMode}
+          onLayoutModeChange={(mode) => setLayoutMode(currentSessionId, mode)}
+          onCollapseInactive={() => window.dispatchEvent(new CustomEvent('tree-toolbar-collapse-inactive'))}
+          onExpandAll={() => window.dispatchEvent(new CustomEvent('tree-toolbar-expand-all'))}
           onUndo={() => window.dispatchEvent(new CustomEvent('tree-toolbar-undo'))}
+          onRedo={() => window.dispatchEvent(new CustomEvent('tree-toolbar-redo'))}
+          onJumpToHistory={(entryId) =>
+            window.dispatchEvent(new CustomEvent('tree-toolbar-history-jump', { detail: { entryId } }))
+          }
+          history={treeHistory}
+          onMerge={() => window.dispatchEvent(new CustomEvent('tree-toolbar-merge'))}
+          onCompare={() => window.dispatchEvent(new CustomEvent('tree-toolbar-compare'))}
+          onReference={() => window.dispatchEvent(new CustomEvent('tree-toolbar-reference'))}
+          onJumpToLabel={(messageId) =>
+            window.dispatchEvent(new CustomEvent('tree-toolbar-jump', { detail: { messageId } }))
+          }
+          labels={treeLabels}
+          onRegenerateContextChanged={() => regenerateContextChangedMessages(currentSessionId)}
+          contextChangedCount={contextChangedCount}
+          onSummarizeBranches={() => scheduleGenerateBranchSummaries(currentSessionId)}
+          unsummarizedBranchCount={unsummarizedBranchCount}
+          onShowStats={() => NiceModal.show('session-stats', { sessionId: currentSessionId })}
+          onPrune={() => NiceModal.show('prune-branches', { sessionId: currentSessionId })}
+          replayProgress={pathReplay}
+          onCancelReplay={() => cancelPathReplay(currentSessionId)}
           canFocus={interactionMode === 'click' ? !!selectedNodeId : selectedNodeIds.length > 0}
           canDelete={interactionMode === 'click' ? !!selectedNodeId : selectedNodeIds.length > 0}
-          canUndo={treeUndoState !== null && treeUndoState.sessionId === currentSession.id}
+          canUndo={treeHistory.undo.length > 0}
+          canRedo={treeHistory.redo.length > 0}
+          canExpandAll={hasCollapsedNodes}
+          canReference={interactionMode === 'click' ? !!selectedNodeId : selectedNodeIds.length > 0}
+          canMerge={interactionMode === 'select' && selectedNodeIds.length >= 2}
+          canCompare={
+            interactionMode === 'select' &&
+            selectedNodeIds.length >= BRANCH_COMPARE_MIN &&
+            selectedNodeIds.length <= BRANCH_COMPARE_MAX
+          }
         />
       )}
 
@@ -4,6 +4,7 @@ import { createFileRoute } from '@tanstack/react-router'
 import { useTranslation } from 'react-i18next'
 import { chatSessionSettings, getDefaultPrompt } from 'src/shared/defaults'
 import { AssistantAvatar, UserAvatar } from '@/components/Avatar'
+import FallbackModelsEditor from '@/components/FallbackModelsEditor'
 import { handleImageInputAndSave } from '@/components/Image'
 import MaxContextMessageCountSlider from '@/components/MaxContextMessageCountSlider'
 import { ScalableIcon } from '@/components/ScalableIcon'
@@ -199,6 +200,28 @@ export function RouteComponent() {
             />
           </Flex>
         </Stack>
+
+        <Stack gap="xxs">
+          <Flex align="center" gap="xs">
+            <Text size="sm">{t('Fallback models')}</Text>
+            <Tooltip
+              label={t(
+                'When a reply fails because of a network error, a timeout, a rate limit or a server error, it is generated again with the next model in the list.'
+              )}
+              withArrow={true}
+              maw={320}
+              className="!whitespace-normal"
+              zIndex={3000}
+              events={{ hover: true, focus: true, touch: true }}
+            >
+              <ScalableIcon icon={IconInfoCircle} size={20} className="text-chatbox-tint-tertiary" />
+            </Tooltip>
+          </Flex>
+          <FallbackModelsEditor
+            value={settings.fallbackModels ?? []}
+            onChange={(fallbackModels) => setSettings({ fallbackModels })}
+          />
+        </Stack>
       </Stack>
       <Divider />
 
@@ -294,6 +317,17 @@ export function RouteComponent() {
               })
             }
           />
+          <Switch
+            label={t('Auto-Generate Branch Summaries')}
+            description={t('Summarize each branch of the conversation tree with the thread naming model')}
+            checked={settings.autoGenerateBranchSummaries}
+            onChange={() =>
+              setSettings({
+                ...settings,
+                autoGenerateBranchSummaries: !settings.autoGenerateBranchSummaries,
+              })
+            }
+          />
           <Switch
             label={t('Spell Check')}
             checked={settings.spellCheck}
@@ -1,5 +1,6 @@
 import { getDefaultStore } from 'jotai'
-import type { Message, Session } from 'src/shared/types'
+import type { Session, SessionArchive } from 'src/shared/types'
+import { collectSessionStorageKeys } from '@/lib/branch-prune'
 import { StorageKeyGenerator } from '@/storage/StoreStorage'
 import { listSessionsMeta } from '@/stores/chatStore'
 import { settingsStore } from '@/stores/settingsStore'
@@ -33,35 +34,16 @@ export async function tickStorageTask() {
     if (!session) {
       continue
     }
-    for (const msg of session.messages) {
-      for (const pic of (msg as Message & { pictures: { storageKey: string }[] }).pictures || []) {
-        if (pic.storageKey) {
-          needDeletedSet.delete(pic.storageKey)
-        }
-      }
-      for (const file of msg.files || []) {
-        if (file.storageKey) {
-          needDeletedSet.delete(file.storageKey)
-        }
-      }
-      for (const part of msg.contentParts || []) {
-        if (part.type === 'image' && part.storageKey) {
-          needDeletedSet.delete(part.storageKey)
-        }
-      }
-      for (const link of msg.links || []) {
-        if (link.storageKey) {
-          needDeletedSet.delete(link.storageKey)
-        }
-      }
-      if (needDeletedSet.size === 0) {
-        return
-      }
+    // 对话树中所有分支、历史话题和会话归档中的图片、文件，以及会话助手头像
+    const archive = await storage.getItem<SessionArchive | null>(
+      StorageKeyGenerator.sessionArchive(sessionMeta.id),
+      null
+    )
+    for (const key of collectSessionStorageKeys(session, archive)) {
+      needDeletedSet.delete(key)
     }
-
-    // 会话助手头像不需要删除
-    if (session.assistantAvatarKey) {
-      needDeletedSet.delete(session.assistantAvatarKey)
+    if (needDeletedSet.size === 0) {
+      return
     }
   }
 
@@ -20,6 +20,9 @@ export const StorageKeyGenerator = {
   session(id: string) {
     return `session:${id}`
   },
+  sessionArchive(id: string) {
+    return `session-archive:${id}`
+  },
   picture(category: string) {
     return `picture:${category}:${uuidv4()}`
   },
@@ -10,6 +10,7 @@ import { useMemo } from 'react'
 import {
   type Message,
   type Session,
+  type SessionArchive,
   type SessionMeta,
   type SessionSettings,
   SessionSettingsSchema,
@@ -17,6 +18,14 @@ import {
   type UpdaterFn,
 } from 'src/shared/types'
 import { v4 as uuidv4 } from 'uuid'
+import {
+  buildMessageGraph,
+  getDetachedForks,
+  removeGraphSubtree,
+  syncMessageGraph,
+  toStoredSession,
+  updateGraphMessage,
+} from '@/lib/message-graph'
 import storage, { StorageKey } from '@/storage'
 import { StorageKeyGenerator } from '@/storage/StoreStorage'
 import * as defaults from '../../shared/defaults'
@@ -30,6 +39,7 @@ import { UpdateQueue } from './updateQueue'
 const QueryKeys = {
   ChatSessionsList: ['chat-sessions-list'],
   ChatSession: (id: string) => ['chat-session', id],
+  ChatSessionArchive: (id: string) => ['chat-session-archive', id],
 }
 
 // MARK: session list operations
@@ -89,6 +99,8 @@ const getSessionQueryOptions = (sessionId: string) => ({
   queryKey: QueryKeys.ChatSession(sessionId),
   queryFn: () => _getSessionById(sessionId),
   staleTime: Infinity,
+  // messageForksHash 是由消息图按需生成的视图，结构共享会逐项比较而生成所有分叉的内容
+  structuralSharing: false,
 })
 
 export async function getSession(sessionId: string) {
@@ -119,8 +131,9 @@ export async function createSession(newSession: Omit<Session, 'id'>, previousId?
       ...(newSession.type === 'picture' ? lastUsedPictureModel : lastUsedChatModel),
       ...newSession.settings,
     },
+    messageGraph: buildMessageGraph(newSession),
   }
-  await storage.setItemNow(StorageKeyGenerator.session(session.id), session)
+  await storage.setItemNow(StorageKeyGenerator.session(session.id), toStoredSession(session))
   const sMeta = getSessionMeta(session)
   await updateSessionList((sessions) => {
     if (!sessions) {
@@ -149,7 +162,7 @@ export async function updateSessionWithMessages(sessionId: string, updater: Upda
       async (session) => {
         if (session) {
           console.debug('chatStore', 'persist session', sessionId)
-          await storage.setItemNow(StorageKeyGenerator.session(sessionId), session)
+          await storage.setItemNow(StorageKeyGenerator.session(sessionId), toStoredSession(session))
         }
       }
     )
@@ -160,12 +173,12 @@ export async function updateSessionWithMessages(sessionId: string, updater: Upda
       throw new Error(`Session ${sessionId} not found`)
     }
     if (typeof updater === 'function') {
-      return updater(prev)
+      return syncMessageGraph(prev, updater(prev))
     } else {
       if (isEmpty(getSessionMeta(updater as SessionMeta))) {
         needUpdateSessionList = false
       }
-      return { ...prev, ...updater }
+      return syncMessageGraph(prev, { ...prev, ...updater })
     }
   })
   if (needUpdateSessionList) {
@@ -206,9 +219,9 @@ export async function updateSessionCache(sessionId: string, updater: Updater<Ses
       return old
     }
     if (typeof updater === 'function') {
-      return updater(old)
+      return syncMessageGraph(old, updater(old))
     } else {
-      return { ...old, ...updater }
+      return syncMessageGraph(old, { ...old, ...updater })
     }
   })
 }
@@ -216,7 +229,9 @@ export async function updateSessionCache(sessionId: string, updater: Updater<Ses
 export async function deleteSession(id: string) {
   console.debug('chatStore', 'deleteSession', id)
   await storage.removeItem(StorageKeyGenerator.session(id))
+  await storage.removeItem(StorageKeyGenerator.sessionArchive(id))
   _setSessionCache(id, null)
+  queryClient.setQueryData(QueryKeys.ChatSessionArchive(id), null)
   await updateSessionList((sessions) => {
     if (!sessions) {
       throw new Error('Session list not found')
@@ -225,6 +240,40 @@ export async function deleteSession(id: string) {
   })
 }
 
+// MARK: session archive operations
+
+// 修剪时移出会话的分支，与会话分开存储，不随会话加载
+const getSessionArchiveQueryOptions = (sessionId: string) => ({
+  queryKey: QueryKeys.ChatSessionArchive(sessionId),
+  queryFn: () => storage.getItem<SessionArchive | null>(StorageKeyGenerator.sessionArchive(sessionId), null),
+  staleTime: Infinity,
+})
+
+export async function getSessionArchive(sessionId: string) {
+  return await queryClient.fetchQuery(getSessionArchiveQueryOptions(sessionId))
+}
+
+export function useSessionArchive(sessionId: string | null) {
+  const { data: archive, ...rest } = useQuery({
+    ...getSessionArchiveQueryOptions(sessionId ?? ''),
+    enabled: !!sessionId,
+  })
+  return { archive, ...rest }
+}
+
+// 归档中没有分支时删除存储项
+export async function updateSessionArchive(sessionId: string, updater: UpdaterFn<SessionArchive>) {
+  const prev = await getSessionArchive(sessionId)
+  const updated = updater(prev ?? { sessionId, branches: [] })
+  if (updated.branches.length > 0) {
+    await storage.setItemNow(StorageKeyGenerator.sessionArchive(sessionId), updated)
+  } else {
+    await storage.removeItem(StorageKeyGenerator.sessionArchive(sessionId))
+  }
+  queryClient.setQueryData(QueryKeys.ChatSessionArchive(sessionId), updated.branches.length > 0 ? updated : null)
+  return updated
+}
+
 // MARK: session settings operations
 
 function mergeDefaultSessionSettings(session: Session): SessionSettings {
@@ -375,6 +424,13 @@ export async function updateMessage(
         } satisfies Message
       })
     }
+    // 对话树中的消息（包括其他分支上的）直接在消息图上替换
+    const messageGraph =
+      session.messageGraph && updateGraphMessage(session.messageGraph, messageId, (m) => updateMessages([m])[0])
+    if (messageGraph) {
+      return { ...session, messageGraph }
+    }
+
     const message = session.messages.find((m) => m.id === messageId)
     if (message) {
       return {
@@ -383,9 +439,10 @@ export async function updateMessage(
       }
     }
 
-    // try find message in messageForksHash (分支消息)
-    if (session.messageForksHash) {
-      for (const [forkMsgId, forkData] of Object.entries(session.messageForksHash)) {
+    // try find message in messageForksHash (不在消息图中的分叉，例如挂在历史话题消息上的分叉)
+    const detachedForks = getDetachedForks(session.messageForksHash, session.messageGraph)
+    if (detachedForks) {
+      for (const [forkMsgId, forkData] of Object.entries(detachedForks)) {
         for (let branchIndex = 0; branchIndex < forkData.lists.length; branchIndex++) {
           const branch = forkData.lists[branchIndex]
           const message = branch.messages.find((m) => m.id === messageId)
@@ -444,6 +501,12 @@ export async function removeMessage(sessionId: string, messageId: string) {
       throw new Error(`session ${sessionId} not found`)
     }
 
+    // 主对话树中的消息直接在消息图上删除，耗时 O(深度 + 子树大小)
+    const messageGraph = session.messageGraph && removeGraphSubtree(session.messageGraph, messageId)
+    if (messageGraph) {
+      return { ...session, messageGraph }
+    }
+
     // ============ 重构后的删除逻辑 (V5) ============
     // 设计目标：
     // 1. 只删除目标消息及其直接下游（同一分支内）
@@ -721,27 +784,3 @@ export async function recoverSessionList() {
 
   return { recovered: recoveredSessionMetas.length, failed: failedKeys.length }
 }
-
-/**
- * 恢复会话消息（用于撤销删除操作）
- * @param sessionId 会话ID
- * @param messages 要恢复的消息列表
- * @param messageForksHash 要恢复的分支哈希
- */
-export async function restoreSessionMessages(
-  sessionId: string,
-  messages: Message[],
-  messageForksHash?: Session['messageForksHash']
-) {
-  return await updateSessionWithMessages(sessionId, (session) => {
-    if (!session) {
-      throw new Error(`session ${sessionId} not found`)
-    }
-    
-    return {
-      ...session,
-      messages,
-      messageForksHash,
-    }
-  })
-}
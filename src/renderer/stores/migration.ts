@@ -30,6 +30,7 @@ import { initData } from '@/setup/init_data'
 import storage, { StorageKey } from '@/storage'
 import { StorageKeyGenerator } from '@/storage/StoreStorage'
 import * as defaults from '../../shared/defaults'
+import { toStoredSession } from '../lib/message-graph'
 import { getLogger } from '../lib/utils'
 import { migrationProcessAtom } from './atoms/utilAtoms'
 import { getSessionMeta } from './sessionHelpers'
@@ -56,7 +57,7 @@ type MigrateStore = {
   setBlob?: (key: string, value: string) => Promise<void>
 }
 
-export const CurrentVersion = 13
+export const CurrentVersion = 14
 
 async function doMigrateStorage(oldStorage: Storage) {
   // 找到老版本的数据，说明是升级，执行数据迁移操作
@@ -201,6 +202,7 @@ export async function migrateOnData(dataStore: MigrateStore, canRelaunch = true)
     migrate_10_to_11,
     migrate_11_to_12,
     migrate_12_to_13,
+    migrate_13_to_14,
   ]
 
   for (; configVersion < CurrentVersion; configVersion++) {
@@ -719,3 +721,32 @@ async function migrate_11_to_12(dataStore: MigrateStore) {
 async function migrate_12_to_13(dataStore: MigrateStore) {
   return true
 }
+
+// 会话树改为扁平的消息图存储（每条消息记录 parentId，会话记录活跃叶子节点），替代嵌套的 messageForksHash
+async function migrate_13_to_14(dataStore: MigrateStore) {
+  const chatSessionList = await dataStore.getData<SessionMeta[]>(StorageKey.ChatSessionsList, [])
+  log.info(`migrate_13_to_14, chatSessionList: ${chatSessionList.length}`)
+
+  const sessionMap: { [key: string]: Session } = {}
+  for (let i = 0; i < chatSessionList.length; i++) {
+    const sessionMeta = chatSessionList[i]
+    try {
+      const session = await dataStore.getData<Session | null>(
+        StorageKeyGenerator.session(sessionMeta.id) as StorageKey,
+        null
+      )
+      if (session?.id && !session.messageGraph) {
+        sessionMap[StorageKeyGenerator.session(session.id)] = toStoredSession({
+          ...session,
+          messages: session.messages || [],
+        })
+      }
+    } catch (e) {
+      log.info(`migrate session [${i + 1}/${chatSessionList.length}] message graph failed, ${sessionMeta.name}, ${e}`)
+    }
+  }
+
+  await dataStore.setAll(sessionMap)
+  log.info(`migrate_13_to_14, done`)
+  return false
+}
@@ -1,16 +1,62 @@
 import { arrayMove } from '@dnd-kit/sortable'
 import * as Sentry from '@sentry/react'
+import { t } from 'i18next'
 import { getDefaultStore } from 'jotai'
 import { identity, omit, pickBy } from 'lodash'
 import * as defaults from 'src/shared/defaults'
-import { getModel } from 'src/shared/models'
-import type { OnResultChangeWithCancel } from 'src/shared/models/types'
+import { getModel, getModelInfo } from 'src/shared/models'
+import type { ModelInterface, OnResultChangeWithCancel } from 'src/shared/models/types'
+import type { ModelDependencies } from 'src/shared/types/adapters'
 import { v4 as uuidv4 } from 'uuid'
 import { createModelDependencies } from '@/adapters'
 import * as dom from '@/hooks/dom'
 import { languageNameMap } from '@/i18n/locales'
+import { collectMessageStorageKeys, collectSessionStorageKeys } from '@/lib/branch-prune'
+import {
+  collectTreeBranches,
+  copyBranchSummaries,
+  createBranchSummary,
+  getBranchesToSummarize,
+  parseBranchSummaryResponse,
+  pruneBranchSummaries,
+} from '@/lib/branch-summaries'
+import { getContextTokenBudget } from '@/lib/context-budget'
+import type { ContextInspection } from '@/lib/context-inspector'
+import { applyGenerationOverride, applySystemPromptOverride } from '@/lib/generation-override'
+import { genMessageContext } from '@/lib/message-context'
+import {
+  activateGraphMessage,
+  attachGraphSubtree,
+  buildMessageGraph,
+  getDetachedForks,
+  getGraphMessagePath,
+  getGraphSubtree,
+  isOnActivePath,
+  removeGraphSubtree,
+  switchGraphFork,
+  withMessageTreeViews,
+} from '@/lib/message-graph'
+import { getFallbackDelay, getFallbackModels, isRetryableGenerationError, waitForFallback } from '@/lib/model-fallback'
+import { buildPathReplayPlan, copyReplayMessage, getReplayGenerationOverride } from '@/lib/path-replay'
+import { copyTreeAnnotations, createTreeAnnotation } from '@/lib/tree-annotations'
+import {
+  buildMessageReference,
+  collectContextChangedMessageIds,
+  excludeAncestorMessageIds,
+  extractMessagePath,
+  getCommonPrefixLength,
+  getMessagePath,
+  indexSessionTree,
+  reparentSubtree,
+} from '@/lib/session-tree'
 import * as appleAppStore from '@/packages/apple_app_store'
-import { generateImage, generateText, streamText } from '@/packages/model-calls'
+import {
+  estimateToolDefinitionTokens,
+  generateImage,
+  generateText,
+  inspectStreamText,
+  streamText,
+} from '@/packages/model-calls'
 import { getModelDisplayName } from '@/packages/model-setting-utils'
 import { estimateTokensFromMessages } from '@/packages/token'
 import { router } from '@/router'
@@ -25,34 +71,48 @@ import {
   NetworkError,
 } from '../../shared/models/errors'
 import {
+  type ArchivedBranch,
+  type Config,
   copyMessage,
   copyMessageForksHash,
   copyThreads,
   createMessage,
   type ExportChatFormat,
+  type ExportTreeFormat,
   type ExportChatScope,
+  type GenerationOverride,
+  type KnowledgeBase,
+  type MergeStrategy,
   type Message,
   type MessageImagePart,
+  type MessageInfoPart,
+  type MessageMergeInfo,
+  type MessageReference,
   type MessagePicture,
   type ModelProvider,
   type Session,
+  type SessionArchive,
   type SessionMeta,
   type SessionSettings,
   type SessionThread,
   type SessionType,
   type Settings,
+  type TreeAnnotation,
+  type TreeAnnotationKind,
   type ModelProvider,
 } from '../../shared/types'
-import { cloneMessage, countMessageWords, getMessageText, mergeMessages } from '../../shared/utils/message'
+import { countMessageWords, getMessageText } from '../../shared/utils/message'
 import * as promptFormat from '../packages/prompts'
 import platform from '../platform'
 import storage from '../storage'
 import * as atoms from './atoms'
 import * as chatStore from './chatStore'
 import * as scrollActions from './scrollActions'
-import { exportChat, initEmptyChatSession, initEmptyPictureSession } from './sessionHelpers'
+import { exportChat, exportTree, initEmptyChatSession, initEmptyPictureSession } from './sessionHelpers'
 import * as settingActions from './settingActions'
 import { settingsStore } from './settingsStore'
+import { withTreeHistory } from './treeHistoryActions'
+import { treeHistoryStore } from './treeHistoryStore'
 import { uiStore } from './uiStore'
 
 /**
@@ -312,6 +372,8 @@ async function copySession(
     messages: newMessages,
     threads: newThreads,
     messageForksHash: copyMessageForksHash(source.messageForksHash, idMap),
+    treeAnnotations: copyTreeAnnotations(source.treeAnnotations, idMap),
+    branchSummaries: copyBranchSummaries(source.branchSummaries, idMap),
     ...(sourceMeta.threadName ? { threadName: sourceMeta.threadName } : {}),
   }
   return await chatStore.createSession(newSession, source.id)
@@ -504,6 +566,39 @@ export async function moveThreadToConversations(sessionId: string, threadId: str
   switchCurrentSession(newSession.id)
 }
 
+/**
+ * 将会话树中从根节点到指定消息的路径提取为一个新的独立会话，并切换到新会话
+ * 新会话继承原会话的设置，并记录指向原会话和节点的反向链接
+ * @param options.includeSubtree 是否同时保留该消息的整个子树（包括子树内的分支）
+ */
+export async function extractPathToNewSession(
+  sessionId: string,
+  messageId: string,
+  options: { includeSubtree?: boolean } = {}
+) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    return
+  }
+  const extracted = extractMessagePath(session, messageId, options)
+  if (!extracted) {
+    return
+  }
+  const idMap = new Map<string, string>()
+  const newSession = await chatStore.createSession(
+    {
+      ...omit(session, 'id', 'messages', 'threads', 'threadName', 'messageForksHash', 'extractedFrom'),
+      messages: extracted.messages.map((m) => copyMessage(m, idMap)),
+      messageForksHash: copyMessageForksHash(extracted.messageForksHash, idMap),
+      treeAnnotations: copyTreeAnnotations(session.treeAnnotations, idMap),
+      branchSummaries: copyBranchSummaries(session.branchSummaries, idMap),
+      extractedFrom: { sessionId, messageId, createdAt: Date.now() },
+    },
+    session.id
+  )
+  switchCurrentSession(newSession.id)
+}
+
 export async function moveCurrentThreadToConversations(sessionId: string) {
   const session = await chatStore.getSession(sessionId)
   if (!session) {
@@ -549,7 +644,7 @@ export async function insertMessageAfter(sessionId: string, msg: Message, afterM
   msg.wordCount = countMessageWords(msg)
   msg.tokenCount = estimateTokensFromMessages([msg])
 
-  await chatStore.insertMessage(sessionId, msg, afterMsgId)
+  await withTreeHistory(sessionId, 'insert', () => chatStore.insertMessage(sessionId, msg, afterMsgId))
 }
 
 /**
@@ -589,8 +684,31 @@ export async function modifyMessage(
  * @param messageId
  */
 export async function removeMessage(sessionId: string, messageId: string) {
-  await chatStore.removeMessage(sessionId, messageId)
+  await withTreeHistory(sessionId, 'delete', () => chatStore.removeMessage(sessionId, messageId))
+}
+
+/**
+ * 批量删除消息，作为一次操作记录到历史中
+ * @param sessionId
+ * @param messageIds 按删除顺序排列的消息ID（通常先删除子节点）
+ */
+export async function removeMessages(sessionId: string, messageIds: string[]) {
+  await withTreeHistory(sessionId, 'delete', async () => {
+    for (const messageId of messageIds) {
+      await chatStore.removeMessage(sessionId, messageId)
+    }
+  })
+}
+
+/**
+ * 用户手动编辑消息内容，修改会记录到历史中以便撤销
+ * @param sessionId
+ * @param updated
+ */
+export async function editMessage(sessionId: string, updated: Message) {
+  await withTreeHistory(sessionId, 'edit', () => modifyMessage(sessionId, updated, true))
 }
+
 /**
  * 在会话中发送新用户消息，并根据需要生成回复
  * @param params
@@ -883,28 +1001,161 @@ async function generateWithSettings(
   return generateInternal(sessionId, targetMsg, settings, globalSettings, session, options)
 }
 
+/**
+ * 生成对话回复，失败且错误可重试时按回退链换用下一个模型重新生成
+ * 回退前失败的模型和错误保留在回复开头；reply 随生成过程更新为最新的回复和实际使用的设置，
+ * 所有模型都失败时抛出最后一个错误，由调用方写入回复
+ */
+async function generateChatReplyWithFallback(
+  sessionId: string,
+  session: Session,
+  reply: { message: Message; settings: SessionSettings },
+  contextMsgs: Message[],
+  params: {
+    globalSettings: Settings
+    configs: Config
+    dependencies: ModelDependencies
+    model: ModelInterface
+    knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>
+    webBrowsing?: boolean
+    /** 由调用方控制取消，回退等待期间也能取消 */
+    abortController?: AbortController
+  }
+) {
+  const { globalSettings, configs, dependencies, knowledgeBase, webBrowsing } = params
+  const settings = reply.settings
+  const abortController = params.abortController ?? new AbortController()
+  const persistInterval = 2000
+  let lastPersistTimestamp = Date.now()
+  const fallbackModels = getFallbackModels(settings, globalSettings)
+  // 回退前失败的模型和错误保留在回复开头
+  const fallbackInfoParts: MessageInfoPart[] = []
+  let chatModel = params.model
+  for (let attempt = 0; ; attempt++) {
+    // 首字延迟按每次尝试单独计算，不包含失败的模型和回退等待的时间
+    const startTime = Date.now()
+    let firstTokenLatency: number | undefined
+    try {
+      const { prompts: promptMsgs, contextTrim } = await buildGenerationPrompts(
+        reply.settings,
+        globalSettings,
+        chatModel,
+        contextMsgs,
+        session,
+        { knowledgeBase, webBrowsing }
+      )
+      reply.message = { ...reply.message, contextTrim }
+      const modifyMessageCache: OnResultChangeWithCancel = async (updated) => {
+        const textLength = getMessageText(reply.message, true, true).length
+        if (!firstTokenLatency && textLength > 0) {
+          firstTokenLatency = Date.now() - startTime
+        }
+        reply.message = {
+          ...reply.message,
+          ...pickBy(updated, identity),
+          ...(updated.contentParts ? { contentParts: [...fallbackInfoParts, ...updated.contentParts] } : {}),
+          cancel: () => abortController.abort(),
+          status: textLength > 0 ? [] : reply.message.status,
+          firstTokenLatency,
+        }
+        // update cache on each chunk and persist to storage periodically
+        const shouldPersist = Date.now() - lastPersistTimestamp >= persistInterval
+        await modifyMessage(sessionId, reply.message, false, !shouldPersist)
+        if (shouldPersist) {
+          lastPersistTimestamp = Date.now()
+        }
+      }
+
+      const result = await streamText(
+        chatModel,
+        {
+          sessionId: session.id,
+          messages: promptMsgs,
+          onResultChangeWithCancel: modifyMessageCache,
+          providerOptions: reply.settings.providerOptions,
+          promptCache: reply.settings.promptCache,
+          structuredOutput: reply.settings.structuredOutput,
+          knowledgeBase,
+          webBrowsing,
+        },
+        abortController.signal
+      )
+      reply.message = {
+        ...reply.message,
+        generating: false,
+        cancel: undefined,
+        tokensUsed: reply.message.tokensUsed ?? estimateTokensFromMessages([...promptMsgs, reply.message]),
+        status: [],
+        finishReason: result.finishReason,
+        usage: result.usage,
+        structuredOutput: result.structuredOutput,
+      }
+      await modifyMessage(sessionId, reply.message, true)
+      return
+    } catch (err: unknown) {
+      const fallback = fallbackModels[attempt]
+      if (!fallback || abortController.signal.aborted || !isRetryableGenerationError(err)) {
+        throw err
+      }
+      reply.settings = { ...settings, provider: fallback.provider as ModelProvider, modelId: fallback.model }
+      const fallbackName = await getModelDisplayName(reply.settings, globalSettings, 'chat')
+      fallbackInfoParts.push({
+        type: 'info',
+        text: t('{{model}} failed, switched to {{fallback}}: {{error}}', {
+          model: reply.message.model,
+          fallback: fallbackName,
+          error: err instanceof Error ? err.message : `${err}`,
+        }),
+      })
+      // 回复的提供方和模型始终是实际回答的模型
+      reply.message = {
+        ...reply.message,
+        contentParts: [...fallbackInfoParts],
+        aiProvider: reply.settings.provider,
+        model: fallbackName,
+        cancel: () => abortController.abort(),
+        tokensUsed: undefined,
+        usage: undefined,
+        finishReason: undefined,
+        firstTokenLatency: undefined,
+      }
+      await modifyMessage(sessionId, reply.message)
+      await waitForFallback(getFallbackDelay(attempt + 1), abortController.signal)
+      if (abortController.signal.aborted) {
+        throw err
+      }
+      chatModel = getModel(reply.settings, globalSettings, configs, dependencies)
+    }
+  }
+}
+
 /**
  * 执行消息生成，会修改消息的状态
  * @param sessionId
  * @param targetMsg
+ * @param options.abortController 由调用方控制取消，停止生成时该控制器也会被中止，调用方据此得知生成被取消
  * @returns
  */
 async function generate(
   sessionId: string,
   targetMsg: Message,
-  options?: { operationType?: 'send_message' | 'regenerate' }
+  options?: { operationType?: 'send_message' | 'regenerate'; abortController?: AbortController }
 ) {
   // 获得依赖的数据
   const session = await chatStore.getSession(sessionId)
-  const settings = await chatStore.getSessionSettings(sessionId)
+  const sessionSettings = await chatStore.getSessionSettings(sessionId)
   const globalSettings = settingsStore.getState().getSettings()
   const configs = await platform.getConfig()
-  if (!session || !settings) {
+  if (!session || !sessionSettings) {
     return
   }
+  // 消息上保存的分支级生成设置优先于会话设置
+  const settings = applyGenerationOverride(sessionSettings, targetMsg.generationOverride)
 
   // 跟踪生成事件
   trackGenerateEvent(settings, globalSettings, session.type, options)
+  // 回退链换用其他模型后为该模型的设置
+  let activeSettings = settings
 
   // 将消息的状态修改成初始状态
   targetMsg = {
@@ -921,6 +1172,9 @@ async function generate(
     errorExtra: undefined,
     status: [],
     firstTokenLatency: undefined,
+    contextChanged: undefined,
+    contextTrim: undefined,
+    structuredOutput: undefined,
     // Set isStreamingMode once during Message initialization (constant property)
     isStreamingMode: settings.stream !== false,
   }
@@ -959,48 +1213,26 @@ async function generate(
       // 对话消息生成
       case 'chat':
       case undefined: {
-        const startTime = Date.now()
-        let firstTokenLatency: number | undefined
-        const persistInterval = 2000
-        let lastPersistTimestamp = Date.now()
-        const promptMsgs = await genMessageContext(settings, messages.slice(0, targetMsgIx), model.isSupportToolUse())
-        const modifyMessageCache: OnResultChangeWithCancel = async (updated) => {
-          const textLength = getMessageText(targetMsg, true, true).length
-          if (!firstTokenLatency && textLength > 0) {
-            firstTokenLatency = Date.now() - startTime
-          }
-          targetMsg = {
-            ...targetMsg,
-            ...pickBy(updated, identity),
-            status: textLength > 0 ? [] : targetMsg.status,
-            firstTokenLatency,
-          }
-          // update cache on each chunk and persist to storage periodically
-          const shouldPersist = Date.now() - lastPersistTimestamp >= persistInterval
-          await modifyMessage(sessionId, targetMsg, false, !shouldPersist)
-          if (shouldPersist) {
-            lastPersistTimestamp = Date.now()
-          }
-        }
-
-        const result = await streamText(model, {
-          sessionId: session.id,
-          messages: promptMsgs,
-          onResultChangeWithCancel: modifyMessageCache,
-          providerOptions: settings.providerOptions,
-          knowledgeBase,
-          webBrowsing,
-        })
-        targetMsg = {
-          ...targetMsg,
-          generating: false,
-          cancel: undefined,
-          tokensUsed: targetMsg.tokensUsed ?? estimateTokensFromMessages([...promptMsgs, targetMsg]),
-          status: [],
-          finishReason: result.finishReason,
-          usage: result.usage,
+        // 合并节点的上下文由所有来源分支构建，普通消息使用所在消息列表
+        const contextMsgs = applySystemPromptOverride(
+          (targetMsg.merge && buildMergeContext(session, targetMsg.merge)) || messages.slice(0, targetMsgIx),
+          targetMsg.generationOverride?.systemPrompt
+        )
+        const reply = { message: targetMsg, settings: activeSettings }
+        try {
+          await generateChatReplyWithFallback(sessionId, session, reply, contextMsgs, {
+            globalSettings,
+            configs,
+            dependencies,
+            model,
+            knowledgeBase,
+            webBrowsing,
+            abortController: options?.abortController,
+          })
+        } finally {
+          targetMsg = reply.message
+          activeSettings = reply.settings
         }
-        await modifyMessage(sessionId, targetMsg, true)
         break
       }
       // 图片消息生成
@@ -1068,7 +1300,7 @@ async function generate(
       errorCode,
       error: `${error.message}`, // 这么写是为了避免类型问题
       errorExtra: {
-        aiProvider: settings.provider,
+        aiProvider: activeSettings.provider,
         host: error instanceof NetworkError ? error.host : undefined,
         // biome-ignore lint/suspicious/noExplicitAny: FIXME: 找到有responseBody的error类型
         responseBody: (error as any).responseBody,
@@ -1097,8 +1329,13 @@ async function generateInternal(
   const session = await chatStore.getSession(sessionId)
   if (!session) return
 
+  // 消息上保存的分支级生成设置优先于多模型选择
+  settings = applyGenerationOverride(settings, targetMsg.generationOverride)
+
   // 跟踪生成事件
   trackGenerateEvent(settings, globalSettings, session.type, options)
+  // 回退链换用其他模型后为该模型的设置
+  let activeSettings = settings
 
   // 将消息的状态修改成初始状态
   targetMsg = {
@@ -1113,6 +1350,8 @@ async function generateInternal(
     errorExtra: undefined,
     status: [],
     firstTokenLatency: undefined,
+    contextTrim: undefined,
+    structuredOutput: undefined,
     isStreamingMode: settings.stream !== false,
   }
 
@@ -1162,49 +1401,24 @@ async function generateInternal(
     const knowledgeBase = sessionKnowledgeBaseMap[sessionId]
     const webBrowsing = uiStore.getState().inputBoxWebBrowsingMode
 
-    const startTime = Date.now()
-    let firstTokenLatency: number | undefined
-    const persistInterval = 2000
-    let lastPersistTimestamp = Date.now()
-    const promptMsgs = await genMessageContext(settings, messages.slice(0, targetMsgIx), model.isSupportToolUse())
-    
-    const modifyMessageCache: OnResultChangeWithCancel = async (updated) => {
-      const textLength = getMessageText(targetMsg, true, true).length
-      if (!firstTokenLatency && textLength > 0) {
-        firstTokenLatency = Date.now() - startTime
-      }
-      targetMsg = {
-        ...targetMsg,
-        ...pickBy(updated, identity),
-        status: textLength > 0 ? [] : targetMsg.status,
-        firstTokenLatency,
-      }
-      const shouldPersist = Date.now() - lastPersistTimestamp >= persistInterval
-      await modifyMessage(sessionId, targetMsg, false, !shouldPersist)
-      if (shouldPersist) {
-        lastPersistTimestamp = Date.now()
-      }
-    }
-
-    const result = await streamText(model, {
-      sessionId: session.id,
-      messages: promptMsgs,
-      onResultChangeWithCancel: modifyMessageCache,
-      providerOptions: settings.providerOptions,
-      knowledgeBase,
-      webBrowsing,
-    })
-    
-    targetMsg = {
-      ...targetMsg,
-      generating: false,
-      cancel: undefined,
-      tokensUsed: targetMsg.tokensUsed ?? estimateTokensFromMessages([...promptMsgs, targetMsg]),
-      status: [],
-      finishReason: result.finishReason,
-      usage: result.usage,
+    const contextMsgs = applySystemPromptOverride(
+      messages.slice(0, targetMsgIx),
+      targetMsg.generationOverride?.systemPrompt
+    )
+    const reply = { message: targetMsg, settings: activeSettings }
+    try {
+      await generateChatReplyWithFallback(sessionId, session, reply, contextMsgs, {
+        globalSettings,
+        configs,
+        dependencies,
+        model,
+        knowledgeBase,
+        webBrowsing,
+      })
+    } finally {
+      targetMsg = reply.message
+      activeSettings = reply.settings
     }
-    await modifyMessage(sessionId, targetMsg, true)
   } catch (err: unknown) {
     const error = !(err instanceof Error) ? new Error(`${err}`) : err
     if (
@@ -1227,7 +1441,7 @@ async function generateInternal(
       errorCode,
       error: `${error.message}`,
       errorExtra: {
-        aiProvider: settings.provider,
+        aiProvider: activeSettings.provider,
         host: error instanceof NetworkError ? error.host : undefined,
         responseBody: (error as any).responseBody,
       },
@@ -1242,19 +1456,26 @@ async function generateInternal(
  * @param sessionId 会话ID
  * @param msgId 消息ID
  * @param multiModels 多模型模式下的模型列表（可选）
+ * @param override 分支级生成设置（可选），指定了模型时忽略多模型选择
  */
 export async function generateMore(
   sessionId: string, 
   msgId: string,
-  multiModels?: Array<{ provider: string; modelId: string }>
+  multiModels?: Array<{ provider: string; modelId: string }>,
+  override?: GenerationOverride
 ) {
+  if (override?.provider && override.modelId) {
+    multiModels = undefined
+  }
+
   // 多模型模式：为每个模型创建分支并生成回复
   if (multiModels && multiModels.length > 1) {
-    return generateMoreMultiModel(sessionId, msgId, multiModels)
+    return generateMoreMultiModel(sessionId, msgId, multiModels, override)
   }
 
   const newAssistantMsg = createMessage('assistant', '')
   newAssistantMsg.generating = true // prevent estimating token count before generating done
+  newAssistantMsg.generationOverride = override
   await insertMessageAfter(sessionId, newAssistantMsg, msgId)
   
   // 如果多模型模式下只选择了一个模型，使用该模型
@@ -1272,7 +1493,8 @@ export async function generateMore(
 async function generateMoreMultiModel(
   sessionId: string,
   msgId: string,
-  multiModels: Array<{ provider: string; modelId: string }>
+  multiModels: Array<{ provider: string; modelId: string }>,
+  override?: GenerationOverride
 ) {
   const session = await chatStore.getSession(sessionId)
   if (!session) return
@@ -1283,6 +1505,7 @@ async function generateMoreMultiModel(
   for (const modelInfo of multiModels) {
     const assistantMsg = createMessage('assistant', '')
     assistantMsg.generating = true
+    assistantMsg.generationOverride = override
     assistantMessages.push({ msg: assistantMsg, modelInfo })
   }
 
@@ -1354,6 +1577,7 @@ export async function saveAndResendWithFork(
   newUserMsg.contentParts = updatedMsg.contentParts
   newUserMsg.files = updatedMsg.files
   newUserMsg.links = updatedMsg.links
+  newUserMsg.references = updatedMsg.references
   newUserMsg.wordCount = countMessageWords(newUserMsg)
   newUserMsg.tokenCount = estimateTokensFromMessages([newUserMsg])
 
@@ -1368,6 +1592,103 @@ export async function saveAndResendWithFork(
   await generate(sessionId, newAssistantMsg, { operationType: 'send_message' })
 }
 
+/**
+ * 合并多个叶子节点所在的分支，生成一条综合回复
+ * 合并节点挂在第一个来源节点下方（该分支会被切换为活跃分支），其余来源以额外的合并边连接
+ * @param sessionId 会话ID
+ * @param sourceIds 需要合并的叶子节点ID，去掉同一路径上的祖先后至少需要两个，否则抛出错误
+ * @param options 合并策略及自定义提示词
+ */
+export async function mergeBranches(
+  sessionId: string,
+  sourceIds: string[],
+  options: { strategy: MergeStrategy; prompt?: string }
+) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    return
+  }
+  const index = indexSessionTree(session)
+  // 每个来源都是一条独立的分支：选中同一路径上的多个节点时只保留最深的那个
+  const validIds = excludeAncestorMessageIds(sourceIds.filter((id) => index.messages.has(id)), index)
+  if (validIds.length < 2) {
+    throw new Error('At least two branches on different paths are required to merge')
+  }
+
+  await switchToMessagePath(sessionId, validIds[0])
+
+  const mergeMsg = createMessage('assistant', '')
+  mergeMsg.generating = true
+  mergeMsg.merge = {
+    sourceIds: validIds,
+    strategy: options.strategy,
+    prompt: options.strategy === 'custom' ? options.prompt : undefined,
+  }
+  await insertMessageAfter(sessionId, mergeMsg, validIds[0])
+  await generate(sessionId, mergeMsg, { operationType: 'send_message' })
+  return mergeMsg.id
+}
+
+/**
+ * 构建合并节点的生成上下文：公共前缀 + 描述各分支差异内容的合并提示词
+ * 如果来源分支已被删除导致不足两条，返回 null 以退回普通上下文
+ */
+function buildMergeContext(session: Session, merge: MessageMergeInfo): Message[] | null {
+  const index = indexSessionTree(session)
+  const paths = merge.sourceIds
+    .map((id) => getMessagePath(session, id, index))
+    .filter((path): path is Message[] => !!path)
+  if (paths.length < 2) {
+    return null
+  }
+
+  const prefixLength = getCommonPrefixLength(paths)
+  const sharedMessages = paths[0].slice(0, prefixLength)
+  const branches = paths.map((path) => path.slice(prefixLength))
+  // 各分支通常是同一条用户消息的不同回复，将其作为原始请求放入合并提示词中，避免出现连续的用户消息
+  const originalRequest = sharedMessages[sharedMessages.length - 1]?.role === 'user' ? sharedMessages.pop() : undefined
+
+  return [
+    ...sharedMessages,
+    promptFormat.mergeBranches(branches, { strategy: merge.strategy, prompt: merge.prompt, originalRequest }),
+  ]
+}
+
+/**
+ * 将指定节点作为结构化引用添加到输入框，随下一条用户消息一起发送
+ * @returns 成功添加的引用数量
+ */
+export async function addMessageReferencesToInput(sessionId: string, messageIds: string[]) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    return 0
+  }
+  const index = indexSessionTree(session)
+  const references = messageIds
+    .map((id) => buildMessageReference(session, id, index))
+    .filter((ref): ref is MessageReference => !!ref)
+  uiStore.getState().addMessageReferences(sessionId, references)
+  return references.length
+}
+
+/**
+ * 将整个分支作为引用添加到输入框，发送时使用分支摘要代替分支原文
+ * @param headId 分支第一条消息ID
+ * @returns 是否添加成功，分支还没有摘要时返回 false
+ */
+export async function addBranchReferenceToInput(sessionId: string, headId: string) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session?.branchSummaries?.[headId]) {
+    return false
+  }
+  const reference = buildMessageReference(session, headId)
+  if (!reference) {
+    return false
+  }
+  uiStore.getState().addMessageReferences(sessionId, [{ ...reference, branch: true }])
+  return true
+}
+
 type MessageLocation = { list: Message[]; index: number }
 
 function findMessageLocation(session: Session, messageId: string): MessageLocation | null {
@@ -1387,7 +1708,12 @@ function findMessageLocation(session: Session, messageId: string): MessageLocati
   return null
 }
 
-type GenerateMoreFn = (sessionId: string, msgId: string, multiModels?: Array<{ provider: string; modelId: string }>) => Promise<void>
+type GenerateMoreFn = (
+  sessionId: string,
+  msgId: string,
+  multiModels?: Array<{ provider: string; modelId: string }>,
+  override?: GenerationOverride
+) => Promise<void>
 
 export async function regenerateInNewFork(
   sessionId: string,
@@ -1395,37 +1721,111 @@ export async function regenerateInNewFork(
   options?: { 
     runGenerateMore?: GenerateMoreFn
     multiModels?: Array<{ provider: string; modelId: string }>
+    /** 新分支使用的生成设置，不传时使用会话设置 */
+    override?: GenerationOverride
   }
 ) {
   const runGenerateMore = options?.runGenerateMore ?? generateMore
   const multiModels = options?.multiModels
+  const override = options?.override
   const session = await chatStore.getSession(sessionId)
   if (!session) {
     return
   }
+  // 无法创建分支时原地重新生成，指定了设置则替换消息上原有的设置
+  const regenerateInPlace = () =>
+    generate(sessionId, override ? { ...msg, generationOverride: override } : msg, { operationType: 'regenerate' })
   const location = findMessageLocation(session, msg.id)
   if (!location) {
-    await generate(sessionId, msg, { operationType: 'regenerate' })
+    await regenerateInPlace()
     return
   }
   const previousMessageIndex = location.index - 1
   if (previousMessageIndex < 0) {
     // 如果目标消息是第一条消息，则直接重新生成
-    await generate(sessionId, msg, { operationType: 'regenerate' })
+    await regenerateInPlace()
     return
   }
   const forkMessage = location.list[previousMessageIndex]
   await createNewFork(sessionId, forkMessage.id)
-  return runGenerateMore(sessionId, forkMessage.id, multiModels)
+  return runGenerateMore(sessionId, forkMessage.id, multiModels, override)
 }
 
-async function _generateName(sessionId: string, modifyName: (sessionId: string, name: string) => void) {
+/** 正在进行的路径重放，按会话存放，用于取消 */
+const pathReplayControllers = new Map<string, AbortController>()
+
+/**
+ * 用其他模型重放从根节点到目标消息的路径，结果作为新的并列分支
+ * 用户消息原样复制，助手回复依次重新生成，每条新回复作为下一轮的上下文；
+ * 停止任一条回复的生成或调用 cancelPathReplay 会结束整个重放，生成出错时也会停止
+ * @param messageId 被重放路径的最后一条消息ID
+ * @param override 重放使用的生成设置，覆盖原回复上的分支级设置
+ */
+export async function replayPathInNewFork(sessionId: string, messageId: string, override?: GenerationOverride) {
   const session = await chatStore.getSession(sessionId)
-  const globalSettings = settingsStore.getState().getSettings()
-  if (!session) {
+  if (!session || pathReplayControllers.has(sessionId)) {
     return
   }
-  const settings = {
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const plan = buildPathReplayPlan(getGraphMessagePath(graph, messageId) ?? [])
+  if (!plan) {
+    return
+  }
+
+  const abortController = new AbortController()
+  const { setPathReplay } = uiStore.getState()
+  pathReplayControllers.set(sessionId, abortController)
+  setPathReplay(sessionId, { leafId: messageId, done: 0, total: plan.replyCount })
+  try {
+    // 新分支只能在当前路径上创建
+    await switchToMessagePath(sessionId, messageId)
+    await createNewFork(sessionId, plan.forkMessageId)
+
+    let previousId = plan.forkMessageId
+    let done = 0
+    for (const source of plan.steps) {
+      if (abortController.signal.aborted) {
+        break
+      }
+      if (source.role !== 'assistant') {
+        const copied = copyReplayMessage(source)
+        await insertMessageAfter(sessionId, copied, previousId)
+        previousId = copied.id
+        continue
+      }
+
+      const reply = createMessage('assistant', '')
+      reply.generating = true
+      reply.generationOverride = getReplayGenerationOverride(source, override)
+      await insertMessageAfter(sessionId, reply, previousId)
+      await generate(sessionId, reply, { operationType: 'regenerate', abortController })
+      previousId = reply.id
+
+      const generated = (await chatStore.getSession(sessionId))?.messageGraph?.nodes[reply.id]?.message
+      if (abortController.signal.aborted || generated?.error) {
+        break
+      }
+      done++
+      setPathReplay(sessionId, { leafId: messageId, done, total: plan.replyCount })
+    }
+  } finally {
+    pathReplayControllers.delete(sessionId)
+    setPathReplay(sessionId, null)
+  }
+}
+
+/**
+ * 取消会话中正在进行的路径重放，正在生成的回复保留已生成的内容
+ */
+export function cancelPathReplay(sessionId: string) {
+  pathReplayControllers.get(sessionId)?.abort()
+}
+
+/**
+ * 生成会话名称、分支摘要等辅助内容时使用的设置，设置了 threadNamingModel 时使用该模型
+ */
+function getThreadNamingSettings(session: Session, globalSettings: Settings) {
+  return {
     ...globalSettings,
     ...session.settings,
     // 图片会话使用gpt-4o-mini模型，否则会使用DALL-E-3
@@ -1441,6 +1841,15 @@ async function _generateName(sessionId: string, modifyName: (sessionId: string,
         }
       : {}),
   }
+}
+
+async function _generateName(sessionId: string, modifyName: (sessionId: string, name: string) => void) {
+  const session = await chatStore.getSession(sessionId)
+  const globalSettings = settingsStore.getState().getSettings()
+  if (!session) {
+    return
+  }
+  const settings = getThreadNamingSettings(session, globalSettings)
   const configs = await platform.getConfig()
   try {
     const dependencies = await createModelDependencies()
@@ -1541,6 +1950,98 @@ export function scheduleGenerateThreadName(sessionId: string) {
 
   pendingNameGenerations.set(key, timeout)
 }
+/**
+ * 为缺少摘要或摘要已过期的分支生成标题和摘要
+ * 逐个分支生成并立即保存，已不存在的分支的摘要顺便清理
+ */
+async function generateBranchSummaries(sessionId: string) {
+  const session = await chatStore.getSession(sessionId)
+  const globalSettings = settingsStore.getState().getSettings()
+  if (!session) {
+    return
+  }
+  const branches = getBranchesToSummarize(session)
+  if (branches.length === 0) {
+    return
+  }
+  const settings = getThreadNamingSettings(session, globalSettings)
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const configs = await platform.getConfig()
+  try {
+    const dependencies = await createModelDependencies()
+    const model = getModel(settings, globalSettings, configs, dependencies)
+    for (const branch of branches) {
+      // 分叉点之前的两条消息作为背景，让标题能区分同一分叉点下的不同分支
+      const context = (getGraphMessagePath(graph, branch.forkMessageId) ?? [])
+        .filter((m) => m.role !== 'system')
+        .slice(-2)
+      const result = await generateText(
+        model,
+        promptFormat.summarizeBranch(context, branch.messages, languageNameMap[settings.language])
+      )
+      const content = parseBranchSummaryResponse(
+        result.contentParts
+          ?.filter((c) => c.type === 'text')
+          .map((c) => c.text)
+          .join('') || ''
+      )
+      if (!content) {
+        continue
+      }
+      const summary = createBranchSummary(branch, content)
+      await chatStore.updateSessionWithMessages(sessionId, (current) => {
+        if (!current) {
+          throw new Error('Session not found')
+        }
+        return {
+          ...current,
+          branchSummaries: pruneBranchSummaries(
+            { ...current.branchSummaries, [branch.headId]: summary },
+            collectTreeBranches(current)
+          ),
+        }
+      })
+    }
+  } catch (e: unknown) {
+    if (!(e instanceof ApiError || e instanceof NetworkError)) {
+      Sentry.captureException(e) // unexpected error should be reported
+    }
+  }
+}
+
+/**
+ * 调度生成分支标题和摘要（带去重和延迟）
+ * 分支变长后摘要会过期，再次调度时重新生成
+ */
+export function scheduleGenerateBranchSummaries(sessionId: string) {
+  const key = `branches-${sessionId}`
+
+  // 如果已经有正在进行的请求，不重复发送
+  if (activeNameGenerations.has(key)) {
+    return
+  }
+
+  // 清除之前的定时器
+  const existingTimeout = pendingNameGenerations.get(key)
+  if (existingTimeout) {
+    clearTimeout(existingTimeout)
+  }
+
+  // 设置新的定时器，延迟3秒执行，避免连续生成回复时频繁请求
+  const timeout = setTimeout(async () => {
+    pendingNameGenerations.delete(key)
+    activeNameGenerations.add(key)
+
+    try {
+      await generateBranchSummaries(sessionId)
+    } finally {
+      activeNameGenerations.delete(key)
+    }
+  }, 3000)
+
+  pendingNameGenerations.set(key, timeout)
+}
+
 const clearSessionList = async (keepNum: number) => {
   const sessionMetaList = await chatStore.listSessionsMeta()
   const deleted = sessionMetaList?.slice(keepNum)
@@ -1567,100 +2068,35 @@ export async function clearConversationList(keepNum: number) {
 }
 
 /**
- * 从历史消息中生成 prompt 上下文
+ * 计算生成时可用于上下文的 token 预算：模型的上下文窗口减去最大输出和工具定义
  */
-async function genMessageContext(settings: SessionSettings, msgs: Message[], modelSupportToolUse: boolean) {
-  const {
-    // openaiMaxContextTokens,
-    maxContextMessageCount,
-  } = settings
-  if (msgs.length === 0) {
-    throw new Error('No messages to replay')
-  }
-  if (maxContextMessageCount === undefined) {
-    throw new Error('maxContextMessageCount is not set')
-  }
-  const head = msgs[0].role === 'system' ? msgs[0] : undefined
-  if (head) {
-    msgs = msgs.slice(1)
-  }
-  let _totalLen = head ? estimateTokensFromMessages([head]) : 0
-  let prompts: Message[] = []
-  for (let i = msgs.length - 1; i >= 0; i--) {
-    let msg = msgs[i]
-    // 跳过错误消息
-    if (msg.error || msg.errorCode) {
-      continue
-    }
-    const size = estimateTokensFromMessages([msg]) + 20 // 20 作为预估的误差补偿
-    // 只有 OpenAI 才支持上下文 tokens 数量限制
-    if (settings.provider === 'openai') {
-      // if (size + totalLen > openaiMaxContextTokens) {
-      //     break
-      // }
-    }
-    if (
-      maxContextMessageCount < Number.MAX_SAFE_INTEGER &&
-      prompts.length >= maxContextMessageCount + 1 // +1是为了保留用户最后一条输入消息
-    ) {
-      break
-    }
+function getGenerationContextBudget(
+  settings: SessionSettings,
+  globalSettings: Settings,
+  model: ModelInterface,
+  contextMsgs: Message[],
+  tools: { knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>; webBrowsing?: boolean }
+) {
+  return getContextTokenBudget(getModelInfo(settings, globalSettings), {
+    maxTokens: settings.maxTokens,
+    toolTokens: estimateToolDefinitionTokens(model, { messages: contextMsgs, ...tools }),
+  })
+}
 
-    // 如果消息中包含本地文件（消息中携带有本地文件的storageKey），则将文件内容也作为 prompt 的一部分
-    let attachmentIndex = 1
-    if (msg.files && msg.files.length > 0) {
-      for (const file of msg.files) {
-        if (file.storageKey) {
-          msg = cloneMessage(msg) // 复制一份消息，避免修改原始消息
-          const content = await storage.getBlob(file.storageKey).catch(() => '')
-          if (content) {
-            let attachment = `\n\n<ATTACHMENT_FILE>\n`
-            attachment += `<FILE_INDEX>File ${attachmentIndex++}</FILE_INDEX>\n`
-            attachment += `<FILE_NAME>${file.storageKey}</FILE_NAME>\n`
-            attachment += `<FILE_LINES>${content.split('\n').length}</FILE_LINES>\n`
-            attachment += `<FILE_SIZE>${content.length} bytes</FILE_SIZE>\n`
-            if (!modelSupportToolUse) {
-              attachment += '<FILE_CONTENT>\n'
-              attachment += `${content}\n`
-              attachment += '</FILE_CONTENT>\n'
-            }
-            attachment += `</ATTACHMENT_FILE>\n`
-            msg = mergeMessages(msg, createMessage(msg.role, attachment))
-          }
-        }
-      }
-    }
-    // 如果消息中包含本地链接（消息中携带有本地链接的storageKey），则将链接内容也作为 prompt 的一部分
-    if (msg.links && msg.links.length > 0) {
-      for (const link of msg.links) {
-        if (link.storageKey) {
-          msg = cloneMessage(msg) // 复制一份消息，避免修改原始消息
-          const content = await storage.getBlob(link.storageKey).catch(() => '')
-          if (content) {
-            let attachment = `\n\n<ATTACHMENT_FILE>\n`
-            attachment += `<FILE_INDEX>${attachmentIndex++}</FILE_INDEX>\n`
-            attachment += `<FILE_NAME>${link.storageKey}</FILE_NAME>\n`
-            attachment += `<FILE_LINES>${content.split('\n').length}</FILE_LINES>\n`
-            attachment += `<FILE_SIZE>${content.length} bytes</FILE_SIZE>\n`
-            if (!modelSupportToolUse) {
-              attachment += `<FILE_CONTENT>\n`
-              attachment += `${content}\n`
-              attachment += '</FILE_CONTENT>\n'
-            }
-            attachment += `</ATTACHMENT_FILE>\n`
-            msg = mergeMessages(msg, createMessage(msg.role, attachment))
-          }
-        }
-      }
-    }
-
-    prompts = [msg, ...prompts]
-    _totalLen += size
-  }
-  if (head) {
-    prompts = [head, ...prompts]
-  }
-  return prompts
+/**
+ * 按上下文预算构建生成时发送的消息，generate、generateInternal 和上下文检查共用
+ */
+async function buildGenerationPrompts(
+  settings: SessionSettings,
+  globalSettings: Settings,
+  model: ModelInterface,
+  contextMsgs: Message[],
+  session: Session,
+  tools: { knowledgeBase?: Pick<KnowledgeBase, 'id' | 'name'>; webBrowsing?: boolean }
+) {
+  const tokenBudget = getGenerationContextBudget(settings, globalSettings, model, contextMsgs, tools)
+  const context = await genMessageContext(settings, contextMsgs, model.isSupportToolUse(), session, tokenBudget)
+  return { ...context, tokenBudget }
 }
 
 // export function getSessions() {
@@ -1684,6 +2120,76 @@ async function genMessageContext(settings: SessionSettings, msgs: Message[], mod
 //   return currentSession?.messages || []
 // }
 
+/**
+ * 预演一次生成，返回最终发送给模型的消息、工具和 providerOptions，不调用模型
+ * @param target.messageId 树中的节点：助手消息预演重新生成它，其他消息预演在它之后生成回复
+ * @param target.draft 输入框中的草稿，预演在当前路径末尾发送它
+ * @returns 会话或消息不存在、没有可发送的消息时返回 null
+ */
+export async function inspectGenerationContext(
+  sessionId: string,
+  target: { messageId: string } | { draft?: Message }
+): Promise<ContextInspection | null> {
+  const session = await chatStore.getSession(sessionId)
+  const sessionSettings = await chatStore.getSessionSettings(sessionId)
+  if (!session || !sessionSettings) {
+    return null
+  }
+  let msgs: Message[]
+  let generationOverride: GenerationOverride | undefined
+  if ('messageId' in target) {
+    const graph = session.messageGraph ?? buildMessageGraph(session)
+    const path = getGraphMessagePath(graph, target.messageId)
+    const message = path?.[path.length - 1]
+    if (!path || !message) {
+      return null
+    }
+    if (message.role === 'assistant') {
+      generationOverride = message.generationOverride
+      msgs = (message.merge && buildMergeContext(session, message.merge)) || path.slice(0, -1)
+    } else {
+      msgs = path
+    }
+  } else {
+    msgs = target.draft ? [...session.messages, target.draft] : session.messages
+  }
+  if (msgs.length === 0) {
+    return null
+  }
+
+  const settings = applyGenerationOverride(sessionSettings, generationOverride)
+  const globalSettings = settingsStore.getState().getSettings()
+  const configs = await platform.getConfig()
+  const dependencies = await createModelDependencies()
+  const model = getModel(settings, globalSettings, configs, dependencies)
+  const knowledgeBase = uiStore.getState().sessionKnowledgeBaseMap[sessionId]
+  const webBrowsing = uiStore.getState().inputBoxWebBrowsingMode
+  const contextMsgs = applySystemPromptOverride(msgs, generationOverride?.systemPrompt)
+  const { prompts, contextTrim, tokenBudget } = await buildGenerationPrompts(
+    settings,
+    globalSettings,
+    model,
+    contextMsgs,
+    session,
+    { knowledgeBase, webBrowsing }
+  )
+  const inspection = await inspectStreamText(model, {
+    messages: prompts,
+    providerOptions: settings.providerOptions,
+    promptCache: settings.promptCache,
+    structuredOutput: settings.structuredOutput,
+    knowledgeBase,
+    webBrowsing,
+  })
+  return {
+    ...inspection,
+    provider: settings.provider,
+    modelId: model.modelId,
+    tokenBudget,
+    contextTrim,
+  }
+}
+
 /**
  * 寻找某个消息所在的话题消息列表
  * @param sessionId 会话ID
@@ -1717,36 +2223,52 @@ export async function exportSessionChat(sessionId: string, content: ExportChatSc
   await exportChat(session, content, format)
 }
 
+export async function exportSessionTree(sessionId: string, format: ExportTreeFormat) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    return
+  }
+  await exportTree(session, format)
+}
+
 export async function createNewFork(sessionId: string, forkMessageId: string) {
-  await chatStore.updateSessionWithMessages(sessionId, (session) => {
-    if (!session) {
-      throw new Error('Session not found')
-    }
-    const patch = buildCreateForkPatch(session, forkMessageId)
-    if (!patch) {
-      return session
-    }
-    return {
-      ...session,
-      ...patch,
-    }
-  })
+  await withTreeHistory(sessionId, 'create-fork', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      const patch = buildCreateForkPatch(session, forkMessageId)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      }
+    })
+  )
 }
 
 export async function switchFork(sessionId: string, forkMessageId: string, direction: 'next' | 'prev') {
-  await chatStore.updateSessionWithMessages(sessionId, (session) => {
-    if (!session) {
-      throw new Error('Session not found')
-    }
-    const patch = buildSwitchForkPatch(session, forkMessageId, direction)
-    if (!patch) {
-      return session
-    }
-    return {
-      ...session,
-      ...patch,
-    } as typeof session
-  })
+  await withTreeHistory(sessionId, 'switch-branch', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      if (session.messageGraph?.nodes[forkMessageId]) {
+        const messageGraph = switchGraphFork(session.messageGraph, forkMessageId, direction)
+        return messageGraph ? { ...session, messageGraph } : session
+      }
+      const patch = buildSwitchForkPatch(session, forkMessageId, direction)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      } as typeof session
+    })
+  )
 }
 
 type MessageForkEntry = NonNullable<Session['messageForksHash']>[string]
@@ -1813,23 +2335,93 @@ function buildSwitchForkPatch(
 
 /**
  * 切换到包含指定消息的分支
+ * 如果分支的分叉点本身也在非活跃分支中，则逐层切换整条路径
  * @param sessionId 会话 ID
  * @param targetMessageId 目标消息 ID（分支中的消息）
  */
 export async function switchToMessageBranch(sessionId: string, targetMessageId: string) {
-  await chatStore.updateSessionWithMessages(sessionId, (session) => {
-    if (!session) {
-      throw new Error('Session not found')
+  await withTreeHistory(sessionId, 'switch-branch', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      if (session.messageGraph?.nodes[targetMessageId]) {
+        const messageGraph = activateGraphMessage(session.messageGraph, targetMessageId)
+        return messageGraph ? { ...session, messageGraph } : session
+      }
+      const patch =
+        buildSwitchToMessageBranchPatch(session, targetMessageId) ||
+        buildSwitchToMessagePathPatch(session, targetMessageId)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      } as typeof session
+    })
+  )
+}
+
+/**
+ * 切换到包含指定消息的完整路径，逐层切换所有嵌套分叉点，使目标消息出现在主消息列表中
+ * @param sessionId 会话 ID
+ * @param targetMessageId 目标消息 ID
+ */
+export async function switchToMessagePath(sessionId: string, targetMessageId: string) {
+  await withTreeHistory(sessionId, 'switch-branch', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      if (session.messageGraph?.nodes[targetMessageId]) {
+        const messageGraph = activateGraphMessage(session.messageGraph, targetMessageId)
+        return messageGraph ? { ...session, messageGraph } : session
+      }
+      const patch = buildSwitchToMessagePathPatch(session, targetMessageId)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      } as typeof session
+    })
+  )
+}
+
+function buildSwitchToMessagePathPatch(session: Session, targetMessageId: string): Partial<Session> | null {
+  const path = getMessagePath(session, targetMessageId)
+  if (!path) {
+    return null
+  }
+
+  // 从根节点开始，遇到不在主消息列表中的节点就切换其父节点处的分叉
+  let current = session
+  for (let i = 1; i < path.length; i++) {
+    if (current.messages[i]?.id === path[i].id) {
+      continue
     }
-    const patch = buildSwitchToMessageBranchPatch(session, targetMessageId)
+    const forkMessageId = path[i - 1].id
+    const forkEntry = current.messageForksHash?.[forkMessageId]
+    const position = forkEntry?.lists.findIndex((list) => list.messages.some((m) => m.id === path[i].id)) ?? -1
+    if (!forkEntry || position < 0) {
+      return null
+    }
+    const patch = switchForkToPosition(current, forkMessageId, forkEntry, position)
     if (!patch) {
-      return session
+      return null
     }
-    return {
-      ...session,
-      ...patch,
-    } as typeof session
-  })
+    current = { ...current, ...patch }
+  }
+
+  if (current === session) {
+    return null
+  }
+  return {
+    messages: current.messages,
+    messageForksHash: current.messageForksHash,
+  }
 }
 
 function buildSwitchToMessageBranchPatch(
@@ -2221,37 +2813,359 @@ function computeNextMessageForksHash(
  * @param forkMessageId 消息ID
  */
 export async function deleteFork(sessionId: string, forkMessageId: string) {
+  await withTreeHistory(sessionId, 'delete-fork', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      const patch = buildDeleteForkPatch(session, forkMessageId)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      }
+    })
+  )
+}
+
+/**
+ * 将某条消息所有的分叉消息全部展开到当前消息列表中
+ * @deprecated
+ */
+export async function expandFork(sessionId: string, forkMessageId: string) {
+  await withTreeHistory(sessionId, 'expand-fork', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      const patch = buildExpandForkPatch(session, forkMessageId)
+      if (!patch) {
+        return session
+      }
+      return {
+        ...session,
+        ...patch,
+      }
+    })
+  )
+}
+
+/**
+ * 命名分支，名称为空时清除分支名
+ * @param forkMessageId 分叉点消息ID
+ * @param listId 分支列表ID
+ */
+export async function renameForkBranch(sessionId: string, forkMessageId: string, listId: string, name: string) {
   await chatStore.updateSessionWithMessages(sessionId, (session) => {
     if (!session) {
       throw new Error('Session not found')
     }
-    const patch = buildDeleteForkPatch(session, forkMessageId)
-    if (!patch) {
+    const forkEntry = session.messageForksHash?.[forkMessageId]
+    if (!forkEntry) {
       return session
     }
     return {
       ...session,
-      ...patch,
+      messageForksHash: {
+        ...session.messageForksHash,
+        [forkMessageId]: {
+          ...forkEntry,
+          lists: forkEntry.lists.map((list) =>
+            list.id === listId ? { ...list, name: name.trim() || undefined } : list
+          ),
+        },
+      },
     }
   })
 }
 
 /**
- * 将某条消息所有的分叉消息全部展开到当前消息列表中
- * @deprecated
+ * 将消息及其子孙节点移动到新的父消息下
+ * 子树中的助手消息会被标记为上下文已改变；原本位于当前路径上的子树移动后仍保持为当前路径
+ * @param messageId 被移动的子树的根消息ID
+ * @param newParentId 新的父消息ID
  */
-export async function expandFork(sessionId: string, forkMessageId: string) {
-  await chatStore.updateSessionWithMessages(sessionId, (session) => {
+export async function reparentMessage(sessionId: string, messageId: string, newParentId: string) {
+  await withTreeHistory(sessionId, 'reparent', () =>
+    chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      const reparented = reparentSubtree(session, messageId, newParentId)
+      if (!reparented) {
+        return session
+      }
+      const updated = { ...session, ...reparented }
+      const wasActive = session.messages.some((m) => m.id === messageId)
+      return {
+        ...updated,
+        ...(wasActive ? buildSwitchToMessagePathPatch(updated, messageId) : null),
+      }
+    })
+  )
+}
+
+/**
+ * 从浅到深依次重新生成被标记为上下文已改变的助手消息，完成后恢复原来的当前路径
+ */
+export async function regenerateContextChangedMessages(sessionId: string) {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    return
+  }
+  const activeLeafId = session.messages[session.messages.length - 1]?.id
+  for (const messageId of collectContextChangedMessageIds(session, indexSessionTree(session))) {
+    // 前面的重新生成会修改会话，每次都读取最新的消息
+    const current = await chatStore.getSession(sessionId)
+    const message = current && indexSessionTree(current).messages.get(messageId)
+    if (!message || message.generating) continue
+    await switchToMessagePath(sessionId, messageId)
+    await generate(sessionId, message, { operationType: 'regenerate' })
+  }
+  if (activeLeafId) {
+    await switchToMessagePath(sessionId, activeLeafId)
+  }
+}
+
+/**
+ * 设置消息的标记（去除空白和重复项）
+ */
+export async function setMessageTags(sessionId: string, messageId: string, tags: string[]) {
+  const normalized = Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)))
+  await chatStore.updateMessage(sessionId, messageId, (message) => {
+    if (!message) {
+      throw new Error('Message not found')
+    }
+    return { ...message, tags: normalized.length > 0 ? normalized : undefined }
+  })
+}
+
+/**
+ * 添加或移除消息书签
+ */
+export async function setMessageBookmarked(sessionId: string, messageId: string, bookmarked: boolean) {
+  await chatStore.updateMessage(sessionId, messageId, (message) => {
+    if (!message) {
+      throw new Error('Message not found')
+    }
+    return { ...message, bookmarked: bookmarked || undefined }
+  })
+}
+
+/**
+ * 在树形图上为一组节点添加便签或分组框
+ * @returns 新建的标注
+ */
+export async function addTreeAnnotation(
+  sessionId: string,
+  kind: TreeAnnotationKind,
+  nodeIds: string[],
+  text?: string
+): Promise<TreeAnnotation> {
+  const annotation = createTreeAnnotation(kind, nodeIds, text)
+  await chatStore.updateSession(sessionId, (session) => {
     if (!session) {
       throw new Error('Session not found')
     }
-    const patch = buildExpandForkPatch(session, forkMessageId)
-    if (!patch) {
-      return session
+    return { ...session, treeAnnotations: [...(session.treeAnnotations ?? []), annotation] }
+  })
+  return annotation
+}
+
+/**
+ * 修改便签或分组框的文字、颜色、位置
+ */
+export async function updateTreeAnnotation(
+  sessionId: string,
+  annotationId: string,
+  patch: Partial<Pick<TreeAnnotation, 'text' | 'color' | 'offset'>>
+) {
+  await chatStore.updateSession(sessionId, (session) => {
+    if (!session) {
+      throw new Error('Session not found')
     }
     return {
       ...session,
-      ...patch,
+      treeAnnotations: session.treeAnnotations?.map((a) => (a.id === annotationId ? { ...a, ...patch } : a)),
     }
   })
 }
+
+/**
+ * 删除便签或分组框
+ */
+export async function removeTreeAnnotation(sessionId: string, annotationId: string) {
+  await chatStore.updateSession(sessionId, (session) => {
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    return { ...session, treeAnnotations: session.treeAnnotations?.filter((a) => a.id !== annotationId) }
+  })
+}
+
+/**
+ * 修剪不在活跃路径上的分支：移入会话归档（可恢复），或直接删除
+ * 删除时一并清理不再被任何会话引用的图片和文件；修剪后清空该会话的树形图撤销历史
+ * @param headIds 分支第一条消息ID
+ */
+export async function pruneBranches(sessionId: string, headIds: string[], mode: 'archive' | 'delete') {
+  const session = await chatStore.getSession(sessionId)
+  if (!session) {
+    throw new Error('Session not found')
+  }
+  const graph = session.messageGraph ?? buildMessageGraph(session)
+  const branches: ArchivedBranch[] = []
+  for (const headId of headIds) {
+    const head = graph.nodes[headId]
+    if (!head?.parentId || isOnActivePath(graph, headId)) continue
+    branches.push({
+      id: uuidv4(),
+      parentId: head.parentId,
+      headId,
+      name: graph.nodes[head.parentId]?.fork?.lists.find((list) => list.headId === headId)?.name,
+      nodes: getGraphSubtree(graph, headId),
+      archivedAt: Date.now(),
+    })
+  }
+  if (branches.length === 0) {
+    return
+  }
+
+  // 先写入归档再从会话中移除，避免中途失败丢失分支
+  if (mode === 'archive') {
+    await chatStore.updateSessionArchive(sessionId, (archive) => ({
+      sessionId,
+      branches: [...(archive?.branches ?? []), ...branches],
+    }))
+  }
+  const updated = await chatStore.updateSessionWithMessages(sessionId, (current) => {
+    if (!current) {
+      throw new Error('Session not found')
+    }
+    let messageGraph = current.messageGraph ?? buildMessageGraph(current)
+    for (const branch of branches) {
+      messageGraph = removeGraphSubtree(messageGraph, branch.headId) ?? messageGraph
+    }
+    const next = withMessageTreeViews(
+      current,
+      messageGraph,
+      getDetachedForks(current.messageForksHash, current.messageGraph)
+    )
+    return { ...next, branchSummaries: pruneBranchSummaries(current.branchSummaries, collectTreeBranches(next)) }
+  })
+  // 被移除的节点不能再通过撤销恢复
+  treeHistoryStore.getState().clear(sessionId)
+
+  if (mode === 'delete') {
+    const storageKeys = branches.flatMap((branch) =>
+      Object.values(branch.nodes).flatMap((node) => collectMessageStorageKeys(node.message))
+    )
+    await deleteUnreferencedBlobs(updated, storageKeys)
+  }
+}
+
+/**
+ * 将归档的分支恢复到原来所挂的消息下
+ * @returns 原来的父消息已不存在或分支中的消息已在会话中时返回 false
+ */
+export async function restoreArchivedBranch(sessionId: string, archivedBranchId: string) {
+  const archive = await chatStore.getSessionArchive(sessionId)
+  const branch = archive?.branches.find((b) => b.id === archivedBranchId)
+  if (!branch) {
+    return false
+  }
+  // 与修剪一样不记录撤销历史：撤销恢复会使分支既不在会话中也不在归档中
+  let restored = false
+  await chatStore.updateSessionWithMessages(sessionId, (session) => {
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    const graph = session.messageGraph ?? buildMessageGraph(session)
+    const messageGraph = attachGraphSubtree(graph, branch.parentId, branch.headId, branch.nodes, branch.name)
+    if (!messageGraph) {
+      return session
+    }
+    restored = true
+    return { ...session, messageGraph }
+  })
+  if (restored) {
+    await chatStore.updateSessionArchive(sessionId, (current) => ({
+      sessionId,
+      branches: (current?.branches ?? []).filter((b) => b.id !== archivedBranchId),
+    }))
+  }
+  return restored
+}
+
+/**
+ * 永久删除归档的分支，并清理不再被任何会话引用的图片和文件
+ */
+export async function deleteArchivedBranches(sessionId: string, archivedBranchIds: string[]) {
+  const ids = new Set(archivedBranchIds)
+  const archive = await chatStore.getSessionArchive(sessionId)
+  const removed = archive?.branches.filter((b) => ids.has(b.id)) ?? []
+  if (removed.length === 0) {
+    return
+  }
+  await chatStore.updateSessionArchive(sessionId, (current) => ({
+    sessionId,
+    branches: (current?.branches ?? []).filter((b) => !ids.has(b.id)),
+  }))
+  const session = await chatStore.getSession(sessionId)
+  const storageKeys = removed.flatMap((branch) =>
+    Object.values(branch.nodes).flatMap((node) => collectMessageStorageKeys(node.message))
+  )
+  await deleteUnreferencedBlobs(session, storageKeys)
+}
+
+/**
+ * 计算存储 key 对应的图片、文件占用的大小（字节）
+ */
+export async function getStorageKeysSize(storageKeys: string[]) {
+  let size = 0
+  for (const key of new Set(storageKeys)) {
+    const blob = await storage.getBlob(key)
+    size += blob?.length ?? 0
+  }
+  return size
+}
+
+/**
+ * 删除不再被任何会话（含归档）和头像引用的图片、文件
+ * 复制的会话与原会话共用存储 key，所以需要检查所有会话
+ * @param session 刚修改过的会话，直接使用内存中的数据，避免读到尚未写入存储的旧数据
+ */
+async function deleteUnreferencedBlobs(session: Session | null, storageKeys: string[]) {
+  const candidates = new Set(storageKeys)
+  if (candidates.size === 0) {
+    return
+  }
+  const isReferenced = (keys: Set<string>) => {
+    for (const key of keys) {
+      candidates.delete(key)
+    }
+    return candidates.size === 0
+  }
+
+  if (session && isReferenced(collectSessionStorageKeys(session, await chatStore.getSessionArchive(session.id)))) {
+    return
+  }
+  for (const meta of await chatStore.listSessionsMeta()) {
+    if (meta.id === session?.id) continue
+    const other = await storage.getItem<Session | null>(StorageKeyGenerator.session(meta.id), null)
+    const archive = await storage.getItem<SessionArchive | null>(StorageKeyGenerator.sessionArchive(meta.id), null)
+    if (other && isReferenced(collectSessionStorageKeys(other, archive))) {
+      return
+    }
+  }
+  const settings = settingsStore.getState().getSettings()
+  for (const key of [settings.userAvatarKey, settings.defaultAssistantAvatarKey]) {
+    if (key) candidates.delete(key)
+  }
+
+  for (const key of candidates) {
+    await storage.delBlob(key)
+  }
+}
@@ -2,6 +2,7 @@ import { pick } from 'lodash'
 import type {
   ExportChatFormat,
   ExportChatScope,
+  ExportTreeFormat,
   Session,
   SessionMeta,
   SessionSettings,
@@ -11,7 +12,21 @@ import type {
 } from 'src/shared/types'
 import { getMessageText, migrateMessage } from 'src/shared/utils/message'
 import i18n from '@/i18n'
+import { collapseConversationTree, sessionToConversationTree } from '@/lib/conversation-tree-adapter'
+import { getActiveMessages } from '@/lib/message-graph'
 import { formatChatAsHtml, formatChatAsMarkdown, formatChatAsTxt } from '@/lib/format-chat'
+import { layoutTreeAnnotations } from '@/lib/tree-annotations'
+import {
+  EXPORT_NODE_HEIGHT,
+  EXPORT_NODE_WIDTH,
+  formatTreeAsDot,
+  formatTreeAsJson,
+  formatTreeAsJsonCanvas,
+  formatTreeAsMermaid,
+  formatTreeAsSvg,
+} from '@/lib/tree-export'
+import { applyTreeLayout, DEFAULT_TREE_LAYOUT_MODE } from '@/lib/tree-layout'
+import * as picUtils from '@/packages/pic_utils'
 import * as localParser from '@/packages/local-parser'
 import * as remote from '@/packages/remote'
 import { estimateTokens } from '@/packages/token'
@@ -24,6 +39,7 @@ import { createMessage, type Message, SessionSettingsSchema, TOKEN_CACHE_KEYS }
 import { lastUsedModelStore } from './lastUsedModelStore'
 import * as settingActions from './settingActions'
 import { settingsStore } from './settingsStore'
+import { viewModeStore } from './viewModeStore'
 /**
  * 预处理文件以获取内容和存储键
  * @param file 文件对象
@@ -379,6 +395,44 @@ export async function exportChat(session: Session, scope: ExportChatScope, forma
   }
 }
 
+/**
+ * 导出保留分支结构的对话树
+ * 节点位置使用树形图中当前布局保存的位置；图片只包含树形图中可见（未被折叠）的节点
+ */
+export async function exportTree(session: Session, format: ExportTreeFormat) {
+  const { layoutModes, nodePositions, collapsedNodes } = viewModeStore.getState()
+  const mode = layoutModes[session.id] ?? DEFAULT_TREE_LAYOUT_MODE
+  const direction = mode === 'horizontal' ? 'LR' : 'TB'
+  const fullTree = sessionToConversationTree(session)
+  const isImage = format === 'SVG' || format === 'PNG'
+  const tree = applyTreeLayout(isImage ? collapseConversationTree(fullTree, collapsedNodes[session.id] ?? []) : fullTree, {
+    mode,
+    savedPositions: nodePositions[session.id],
+  })
+  const annotations = layoutTreeAnnotations(session.treeAnnotations, tree.nodes, EXPORT_NODE_WIDTH, EXPORT_NODE_HEIGHT)
+
+  if (format === 'Mermaid') {
+    await platform.exporter.exportTextFile(`${session.name}.mmd`, formatTreeAsMermaid(tree, direction, annotations))
+  } else if (format === 'DOT') {
+    await platform.exporter.exportTextFile(
+      `${session.name}.dot`,
+      formatTreeAsDot(tree, session.name, direction, annotations)
+    )
+  } else if (format === 'JSONCanvas') {
+    await platform.exporter.exportTextFile(`${session.name}.canvas`, formatTreeAsJsonCanvas(tree, annotations))
+  } else if (format === 'JSON') {
+    await platform.exporter.exportTextFile(
+      `${session.name}.tree.json`,
+      formatTreeAsJson(tree, session.name, annotations)
+    )
+  } else if (format === 'SVG') {
+    await platform.exporter.exportTextFile(`${session.name}.svg`, formatTreeAsSvg(tree, annotations))
+  } else if (format === 'PNG') {
+    const pngBase64 = await picUtils.svgToPngBase64(picUtils.svgCodeToBase64(formatTreeAsSvg(tree, annotations)))
+    await platform.exporter.exportImageFile(session.name, pngBase64)
+  }
+}
+
 export function mergeSettings(
   globalSettings: Settings,
   sessionSetting?: SessionSettings,
@@ -540,8 +594,10 @@ export function getAllMessageList(s: Session) {
       messageContext = messageContext.concat(thread.messages)
     }
   }
-  if (s.messages) {
-    messageContext = messageContext.concat(s.messages)
+  // 当前话题的消息取消息图的活跃路径
+  const messages = s.messageGraph ? getActiveMessages(s.messageGraph) : s.messages
+  if (messages) {
+    messageContext = messageContext.concat(messages)
   }
   return messageContext
 }
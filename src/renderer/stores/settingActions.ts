@@ -67,6 +67,10 @@ export function getAutoGenerateTitle() {
   return settingsStore.getState().autoGenerateTitle
 }
 
+export function getAutoGenerateBranchSummaries() {
+  return settingsStore.getState().autoGenerateBranchSummaries
+}
+
 export function getExtensionSettings() {
   return settingsStore.getState().extension
 }
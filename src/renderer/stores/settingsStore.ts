@@ -48,7 +48,8 @@ export const settingsStore = createStore<Settings & Action>()(
           },
           removeItem: async (name) => await storage.removeItem(name),
         })),
-        version: 2,
+        // version 3: new tree view shortcuts, filled in by the deep merge in migrate
+        version: 3,
         partialize: (state) => {
           try {
             return SettingsSchema.parse(state)
@@ -0,0 +1,157 @@
+/**
+ * 树形图撤销/重做操作
+ * 树结构的修改通过 withTreeHistory 记录为补丁，节点位置的修改通过 recordNodePositionsChange 记录
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import {
+  applyPositionsPatch,
+  applyTreePatch,
+  diffNodePositions,
+  diffTreeState,
+  patchTouchesSession,
+  type TreePatch,
+  type TreePatchDirection,
+} from '@/lib/tree-history'
+import * as chatStore from './chatStore'
+import { type TreeHistoryAction, type TreeHistoryEntry, treeHistoryStore } from './treeHistoryStore'
+import { type NodePositions, viewModeStore } from './viewModeStore'
+
+/** 正在记录历史的会话，嵌套的修改只由最外层记录一次 */
+const recordingSessions = new Set<string>()
+
+/**
+ * 执行会修改会话树的操作，并将修改前后的差异记录到历史中
+ * @param sessionId 会话ID
+ * @param action 操作类型
+ * @param run 实际的修改操作
+ */
+export async function withTreeHistory<T>(
+  sessionId: string,
+  action: TreeHistoryAction,
+  run: () => Promise<T>
+): Promise<T> {
+  if (recordingSessions.has(sessionId)) {
+    return await run()
+  }
+
+  recordingSessions.add(sessionId)
+  try {
+    const before = await chatStore.getSession(sessionId)
+    const result = await run()
+    const after = await chatStore.getSession(sessionId)
+    const patch = before && after ? diffTreeState(before, after) : null
+    if (patch) {
+      pushEntry(sessionId, action, patch)
+    }
+    return result
+  } finally {
+    recordingSessions.delete(sessionId)
+  }
+}
+
+/**
+ * 记录节点位置的修改（拖拽、自动整理）
+ * @param before 修改前的节点位置（只需包含变化的节点）
+ * @param after 修改后的节点位置
+ */
+export function recordNodePositionsChange(
+  sessionId: string,
+  action: TreeHistoryAction,
+  before: NodePositions,
+  after: NodePositions
+) {
+  const patch = diffNodePositions(before, after)
+  if (patch) {
+    pushEntry(sessionId, action, patch)
+  }
+}
+
+/**
+ * 撤销最近一次修改
+ * @returns 被撤销的记录，没有可撤销的记录时返回 null
+ */
+export async function undoTreeChange(sessionId: string) {
+  return await stepTreeHistory(sessionId, 'undo')
+}
+
+/**
+ * 重做最近一次被撤销的修改
+ * @returns 被重做的记录，没有可重做的记录时返回 null
+ */
+export async function redoTreeChange(sessionId: string) {
+  return await stepTreeHistory(sessionId, 'redo')
+}
+
+/**
+ * 跳转到指定记录刚完成时的状态：撤销其之后的记录，或重做到该记录为止
+ */
+export async function jumpToTreeHistoryEntry(sessionId: string, entryId: string) {
+  const { undo, redo } = treeHistoryStore.getState().getStacks(sessionId)
+  const undoIndex = undo.findIndex((entry) => entry.id === entryId)
+  const redoIndex = redo.findIndex((entry) => entry.id === entryId)
+  if (undoIndex < 0 && redoIndex < 0) {
+    return
+  }
+  const direction: TreePatchDirection = undoIndex >= 0 ? 'undo' : 'redo'
+  const steps = undoIndex >= 0 ? undo.length - 1 - undoIndex : redo.length - redoIndex
+  for (let i = 0; i < steps; i++) {
+    if (!(await stepTreeHistory(sessionId, direction))) {
+      break
+    }
+  }
+}
+
+// ============ 内部函数 ============
+
+function pushEntry(sessionId: string, action: TreeHistoryAction, patch: TreePatch) {
+  treeHistoryStore.getState().push(sessionId, {
+    id: uuidv4(),
+    action,
+    patch,
+    timestamp: Date.now(),
+  })
+}
+
+async function stepTreeHistory(sessionId: string, direction: TreePatchDirection): Promise<TreeHistoryEntry | null> {
+  const historyStore = treeHistoryStore.getState()
+  const { undo, redo } = historyStore.getStacks(sessionId)
+  const entry = direction === 'undo' ? undo[undo.length - 1] : redo[redo.length - 1]
+  if (!entry) {
+    return null
+  }
+
+  if (patchTouchesSession(entry.patch)) {
+    let applied = false
+    await chatStore.updateSessionWithMessages(sessionId, (session) => {
+      if (!session) {
+        throw new Error('Session not found')
+      }
+      const next = applyTreePatch(session, entry.patch, direction)
+      if (!next) {
+        return session
+      }
+      applied = true
+      return { ...session, ...next }
+    })
+    if (!applied) {
+      // 会话已被历史之外的操作改动，补丁无法安全应用，清空该会话的历史
+      historyStore.clear(sessionId)
+      throw new Error('Tree history is out of date')
+    }
+  }
+
+  if (entry.patch.positions) {
+    const { nodePositions, clearNodePositions, updateNodePositions } = viewModeStore.getState()
+    const positions = applyPositionsPatch(nodePositions[sessionId] ?? {}, entry.patch, direction)
+    clearNodePositions(sessionId)
+    updateNodePositions(sessionId, positions)
+  }
+
+  if (direction === 'undo') {
+    historyStore.moveToRedo(sessionId)
+  } else {
+    historyStore.moveToUndo(sessionId)
+  }
+  return entry
+}
@@ -0,0 +1,108 @@
+/**
+ * 树形图历史状态管理
+ * 按会话维护撤销/重做栈，只保存在内存中
+ */
+
+import { createStore, useStore } from 'zustand'
+import type { TreePatch } from '@/lib/tree-history'
+
+/** 记录到历史中的操作类型 */
+export type TreeHistoryAction =
+  | 'delete'
+  | 'edit'
+  | 'insert'
+  | 'create-fork'
+  | 'delete-fork'
+  | 'expand-fork'
+  | 'switch-branch'
+  | 'move-nodes'
+  | 'reparent'
+  | 'auto-layout'
+
+/** 历史记录项 */
+export interface TreeHistoryEntry {
+  id: string
+  action: TreeHistoryAction
+  patch: TreePatch
+  timestamp: number
+}
+
+/** 单个会话的历史栈，数组末尾是最近的记录 */
+export interface TreeHistoryStacks {
+  undo: TreeHistoryEntry[]
+  redo: TreeHistoryEntry[]
+}
+
+/** 每个会话最多保留的撤销记录数量 */
+export const TREE_HISTORY_LIMIT = 100
+
+const EMPTY_STACKS: TreeHistoryStacks = { undo: [], redo: [] }
+
+interface TreeHistoryState {
+  /** 按会话ID存储的历史栈 */
+  histories: Record<string, TreeHistoryStacks>
+}
+
+interface TreeHistoryActions {
+  /** 记录新的操作，同时清空重做栈 */
+  push: (sessionId: string, entry: TreeHistoryEntry) => void
+  /** 将撤销栈顶的记录移到重做栈 */
+  moveToRedo: (sessionId: string) => void
+  /** 将重做栈顶的记录移回撤销栈 */
+  moveToUndo: (sessionId: string) => void
+  /** 清除会话的历史 */
+  clear: (sessionId: string) => void
+  /** 获取会话的历史栈 */
+  getStacks: (sessionId: string) => TreeHistoryStacks
+}
+
+export const treeHistoryStore = createStore<TreeHistoryState & TreeHistoryActions>()((set, get) => ({
+  histories: {},
+
+  push: (sessionId, entry) => {
+    const { undo } = get().getStacks(sessionId)
+    set({
+      histories: {
+        ...get().histories,
+        [sessionId]: { undo: [...undo, entry].slice(-TREE_HISTORY_LIMIT), redo: [] },
+      },
+    })
+  },
+
+  moveToRedo: (sessionId) => {
+    const { undo, redo } = get().getStacks(sessionId)
+    const entry = undo[undo.length - 1]
+    if (!entry) return
+    set({
+      histories: {
+        ...get().histories,
+        [sessionId]: { undo: undo.slice(0, -1), redo: [...redo, entry] },
+      },
+    })
+  },
+
+  moveToUndo: (sessionId) => {
+    const { undo, redo } = get().getStacks(sessionId)
+    const entry = redo[redo.length - 1]
+    if (!entry) return
+    set({
+      histories: {
+        ...get().histories,
+        [sessionId]: { undo: [...undo, entry], redo: redo.slice(0, -1) },
+      },
+    })
+  },
+
+  clear: (sessionId) => {
+    const { [sessionId]: _, ...rest } = get().histories
+    set({ histories: rest })
+  },
+
+  getStacks: (sessionId) => {
+    return get().histories[sessionId] ?? EMPTY_STACKS
+  },
+}))
+
+export function useTreeHistoryStore<U>(selector: (state: TreeHistoryState & TreeHistoryActions) => U) {
+  return useStore(treeHistoryStore, selector)
+}
@@ -1,9 +1,10 @@
 import type { RefObject } from 'react'
 import type { VirtuosoHandle } from 'react-virtuoso'
-import type { KnowledgeBase, MessagePicture, Toast } from 'src/shared/types'
+import type { KnowledgeBase, MessagePicture, MessageReference, Toast } from 'src/shared/types'
 import { v4 as uuidv4 } from 'uuid'
 import { createStore, useStore } from 'zustand'
 import { combine, persist } from 'zustand/middleware'
+import type { PathReplayProgress } from '@/lib/path-replay'
 import platform from '@/platform'
 import { safeStorage } from './safeStorage'
 
@@ -15,6 +16,7 @@ export const uiStore = createStore(
       {
         toasts: [] as Toast[],
         quote: '',
+        messageReferences: {} as Record<string, MessageReference[]>, // 按会话存放待发送的节点引用
         realTheme: localStorage.getItem('initial-theme') === 'dark' ? 'dark' : ('light' as 'light' | 'dark'),
         messageListElement: null as RefObject<HTMLDivElement> | null,
         messageScrolling: null as RefObject<VirtuosoHandle> | null,
@@ -40,6 +42,7 @@ export const uiStore = createStore(
         widthFull: false, // Stored UI preference
         showCopilotsInNewSession: false,
         sidebarWidth: null as number | null, // Custom sidebar width, null means use default
+        pathReplays: {} as Record<string, PathReplayProgress | undefined>, // 按会话存放正在进行的路径重放进度
       },
       (set, get) => ({
         addToast: (content: string, duration?: number) => {
@@ -60,6 +63,36 @@ export const uiStore = createStore(
           set({ quote })
         },
 
+        addMessageReferences: (sessionId: string, references: MessageReference[]) => {
+          set((state) => {
+            const current = state.messageReferences[sessionId] || []
+            const added = references.filter((ref) => !current.some((r) => r.messageId === ref.messageId))
+            return {
+              messageReferences: {
+                ...state.messageReferences,
+                [sessionId]: [...current, ...added],
+              },
+            }
+          })
+        },
+
+        removeMessageReference: (sessionId: string, messageId: string) => {
+          set((state) => ({
+            messageReferences: {
+              ...state.messageReferences,
+              [sessionId]: (state.messageReferences[sessionId] || []).filter((r) => r.messageId !== messageId),
+            },
+          }))
+        },
+
+        clearMessageReferences: (sessionId: string) => {
+          set((state) => {
+            const newMap = { ...state.messageReferences }
+            delete newMap[sessionId]
+            return { messageReferences: newMap }
+          })
+        },
+
         setShowSidebar: (showSidebar: boolean) => {
           console.log('setShowSidebar:', showSidebar)
           set({ showSidebar })
@@ -136,6 +169,18 @@ export const uiStore = createStore(
         setSidebarWidth: (sidebarWidth: number | null) => {
           set({ sidebarWidth })
         },
+
+        setPathReplay: (sessionId: string, progress: PathReplayProgress | null) => {
+          set((state) => {
+            const newMap = { ...state.pathReplays }
+            if (progress) {
+              newMap[sessionId] = progress
+            } else {
+              delete newMap[sessionId]
+            }
+            return { pathReplays: newMap }
+          })
+        },
       })
     ),
     {
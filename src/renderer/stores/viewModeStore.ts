@@ -5,6 +5,7 @@
 
 import { createStore, useStore } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { DEFAULT_TREE_LAYOUT_MODE, type TreeLayoutMode } from '@/lib/tree-layout'
 import { safeStorage } from './safeStorage'
 
 export type ViewMode = 'list' | 'tree'
@@ -18,26 +19,21 @@ export type NodePositions = Record<string, { x: number; y: number }>
 /** 按会话ID存储的节点位置 */
 export type SessionNodePositions = Record<string, NodePositions>
 
+/** 按会话ID存储的布局模式 */
+export type SessionLayoutModes = Record<string, TreeLayoutMode>
+
+/** 按会话ID、布局模式存储的非当前布局的节点位置 */
+export type SessionLayoutPositions = Record<string, Partial<Record<TreeLayoutMode, NodePositions>>>
+
+/** 按会话ID存储的已折叠节点ID */
+export type SessionCollapsedNodes = Record<string, string[]>
+
 /** 视口状态类型 */
 export type ViewportState = { x: number; y: number; zoom: number }
 
 /** 按会话ID存储的视口状态 */
 export type SessionViewports = Record<string, ViewportState>
 
-/** 树形图撤销状态 - 只保存上一次删除前的状态 */
-export interface TreeUndoState {
-  /** 会话ID */
-  sessionId: string
-  /** 删除前的消息列表快照 (JSON字符串) */
-  messagesSnapshot: string
-  /** 删除前的分支哈希快照 (JSON字符串) */
-  messageForksHashSnapshot: string | null
-  /** 删除的节点数量 */
-  deletedCount: number
-  /** 保存时间戳 */
-  timestamp: number
-}
-
 interface ViewModeState {
   /** 当前视图模式 */
   viewMode: ViewMode
@@ -55,8 +51,15 @@ interface ViewModeState {
   nodePositions: SessionNodePositions
   /** 按会话ID存储的视口状态 */
   sessionViewports: SessionViewports
-  /** 树形图撤销状态 - 只保存上一次删除前的状态 */
-  treeUndoState: TreeUndoState | null
+  /** 按会话ID存储的已折叠节点（其子孙节点在树形图中隐藏） */
+  collapsedNodes: SessionCollapsedNodes
+  /** 按会话ID存储的布局模式，缺省为垂直布局 */
+  layoutModes: SessionLayoutModes
+  /**
+   * 非当前布局的节点位置
+   * nodePositions 始终是当前布局的位置，切换布局时与这里保存的位置交换
+   */
+  layoutPositions: SessionLayoutPositions
 }
 
 interface ViewModeActions {
@@ -96,14 +99,16 @@ interface ViewModeActions {
   getSessionViewport: (sessionId: string) => ViewportState | undefined
   /** 清除会话的视口状态 */
   clearSessionViewport: (sessionId: string) => void
-  /** 保存删除前的状态用于撤销 */
-  saveTreeUndoState: (state: TreeUndoState) => void
-  /** 获取撤销状态 */
-  getTreeUndoState: () => TreeUndoState | null
-  /** 清除撤销状态 */
-  clearTreeUndoState: () => void
-  /** 检查是否可以撤销（指定会话） */
-  canUndoForSession: (sessionId: string) => boolean
+  /** 切换节点的折叠状态 */
+  toggleNodeCollapsed: (sessionId: string, nodeId: string) => void
+  /** 批量折叠节点 */
+  collapseNodes: (sessionId: string, nodeIds: string[]) => void
+  /** 批量展开节点 */
+  expandNodes: (sessionId: string, nodeIds: string[]) => void
+  /** 展开会话中的所有节点 */
+  expandAllNodes: (sessionId: string) => void
+  /** 切换会话的布局模式，同时切换到该布局保存的节点位置 */
+  setLayoutMode: (sessionId: string, mode: TreeLayoutMode) => void
 }
 
 const initialState: ViewModeState = {
@@ -115,7 +120,9 @@ const initialState: ViewModeState = {
   treePosition: { x: 0, y: 0 },
   nodePositions: {},
   sessionViewports: {},
-  treeUndoState: null,
+  collapsedNodes: {},
+  layoutModes: {},
+  layoutPositions: {},
 }
 
 export const viewModeStore = createStore<ViewModeState & ViewModeActions>()(
@@ -229,30 +236,71 @@ export const viewModeStore = createStore<ViewModeState & ViewModeActions>()(
         set({ sessionViewports: rest })
       },
 
-      saveTreeUndoState: (state) => {
-        set({ treeUndoState: state })
+      toggleNodeCollapsed: (sessionId, nodeId) => {
+        const { collapsedNodes } = get()
+        const current = collapsedNodes[sessionId] ?? []
+        set({
+          collapsedNodes: {
+            ...collapsedNodes,
+            [sessionId]: current.includes(nodeId) ? current.filter(id => id !== nodeId) : [...current, nodeId],
+          },
+        })
+      },
+
+      collapseNodes: (sessionId, nodeIds) => {
+        const { collapsedNodes } = get()
+        const current = collapsedNodes[sessionId] ?? []
+        set({
+          collapsedNodes: {
+            ...collapsedNodes,
+            [sessionId]: Array.from(new Set([...current, ...nodeIds])),
+          },
+        })
       },
 
-      getTreeUndoState: () => {
-        return get().treeUndoState
+      expandNodes: (sessionId, nodeIds) => {
+        const { collapsedNodes } = get()
+        set({
+          collapsedNodes: {
+            ...collapsedNodes,
+            [sessionId]: (collapsedNodes[sessionId] ?? []).filter(id => !nodeIds.includes(id)),
+          },
+        })
       },
 
-      clearTreeUndoState: () => {
-        set({ treeUndoState: null })
+      expandAllNodes: (sessionId) => {
+        const { collapsedNodes } = get()
+        const { [sessionId]: _, ...rest } = collapsedNodes
+        set({ collapsedNodes: rest })
       },
 
-      canUndoForSession: (sessionId) => {
-        const { treeUndoState } = get()
-        return treeUndoState !== null && treeUndoState.sessionId === sessionId
+      setLayoutMode: (sessionId, mode) => {
+        const { layoutModes, layoutPositions, nodePositions } = get()
+        const currentMode = layoutModes[sessionId] ?? DEFAULT_TREE_LAYOUT_MODE
+        if (currentMode === mode) return
+
+        const { [mode]: nextPositions, ...otherPositions } = layoutPositions[sessionId] ?? {}
+        const { [sessionId]: currentPositions, ...otherSessions } = nodePositions
+        set({
+          layoutModes: { ...layoutModes, [sessionId]: mode },
+          layoutPositions: {
+            ...layoutPositions,
+            [sessionId]: currentPositions ? { ...otherPositions, [currentMode]: currentPositions } : otherPositions,
+          },
+          nodePositions: nextPositions ? { ...otherSessions, [sessionId]: nextPositions } : otherSessions,
+        })
       },
     }),
     {
       name: 'view-mode-store',
-      version: 3,
+      version: 5,
       partialize: (state) => ({
         viewMode: state.viewMode,
         nodePositions: state.nodePositions,
         sessionViewports: state.sessionViewports,
+        collapsedNodes: state.collapsedNodes,
+        layoutModes: state.layoutModes,
+        layoutPositions: state.layoutPositions,
       }),
       storage: safeStorage,
       // 版本迁移
@@ -264,6 +312,9 @@ export const viewModeStore = createStore<ViewModeState & ViewModeActions>()(
             ...state,
             nodePositions: state.nodePositions || {},
             sessionViewports: {},
+            collapsedNodes: {},
+            layoutModes: {},
+            layoutPositions: {},
           }
         }
         if (version < 3) {
@@ -271,6 +322,26 @@ export const viewModeStore = createStore<ViewModeState & ViewModeActions>()(
           return {
             ...state,
             sessionViewports: {},
+            collapsedNodes: {},
+            layoutModes: {},
+            layoutPositions: {},
+          }
+        }
+        if (version < 4) {
+          // v3 没有 collapsedNodes，添加默认值
+          return {
+            ...state,
+            collapsedNodes: {},
+            layoutModes: {},
+            layoutPositions: {},
+          }
+        }
+        if (version < 5) {
+          // v4 没有布局模式，已保存的节点位置属于垂直布局
+          return {
+            ...state,
+            layoutModes: {},
+            layoutPositions: {},
           }
         }
         return state as ViewModeState
@@ -1,8 +1,16 @@
 import { mapValues } from 'lodash'
 import type { Session, SessionMeta } from 'src/shared/types'
+import { buildMessageGraph, getDetachedForks, withMessageTreeViews } from '@/lib/message-graph'
 import { migrateMessage } from './message'
 
 export function migrateSession(session: Session): Session {
+  const migrated = migrateSessionMessages(session)
+  // 树结构以消息图为准，messages + messageForksHash 由消息图生成；旧格式的会话（如导入的备份）在读取时转换
+  const messageGraph = migrated.messageGraph ?? buildMessageGraph(migrated)
+  return withMessageTreeViews(migrated, messageGraph, getDetachedForks(migrated.messageForksHash, messageGraph))
+}
+
+function migrateSessionMessages(session: Session): Session {
   return {
     ...session,
     settings: {
@@ -23,6 +31,10 @@ export function migrateSession(session: Session): Session {
           messages: list.messages?.map((m) => migrateMessage(m)) || [],
         })) || [],
     })),
+    messageGraph: session.messageGraph && {
+      ...session.messageGraph,
+      nodes: mapValues(session.messageGraph.nodes, (node) => ({ ...node, message: migrateMessage(node.message) })),
+    },
   }
 }
 
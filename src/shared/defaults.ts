@@ -101,6 +101,7 @@ export function settings(): Settings {
     pasteLongTextAsAFile: true,
 
     autoGenerateTitle: true,
+    autoGenerateBranchSummaries: false,
 
     autoLaunch: false,
     autoUpdate: true,
@@ -122,6 +123,17 @@ export function settings(): Settings {
       optionNavUp: 'up', // 选项导航的快捷键
       optionNavDown: 'down', // 选项导航的快捷键
       optionSelect: 'enter', // 选项导航的快捷键
+      treeNavParent: 'up', // 树形图中选中父节点
+      treeNavChild: 'down', // 树形图中选中子节点
+      treeNavPrevSibling: 'left', // 树形图中选中上一个兄弟节点
+      treeNavNextSibling: 'right', // 树形图中选中下一个兄弟节点
+      treeOpenDetail: 'enter', // 树形图中打开节点详情
+      treeEditMessage: 'e', // 树形图中编辑节点
+      treeRegenerate: 'r', // 树形图中重新生成
+      treeCreateBranch: 'b', // 树形图中从节点创建分支
+      treeDeleteNode: 'd', // 树形图中删除节点
+      treeQuoteNode: 'q', // 树形图中引用节点
+      treeShowShortcuts: '?', // 显示树形图快捷键列表
     },
     extension: {
       webSearch: {
@@ -7,7 +7,9 @@ import {
   type ImageModel,
   type JSONValue,
   type LanguageModelUsage,
+  jsonSchema,
   type ModelMessage,
+  Output,
   type Provider,
   simulateStreamingMiddleware,
   stepCountIs,
@@ -48,6 +50,8 @@ interface ToolExecutionResult {
 export default abstract class AbstractAISDKModel implements ModelInterface {
   public name = 'AI SDK Model'
   public injectDefaultMetadata = true
+  // Anthropic reports cache reads apart from inputTokens, other providers count them in it
+  protected usageExcludesCachedInput = false
   public modelId = ''
 
   public isSupportToolUse() {
@@ -93,6 +97,11 @@ export default abstract class AbstractAISDKModel implements ModelInterface {
     return true
   }
 
+  // Whether the provider accepts a JSON Schema as the response format for a call with these tools and options
+  public isSupportStructuredOutput(_options?: Pick<CallChatCompletionOptions, 'tools' | 'providerOptions'>) {
+    return false
+  }
+
   protected getCallSettings(_options: CallChatCompletionOptions): CallSettings {
     return {}
   }
@@ -403,7 +412,7 @@ export default abstract class AbstractAISDKModel implements ModelInterface {
 
   private handleError(error: unknown, context: string = ''): never {
     if (APICallError.isInstance(error)) {
-      throw new ApiError(`Error from ${this.name}${context}`, error.responseBody)
+      throw new ApiError(`Error from ${this.name}${context}`, error.responseBody, error.statusCode)
     }
     if (error instanceof ApiError) {
       throw error
@@ -440,12 +449,29 @@ export default abstract class AbstractAISDKModel implements ModelInterface {
       }
     }
 
+    const usage = result.usage && this.normalizeUsage(result.usage)
     options.onResultChange?.({
       contentParts,
-      tokenCount: result.usage?.outputTokens,
-      tokensUsed: result.usage?.totalTokens,
+      tokenCount: usage?.outputTokens,
+      tokensUsed: usage?.totalTokens,
     })
-    return { contentParts, usage: result.usage, finishReason: result.finishReason }
+    return { contentParts, usage, finishReason: result.finishReason }
+  }
+
+  /**
+   * Counts cached input tokens in inputTokens and totalTokens for every provider,
+   * so the cache hit rate and cost are computed the same way
+   */
+  private normalizeUsage(usage: LanguageModelUsage): StreamTextResult['usage'] {
+    if (!this.usageExcludesCachedInput || !usage.cachedInputTokens) {
+      return usage
+    }
+    return {
+      ...usage,
+      inputTokens: (usage.inputTokens ?? 0) + usage.cachedInputTokens,
+      totalTokens: usage.totalTokens === undefined ? undefined : usage.totalTokens + usage.cachedInputTokens,
+      cachedInputIncluded: true,
+    }
   }
 
   private async handleStreamingCompletion<T extends ToolSet>(
@@ -460,6 +486,10 @@ export default abstract class AbstractAISDKModel implements ModelInterface {
       stopWhen: stepCountIs(options.maxSteps || Number.MAX_SAFE_INTEGER),
       tools: options.tools,
       abortSignal: options.signal,
+      experimental_output:
+        options.structuredOutput && this.isSupportStructuredOutput(options)
+          ? Output.object({ schema: jsonSchema(options.structuredOutput.schema) })
+          : undefined,
       // experimental_transform: smoothStream({
       //   delayInMs: 10, // optional: defaults to 10ms
       //   chunking: 'word', // optional: defaults to 'word'
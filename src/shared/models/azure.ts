@@ -51,6 +51,10 @@ export default class AzureOpenAI extends AbstractAISDKModel {
     }
   }
 
+  public isSupportStructuredOutput() {
+    return true
+  }
+
   protected getChatModel() {
     const provider = this.getProvider()
     return wrapLanguageModel({
@@ -0,0 +1,108 @@
+import { createTestServer } from '@ai-sdk/provider-utils/test'
+import { jsonSchema, tool } from 'ai'
+import type { ModelDependencies } from 'src/shared/types/adapters'
+import type { ProviderModelInfo } from 'src/shared/types/settings'
+import type { SentryScope } from 'src/shared/utils/sentry_adapter'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import Claude from './claude'
+
+describe('Claude Adapter', () => {
+  let dependencies: ModelDependencies
+
+  const server = createTestServer({
+    'https://api.anthropic.com/v1/messages': {},
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    dependencies = {
+      request: {
+        apiRequest: async (options) =>
+          fetch(options.url, {
+            method: options.method,
+            headers: options.headers as HeadersInit,
+            body: options.body as BodyInit,
+          }),
+        fetchWithOptions: async (url, options) => fetch(url, options as RequestInit),
+      },
+      storage: {
+        saveImage: vi.fn().mockResolvedValue('mock-storage-key'),
+        getImage: vi.fn().mockResolvedValue('https://example.com/image.png'),
+      },
+      sentry: {
+        withScope: vi.fn((callback: (scope: SentryScope) => void) => callback({ setTag: vi.fn(), setExtra: vi.fn() })),
+        captureException: vi.fn(),
+      },
+      getRemoteConfig: vi.fn().mockReturnValue({ setting_chatboxai_first: false }),
+    }
+
+    server.urls['https://api.anthropic.com/v1/messages'].response = {
+      type: 'json-value',
+      body: {
+        id: 'msg_123',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-0',
+        content: [{ type: 'text', text: '{"name":"Ada"}' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      },
+    }
+  })
+
+  const createClaude = (capabilities?: ProviderModelInfo['capabilities']) =>
+    new Claude(
+      {
+        claudeApiKey: 'test-api-key',
+        claudeApiHost: 'https://api.anthropic.com',
+        model: { modelId: 'claude-sonnet-4-0', type: 'chat', capabilities },
+        stream: false,
+      },
+      dependencies
+    )
+
+  const schema = { type: 'object' as const, properties: { name: { type: 'string' as const } } }
+  const tools = {
+    get_weather: tool({
+      description: 'Get the weather',
+      inputSchema: jsonSchema({ type: 'object', properties: { city: { type: 'string' } } }),
+    }),
+  }
+
+  describe('Structured Output', () => {
+    it('uses the native response format without tools or thinking', async () => {
+      const claude = createClaude()
+      expect(claude.isSupportStructuredOutput({})).toBe(true)
+
+      await claude.chat([{ role: 'user', content: 'Who?' }], { structuredOutput: { schema } })
+
+      const body = await server.calls[0].requestBodyJson
+      expect(body.tools.map((t: { name: string }) => t.name)).toEqual(['json'])
+    })
+
+    it('keeps the tools and skips the native response format when tools are passed', async () => {
+      const claude = createClaude()
+      expect(claude.isSupportStructuredOutput({ tools })).toBe(false)
+
+      await claude.chat([{ role: 'user', content: 'Weather?' }], { tools, structuredOutput: { schema } })
+
+      const body = await server.calls[0].requestBodyJson
+      expect(body.tools.map((t: { name: string }) => t.name)).toEqual(['get_weather'])
+      expect(body.tool_choice).toEqual({ type: 'auto' })
+    })
+
+    it('skips the native response format when thinking is enabled', async () => {
+      const claude = createClaude(['reasoning'])
+      const providerOptions = { claude: { thinking: { type: 'enabled' as const, budgetTokens: 1024 } } }
+      expect(claude.isSupportStructuredOutput({ providerOptions })).toBe(false)
+
+      await claude.chat([{ role: 'user', content: 'Who?' }], { providerOptions, structuredOutput: { schema } })
+
+      const body = await server.calls[0].requestBodyJson
+      expect(body.tools).toBeUndefined()
+      expect(body.thinking).toEqual({ type: 'enabled', budget_tokens: 1024 })
+    })
+  })
+})
@@ -18,6 +18,7 @@ interface Options {
 
 export default class Claude extends AbstractAISDKModel {
   public name = 'Claude'
+  protected usageExcludesCachedInput = true
 
   constructor(public options: Options, dependencies: ModelDependencies) {
     super(options, dependencies)
@@ -33,6 +34,14 @@ export default class Claude extends AbstractAISDKModel {
     })
   }
 
+  // @ai-sdk/anthropic 用一个强制调用的 json 工具实现结构化输出，会替换掉其他工具，且与 thinking 不兼容，
+  // 这两种情况下改为通过提示词要求输出 JSON
+  public isSupportStructuredOutput(options?: Pick<CallChatCompletionOptions, 'tools' | 'providerOptions'>) {
+    const hasTools = Object.keys(options?.tools ?? {}).length > 0
+    const thinking = this.isSupportReasoning() && options?.providerOptions?.claude?.thinking?.type === 'enabled'
+    return !hasTools && !thinking
+  }
+
   protected getChatModel() {
     const provider = this.getProvider()
     return provider.languageModel(this.options.model.modelId)
@@ -19,6 +19,7 @@ interface Options {
 
 export default class CustomClaude extends AbstractAISDKModel {
   public name = 'Custom Claude'
+  protected usageExcludesCachedInput = true
 
   constructor(
     public options: Options,
@@ -40,6 +41,14 @@ export default class CustomClaude extends AbstractAISDKModel {
     })
   }
 
+  // @ai-sdk/anthropic 用一个强制调用的 json 工具实现结构化输出，会替换掉其他工具，且与 thinking 不兼容，
+  // 这两种情况下改为通过提示词要求输出 JSON
+  public isSupportStructuredOutput(options?: Pick<CallChatCompletionOptions, 'tools' | 'providerOptions'>) {
+    const hasTools = Object.keys(options?.tools ?? {}).length > 0
+    const thinking = this.isSupportReasoning() && options?.providerOptions?.claude?.thinking?.type === 'enabled'
+    return !hasTools && !thinking
+  }
+
   protected getChatModel(_options: CallChatCompletionOptions): LanguageModelV2 {
     const provider = this.getProvider()
     return provider.languageModel(this.options.model.modelId)
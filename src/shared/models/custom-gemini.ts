@@ -45,6 +45,10 @@ export default class CustomGemini extends AbstractAISDKModel {
     })
   }
 
+  public isSupportStructuredOutput() {
+    return true
+  }
+
   protected getChatModel(_options: CallChatCompletionOptions): LanguageModelV2 {
     const provider = this.getProvider()
     return provider.chat(this.options.model.modelId)
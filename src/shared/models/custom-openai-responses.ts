@@ -65,6 +65,10 @@ export default class CustomOpenAIResponses extends AbstractAISDKModel {
     })
   }
 
+  public isSupportStructuredOutput() {
+    return true
+  }
+
   protected getChatModel(options: CallChatCompletionOptions) {
     const { apiHost, apiPath } = this.options
     const provider = this.getProvider(options, (_input, init) =>
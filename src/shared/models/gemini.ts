@@ -41,6 +41,10 @@ export default class Gemeni extends AbstractAISDKModel {
     })
   }
 
+  public isSupportStructuredOutput() {
+    return true
+  }
+
   protected getChatModel(options: CallChatCompletionOptions): LanguageModelV2 {
     const provider = this.getProvider()
 
@@ -4,6 +4,7 @@ import {
   type ModelProvider,
   ModelProviderEnum,
   ModelProviderType,
+  type ProviderModelInfo,
   type SessionSettings,
   type Settings,
 } from '../types'
@@ -51,6 +52,21 @@ export function getProviderSettings(setting: SessionSettings, globalSettings: Se
   }
 }
 
+/**
+ * 获取会话设置所选模型的信息（上下文窗口、最大输出等），优先使用用户的模型列表，其次使用内置供应商的默认模型
+ */
+export function getModelInfo(settings: SessionSettings, globalSettings: Settings): ProviderModelInfo | undefined {
+  if (!settings.provider) {
+    return undefined
+  }
+  return (
+    globalSettings.providers?.[settings.provider]?.models?.find((m) => m.modelId === settings.modelId) ??
+    SystemProviders.find((p) => p.id === settings.provider)?.defaultSettings?.models?.find(
+      (m) => m.modelId === settings.modelId
+    )
+  )
+}
+
 export function getModel(
   settings: SessionSettings,
   globalSettings: Settings,
@@ -64,12 +80,7 @@ export function getModel(
   }
   const { providerSetting, formattedApiHost, providerBaseInfo } = getProviderSettings(settings, globalSettings)
 
-  let model = providerSetting.models?.find((m) => m.modelId === settings.modelId)
-  if (!model) {
-    model = SystemProviders.find((p) => p.id === provider)?.defaultSettings?.models?.find(
-      (m) => m.modelId === settings.modelId
-    )
-  }
+  let model = getModelInfo(settings, globalSettings)
   if (!model) {
     // 如果没有找到对应的 model 配置，直接使用传入的 modelId，这种情况通常发生在用户本地列表中删除了某个 model，但是某个 session 中还在使用，或是检查连接的时候，使用了 defaults 中的 modelId，
     model = {
@@ -1,6 +1,6 @@
 import { createOpenAI } from '@ai-sdk/openai'
 import { extractReasoningMiddleware, wrapLanguageModel } from 'ai'
-import type { ProviderModelInfo } from '../types'
+import type { OpenAIParams, ProviderModelInfo } from '../types'
 import type { ModelDependencies } from '../types/adapters'
 import { normalizeOpenAIApiHostAndPath } from '../utils/llm_utils'
 import AbstractAISDKModel from './abstract-ai-sdk'
@@ -49,6 +49,10 @@ export default class OpenAI extends AbstractAISDKModel {
     })
   }
 
+  public isSupportStructuredOutput() {
+    return true
+  }
+
   protected getChatModel() {
     const provider = this.getProvider()
     return wrapLanguageModel({
@@ -64,12 +68,17 @@ export default class OpenAI extends AbstractAISDKModel {
 
   protected getCallSettings(options: CallChatCompletionOptions) {
     const isModelSupportReasoning = this.isSupportReasoning()
-    let providerOptions = {}
+    let providerOptions: { openai?: OpenAIParams & { promptCacheKey?: string } } = {}
     if (isModelSupportReasoning) {
       providerOptions = {
         openai: options.providerOptions?.openai || {},
       }
     }
+    if (options.promptCacheKey) {
+      providerOptions = {
+        openai: { ...providerOptions.openai, promptCacheKey: options.promptCacheKey },
+      }
+    }
 
     return {
       temperature: this.options.temperature,
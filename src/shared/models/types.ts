@@ -1,4 +1,4 @@
-import type { ModelMessage, ToolSet } from 'ai'
+import type { JSONSchema7, ModelMessage, ToolSet } from 'ai'
 import {
   type MessageContentParts,
   type ProviderOptions,
@@ -14,6 +14,7 @@ export interface ModelInterface {
   isSupportVision(): boolean
   isSupportToolUse(scope?: ToolUseScope): boolean
   isSupportSystemMessage(): boolean
+  isSupportStructuredOutput(options?: Pick<CallChatCompletionOptions, 'tools' | 'providerOptions'>): boolean
   chat: (messages: ModelMessage[], options: CallChatCompletionOptions) => Promise<StreamTextResult>
   paint: (
     params: {
@@ -32,6 +33,8 @@ export const CallChatCompletionOptionsSchema = z.object({
   onResultChange: z.custom<OnResultChange>().optional(),
   tools: z.custom<ToolSet>().optional(),
   providerOptions: ProviderOptionsSchema.optional(),
+  promptCacheKey: z.string().optional(),
+  structuredOutput: z.custom<{ schema: JSONSchema7 }>().optional(),
 })
 
 export interface CallChatCompletionOptions<Tools extends ToolSet = ToolSet> {
@@ -41,6 +44,10 @@ export interface CallChatCompletionOptions<Tools extends ToolSet = ToolSet> {
   tools?: Tools
   providerOptions?: ProviderOptions
   maxSteps?: number
+  // groups requests sharing a prefix so the provider routes them to the same prompt cache
+  promptCacheKey?: string
+  // JSON Schema sent as the provider's native response format, only for models that support it
+  structuredOutput?: { schema: JSONSchema7 }
 }
 
 export interface ResultChange {
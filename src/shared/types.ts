@@ -146,6 +146,9 @@ export type ExportChatScope = 'all_threads' | 'current_thread'
 
 export type ExportChatFormat = 'Markdown' | 'TXT' | 'HTML'
 
+// 保留分支结构的对话树导出格式
+export type ExportTreeFormat = 'Mermaid' | 'DOT' | 'JSONCanvas' | 'JSON' | 'SVG' | 'PNG'
+
 // export type SessionType = 'chat' | 'picture'
 
 export function isChatSession(session: Session) {
@@ -1,6 +1,6 @@
 import type { LanguageModelUsage } from 'ai'
 import { z } from 'zod'
-import { SessionSettingsSchema } from '../types/settings'
+import { ProviderOptionsSchema, SessionSettingsSchema, StructuredOutputSettingsSchema } from '../types/settings'
 import { ModelProviderEnum } from './provider'
 
 // Re-export for backward compatibility
@@ -109,11 +109,19 @@ export const MessageContentPartSchema = z.discriminatedUnion('type', [
 
 export const MessageContentPartsSchema = z.array(MessageContentPartSchema)
 
+// Reply checked against the JSON Schema of the structured output setting
+export const MessageStructuredOutputSchema = z.object({
+  object: z.unknown().optional(), // the parsed reply, set when it conforms to the schema
+  errors: z.array(z.string()).optional(), // why the last attempt did not conform
+  attempts: z.number(), // replies requested, including retries after validation errors
+})
+
 export const StreamTextResultSchema = z.object({
   contentParts: MessageContentPartsSchema,
   reasoningContent: z.string().optional(),
-  usage: z.custom<LanguageModelUsage>().optional(),
+  usage: z.custom<LanguageModelUsage & { cachedInputIncluded?: boolean }>().optional(),
   finishReason: z.string().optional(),
+  structuredOutput: MessageStructuredOutputSchema.optional(),
 })
 
 // Tool and provider schemas
@@ -160,6 +168,46 @@ const MessageUsageSchema = z.object({
   The number of cached input tokens.
      */
   cachedInputTokens: z.number().optional().catch(undefined),
+  /**
+  Whether the cached input tokens were added to `inputTokens` for a provider that reports them separately (Anthropic).
+  Replies from such providers saved before that lack this flag.
+     */
+  cachedInputIncluded: z.boolean().optional().catch(undefined),
+})
+
+// Branch merge schemas
+export const MergeStrategySchema = z.enum(['summarize', 'reconcile', 'pick-best', 'custom'])
+
+export const MessageMergeInfoSchema = z.object({
+  sourceIds: z.array(z.string()), // merged leaf message ids, the first one is the tree parent
+  strategy: MergeStrategySchema,
+  prompt: z.string().optional(), // custom merge instruction, used when strategy is `custom`
+})
+
+// Message reference schema, a structured pointer to another node in the conversation tree
+export const MessageReferenceSchema = z.object({
+  messageId: z.string(),
+  role: z.nativeEnum(MessageRoleEnum),
+  branchPath: z.array(z.string()), // message ids from the root to the referenced message
+  branch: z.boolean().optional(), // references the whole branch starting at the message, sent as its summary
+})
+
+// Per-branch generation settings, override the session settings for the message they are stored on
+export const GenerationOverrideSchema = z.object({
+  provider: z.string().optional(),
+  modelId: z.string().optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  systemPrompt: z.string().optional(), // replaces the system message of the context
+  providerOptions: ProviderOptionsSchema.optional(),
+  structuredOutput: StructuredOutputSettingsSchema.optional(),
+})
+
+// Context trimmed to fit the model's context window when the reply was generated
+export const MessageContextTrimSchema = z.object({
+  excludedMessageIds: z.array(z.string()), // older messages left out of the context
+  truncatedAttachmentCount: z.number().optional(), // attached files and links cut to fit
+  truncatedInput: z.boolean().optional(), // the latest message itself was cut to fit
 })
 
 export const MessageSchema = z.object({
@@ -188,6 +236,14 @@ export const MessageSchema = z.object({
   firstTokenLatency: z.number().optional(),
   finishReason: z.string().optional(),
   tokenCountMap: TokenCountMapSchema.optional(), // estimate token count as input
+  merge: MessageMergeInfoSchema.optional(),
+  references: z.array(MessageReferenceSchema).optional(),
+  tags: z.array(z.string()).optional(), // git-like tags shown in the conversation tree
+  bookmarked: z.boolean().optional(),
+  contextChanged: z.boolean().optional(), // generated under a different history, set when its subtree was re-parented
+  generationOverride: GenerationOverrideSchema.optional().catch(undefined),
+  contextTrim: MessageContextTrimSchema.optional().catch(undefined),
+  structuredOutput: MessageStructuredOutputSchema.optional().catch(undefined),
 })
 
 // Session schemas
@@ -195,6 +251,7 @@ export const SessionTypeSchema = z.enum(['chat', 'picture'])
 
 export const MessageForkListSchema = z.object({
   id: z.string(),
+  name: z.string().optional(),
   messages: z.array(MessageSchema),
 })
 
@@ -204,6 +261,33 @@ export const MessageForkSchema = z.object({
   createdAt: z.number(),
 })
 
+// Flat parent-pointer message graph, the stored form of the conversation tree
+export const MessageGraphBranchSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  headId: z.string().optional(), // first message of the branch, empty branches have none
+})
+
+export const MessageGraphForkSchema = z.object({
+  position: z.number(), // index of the active branch in lists
+  lists: z.array(MessageGraphBranchSchema),
+  createdAt: z.number(),
+})
+
+export const MessageGraphNodeSchema = z.object({
+  message: MessageSchema,
+  parentId: z.string().nullable(),
+  childIds: z.array(z.string()),
+  activeChildId: z.string().optional(),
+  fork: MessageGraphForkSchema.optional(), // branch metadata, only on fork points
+})
+
+export const MessageGraphSchema = z.object({
+  rootId: z.string().optional(),
+  activeLeafId: z.string().optional(),
+  nodes: z.record(z.string(), MessageGraphNodeSchema),
+})
+
 export const SessionThreadSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -211,6 +295,50 @@ export const SessionThreadSchema = z.object({
   createdAt: z.number(),
 })
 
+// Canvas-only annotations on the conversation tree, never sent to the model
+export const TreeAnnotationKindSchema = z.enum(['note', 'frame'])
+
+export const TreeAnnotationSchema = z.object({
+  id: z.string(),
+  kind: TreeAnnotationKindSchema,
+  text: z.string(), // sticky note content or frame label
+  color: z.string(), // key of the annotation palette
+  nodeIds: z.array(z.string()), // grouped nodes, the annotation follows their positions
+  offset: z.object({ x: z.number(), y: z.number() }).optional(), // sticky note position relative to the grouped nodes' top-right corner
+  createdAt: z.number(),
+})
+
+// Generated title and summary of a branch, keyed by the branch's first message id
+export const BranchSummarySchema = z.object({
+  title: z.string(),
+  summary: z.string(),
+  leafId: z.string(), // last message of the branch when it was summarized
+  messageCount: z.number(), // used with leafId to detect that the branch has grown
+  updatedAt: z.number(),
+})
+
+// Inactive branch moved out of the live session by the prune tool, stored under its own storage key
+export const ArchivedBranchSchema = z.object({
+  id: z.string(),
+  parentId: z.string(), // message the branch hung off, it is reattached there on restore
+  headId: z.string(),
+  name: z.string().optional(), // name of the fork list the branch was in
+  nodes: z.record(z.string(), MessageGraphNodeSchema), // the archived subtree
+  archivedAt: z.number(),
+})
+
+export const SessionArchiveSchema = z.object({
+  sessionId: z.string(),
+  branches: z.array(ArchivedBranchSchema),
+})
+
+// Back-link from a session extracted out of another session's conversation tree
+export const SessionOriginSchema = z.object({
+  sessionId: z.string(),
+  messageId: z.string(), // the tree node the path was extracted at
+  createdAt: z.number(),
+})
+
 export const SessionSchema = z.object({
   id: z.string(),
   type: SessionTypeSchema.optional(),
@@ -224,6 +352,10 @@ export const SessionSchema = z.object({
   threads: z.array(SessionThreadSchema).optional(),
   threadName: z.string().optional(),
   messageForksHash: z.record(z.string(), MessageForkSchema).optional(),
+  messageGraph: MessageGraphSchema.optional(),
+  treeAnnotations: z.array(TreeAnnotationSchema).optional(),
+  branchSummaries: z.record(z.string(), BranchSummarySchema).optional(),
+  extractedFrom: SessionOriginSchema.optional(),
 })
 
 export const SessionMetaSchema = SessionSchema.pick({
@@ -263,7 +395,23 @@ export type StreamTextResult = z.infer<typeof StreamTextResultSchema>
 export type ToolUseScope = z.infer<typeof ToolUseScopeSchema>
 export type ModelProvider = z.infer<typeof ModelProviderSchema>
 export type Message = z.infer<typeof MessageSchema>
+export type MergeStrategy = z.infer<typeof MergeStrategySchema>
+export type MessageMergeInfo = z.infer<typeof MessageMergeInfoSchema>
+export type MessageReference = z.infer<typeof MessageReferenceSchema>
+export type GenerationOverride = z.infer<typeof GenerationOverrideSchema>
+export type MessageContextTrim = z.infer<typeof MessageContextTrimSchema>
+export type MessageStructuredOutput = z.infer<typeof MessageStructuredOutputSchema>
 export type SessionType = z.infer<typeof SessionTypeSchema>
+export type MessageGraphBranch = z.infer<typeof MessageGraphBranchSchema>
+export type MessageGraphFork = z.infer<typeof MessageGraphForkSchema>
+export type MessageGraphNode = z.infer<typeof MessageGraphNodeSchema>
+export type MessageGraph = z.infer<typeof MessageGraphSchema>
+export type TreeAnnotationKind = z.infer<typeof TreeAnnotationKindSchema>
+export type TreeAnnotation = z.infer<typeof TreeAnnotationSchema>
+export type BranchSummary = z.infer<typeof BranchSummarySchema>
+export type ArchivedBranch = z.infer<typeof ArchivedBranchSchema>
+export type SessionArchive = z.infer<typeof SessionArchiveSchema>
+export type SessionOrigin = z.infer<typeof SessionOriginSchema>
 export type Session = z.infer<typeof SessionSchema>
 export type SessionMeta = z.infer<typeof SessionMetaSchema>
 export type SessionThread = z.infer<typeof SessionThreadSchema>
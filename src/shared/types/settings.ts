@@ -4,6 +4,13 @@ import { ModelProviderEnum, ModelProviderType } from './provider'
 // Re-export for backward compatibility
 export { ModelProviderType } from './provider'
 
+// User-editable model prices in USD per million tokens, used for cost estimates
+export const ModelPricingSchema = z.object({
+  input: z.number().optional(),
+  output: z.number().optional(),
+  cachedInput: z.number().optional(), // price of cached input tokens, defaults to the input price
+})
+
 export const ProviderModelInfoSchema = z.object({
   modelId: z.string(),
   type: z.enum(['chat', 'embedding', 'rerank']).optional().catch(undefined),
@@ -16,6 +23,7 @@ export const ProviderModelInfoSchema = z.object({
     .catch([]),
   contextWindow: z.number().optional().catch(undefined),
   maxOutput: z.number().optional().catch(undefined),
+  pricing: ModelPricingSchema.optional().catch(undefined),
 })
 
 export const ProviderSettingsSchema = z.object({
@@ -95,12 +103,33 @@ export const GlobalSessionSettingsSchema = z.object({
   stream: z.boolean().optional().catch(true),
 })
 
+// Model tried when the reply fails with an error that another provider may not have
+export const FallbackModelSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+})
+
+// Parts of the request marked as cacheable for providers that support prompt caching
+export const PromptCacheSettingsSchema = z.object({
+  systemPrompt: z.boolean().optional(),
+  attachments: z.boolean().optional(),
+  branchPrefix: z.boolean().optional(),
+})
+
+// JSON Schema the reply must conform to, kept as the text the user entered
+export const StructuredOutputSettingsSchema = z.object({
+  schema: z.string(),
+})
+
 export const SessionSettingsSchema = GlobalSessionSettingsSchema.extend({
   provider: z.string().optional().catch(undefined),
   modelId: z.string().optional().catch(undefined),
   dalleStyle: z.enum(['vivid', 'natural']).optional().catch('vivid'),
   imageGenerateNum: z.number().optional().catch(1),
   providerOptions: ProviderOptionsSchema.optional().catch(undefined),
+  fallbackModels: z.array(FallbackModelSchema).optional().catch(undefined), // overrides the global chain, [] disables it
+  promptCache: PromptCacheSettingsSchema.optional().catch(undefined),
+  structuredOutput: StructuredOutputSettingsSchema.optional().catch(undefined),
 })
 
 const ChatboxAILicenseDetailSchema = z.object({
@@ -136,6 +165,21 @@ const ShortcutSendValueSchema = z.enum(shortcutSendValues as [string, ...string[
 export const shortcutToggleWindowValues = ['', 'Alt+`', 'Alt+Space', 'Ctrl+Alt+Space', 'Ctrl+Space']
 const ShortcutToggleWindowValueSchema = z.enum(shortcutToggleWindowValues as [string, ...string[]])
 
+// Selectable keys of the conversation tree shortcuts, arrow and vim style, '' disables the binding
+export const shortcutTreeValues = {
+  treeNavParent: ['', 'up', 'k'],
+  treeNavChild: ['', 'down', 'j'],
+  treeNavPrevSibling: ['', 'left', 'h'],
+  treeNavNextSibling: ['', 'right', 'l'],
+  treeOpenDetail: ['', 'enter', 'space', 'o'],
+  treeEditMessage: ['', 'e', 'i', 'F2'],
+  treeRegenerate: ['', 'r', 'shift+r'],
+  treeCreateBranch: ['', 'b', 'n'],
+  treeDeleteNode: ['', 'd', 'delete', 'backspace'],
+  treeQuoteNode: ['', 'q', 'y'],
+  treeShowShortcuts: ['', '?', 'F1'],
+}
+
 const ShortcutSettingSchema = z.object({
   quickToggle: ShortcutToggleWindowValueSchema,
   inputBoxFocus: z.string(),
@@ -152,6 +196,17 @@ const ShortcutSettingSchema = z.object({
   optionSelect: z.string(),
   inputBoxSendMessage: ShortcutSendValueSchema,
   inputBoxSendMessageWithoutResponse: ShortcutSendValueSchema,
+  treeNavParent: z.string(),
+  treeNavChild: z.string(),
+  treeNavPrevSibling: z.string(),
+  treeNavNextSibling: z.string(),
+  treeOpenDetail: z.string(),
+  treeEditMessage: z.string(),
+  treeRegenerate: z.string(),
+  treeCreateBranch: z.string(),
+  treeDeleteNode: z.string(),
+  treeQuoteNode: z.string(),
+  treeShowShortcuts: z.string(),
 })
 
 const ExtensionSettingsSchema = z.object({
@@ -259,6 +314,7 @@ export const SettingsSchema = GlobalSessionSettingsSchema.extend({
     })
     .optional()
     .catch(undefined),
+  fallbackModels: z.array(FallbackModelSchema).optional().catch(undefined),
 
   // chatboxai
   licenseKey: z.string().optional(),
@@ -320,6 +376,7 @@ export const SettingsSchema = GlobalSessionSettingsSchema.extend({
   pasteLongTextAsAFile: z.boolean().default(true), // 是否将长文本粘贴为文件
 
   autoGenerateTitle: z.boolean().default(true),
+  autoGenerateBranchSummaries: z.boolean().default(false), // 是否在后台为树形图的分支生成标题和摘要
 
   autoLaunch: z.boolean().default(false),
   autoUpdate: z.boolean().default(true), // 是否自动检查更新
@@ -335,7 +392,11 @@ export const SettingsSchema = GlobalSessionSettingsSchema.extend({
 export type ProviderInfo = (ProviderBaseInfo | CustomProviderBaseInfo) & ProviderSettings
 
 export type SessionSettings = z.infer<typeof SessionSettingsSchema>
+export type FallbackModel = z.infer<typeof FallbackModelSchema>
+export type PromptCacheSettings = z.infer<typeof PromptCacheSettingsSchema>
+export type StructuredOutputSettings = z.infer<typeof StructuredOutputSettingsSchema>
 export type Settings = z.infer<typeof SettingsSchema>
+export type ModelPricing = z.infer<typeof ModelPricingSchema>
 export type ProviderModelInfo = z.infer<typeof ProviderModelInfoSchema>
 export type ProviderBaseInfo = z.infer<typeof ProviderBaseInfoSchema>
 export type ProviderSettings = z.infer<typeof ProviderSettingsSchema>